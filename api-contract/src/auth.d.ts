@@ -0,0 +1,68 @@
+// /auth routes: popup verification flows per provider
+// GET /auth/:provider/start redirects OAuth providers to their consent page; the callback
+// page posts an OAuthPopupMessage to the opener. Wallet providers answer with JSON.
+
+import type { VerificationResult } from './common.js';
+
+/**
+ * GET /auth/:provider/start
+ */
+export interface AuthStartQuery {
+  walletId?: string;
+  passportId?: string; // Former name of walletId; one of both is required
+}
+
+/**
+ * GET /auth/evm/start, GET /auth/solana/start
+ */
+export interface WalletAuthStartResponse {
+  sessionId: string;
+  walletId: string;
+  passportId: string;
+  provider: string;
+  message: string;
+}
+
+/**
+ * Message the callback popup posts to window.opener
+ */
+export type OAuthPopupMessage =
+  | { type: 'oauth-complete'; provider: string; result: VerificationResult }
+  | { type: 'oauth-error'; provider: string; error: string };
+
+/**
+ * GET /auth/:provider/status
+ */
+export interface AuthStatusQuery {
+  session: string;
+}
+
+export type VerificationSessionStatus = 'pending' | 'verified' | 'failed';
+
+/**
+ * Result stored on a session by flows that finish outside the popup (Telegram bot, EVM callback)
+ */
+export interface VerificationSessionResult extends VerificationResult {
+  verified: boolean;
+  userId?: string;
+  username?: string;
+  profile?: Record<string, string | number | null | undefined>;
+}
+
+export interface VerificationSession {
+  provider: string;
+  session: string;
+  status: VerificationSessionStatus;
+  result: VerificationSessionResult | null;
+}
+
+/**
+ * POST /auth/solana/callback (responds with VerificationResult),
+ * POST /auth/evm/callback (responds with VerificationSession)
+ */
+export interface WalletCallbackRequest {
+  state: string; // Session ID from the start response
+  address: string;
+  signature: string;
+  message: string;
+}
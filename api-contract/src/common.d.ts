@@ -0,0 +1,69 @@
+// Types shared by all routes
+
+/**
+ * ISO 8601 date string
+ */
+export type Timestamp = string;
+
+/**
+ * One scoring rule of a provider and whether the account met it
+ */
+export interface ScoreCriterion {
+  condition: string;
+  points: number;
+  description?: string;
+  achieved?: boolean;
+  partialPoints?: number; // Points awarded when the rule was only partly met
+}
+
+/**
+ * Issuer signature that lets `recipient` claim `points` for a commitment on-chain
+ * Signed value: the Attestation struct of src/main.leo (commitment, platform_id, points, expires_at, recipient).
+ */
+export interface Attestation {
+  platformId: number;
+  points: number; // Whole points, as passed to claim_verification / claim_point
+  expiresAt: number; // Last Aleo block height the claim is accepted at
+  recipient: string; // Aleo address that has to send the claim
+  issuer: string; // Aleo address of the signing key, registered with add_issuer
+  signature: string; // sign1...
+}
+
+/**
+ * Score and commitment of a verified account (no personal data)
+ */
+export interface VerificationResult {
+  provider: string;
+  score: number;
+  maxScore: number;
+  criteria: ScoreCriterion[];
+  commitment: string; // Aleo field element under the backend's commitment key; the low byte is the key version (0 = legacy)
+  attestation?: Attestation; // Missing when the backend has no issuer key or the wallet is no Aleo address
+}
+
+/**
+ * A request field that failed schema validation
+ */
+export interface ValidationIssue {
+  path: string; // e.g. "blob.iv"
+  message: string;
+}
+
+/**
+ * Body of every JSON error response
+ */
+export interface ErrorResponse {
+  error: string;
+  hint?: string;
+  errorType?: string;
+  details?: string; // Stack trace, development only
+  issues?: ValidationIssue[]; // Set on 400 responses from request validation
+}
+
+/**
+ * GET /health
+ */
+export interface HealthResponse {
+  status: 'ok';
+  timestamp: Timestamp;
+}
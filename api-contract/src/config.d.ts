@@ -0,0 +1,37 @@
+// /config routes: which providers the deployment has credentials for, scoring rules
+
+import type { Timestamp } from './common.js';
+import type { ScoringRuleSet } from './scoring.js';
+
+export interface ProviderConfigStatus {
+  configured: boolean;
+  missing: string[]; // Names of missing environment variables
+  error?: string;
+}
+
+/**
+ * GET /config/status
+ */
+export interface ConfigStatusResponse {
+  status: 'ok';
+  providers: Record<string, ProviderConfigStatus>;
+  summary: {
+    total: number;
+    configured: number;
+    missing: number;
+  };
+  urls: {
+    backend: string;
+    frontend: string;
+  };
+  timestamp: Timestamp;
+}
+
+/**
+ * GET /config/scoring
+ * Effective scoring rules per provider: registry defaults with the deployment's overrides
+ */
+export interface ScoringRulesResponse {
+  rules: Record<string, ScoringRuleSet>;
+  timestamp: Timestamp;
+}
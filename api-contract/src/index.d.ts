@@ -0,0 +1,16 @@
+// ZK Persona backend API contract
+// Request and response bodies of every backend route. The backend validates requests
+// against zod schemas typed with these interfaces (backend/src/schemas) and types its
+// responses with them; the frontend imports them type-only (frontend/src/utils/backendAPI.ts).
+// The platform registry and the scoring rules engine are runtime exports (index.js).
+// openapi.json describes the same routes as an OpenAPI document (backend: npm run openapi).
+// Timestamps are ISO 8601 strings unless documented otherwise.
+
+export * from './common.js';
+export * from './verify.js';
+export * from './auth.js';
+export * from './wallet.js';
+export * from './user.js';
+export * from './config.js';
+export * from './scoring.js';
+export * from './platforms.js';
@@ -0,0 +1,5 @@
+// ZK Persona backend API contract: runtime exports (types: index.d.ts)
+// The platform registry and the scoring rules engine, shared by backend and frontend.
+
+export * from './platforms.js';
+export * from './scoring.js';
@@ -0,0 +1,47 @@
+// Platform registry shared by backend and frontend (data: platforms.js)
+// Provider names, contract platform_id (u8) and default scoring rules are declared here
+// only. The frontend adds display names, auth flows, expiry policies and icons
+// (frontend/src/lib/platforms.ts); the backend scores and signs attestations with it.
+
+import type { ScoringRuleSet } from './scoring.js';
+
+/**
+ * Provider name of a registered platform
+ */
+export type RegisteredProvider =
+  | 'discord'
+  | 'twitter'
+  | 'github'
+  | 'telegram'
+  | 'ethereum'
+  | 'solana'
+  | 'google'
+  | 'steam'
+  | 'gemini';
+
+/**
+ * Registry entry
+ */
+export interface RegisteredPlatform {
+  id: RegisteredProvider;  // Provider name, e.g. "discord" (same as the registry key)
+  platformId: number;      // u8 platform_id in the contract (0 = not claimable on-chain)
+  scoring: ScoringRuleSet; // Default scoring rules (overrides: GET /config/scoring)
+  aliases?: string[];      // Other provider names resolving to this platform (e.g. "evm")
+}
+
+export const PLATFORMS: Record<RegisteredProvider, RegisteredPlatform>;
+
+/**
+ * Contract platform_id by provider name and alias (claimable platforms only)
+ */
+export const PLATFORM_IDS: Record<string, number>;
+
+/**
+ * Normalize a provider name for lookups ("ETH-Wallet" -> "ethwallet")
+ */
+export function normalizeProvider(provider: string): string;
+
+/**
+ * Find a platform by provider name or alias
+ */
+export function findPlatform(provider: string): RegisteredPlatform | null;
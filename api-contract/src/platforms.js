@@ -0,0 +1,144 @@
+// Platform registry shared by backend and frontend (types: platforms.d.ts)
+// platform_id must stay below 16 (Passport.platform_counts in src/main.leo). Providers
+// that resolve to the same platform share its platform_id through aliases.
+
+export const PLATFORMS = {
+  discord: {
+    id: 'discord',
+    platformId: 1,
+    scoring: {
+      maxScore: 2.8,
+      rules: [
+        { id: 'account_exists', condition: 'Account exists', description: 'Active Discord account', field: 'id', comparator: 'exists', points: 1.0 },
+        { id: 'email_verified', condition: 'Email verified', description: 'Email address is confirmed', field: 'verified', comparator: 'truthy', points: 0.8 },
+        { id: 'guilds_5', condition: '≥ 5 server memberships', description: 'Active Discord user with multiple server memberships', field: 'guildCount', comparator: 'gte', threshold: 5, points: 1.0 }
+      ]
+    },
+  },
+  twitter: {
+    id: 'twitter',
+    platformId: 2,
+    scoring: {
+      maxScore: 30,
+      rules: [
+        { id: 'account_exists', condition: 'Account exists', description: 'Active Twitter/X account', field: 'id', comparator: 'exists', points: 5 },
+        { id: 'account_age_2y', condition: 'Account age ≥ 2 years', description: 'Account created more than 2 years ago', field: 'accountAgeYears', comparator: 'gte', threshold: 2, points: 10, tier: 'account_age' },
+        { id: 'account_age_1y', condition: 'Account age ≥ 1 year', description: 'Account created more than 1 year ago', field: 'accountAgeYears', comparator: 'gte', threshold: 1, points: 5, tier: 'account_age' },
+        { id: 'tweets_100', condition: '≥ 100 tweets', description: 'Active account with 100+ tweets', field: 'tweetCount', comparator: 'gte', threshold: 100, points: 5 },
+        { id: 'followers_10', condition: '≥ 10 followers', description: 'Account has followers', field: 'followersCount', comparator: 'gte', threshold: 10, points: 5 }
+      ]
+    },
+  },
+  github: {
+    id: 'github',
+    platformId: 3,
+    scoring: {
+      maxScore: 25,
+      rules: [
+        { id: 'account_exists', condition: 'Account exists', description: 'Active GitHub account', field: 'id', comparator: 'exists', points: 5 },
+        { id: 'repos_10', condition: '≥ 10 public repositories', description: 'Active open source contributor', field: 'publicRepos', comparator: 'gte', threshold: 10, points: 10, tier: 'repos' },
+        { id: 'repos_5', condition: '≥ 5 public repositories', description: 'Has public repositories', field: 'publicRepos', comparator: 'gte', threshold: 5, points: 5, tier: 'repos' },
+        { id: 'stars_50', condition: '≥ 50 total stars', description: 'Repositories have received stars', field: 'totalStars', comparator: 'gte', threshold: 50, points: 5 },
+        { id: 'account_age_2y', condition: 'Account age ≥ 2 years', description: 'Long-term GitHub user', field: 'accountAgeYears', comparator: 'gte', threshold: 2, points: 5 }
+      ]
+    },
+  },
+  telegram: {
+    id: 'telegram',
+    platformId: 4,
+    scoring: {
+      maxScore: 10,
+      rules: [
+        { id: 'account_exists', condition: 'Account exists', description: 'Active Telegram account', field: 'id', comparator: 'exists', points: 3.0 },
+        { id: 'username', condition: 'Username set', description: 'Telegram username is configured', field: 'username', comparator: 'exists', points: 2.0 },
+        { id: 'photo', condition: 'Profile photo', description: 'Profile photo is set', field: 'hasPhoto', comparator: 'truthy', points: 2.0 },
+        { id: 'account_age_1y', condition: 'Account age ≥ 1 year', description: 'Long-term Telegram user', field: 'accountAgeYears', comparator: 'gte', threshold: 1, points: 3.0 }
+      ]
+    },
+  },
+  // platform_id 5 was TikTok (removed)
+  ethereum: {
+    id: 'ethereum',
+    platformId: 6,
+    scoring: {
+      maxScore: 35,
+      rules: [
+        { id: 'balance_001', condition: 'Balance ≥ 0.01 ETH', description: 'Wallet has sufficient balance', field: 'balanceEth', comparator: 'gte', threshold: 0.01, points: 10, tier: 'balance' },
+        { id: 'balance_any', condition: 'Has ETH balance', description: 'Wallet has some balance', field: 'balanceEth', comparator: 'gt', threshold: 0, points: 5, tier: 'balance' },
+        { id: 'tx_10', condition: '≥ 10 transactions', description: 'Active wallet with transaction history', field: 'txCount', comparator: 'gte', threshold: 10, points: 10, tier: 'transactions' },
+        { id: 'tx_5', condition: '≥ 5 transactions', description: 'Has transaction history', field: 'txCount', comparator: 'gte', threshold: 5, points: 5, tier: 'transactions' },
+        { id: 'wallet_age_1y', condition: 'Wallet age ≥ 1 year', description: 'Long-term wallet user', field: 'walletAgeYears', comparator: 'gte', threshold: 1, points: 5 },
+        { id: 'signature', condition: 'Wallet ownership verified', description: 'Message signature confirms wallet control', field: 'signature', comparator: 'exists', points: 5 }
+      ]
+    },
+    aliases: ['eth_wallet', 'evm'],
+  },
+  solana: {
+    id: 'solana',
+    platformId: 7,
+    scoring: {
+      maxScore: 40,
+      rules: [
+        { id: 'signature', condition: 'Wallet connected & signature verified', description: 'Phantom/Solflare ownership verified', field: 'verified', comparator: 'truthy', points: 5 },
+        { id: 'balance_1', condition: 'Tier 2: Balance ≥ 1.0 SOL', description: 'Wallet has sufficient balance', field: 'balanceSol', comparator: 'gte', threshold: 1.0, points: 5 },
+        { id: 'balance_01', condition: 'Tier 1: Balance ≥ 0.1 SOL', description: 'Wallet has minimum balance', field: 'balanceSol', comparator: 'gte', threshold: 0.1, points: 5 },
+        { id: 'tx_100', condition: 'Tier 2: ≥ 100 transactions', description: 'Active wallet with transaction history', field: 'txCount', comparator: 'gte', threshold: 100, points: 5 },
+        { id: 'tx_20', condition: 'Tier 1: ≥ 20 transactions', description: 'Has transaction history', field: 'txCount', comparator: 'gte', threshold: 20, points: 5 },
+        { id: 'wallet_age_1y', condition: 'Wallet age ≥ 1 year', description: 'Long-term wallet user', field: 'walletAgeDays', comparator: 'gte', threshold: 365, points: 10 },
+        { id: 'recent_activity', condition: 'Recent activity (last 30 days)', description: 'Wallet has recent transactions', field: 'hasRecentActivity', comparator: 'truthy', points: 5 }
+      ]
+    },
+  },
+  google: {
+    id: 'google',
+    platformId: 8,
+    scoring: {
+      maxScore: 15,
+      rules: [
+        { id: 'account_exists', condition: 'Account exists and is active', description: 'Verified Google account', field: 'id', comparator: 'exists', points: 5 },
+        { id: 'email_verified', condition: 'Email is verified', description: 'Email address is confirmed', field: 'emailVerified', comparator: 'truthy', points: 5 },
+        { id: 'account_age_1y', condition: 'Account age ≥ 1 year', description: 'Long-term account', field: 'accountAgeYears', comparator: 'gte', threshold: 1, points: 5 }
+      ]
+    },
+  },
+  steam: {
+    id: 'steam',
+    platformId: 9,
+    scoring: {
+      maxScore: 2.8,
+      rules: [
+        { id: 'account_exists', condition: 'Account exists', description: 'Active Steam account', field: 'id', comparator: 'exists', points: 1.0 },
+        { id: 'public_profile', condition: 'Public profile', description: 'Profile is publicly visible', field: 'communityVisibilityState', comparator: 'eq', threshold: 3, points: 0.8 },
+        { id: 'account_age_1y', condition: 'Account age ≥ 1 year', description: 'Long-term Steam user', field: 'accountAgeYears', comparator: 'gte', threshold: 1, points: 1.0 }
+      ]
+    },
+  },
+  gemini: {
+    id: 'gemini',
+    platformId: 0,
+    scoring: {
+      maxScore: 50,
+      rules: [
+        { id: 'turing_test', condition: 'Passed Turing Test', description: 'Gemini AI confirmed human responses', field: 'answerCount', comparator: 'gte', threshold: 1, points: 50 }
+      ]
+    },
+  },
+};
+
+export const PLATFORM_IDS = Object.fromEntries(
+  Object.values(PLATFORMS)
+    .filter(platform => platform.platformId > 0)
+    .flatMap(platform => [platform.id, ...(platform.aliases ?? [])].map(name => [name, platform.platformId]))
+);
+
+export function normalizeProvider(provider) {
+  return provider.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function findPlatform(provider) {
+  const normalized = normalizeProvider(provider);
+  return Object.values(PLATFORMS).find(platform =>
+    normalizeProvider(platform.id) === normalized ||
+    platform.aliases?.some(alias => normalizeProvider(alias) === normalized)
+  ) ?? null;
+}
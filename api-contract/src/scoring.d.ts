@@ -0,0 +1,91 @@
+// Scoring rules engine shared by backend and frontend (implementation: scoring.js)
+// Each platform declares its rules once in the platform registry (platforms.js). The
+// backend scores verifications with them and signs the points into attestations; the
+// frontend loads the same effective rules from GET /config/scoring.
+
+export type ScoringComparator = 'exists' | 'truthy' | 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * One scoring criterion
+ */
+export interface ScoringRule {
+  id: string;              // Stable id, used by overrides (e.g. "account_age_2y")
+  condition: string;       // Short label, e.g. "Account age ≥ 2 years"
+  description: string;
+  field: string;           // Path into the facts, e.g. "public_metrics.tweet_count"
+  comparator: ScoringComparator;
+  threshold?: number | string | boolean;
+  points: number;
+  tier?: string;           // Rules of one tier are exclusive: only the best matching rule scores
+}
+
+/**
+ * Scoring rules of a platform
+ */
+export interface ScoringRuleSet {
+  maxScore: number;
+  rules: ScoringRule[];
+}
+
+/**
+ * Criterion as shown to the user (VerificationResult.criteria in the frontend)
+ */
+export interface VerificationCriteria {
+  condition: string;
+  points: number;
+  description: string;
+}
+
+/**
+ * Outcome of one rule
+ */
+export interface CriterionExplanation extends VerificationCriteria {
+  id: string;
+  met: boolean;            // Condition holds for the facts
+  awarded: number;         // Points counted (0 if not met or outranked in its tier)
+  actual: unknown;         // Fact value the rule looked at
+}
+
+/**
+ * Result of evaluating a rule set
+ */
+export interface ScoringEvaluation {
+  score: number;
+  criteria: VerificationCriteria[];     // Criteria that scored
+  explanations: CriterionExplanation[]; // Every rule, in declaration order
+}
+
+/**
+ * Partial rule changes per platform
+ * e.g. { "github": { "maxScore": 30, "rules": { "repos_10": { "points": 12 } } } }
+ */
+export type ScoringOverrides = Record<string, {
+  maxScore?: number;
+  rules?: Record<string, Partial<Pick<ScoringRule, 'points' | 'threshold'>>>;
+}>;
+
+/**
+ * Evaluate a rule set against provider facts
+ * Score = min(maxScore, sum of met rules), counting only the best met rule per tier.
+ */
+export function evaluateRules(ruleSet: ScoringRuleSet, facts: unknown): ScoringEvaluation;
+
+/**
+ * Apply overrides to a rule set (unknown rule ids are ignored)
+ */
+export function applyScoringOverrides(
+  ruleSet: ScoringRuleSet,
+  override: ScoringOverrides[string] | undefined
+): ScoringRuleSet;
+
+/**
+ * Parse overrides JSON (returns {} and warns if invalid)
+ *
+ * @param source - Name of the setting, for the warning (e.g. "SCORING_RULES")
+ */
+export function parseScoringOverrides(json: string | undefined, source?: string): ScoringOverrides;
+
+/**
+ * Years elapsed since a date (undefined if there is no valid date)
+ */
+export function yearsSince(date: string | number | Date | undefined, now?: number): number | undefined;
@@ -0,0 +1,104 @@
+// Scoring rules engine shared by backend and frontend (types: scoring.d.ts)
+
+/**
+ * Read a value by dotted path
+ */
+function getFieldValue(facts, field) {
+  return field.split('.').reduce((value, key) => (value == null ? undefined : value[key]), facts);
+}
+
+function ruleMatches(rule, actual) {
+  switch (rule.comparator) {
+    case 'exists':
+      return actual !== undefined && actual !== null && actual !== '';
+    case 'truthy':
+      return Boolean(actual);
+    case 'eq':
+      return actual === rule.threshold;
+    default: {
+      if (typeof actual !== 'number' || typeof rule.threshold !== 'number' || Number.isNaN(actual)) {
+        return false;
+      }
+      if (rule.comparator === 'gt') return actual > rule.threshold;
+      if (rule.comparator === 'gte') return actual >= rule.threshold;
+      if (rule.comparator === 'lt') return actual < rule.threshold;
+      return actual <= rule.threshold;
+    }
+  }
+}
+
+export function evaluateRules(ruleSet, facts) {
+  const results = ruleSet.rules.map(rule => {
+    const actual = getFieldValue(facts, rule.field);
+    return { rule, actual, met: ruleMatches(rule, actual) };
+  });
+
+  // Best met rule of each tier
+  const tierWinners = new Map();
+  for (const { rule, met } of results) {
+    if (!met || !rule.tier) continue;
+    const winner = tierWinners.get(rule.tier);
+    if (!winner || rule.points > winner.points) {
+      tierWinners.set(rule.tier, rule);
+    }
+  }
+
+  const explanations = results.map(({ rule, actual, met }) => ({
+    id: rule.id,
+    condition: rule.condition,
+    description: rule.description,
+    points: rule.points,
+    met,
+    awarded: met && (!rule.tier || tierWinners.get(rule.tier) === rule) ? rule.points : 0,
+    actual,
+  }));
+
+  const total = explanations.reduce((sum, explanation) => sum + explanation.awarded, 0);
+
+  return {
+    score: Math.min(Math.round(total * 100) / 100, ruleSet.maxScore),
+    criteria: explanations
+      .filter(explanation => explanation.awarded > 0)
+      .map(({ condition, points, description }) => ({ condition, points, description })),
+    explanations,
+  };
+}
+
+export function applyScoringOverrides(ruleSet, override) {
+  if (!override) {
+    return ruleSet;
+  }
+
+  return {
+    maxScore: override.maxScore ?? ruleSet.maxScore,
+    rules: ruleSet.rules.map(rule => ({ ...rule, ...override.rules?.[rule.id] })),
+  };
+}
+
+export function parseScoringOverrides(json, source = 'scoring overrides') {
+  if (!json) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object keyed by platform');
+    }
+    return parsed;
+  } catch (error) {
+    console.warn(`[Scoring] Ignoring invalid ${source}:`, error.message);
+    return {};
+  }
+}
+
+export function yearsSince(date, now = Date.now()) {
+  if (date === undefined || date === null || date === '') {
+    return undefined;
+  }
+  const time = new Date(date).getTime();
+  if (Number.isNaN(time)) {
+    return undefined;
+  }
+  return (now - time) / (1000 * 60 * 60 * 24 * 365);
+}
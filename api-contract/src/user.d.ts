@@ -0,0 +1,92 @@
+// /user routes: scores, stored verifications and the encrypted cross-device sync state
+
+import type { ErrorResponse, ScoreCriterion, Timestamp } from './common.js';
+import type { VerificationSummary } from './verify.js';
+
+/**
+ * :id of every /user route
+ */
+export interface UserParams {
+  id: string;
+}
+
+/**
+ * GET /user/:id/score
+ */
+export interface UserScoreResponse {
+  userId: string;
+  totalScore: number;
+  verifiedCount: number;
+  totalProviders: number;
+  breakdown: Record<string, { score: number; maxScore: number; verifiedAt: Timestamp | null }>;
+  timestamp: Timestamp;
+}
+
+/**
+ * GET /user/:id/verifications
+ */
+export interface UserVerificationsResponse {
+  userId: string;
+  verifications: Array<VerificationSummary & { criteria: ScoreCriterion[] }>;
+  count: number;
+}
+
+/**
+ * DELETE /user/:id/verifications/:provider
+ */
+export interface UserVerificationParams extends UserParams {
+  provider: string;
+}
+
+export interface DeleteVerificationResponse {
+  userId: string;
+  provider: string;
+  deleted: true;
+  message: string;
+}
+
+/**
+ * AES-GCM ciphertext of the sync state (all strings base64); only the wallet can decrypt it
+ */
+export interface EncryptedSyncBlob {
+  version: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+/**
+ * End-to-end encrypted verification state for cross-device sync
+ * :id of the sync routes is a 64 hex character sync ID the wallet derives.
+ */
+export interface EncryptedSyncState {
+  blob: EncryptedSyncBlob;
+  updatedAt: number; // Unix milliseconds, set by the client
+}
+
+/**
+ * GET /user/:id/verifications/sync
+ */
+export interface SyncStateResponse extends EncryptedSyncState {
+  userId: string;
+}
+
+/**
+ * PUT /user/:id/verifications/sync
+ */
+export interface PutSyncStateRequest extends EncryptedSyncState {
+  previousUpdatedAt: number | null; // updatedAt the client merged with; null if none
+  writeToken: string; // 64 hex characters; the first write sets it, later writes must match
+}
+
+export interface PutSyncStateResponse {
+  userId: string;
+  updatedAt: number;
+}
+
+/**
+ * 409 from PUT /user/:id/verifications/sync: another device stored a newer state
+ */
+export interface SyncConflictResponse extends ErrorResponse {
+  updatedAt: number | null;
+}
@@ -0,0 +1,86 @@
+// /verify routes: unified verification start, stored verifications, wallet verification
+
+import type { Attestation, ScoreCriterion, Timestamp } from './common.js';
+
+/**
+ * POST /verify
+ */
+export interface StartVerificationRequest {
+  provider: string;
+  userId: string;
+}
+
+export type StartVerificationResponse =
+  | {
+      status: 'already_verified';
+      provider: string;
+      score: number;
+      maxScore: number;
+      verifiedAt: Timestamp | null;
+    }
+  | {
+      status: 'redirect_required';
+      provider: string;
+      redirectUrl: string;
+    };
+
+/**
+ * Stored verification of one provider, without its commitment
+ */
+export interface VerificationSummary {
+  provider: string;
+  score: number;
+  maxScore: number;
+  status: string;
+  verifiedAt: Timestamp | null;
+  expiresAt: Timestamp | null;
+}
+
+/**
+ * GET /verify/:userId/:provider
+ */
+export interface VerificationParams {
+  userId: string;
+  provider: string;
+}
+
+export interface StoredVerificationResponse extends VerificationSummary {
+  userId: string;
+  metadata: { commitment: string | null } | null;
+}
+
+/**
+ * GET /verify/:userId
+ */
+export interface VerificationUserParams {
+  userId: string;
+}
+
+export interface VerificationListResponse {
+  userId: string;
+  totalScore: number;
+  verifications: VerificationSummary[];
+  count: number;
+}
+
+/**
+ * POST /verify/wallet
+ * Signature check and scoring in one call; nothing is stored.
+ */
+export type WalletType = 'evm' | 'solana';
+
+export interface WalletVerificationRequest {
+  type: WalletType;
+  address: string;
+  signature: string;
+  message: string;
+  walletId?: string;
+}
+
+export interface WalletVerificationResponse {
+  score: number;
+  maxScore: number;
+  criteria: ScoreCriterion[];
+  commitment: string;
+  attestation?: Attestation;
+}
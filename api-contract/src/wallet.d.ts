@@ -0,0 +1,46 @@
+// /wallet routes: EVM wallet verification with a server-issued message
+
+import type { VerificationResult } from './common.js';
+import type { VerificationSessionStatus } from './auth.js';
+
+/**
+ * POST /wallet/connect
+ */
+export interface WalletConnectRequest {
+  userId: string;
+  walletAddress: string;
+}
+
+export interface WalletConnectResponse {
+  sessionId: string;
+  message: string; // To be signed by walletAddress
+  domain: string;
+  nonce: string;
+  walletAddress: string;
+}
+
+/**
+ * POST /wallet/verify
+ */
+export interface WalletSignatureRequest {
+  sessionId: string;
+  signature: string;
+}
+
+export interface WalletSignatureResponse extends VerificationResult {
+  success: true;
+}
+
+/**
+ * GET /wallet/status/:sessionId
+ */
+export interface WalletSessionParams {
+  sessionId: string;
+}
+
+export interface WalletSessionResponse {
+  sessionId: string;
+  status: VerificationSessionStatus;
+  provider: string;
+  data: Record<string, unknown>;
+}
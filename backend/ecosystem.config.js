@@ -1,11 +1,12 @@
 // PM2 ecosystem configuration for production
 // Used to run backend continuously on VPS
 // PM2 ecosystem.config.js uses CommonJS (even if project is ES modules)
+// Runs the compiled server: npm run build first (pm2:start does)
 
 module.exports = {
   apps: [{
     name: 'zkpersona-backend',
-    script: 'src/server.js',
+    script: 'dist/server.js',
     instances: 1,
     autorestart: true,
     watch: false,
@@ -1,12 +1,21 @@
 // Centralized configuration management for all OAuth providers
 // Loads from environment variables and provides validation
 
+import type { ProviderConfigStatus } from '@zkpersona/api-contract';
+
+export interface ProviderConfig {
+  clientId?: string;
+  clientSecret?: string;
+  apiKey?: string;
+  redirectUri: string;
+}
+
 /**
  * Get configuration for a specific provider
  * Returns { clientId, clientSecret, redirectUri } or throws error if not configured
  */
-export const getProviderConfig = (provider) => {
-  const configs = {
+export const getProviderConfig = (provider: string): ProviderConfig => {
+  const configs: Record<string, ProviderConfig> = {
     google: {
       clientId: process.env.GOOGLE_CLIENT_ID,
       clientSecret: process.env.GOOGLE_CLIENT_SECRET,
@@ -57,9 +66,9 @@ export const getProviderConfig = (provider) => {
  * Get status of all provider configurations
  * Returns object with provider names as keys and { configured: boolean, missing: string[] }
  */
-export const getProviderStatus = () => {
+export const getProviderStatus = (): Record<string, ProviderConfigStatus> => {
   const providers = ['google', 'twitter', 'discord', 'github', 'steam', 'telegram'];
-  const status = {};
+  const status: Record<string, ProviderConfigStatus> = {};
   
   providers.forEach(provider => {
     try {
@@ -81,8 +90,8 @@ export const getProviderStatus = () => {
         getProviderConfig(provider);
         status[provider] = { configured: true, missing: [] };
       }
-    } catch (error) {
-      const missing = [];
+    } catch (error: any) {
+      const missing: string[] = [];
       
       if (provider === 'steam') {
         if (!process.env.STEAM_API_KEY) missing.push('STEAM_API_KEY');
@@ -108,7 +117,7 @@ export const getProviderStatus = () => {
 /**
  * Validate redirect URI to prevent open redirects
  */
-export const validateRedirectUri = (uri) => {
+export const validateRedirectUri = (uri: string | undefined): boolean => {
   if (!uri) return false;
   
   try {
@@ -129,14 +138,14 @@ export const validateRedirectUri = (uri) => {
 /**
  * Get backend base URL
  */
-export const getBackendUrl = () => {
+export const getBackendUrl = (): string => {
   return process.env.BACKEND_URL || process.env.VITE_BACKEND_URL || 'http://localhost:3001';
 };
 
 /**
  * Get frontend URL
  */
-export const getFrontendUrl = () => {
+export const getFrontendUrl = (): string => {
   return process.env.FRONTEND_URL || 'http://localhost:5173';
 };
 
@@ -6,9 +6,100 @@ const { Pool } = pg;
 import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
+import type {
+  EncryptedSyncBlob,
+  EncryptedSyncState,
+  ScoreCriterion,
+  VerificationSessionResult,
+  VerificationSessionStatus
+} from '@zkpersona/api-contract';
+
+/**
+ * Metadata column of a verification (no personal data)
+ */
+export interface VerificationMetadata {
+  commitment?: string | null;
+  score?: number;
+  maxScore?: number;
+  criteria?: ScoreCriterion[];
+  result?: { criteria?: ScoreCriterion[] }; // Older Discord rows
+  blob?: EncryptedSyncBlob; // Encrypted sync row, see SYNC_PROVIDER
+  updatedAt?: number;
+}
+
+/**
+ * Stored verification; dates are strings when restored from local_db.json
+ */
+export interface VerificationRecord {
+  userId: string;
+  provider: string;
+  commitment?: string | null;
+  score: number;
+  maxScore: number;
+  status: string;
+  metadata: VerificationMetadata;
+  criteria?: ScoreCriterion[];
+  accessTokenHash?: string | null;
+  verifiedAt: Date | string | null;
+  expiresAt?: Date | string | null;
+}
+
+export interface SaveVerificationData {
+  commitment?: string | null;
+  score?: number;
+  maxScore?: number;
+  status?: string;
+  metadata?: VerificationMetadata;
+  accessTokenHash?: string | null;
+  expiresAt?: Date | string | number | null;
+}
+
+export interface StoredSyncState extends EncryptedSyncState {
+  writeTokenHash: string;
+}
+
+/**
+ * Provider-specific state of a verification session
+ */
+export interface SessionStateData {
+  walletId?: string;
+  passportId?: string;
+  status?: string;
+  result?: VerificationSessionResult;
+  telegramUserId?: number | string;
+  telegramUsername?: string;
+  walletAddress?: string;
+  message?: string;
+  [key: string]: unknown;
+}
+
+export interface SessionRecord {
+  sessionId: string;
+  provider: string;
+  userId: string | null;
+  status: VerificationSessionStatus;
+  stateData: SessionStateData;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface SessionUpdate {
+  status?: VerificationSessionStatus;
+  stateData?: SessionStateData;
+}
+
+export interface ProfileRecord {
+  userId?: string;
+  discordId?: string;
+  discordUsername?: string;
+  discordDiscriminator?: string;
+  discordNickname?: string;
+  discordAvatarUrl?: string;
+  discordProfileLink?: string;
+}
 
 // Database connection pool
-let pool = null;
+let pool: pg.Pool | null = null;
 
 // Local DB file for development persistence
 const DB_FILE = path.join(process.cwd(), 'local_db.json');
@@ -16,7 +107,7 @@ const DB_FILE = path.join(process.cwd(), 'local_db.json');
 /**
  * Initialize database connection
  */
-export const initDatabase = async () => {
+export const initDatabase = async (): Promise<void> => {
   const dbUrl = process.env.DATABASE_URL;
   
   if (dbUrl) {
@@ -32,7 +123,7 @@ export const initDatabase = async () => {
       
       // Create tables if they don't exist
       await createTables();
-    } catch (error) {
+    } catch (error: any) {
       console.error('[Database] ❌ PostgreSQL connection failed, using in-memory storage:', error.message);
       pool = null;
       loadLocalDb();
@@ -46,14 +137,14 @@ export const initDatabase = async () => {
 /**
  * Load local JSON database
  */
-const loadLocalDb = () => {
+const loadLocalDb = (): void => {
   try {
     if (fs.existsSync(DB_FILE)) {
       const data = JSON.parse(fs.readFileSync(DB_FILE, 'utf8'));
       if (data.verifications) inMemoryStorage.verifications = new Map(data.verifications);
       if (data.sessions) {
         // Restore dates in sessions
-        const sessions = new Map(data.sessions);
+        const sessions = new Map<string, SessionRecord>(data.sessions);
         for (const [key, session] of sessions.entries()) {
           if (session.createdAt) session.createdAt = new Date(session.createdAt);
           if (session.expiresAt) session.expiresAt = new Date(session.expiresAt);
@@ -64,7 +155,7 @@ const loadLocalDb = () => {
       console.log('[Database] 📂 Loaded local DB from', DB_FILE);
       console.log(`[Database] Stats: ${inMemoryStorage.sessions.size} sessions, ${inMemoryStorage.verifications.size} verifications`);
     }
-  } catch (e) {
+  } catch (e: any) {
     console.error('[Database] ❌ Failed to load local DB:', e.message);
   }
 };
@@ -72,7 +163,7 @@ const loadLocalDb = () => {
 /**
  * Save local JSON database
  */
-const saveLocalDb = () => {
+const saveLocalDb = (): void => {
   if (pool) return; // Don't save if using Postgres
   try {
     const data = {
@@ -81,7 +172,7 @@ const saveLocalDb = () => {
       profiles: Array.from(inMemoryStorage.profiles.entries())
     };
     fs.writeFileSync(DB_FILE, JSON.stringify(data, null, 2));
-  } catch (e) {
+  } catch (e: any) {
     console.error('[Database] ❌ Failed to save local DB:', e.message);
   }
 };
@@ -89,7 +180,7 @@ const saveLocalDb = () => {
 /**
  * Create required database tables
  */
-const createTables = async () => {
+const createTables = async (): Promise<void> => {
   if (!pool) return;
   
   try {
@@ -154,7 +245,7 @@ const createTables = async () => {
     `);
     
     console.log('[Database] ✅ Tables created/verified');
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Database] ❌ Error creating tables:', error.message);
   }
 };
@@ -163,16 +254,16 @@ const createTables = async () => {
  * In-memory storage fallback (when DB not available)
  */
 const inMemoryStorage = {
-  verifications: new Map(),
-  sessions: new Map(),
-  profiles: new Map()
+  verifications: new Map<string, VerificationRecord>(),
+  sessions: new Map<string, SessionRecord>(),
+  profiles: new Map<string, ProfileRecord>()
 };
 
 // Cleanup expired sessions every hour
 setInterval(() => {
   const now = Date.now();
   for (const [id, session] of inMemoryStorage.sessions.entries()) {
-    if (session.expiresAt && session.expiresAt < now) {
+    if (session.expiresAt && session.expiresAt.getTime() < now) {
       inMemoryStorage.sessions.delete(id);
     }
   }
@@ -181,7 +272,11 @@ setInterval(() => {
 /**
  * Save verification result to database
  */
-export const saveVerification = async (userId, provider, data) => {
+export const saveVerification = async (
+  userId: string,
+  provider: string,
+  data: SaveVerificationData
+): Promise<VerificationRecord> => {
   const {
     commitment, // Use commitment instead of providerAccountId
     score = 0,
@@ -194,7 +289,7 @@ export const saveVerification = async (userId, provider, data) => {
   
   // PRIVACY: Only store commitment, score, and minimal metadata (no personal data)
   // Remove any personal identifiers from metadata
-  const sanitizedMetadata = {
+  const sanitizedMetadata: VerificationMetadata = {
     commitment: commitment || null,
     score,
     maxScore,
@@ -202,7 +297,7 @@ export const saveVerification = async (userId, provider, data) => {
     // Remove: email, username, profile, userId, etc.
   };
   
-  const verificationData = {
+  const verificationData: VerificationRecord = {
     userId,
     provider,
     commitment: commitment || null, // Store commitment instead of providerAccountId
@@ -261,7 +356,7 @@ export const saveVerification = async (userId, provider, data) => {
 /**
  * Get verification by user ID and provider
  */
-export const getVerification = async (userId, provider) => {
+export const getVerification = async (userId: string, provider: string): Promise<VerificationRecord | null> => {
   if (pool) {
     const result = await pool.query(`
       SELECT * FROM verifications 
@@ -289,17 +384,17 @@ export const getVerification = async (userId, provider) => {
 };
 
 /**
- * Get all verifications for a user
+ * Get all verifications for a user (without the encrypted sync row, see saveSyncState)
  */
-export const getUserVerifications = async (userId) => {
+export const getUserVerifications = async (userId: string): Promise<VerificationRecord[]> => {
   console.log('[Database] 🔍 Getting verifications for userId:', userId?.substring(0, 20) + '...');
   
   if (pool) {
     const result = await pool.query(`
       SELECT * FROM verifications 
-      WHERE user_id = $1
+      WHERE user_id = $1 AND provider <> $2
       ORDER BY verified_at DESC
-    `, [userId]);
+    `, [userId, SYNC_PROVIDER]);
     
     console.log('[Database] 📦 Found verifications in PostgreSQL:', {
       count: result.rows.length,
@@ -309,8 +404,8 @@ export const getUserVerifications = async (userId) => {
     
     return result.rows.map(row => {
       // Parse metadata to extract criteria
-      let metadata = {};
-      let criteria = [];
+      let metadata: VerificationMetadata = {};
+      let criteria: ScoreCriterion[] = [];
       
       try {
         metadata = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : (row.metadata || {});
@@ -335,15 +430,15 @@ export const getUserVerifications = async (userId) => {
       };
     });
   } else {
-    const verifications = [];
+    const verifications: VerificationRecord[] = [];
     for (const [key, value] of inMemoryStorage.verifications.entries()) {
-      if (key.startsWith(`${userId}:`)) {
+      if (key.startsWith(`${userId}:`) && value.provider !== SYNC_PROVIDER) {
         verifications.push(value);
       }
     }
     // Extract criteria from metadata for in-memory storage
     const verificationsWithCriteria = verifications.map(v => {
-      let criteria = [];
+      let criteria: ScoreCriterion[] = [];
       try {
         const metadata = v.metadata || {};
         criteria = metadata.criteria || metadata.result?.criteria || [];
@@ -371,7 +466,7 @@ export const getUserVerifications = async (userId) => {
 /**
  * Delete verification for a user and provider
  */
-export const deleteVerification = async (userId, provider) => {
+export const deleteVerification = async (userId: string, provider: string): Promise<boolean> => {
   console.log('[Database] 🗑️ Deleting verification:', { userId: userId?.substring(0, 20) + '...', provider });
   
   if (pool) {
@@ -387,7 +482,7 @@ export const deleteVerification = async (userId, provider) => {
         provider
       });
       
-      return result.rowCount > 0;
+      return (result.rowCount ?? 0) > 0;
     } catch (error) {
       console.error('[Database] Error deleting verification:', error);
       throw error;
@@ -406,10 +501,135 @@ export const deleteVerification = async (userId, provider) => {
   }
 };
 
+/**
+ * Provider name of the encrypted cross-device sync row in the verifications table
+ * The frontend encrypts the state with a key only the wallet can derive; the
+ * backend stores it as opaque metadata and never counts it as a verification.
+ */
+export const SYNC_PROVIDER = 'encrypted_sync';
+
+/**
+ * Get the encrypted sync state of a sync ID
+ */
+export const getSyncState = async (syncId: string): Promise<StoredSyncState | null> => {
+  if (pool) {
+    const result = await pool.query(`
+      SELECT metadata, access_token_hash, updated_at FROM verifications 
+      WHERE user_id = $1 AND provider = $2
+    `, [syncId, SYNC_PROVIDER]);
+    
+    if (result.rows.length === 0) return null;
+    
+    const row = result.rows[0];
+    const metadata = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata;
+    return {
+      blob: metadata.blob,
+      updatedAt: metadata.updatedAt,
+      writeTokenHash: row.access_token_hash
+    };
+  } else {
+    const stored = inMemoryStorage.verifications.get(`${syncId}:${SYNC_PROVIDER}`);
+    if (!stored) return null;
+    return {
+      blob: stored.metadata.blob!,
+      updatedAt: stored.metadata.updatedAt!,
+      writeTokenHash: stored.accessTokenHash!
+    };
+  }
+};
+
+/**
+ * Result of a conditional sync state write
+ * - forbidden: the write token does not match the stored state's
+ * - conflict: the stored state is not the one the client merged with (updatedAt: current one)
+ */
+export type SaveSyncStateResult =
+  | { status: 'stored'; updatedAt: number }
+  | { status: 'forbidden' }
+  | { status: 'conflict'; updatedAt: number | null };
+
+/**
+ * Why a conditional write stored nothing, from the state stored now
+ */
+const rejectedSyncWrite = (current: StoredSyncState | null, writeTokenHash: string): SaveSyncStateResult =>
+  current && current.writeTokenHash !== writeTokenHash
+    ? { status: 'forbidden' }
+    : { status: 'conflict', updatedAt: current?.updatedAt ?? null };
+
+/**
+ * Save the encrypted sync state of a sync ID if it is still at previousUpdatedAt
+ * Check and write are one statement (compare-and-swap), so two devices pushing at the
+ * same time cannot both succeed. The first write sets the write token hash; later
+ * writes must carry the same token.
+ *
+ * @param previousUpdatedAt - updatedAt of the state the client merged with (null: none stored)
+ */
+export const saveSyncState = async (
+  syncId: string,
+  { blob, updatedAt, writeTokenHash }: StoredSyncState,
+  previousUpdatedAt: number | null
+): Promise<SaveSyncStateResult> => {
+  const metadata: VerificationMetadata = { blob, updatedAt };
+  
+  if (pool) {
+    try {
+      const result = previousUpdatedAt === null
+        ? await pool.query(`
+            INSERT INTO verifications 
+            (user_id, provider, status, metadata, access_token_hash, verified_at)
+            VALUES ($1, $2, 'encrypted', $3, $4, NOW())
+            ON CONFLICT (user_id, provider) DO NOTHING
+          `, [syncId, SYNC_PROVIDER, JSON.stringify(metadata), writeTokenHash])
+        : await pool.query(`
+            UPDATE verifications SET
+              metadata = $3,
+              updated_at = NOW()
+            WHERE user_id = $1 AND provider = $2
+              AND access_token_hash = $4
+              AND (metadata->>'updatedAt')::bigint = $5
+          `, [syncId, SYNC_PROVIDER, JSON.stringify(metadata), writeTokenHash, previousUpdatedAt]);
+      
+      if ((result.rowCount ?? 0) > 0) {
+        return { status: 'stored', updatedAt };
+      }
+      return rejectedSyncWrite(await getSyncState(syncId), writeTokenHash);
+    } catch (error) {
+      console.error('[Database] Error saving sync state:', error);
+      throw error;
+    }
+  } else {
+    // No await between check and write: atomic in the single-threaded event loop
+    const key = `${syncId}:${SYNC_PROVIDER}`;
+    const stored = inMemoryStorage.verifications.get(key);
+    const current: StoredSyncState | null = stored
+      ? { blob: stored.metadata.blob!, updatedAt: stored.metadata.updatedAt!, writeTokenHash: stored.accessTokenHash! }
+      : null;
+    const unchanged = current
+      ? current.writeTokenHash === writeTokenHash && current.updatedAt === previousUpdatedAt
+      : previousUpdatedAt === null;
+    if (!unchanged) {
+      return rejectedSyncWrite(current, writeTokenHash);
+    }
+    
+    inMemoryStorage.verifications.set(key, {
+      userId: syncId,
+      provider: SYNC_PROVIDER,
+      score: 0,
+      maxScore: 0,
+      status: 'encrypted',
+      metadata,
+      accessTokenHash: writeTokenHash,
+      verifiedAt: new Date()
+    });
+    saveLocalDb();
+    return { status: 'stored', updatedAt };
+  }
+};
+
 /**
  * Get user total score
  */
-export const getUserScore = async (userId) => {
+export const getUserScore = async (userId: string): Promise<number> => {
   const verifications = await getUserVerifications(userId);
   return verifications.reduce((total, v) => {
     if (v.status === 'verified' && (!v.expiresAt || new Date(v.expiresAt) > new Date())) {
@@ -422,8 +642,13 @@ export const getUserScore = async (userId) => {
 /**
  * Save verification session (for OAuth state)
  */
-export const saveSession = async (sessionId, provider, userId, stateData) => {
-  const session = {
+export const saveSession = async (
+  sessionId: string,
+  provider: string,
+  userId: string | null | undefined,
+  stateData: SessionStateData
+): Promise<SessionRecord> => {
+  const session: SessionRecord = {
     sessionId,
     provider,
     userId: userId || null,
@@ -454,7 +679,7 @@ export const saveSession = async (sessionId, provider, userId, stateData) => {
 /**
  * Get verification session
  */
-export const getSession = async (sessionId) => {
+export const getSession = async (sessionId: string): Promise<SessionRecord | null> => {
   if (pool) {
     const result = await pool.query(`
       SELECT * FROM verification_sessions 
@@ -492,10 +717,10 @@ export const getSession = async (sessionId) => {
 /**
  * Update session status
  */
-export const updateSession = async (sessionId, updates) => {
+export const updateSession = async (sessionId: string, updates: SessionUpdate): Promise<void> => {
   if (pool) {
-    const fields = [];
-    const values = [];
+    const fields: string[] = [];
+    const values: string[] = [];
     let paramIndex = 1;
     
     if (updates.status) {
@@ -526,14 +751,14 @@ export const updateSession = async (sessionId, updates) => {
 /**
  * Hash sensitive data (like access tokens)
  */
-export const hashToken = (token) => {
+export const hashToken = (token: string): string => {
   return crypto.createHash('sha256').update(token).digest('hex');
 };
 
 /**
  * Save or update user profile
  */
-export const saveProfile = async (userId, profileData) => {
+export const saveProfile = async (userId: string, profileData: ProfileRecord): Promise<ProfileRecord> => {
   const {
     discordId,
     discordUsername,
@@ -592,7 +817,7 @@ export const saveProfile = async (userId, profileData) => {
 /**
  * Get user profile
  */
-export const getProfile = async (userId) => {
+export const getProfile = async (userId: string): Promise<ProfileRecord | null> => {
   if (pool) {
     const result = await pool.query(`
       SELECT * FROM profiles 
@@ -620,7 +845,7 @@ export const getProfile = async (userId) => {
 /**
  * Close database connection
  */
-export const closeDatabase = async () => {
+export const closeDatabase = async (): Promise<void> => {
   if (pool) {
     await pool.end();
     console.log('[Database] ✅ Connection closed');
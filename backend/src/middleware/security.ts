@@ -1,17 +1,11 @@
 // Security middleware for validation and protection
 
-export default {
-  validateUserId,
-  validateWalletAddress,
-  validateProvider,
-  rateLimit,
-  requestLogger
-};
+import type { NextFunction, Request, Response } from 'express';
 
 /**
  * Validate userId format (prevent injection)
  */
-export const validateUserId = (req, res, next) => {
+export const validateUserId = (req: Request, res: Response, next: NextFunction) => {
   const userId = req.params.id || req.body.userId;
   
   if (userId) {
@@ -37,7 +31,7 @@ export const validateUserId = (req, res, next) => {
 /**
  * Validate wallet address format
  */
-export const validateWalletAddress = (req, res, next) => {
+export const validateWalletAddress = (req: Request, res: Response, next: NextFunction) => {
   const address = req.body.walletAddress || req.params.address;
   
   if (address) {
@@ -55,7 +49,7 @@ export const validateWalletAddress = (req, res, next) => {
 /**
  * Validate provider name
  */
-export const validateProvider = (req, res, next) => {
+export const validateProvider = (req: Request, res: Response, next: NextFunction) => {
   const provider = req.params.provider || req.body.provider;
   const allowedProviders = ['google', 'twitter', 'discord', 'github', 'steam', 'evm', 'wallet'];
   
@@ -72,11 +66,11 @@ export const validateProvider = (req, res, next) => {
  * Rate limiting helper (basic in-memory implementation)
  * In production, use Redis-based rate limiting
  */
-const rateLimitStore = new Map();
+const rateLimitStore = new Map<string, number[]>();
 
 export const rateLimit = (maxRequests = 100, windowMs = 15 * 60 * 1000) => {
-  return (req, res, next) => {
-    const key = req.ip || req.connection.remoteAddress;
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = req.ip || req.socket.remoteAddress || 'unknown';
     const now = Date.now();
     
     const requests = rateLimitStore.get(key) || [];
@@ -107,7 +101,7 @@ export const rateLimit = (maxRequests = 100, windowMs = 15 * 60 * 1000) => {
 /**
  * Request logging middleware
  */
-export const requestLogger = (req, res, next) => {
+export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
   const start = Date.now();
   
   res.on('finish', () => {
@@ -118,3 +112,10 @@ export const requestLogger = (req, res, next) => {
   next();
 };
 
+export default {
+  validateUserId,
+  validateWalletAddress,
+  validateProvider,
+  rateLimit,
+  requestLogger
+};
@@ -0,0 +1,40 @@
+// Request validation against the API contract schemas (src/schemas)
+
+import type { RequestHandler } from 'express';
+import type { ErrorResponse, ValidationIssue } from '@zkpersona/api-contract';
+import type { Schema } from '../schemas/common.js';
+
+interface RequestSchemas {
+  params?: Schema<unknown>;
+  query?: Schema<unknown>;
+  body?: Schema<unknown>;
+}
+
+/**
+ * Validate req.params, req.query and req.body; responds 400 listing every invalid field
+ * The parsed values replace the raw ones, so handlers get defaults applied and unknown keys stripped.
+ */
+export const validate = (schemas: RequestSchemas): RequestHandler<any, any, any, any> => {
+  return (req, res, next) => {
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[part]);
+      if (!result.success) {
+        const issues: ValidationIssue[] = result.error.issues.map(issue => ({
+          path: issue.path.join('.'),
+          message: issue.message
+        }));
+        const response: ErrorResponse = {
+          error: issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join(', '),
+          issues
+        };
+        return res.status(400).json(response);
+      }
+      req[part] = result.data;
+    }
+
+    next();
+  };
+};
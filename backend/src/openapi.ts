@@ -0,0 +1,470 @@
+// OpenAPI document of every backend route, served at GET /openapi.json
+// Requests are described by the schemas the routes validate with; responses by the
+// response schemas in src/schemas, which satisfy the API contract types.
+// `npm run openapi` writes it to api-contract/openapi.json, from which the frontend
+// generates its typed client (frontend: npm run generate:api).
+
+import {
+  extendZodWithOpenApi,
+  OpenAPIRegistry,
+  OpenApiGeneratorV31,
+  type ResponseConfig
+} from '@asteasolutions/zod-to-openapi';
+import { z, type ZodTypeAny } from 'zod';
+import { errorResponseSchema, healthResponseSchema, verificationResultSchema } from './schemas/common.js';
+import {
+  authStartQuerySchema,
+  authStatusQuerySchema,
+  redirectQuerySchema,
+  telegramMessageSchema,
+  verificationSessionSchema,
+  walletAuthStartResponseSchema,
+  walletCallbackSchema
+} from './schemas/auth.js';
+import {
+  startVerificationResponseSchema,
+  startVerificationSchema,
+  storedVerificationResponseSchema,
+  verificationListResponseSchema,
+  verificationParamsSchema,
+  verificationUserParamsSchema,
+  walletVerificationResponseSchema,
+  walletVerificationSchema
+} from './schemas/verify.js';
+import {
+  walletConnectResponseSchema,
+  walletConnectSchema,
+  walletSessionParamsSchema,
+  walletSessionResponseSchema,
+  walletSignatureResponseSchema,
+  walletSignatureSchema
+} from './schemas/wallet.js';
+import {
+  deleteVerificationResponseSchema,
+  putSyncStateResponseSchema,
+  putSyncStateSchema,
+  syncConflictResponseSchema,
+  syncParamsSchema,
+  syncStateResponseSchema,
+  userParamsSchema,
+  userScoreResponseSchema,
+  userVerificationParamsSchema,
+  userVerificationsResponseSchema
+} from './schemas/user.js';
+import { configStatusResponseSchema, scoringRulesResponseSchema } from './schemas/config.js';
+
+extendZodWithOpenApi(z);
+
+const API_VERSION = '1.0.0';
+
+// Providers with a popup flow under /auth (routes/auth.ts)
+const AUTH_PROVIDERS = ['discord', 'twitter', 'telegram', 'solana', 'evm'] as const;
+const OAUTH_PROVIDERS = ['discord', 'twitter', 'telegram'] as const;
+
+const registry = new OpenAPIRegistry();
+
+const ErrorResponse = registry.register('ErrorResponse', errorResponseSchema);
+const VerificationResult = registry.register('VerificationResult', verificationResultSchema);
+const VerificationSession = registry.register('VerificationSession', verificationSessionSchema);
+
+const json = (description: string, schema: ZodTypeAny): ResponseConfig => ({
+  description,
+  content: { 'application/json': { schema } }
+});
+
+const error = (description: string): ResponseConfig => json(description, ErrorResponse);
+
+const html = (description: string): ResponseConfig => ({
+  description,
+  content: { 'text/html': { schema: z.string() } }
+});
+
+const redirect = (description: string): ResponseConfig => ({
+  description,
+  headers: z.object({ Location: z.string() })
+});
+
+const body = (schema: ZodTypeAny) => ({
+  required: true,
+  content: { 'application/json': { schema } }
+});
+
+const invalidRequest = error('Invalid request; issues lists every invalid field');
+const serverError = error('Internal error');
+
+// Health
+
+registry.registerPath({
+  method: 'get',
+  path: '/health',
+  tags: ['health'],
+  summary: 'Liveness check',
+  responses: {
+    200: json('Server is running', registry.register('HealthResponse', healthResponseSchema))
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/openapi.json',
+  tags: ['health'],
+  summary: 'This document',
+  responses: {
+    200: json('OpenAPI 3.1 document', z.record(z.unknown()))
+  }
+});
+
+// /verify (routes/verify.ts)
+
+registry.registerPath({
+  method: 'post',
+  path: '/verify',
+  tags: ['verify'],
+  summary: 'Start the verification of an OAuth provider',
+  request: { body: body(startVerificationSchema) },
+  responses: {
+    200: json('Already verified, or the consent page to open', registry.register('StartVerificationResponse', startVerificationResponseSchema)),
+    400: error('Invalid request, unsupported or unconfigured provider'),
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/verify/wallet',
+  tags: ['verify'],
+  summary: 'Check a wallet signature and score the wallet; nothing is stored',
+  request: { body: body(walletVerificationSchema) },
+  responses: {
+    200: json('Score and commitment of the wallet', registry.register('WalletVerificationResponse', walletVerificationResponseSchema)),
+    400: error('Invalid request or signature'),
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/verify/{userId}',
+  tags: ['verify'],
+  summary: 'Stored verifications of a user',
+  request: { params: verificationUserParamsSchema },
+  responses: {
+    200: json('Verifications and total score', registry.register('VerificationListResponse', verificationListResponseSchema)),
+    400: invalidRequest,
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/verify/{userId}/{provider}',
+  tags: ['verify'],
+  summary: 'Stored verification of one provider',
+  request: { params: verificationParamsSchema },
+  responses: {
+    200: json('Verification', registry.register('StoredVerificationResponse', storedVerificationResponseSchema)),
+    400: invalidRequest,
+    404: error('Not verified'),
+    500: serverError
+  }
+});
+
+// /auth (routes/auth.ts)
+
+registry.registerPath({
+  method: 'get',
+  path: '/auth/{provider}/start',
+  tags: ['auth'],
+  summary: 'Start the popup verification flow of a provider',
+  description: 'OAuth providers redirect to their consent page; Telegram answers with an instruction page; wallet providers (evm, solana) answer with the message to sign.',
+  request: {
+    params: z.object({ provider: z.enum(AUTH_PROVIDERS) }),
+    query: authStartQuerySchema
+  },
+  responses: {
+    200: {
+      description: 'Wallet providers: message to sign. Telegram: instruction page.',
+      content: {
+        'application/json': { schema: registry.register('WalletAuthStartResponse', walletAuthStartResponseSchema) },
+        'text/html': { schema: z.string() }
+      }
+    },
+    302: redirect('OAuth providers: redirect to the consent page'),
+    400: error('Missing walletId or provider not configured'),
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/auth/{provider}/callback',
+  tags: ['auth'],
+  summary: 'Redirect target of an OAuth provider',
+  description: 'Posts an OAuthPopupMessage to window.opener and closes the popup.',
+  request: {
+    params: z.object({ provider: z.enum(OAUTH_PROVIDERS) }),
+    query: z.object({
+      state: z.string().optional(),
+      code: z.string().optional(),
+      session: z.string().optional()
+    }).passthrough()
+  },
+  responses: {
+    200: html('Popup page posting the result'),
+    302: redirect('Frontend /verify/callback with an error parameter')
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/auth/{provider}/status',
+  tags: ['auth'],
+  summary: 'Status of a verification session',
+  request: {
+    params: z.object({ provider: z.enum(AUTH_PROVIDERS) }),
+    query: authStatusQuerySchema
+  },
+  responses: {
+    200: json('Session status and result', VerificationSession),
+    400: invalidRequest,
+    404: error('Session not found'),
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/auth/solana/callback',
+  tags: ['auth'],
+  summary: 'Submit the signed Solana message',
+  description: 'Answers with JSON when requested with Accept: application/json, otherwise with a popup page posting the result.',
+  request: { body: body(walletCallbackSchema) },
+  responses: {
+    200: {
+      description: 'Verification result',
+      content: {
+        'application/json': { schema: VerificationResult },
+        'text/html': { schema: z.string() }
+      }
+    },
+    400: error('Invalid request or signature'),
+    404: error('Session not found'),
+    302: redirect('Frontend /verify/callback with an error parameter')
+  }
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/auth/evm/callback',
+  tags: ['auth'],
+  summary: 'Submit the signed EVM message',
+  request: { body: body(walletCallbackSchema) },
+  responses: {
+    200: json('Session with its result', VerificationSession),
+    400: invalidRequest,
+    404: error('Session not found'),
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/auth/telegram/webhook',
+  tags: ['auth'],
+  summary: 'Telegram bot webhook',
+  description: 'Completes the session named in a /start message. Always answers 200, as Telegram retries otherwise.',
+  request: { body: body(z.object({ message: telegramMessageSchema.optional() })) },
+  responses: {
+    200: json('Update handled', z.object({ ok: z.literal(true) }))
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/auth/telegram/set-webhook',
+  tags: ['auth'],
+  summary: 'Point the Telegram bot webhook at BACKEND_URL',
+  responses: {
+    200: json('Webhook set', z.object({
+      ok: z.literal(true),
+      result: z.record(z.unknown()),
+      webhookUrl: z.string()
+    })),
+    400: error('Bot token missing or BACKEND_URL not public'),
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/auth/redirect',
+  tags: ['auth'],
+  summary: 'Redirect to url (links from the Telegram bot)',
+  request: { query: redirectQuerySchema },
+  responses: {
+    302: redirect('Redirect to url'),
+    400: invalidRequest
+  }
+});
+
+// /wallet (routes/wallet.ts)
+
+registry.registerPath({
+  method: 'post',
+  path: '/wallet/connect',
+  tags: ['wallet'],
+  summary: 'Issue the message an EVM wallet has to sign',
+  request: { body: body(walletConnectSchema) },
+  responses: {
+    200: json('Message to sign', registry.register('WalletConnectResponse', walletConnectResponseSchema)),
+    400: invalidRequest,
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'post',
+  path: '/wallet/verify',
+  tags: ['wallet'],
+  summary: 'Check the signature of the issued message and score the wallet',
+  request: { body: body(walletSignatureSchema) },
+  responses: {
+    200: json('Verification result', registry.register('WalletSignatureResponse', walletSignatureResponseSchema)),
+    400: error('Invalid request, session or signature'),
+    404: error('Session not found'),
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/wallet/status/{sessionId}',
+  tags: ['wallet'],
+  summary: 'Status of a wallet session',
+  request: { params: walletSessionParamsSchema },
+  responses: {
+    200: json('Session status', registry.register('WalletSessionResponse', walletSessionResponseSchema)),
+    400: invalidRequest,
+    404: error('Session not found'),
+    500: serverError
+  }
+});
+
+// /config (routes/config.ts)
+
+registry.registerPath({
+  method: 'get',
+  path: '/config/status',
+  tags: ['config'],
+  summary: 'Which providers the deployment has credentials for',
+  responses: {
+    200: json('Provider configuration', registry.register('ConfigStatusResponse', configStatusResponseSchema)),
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/config/scoring',
+  tags: ['config'],
+  summary: 'Effective scoring rules per provider (registry defaults with SCORING_RULES)',
+  responses: {
+    200: json('Scoring rules', registry.register('ScoringRulesResponse', scoringRulesResponseSchema))
+  }
+});
+
+// /user (routes/user.ts)
+
+registry.registerPath({
+  method: 'get',
+  path: '/user/{id}/score',
+  tags: ['user'],
+  summary: 'Total score of a user',
+  request: { params: userParamsSchema },
+  responses: {
+    200: json('Score and breakdown per provider', registry.register('UserScoreResponse', userScoreResponseSchema)),
+    400: invalidRequest,
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/user/{id}/verifications',
+  tags: ['user'],
+  summary: 'Stored verifications of a user with their criteria',
+  request: { params: userParamsSchema },
+  responses: {
+    200: json('Verifications', registry.register('UserVerificationsResponse', userVerificationsResponseSchema)),
+    400: invalidRequest,
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'delete',
+  path: '/user/{id}/verifications/{provider}',
+  tags: ['user'],
+  summary: 'Delete the stored verification of one provider',
+  request: { params: userVerificationParamsSchema },
+  responses: {
+    200: json('Deleted', registry.register('DeleteVerificationResponse', deleteVerificationResponseSchema)),
+    400: invalidRequest,
+    404: error('Not verified'),
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'get',
+  path: '/user/{id}/verifications/sync',
+  tags: ['user'],
+  summary: 'Encrypted cross-device sync state',
+  request: { params: syncParamsSchema },
+  responses: {
+    200: json('Sync state', registry.register('SyncStateResponse', syncStateResponseSchema)),
+    400: invalidRequest,
+    404: error('No state stored yet'),
+    500: serverError
+  }
+});
+
+registry.registerPath({
+  method: 'put',
+  path: '/user/{id}/verifications/sync',
+  tags: ['user'],
+  summary: 'Store the encrypted cross-device sync state',
+  request: {
+    params: syncParamsSchema,
+    body: body(putSyncStateSchema)
+  },
+  responses: {
+    200: json('Stored', registry.register('PutSyncStateResponse', putSyncStateResponseSchema)),
+    400: invalidRequest,
+    403: error('Write token does not match'),
+    409: json('Another device stored a newer state', registry.register('SyncConflictResponse', syncConflictResponseSchema)),
+    413: error('Encrypted state too large'),
+    500: serverError
+  }
+});
+
+/**
+ * Build the OpenAPI 3.1 document of all registered routes
+ */
+export const buildOpenApiDocument = () =>
+  new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: '3.1.0',
+    info: {
+      title: 'ZK Persona API',
+      version: API_VERSION,
+      description: 'Verification, scoring and sync API of the ZK Persona backend. Request and response types: @zkpersona/api-contract.'
+    },
+    tags: [
+      { name: 'verify', description: 'Unified verification start and stored verifications' },
+      { name: 'auth', description: 'Popup verification flows per provider' },
+      { name: 'wallet', description: 'EVM wallet verification with a server-issued message' },
+      { name: 'user', description: 'Scores, stored verifications and encrypted sync state' },
+      { name: 'config', description: 'Deployment configuration' },
+      { name: 'health', description: 'Liveness and API description' }
+    ]
+  });
@@ -1,14 +1,44 @@
 import axios from 'axios';
 import crypto from 'crypto';
-import { calculateDiscordScore } from '../scoring/discord.js';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { calculateDiscordScore, type DiscordGuild, type DiscordUser } from '../scoring/discord.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import type {
+  CallbackQuery,
+  ProviderCallbackResult,
+  ProviderPayload,
+  ProviderSession,
+  ProviderVerifyResult
+} from './types.js';
 
 // ============================================
-// Types documentation (following Gitcoin Passport pattern)
-// DiscordTokenResponse: { access_token: string, token_type: string, expires_in?: number, refresh_token?: string }
-// DiscordFindMyUserResponse: { user?: { id?: string, username?: string, discriminator?: string, email?: string, verified?: boolean } }
-// DiscordGuild: { id: string, name: string, icon?: string, owner?: boolean }
-// DiscordConnection: { type: string, name: string, verified: boolean, id?: string }
+// Types (following Gitcoin Passport pattern)
+// ============================================
+
+interface DiscordTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+}
+
+interface DiscordFindMyUserResponse {
+  user?: { id?: string; username?: string; discriminator?: string; email?: string; verified?: boolean };
+}
+
+interface DiscordUserResponse extends DiscordUser {
+  username?: string;
+  discriminator?: string;
+  global_name?: string;
+  avatar?: string | null;
+}
+
+interface DiscordConnection {
+  type: string;
+  name: string;
+  verified: boolean;
+  id?: string;
+}
+
 // ============================================
 // OAuth Procedures (following Gitcoin pattern)
 // ============================================
@@ -46,7 +76,7 @@ const getDiscordConfig = () => {
  * Initialize Discord OAuth and get authorization URL
  * Follows Gitcoin Passport pattern
  */
-export const initClientAndGetAuthUrl = async (sessionId, callbackOverride) => {
+export const initClientAndGetAuthUrl = async (sessionId: string, callbackOverride?: string) => {
   const { DISCORD_CLIENT_ID, DISCORD_CLIENT_SECRET, REDIRECT_URI } = getDiscordConfig();
   
   if (!DISCORD_CLIENT_ID || !DISCORD_CLIENT_SECRET) {
@@ -104,7 +134,7 @@ export const initClientAndGetAuthUrl = async (sessionId, callbackOverride) => {
  * Exchange authorization code for access token
  * Follows Gitcoin Passport pattern: requestAccessToken
  */
-export const requestAccessToken = async (code) => {
+export const requestAccessToken = async (code: string): Promise<string> => {
   const { DISCORD_CLIENT_ID, DISCORD_CLIENT_SECRET, REDIRECT_URI } = getDiscordConfig();
   
   if (!code) {
@@ -160,11 +190,11 @@ export const requestAccessToken = async (code) => {
       throw new Error(`Token exchange returned status ${tokenRequest.status} instead of 200`);
     }
 
-    const tokenResponse = tokenRequest.data;
+    const tokenResponse: DiscordTokenResponse = tokenRequest.data;
     return tokenResponse.access_token;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const errorData = error.response?.data;
+      const errorData = error.response?.data as { error?: string; error_description?: string } | undefined;
       const errorMessage = errorData?.error_description || errorData?.error || error.message;
       
       // Log detailed error for debugging
@@ -192,8 +222,8 @@ export const requestAccessToken = async (code) => {
  * Make Discord API request with rate limit handling
  * Follows Gitcoin Passport pattern: makeDiscordRequest
  */
-async function makeDiscordRequest(url, accessToken, retries = 3) {
-  let lastError;
+async function makeDiscordRequest<T>(url: string, accessToken: string, retries = 3): Promise<T> {
+  let lastError: unknown;
 
   for (let attempt = 0; attempt < retries; attempt++) {
     try {
@@ -204,7 +234,7 @@ async function makeDiscordRequest(url, accessToken, retries = 3) {
         },
       });
       return response.data;
-    } catch (error) {
+    } catch (error: any) {
       lastError = error;
 
       if (axios.isAxiosError(error)) {
@@ -254,19 +284,18 @@ async function makeDiscordRequest(url, accessToken, retries = 3) {
  */
 export class DiscordProvider {
   type = 'Discord';
-  _options = {};
+  _options: Record<string, unknown> = {};
 
-  constructor(options = {}) {
+  constructor(options: Record<string, unknown> = {}) {
     this._options = { ...this._options, ...options };
   }
 
   /**
    * Verify Discord account - main method following Gitcoin pattern
-   * @param {Object} payload - Contains proofs.code from OAuth callback
-   * @returns {Promise<{valid: boolean, record?: object, errors?: string[]}>}
+   * @param payload - Contains proofs.code from OAuth callback
    */
-  async verify(payload) {
-    const errors = [];
+  async verify(payload: ProviderPayload): Promise<ProviderVerifyResult> {
+    const errors: string[] = [];
 
     try {
       // Step 1: Exchange code for access token
@@ -279,7 +308,7 @@ export class DiscordProvider {
       const accessToken = await requestAccessToken(code);
 
       // Step 2: Get user info (following Gitcoin pattern)
-      const userInfo = await makeDiscordRequest(
+      const userInfo = await makeDiscordRequest<DiscordFindMyUserResponse>(
         'https://discord.com/api/oauth2/@me',
         accessToken
       );
@@ -298,13 +327,13 @@ export class DiscordProvider {
       const accountAgeDays = Math.floor((Date.now() - createdAt.getTime()) / (1000 * 60 * 60 * 24));
 
       // Step 4: Get server list and validate count
-      const guilds = await makeDiscordRequest(
+      const guilds = await makeDiscordRequest<DiscordGuild[]>(
         'https://discord.com/api/users/@me/guilds',
         accessToken
       );
 
       // Step 5: Get verified connections
-      const connections = await makeDiscordRequest(
+      const connections = await makeDiscordRequest<DiscordConnection[]>(
         'https://discord.com/api/users/@me/connections',
         accessToken
       );
@@ -325,7 +354,7 @@ export class DiscordProvider {
 
       // Step 7: Calculate score (only if validation passed)
       // IMPORTANT: Score is calculated based on actual criteria met
-      const userFullInfo = await makeDiscordRequest(
+      const userFullInfo = await makeDiscordRequest<DiscordUserResponse>(
         'https://discord.com/api/v10/users/@me',
         accessToken
       );
@@ -351,7 +380,7 @@ export class DiscordProvider {
       }
 
       // Step 8: Generate commitment hash
-      const commitment = this.generateCommitment(userId);
+      const commitment = await this.generateCommitment(userId);
 
       // Step 9: Prepare profile data
       const avatarHash = userFullInfo.avatar;
@@ -378,7 +407,7 @@ export class DiscordProvider {
         accessToken: accessToken,
         // DO NOT return profile data - violates anonymity
       };
-    } catch (error) {
+    } catch (error: any) {
       const errorMessage = error.message || 'Unknown error occurred';
       errors.push(`Discord verification error: ${errorMessage}`);
       return { valid: false, errors };
@@ -389,8 +418,13 @@ export class DiscordProvider {
    * Validate Discord user meets requirements
    * Relaxed requirements for wider accessibility
    */
-  validateUser(userData) {
-    const errors = [];
+  validateUser(userData: {
+    userId: string;
+    accountAgeDays: number;
+    guildCount: number;
+    verifiedConnectionsCount: number;
+  }): { valid: boolean; errors?: string[] } {
+    const errors: string[] = [];
 
     // Relaxed: Account age requirement (reduced to 30 days or removed)
     // if (userData.accountAgeDays < 365) {
@@ -420,15 +454,14 @@ export class DiscordProvider {
 
   /**
    * Generate commitment hash for Aleo blockchain
-   * Format: SHA-256(platform_id:user_id:secret_salt) mod FIELD_MODULUS
+   * Server-held, versioned commitment key (utils/aleoField.ts, utils/commitments.ts)
    * Returns a valid Aleo field element
    */
-  generateCommitment(userId) {
+  async generateCommitment(userId: string): Promise<string> {
     const platformId = 1; // Discord = 1 (per spec)
-    const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
     
     // Use Aleo field utility for proper field element format
-    return generateAleoCommitment(platformId, userId, secretSalt);
+    return commitSocialAccount(platformId, userId);
   }
 }
 
@@ -439,7 +472,7 @@ export class DiscordProvider {
 /**
  * Generate OAuth authorization URL (legacy function)
  */
-export const discordAuth = async (passportId, sessionId) => {
+export const discordAuth = async (passportId: string, sessionId: string): Promise<string> => {
   const result = await initClientAndGetAuthUrl(sessionId);
   return result.authUrl;
 };
@@ -447,7 +480,7 @@ export const discordAuth = async (passportId, sessionId) => {
 /**
  * Handle OAuth callback (legacy function)
  */
-export const discordCallback = async (query, session) => {
+export const discordCallback = async (query: CallbackQuery, session: ProviderSession): Promise<ProviderCallbackResult> => {
   const { code, state } = query;
   
   if (!code) {
@@ -456,7 +489,7 @@ export const discordCallback = async (query, session) => {
 
   // Use Provider class for verification
   const provider = new DiscordProvider();
-  const payload = {
+  const payload: ProviderPayload = {
     proofs: {
       code: code
     }
@@ -477,24 +510,21 @@ export const discordCallback = async (query, session) => {
     throw new Error('Verification failed: No scoring criteria met');
   }
 
-  // Return in expected format
+  // Return in expected format (PRIVACY: no userId, username or profile)
   return {
     verified: result.valid && result.score > 0, // Only verified if valid AND has score
     provider: 'discord',
-    userId: result.userId,
-    username: result.username,
     score: result.score,
-    criteria: result.criteria,
-    commitment: result.commitment,
+    criteria: result.criteria ?? [],
+    commitment: result.commitment!,
     metadataHash: result.commitment, // Alias for backward compatibility
-    maxScore: result.maxScore,
-    profile: result.profile // Include profile data
+    maxScore: result.maxScore ?? 0
   };
 };
 
 /**
  * Get verification status (legacy function)
  */
-export const discordStatus = async (session) => {
+export const discordStatus = async (session: ProviderSession) => {
   return session.result || null;
 };
@@ -3,14 +3,36 @@ import { ethers } from 'ethers';
 import axios from 'axios';
 import { updateVerificationSession } from '../utils/session.js';
 import { calculateEVMScore } from '../scoring/evm.js';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import type { WalletCallbackRequest } from '@zkpersona/api-contract';
+import type {
+  ProviderCallbackResult,
+  ProviderSession,
+  WalletAuthChallenge,
+  WalletCallbackInput
+} from './types.js';
+
+interface EtherscanTx {
+  timeStamp?: string;
+}
+
+interface EVMWalletInfo {
+  address: string;
+  balance: bigint;
+  balanceEth: number;
+  txCount: number;
+  walletAge: number;
+  walletAgeDays: number;
+  walletAgeYears: number;
+  hasRecentActivity: boolean;
+}
 
 const getEVMConfig = () => {
   const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY;
   return { ETHERSCAN_API_KEY };
 };
 
-export const evmAuth = async (passportId, sessionId) => {
+export const evmAuth = async (passportId: string, sessionId: string): Promise<WalletAuthChallenge> => {
   // For EVM, we return session info for frontend to handle wallet connection
   // Frontend will use WalletConnect modal instead of redirecting
   return {
@@ -21,7 +43,10 @@ export const evmAuth = async (passportId, sessionId) => {
   };
 };
 
-export const evmCallback = async (req, session) => {
+export const evmCallback = async (
+  req: WalletCallbackInput,
+  session?: ProviderSession
+): Promise<ProviderCallbackResult> => {
   try {
     // Handle both GET (query) and POST (body) requests
     console.log('[EVM Callback] Received req:', {
@@ -35,7 +60,7 @@ export const evmCallback = async (req, session) => {
     });
     
     // Ensure we have a valid object - SAFE destructuring
-    let bodyOrQuery = {};
+    let bodyOrQuery: Partial<WalletCallbackRequest> = {};
     
     if (req && typeof req === 'object') {
       if (req.body && typeof req.body === 'object' && !Array.isArray(req.body)) {
@@ -83,10 +108,10 @@ export const evmCallback = async (req, session) => {
   }
 
   // Fetch wallet data from Etherscan
-  let walletData;
+  let walletData: Partial<EVMWalletInfo>;
   try {
     walletData = await fetchWalletData(address);
-  } catch (fetchError) {
+  } catch (fetchError: any) {
     console.error('[EVM] Error fetching wallet data:', fetchError.message);
     // Continue with default values if fetch fails
     walletData = {
@@ -100,7 +125,8 @@ export const evmCallback = async (req, session) => {
   
   // Minimum balance requirement: 0.001 ETH (lowered for testing)
   // Skip balance check if wallet data fetch failed
-  if (walletData.balanceEth > 0 && walletData.balanceEth < 0.001) {
+  const balanceEth = walletData.balanceEth ?? 0;
+  if (balanceEth > 0 && balanceEth < 0.001) {
     throw new Error('Insufficient balance. Minimum 0.001 ETH required for verification.');
   }
   
@@ -109,8 +135,7 @@ export const evmCallback = async (req, session) => {
   
   // Generate Aleo-compatible commitment (PRIVACY: hashed with field modulo)
   const platformId = 6; // EVM = 6 (per platformMapping.ts)
-  const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-  const commitment = generateAleoCommitment(platformId, address.toLowerCase(), secretSalt);
+  const commitment = await commitSocialAccount(platformId, address.toLowerCase());
 
     return {
       verified: true,
@@ -121,7 +146,7 @@ export const evmCallback = async (req, session) => {
       maxScore: scoreResult.maxScore,
       // DO NOT return: address, walletData (personal data)
     };
-  } catch (error) {
+  } catch (error: any) {
     console.error('[EVM Callback] Error in evmCallback:', error);
     console.error('[EVM Callback] Error message:', error.message);
     console.error('[EVM Callback] Error stack:', error.stack);
@@ -130,11 +155,11 @@ export const evmCallback = async (req, session) => {
   }
 };
 
-export const evmStatus = async (session) => {
+export const evmStatus = async (session: ProviderSession) => {
   return session.result || null;
 };
 
-const fetchWalletData = async (address) => {
+const fetchWalletData = async (address: string): Promise<EVMWalletInfo> => {
   try {
     const { ETHERSCAN_API_KEY } = getEVMConfig();
     
@@ -156,14 +181,14 @@ const fetchWalletData = async (address) => {
         const balance = BigInt(balanceResponse.data.result);
         balanceEth = Number(balance) / 1e18;
       }
-    } catch (balanceError) {
+    } catch (balanceError: any) {
       console.warn('[EVM] Balance fetch failed, using fallback:', balanceError.message);
       // Try RPC fallback
       try {
         const provider = new ethers.JsonRpcProvider('https://eth.llamarpc.com');
         const balance = await provider.getBalance(address);
         balanceEth = Number(balance) / 1e18;
-      } catch (rpcError) {
+      } catch (rpcError: any) {
         console.warn('[EVM] RPC fallback also failed:', rpcError.message);
       }
     }
@@ -185,19 +210,19 @@ const fetchWalletData = async (address) => {
       if (txCountResponse.data && txCountResponse.data.result) {
         txCount = parseInt(txCountResponse.data.result, 16);
       }
-    } catch (txCountError) {
+    } catch (txCountError: any) {
       console.warn('[EVM] Transaction count fetch failed:', txCountError.message);
       // Try RPC fallback
       try {
         const provider = new ethers.JsonRpcProvider('https://eth.llamarpc.com');
         txCount = await provider.getTransactionCount(address);
-      } catch (rpcError) {
+      } catch (rpcError: any) {
         console.warn('[EVM] RPC fallback for txCount failed:', rpcError.message);
       }
     }
 
     // Get transaction list for age calculation and recent activity check
-    let txListResponse;
+    let txListResponse: { data: { status: string; result: EtherscanTx[] } };
     try {
       txListResponse = await axios.get(`https://api.etherscan.io/api`, {
         params: {
@@ -213,7 +238,7 @@ const fetchWalletData = async (address) => {
         },
         timeout: 10000 // 10 second timeout for tx list
       });
-    } catch (txListError) {
+    } catch (txListError: any) {
       console.warn('[EVM] Transaction list fetch failed:', txListError.message);
       txListResponse = { data: { status: '0', result: [] } };
     }
@@ -233,7 +258,7 @@ const fetchWalletData = async (address) => {
       }
 
       // Check for recent activity (last 30 days)
-      const recentTxs = txListResponse.data.result.filter(tx => {
+      const recentTxs = txListResponse.data.result.filter((tx: EtherscanTx) => {
         if (!tx || !tx.timeStamp) return false;
         const txDate = new Date(Number(tx.timeStamp) * 1000);
         return txDate.getTime() >= thirtyDaysAgo;
@@ -251,7 +276,7 @@ const fetchWalletData = async (address) => {
       walletAgeYears: walletAge > 0 ? walletAge / (1000 * 60 * 60 * 24 * 365) : 0,
       hasRecentActivity
     };
-  } catch (error) {
+  } catch (error: any) {
     console.error('[EVM] Error fetching wallet data:', error.message || error);
     // Return default values instead of throwing
     return {
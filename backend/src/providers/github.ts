@@ -1,12 +1,39 @@
 import axios from 'axios';
 import crypto from 'crypto';
 import { calculateGitHubScore } from '../scoring/github.js';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import type {
+  CallbackQuery,
+  ProviderCallbackResult,
+  ProviderPayload,
+  ProviderSession,
+  ProviderVerifyResult
+} from './types.js';
 
 // ============================================
-// Types documentation (following Gitcoin Passport pattern)
-// GitHubTokenResponse: { access_token: string, token_type: string, scope?: string }
-// GitHubUserData: { id: number, login: string, name?: string, email?: string, avatar_url?: string, created_at: string, public_repos?: number, followers?: number, following?: number }
+// Types (following Gitcoin Passport pattern)
+// ============================================
+
+interface GitHubTokenResponse {
+  access_token?: string;
+  token_type?: string;
+  scope?: string;
+  error?: string;
+  error_description?: string;
+}
+
+interface GitHubUserData {
+  id: number;
+  login: string;
+  name?: string;
+  email?: string;
+  avatar_url?: string;
+  created_at: string;
+  public_repos?: number;
+  followers?: number;
+  following?: number;
+}
+
 // ============================================
 // OAuth Procedures (following Gitcoin pattern)
 // ============================================
@@ -24,7 +51,7 @@ const getGitHubConfig = () => {
  * Initialize GitHub OAuth and get authorization URL
  * Follows Gitcoin Passport pattern
  */
-export const initClientAndGetAuthUrl = async (sessionId, callbackOverride) => {
+export const initClientAndGetAuthUrl = async (sessionId: string, callbackOverride?: string) => {
   const { GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET, REDIRECT_URI } = getGitHubConfig();
   
   if (!GITHUB_CLIENT_ID || !GITHUB_CLIENT_SECRET) {
@@ -51,7 +78,7 @@ export const initClientAndGetAuthUrl = async (sessionId, callbackOverride) => {
  * Exchange authorization code for access token
  * Follows Gitcoin Passport pattern: requestAccessToken
  */
-export const requestAccessToken = async (code) => {
+export const requestAccessToken = async (code: string): Promise<string> => {
   const { GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET, REDIRECT_URI } = getGitHubConfig();
   
   if (!code) {
@@ -76,7 +103,7 @@ export const requestAccessToken = async (code) => {
       throw new Error(`Token exchange returned status ${tokenResponse.status} instead of 200`);
     }
 
-    const tokenData = tokenResponse.data;
+    const tokenData: GitHubTokenResponse = tokenResponse.data;
     
     if (!tokenData.access_token) {
       throw new Error('Access token not received from GitHub');
@@ -85,7 +112,7 @@ export const requestAccessToken = async (code) => {
     return tokenData.access_token;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const errorData = error.response?.data;
+      const errorData = error.response?.data as GitHubTokenResponse | undefined;
       const errorMessage = errorData?.error_description || errorData?.error || error.message;
       throw new Error(`Error requesting GitHub access token: ${errorMessage}`);
     }
@@ -97,7 +124,7 @@ export const requestAccessToken = async (code) => {
  * Get GitHub user data using access token
  * Follows Gitcoin Passport pattern: getGithubUserData
  */
-export const getGithubUserData = async (accessToken) => {
+export const getGithubUserData = async (accessToken: string): Promise<GitHubUserData> => {
   try {
     const userInfoResponse = await axios.get('https://api.github.com/user', {
       headers: { 
@@ -113,7 +140,7 @@ export const getGithubUserData = async (accessToken) => {
     return userInfoResponse.data;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const errorMessage = error.response?.data?.message || error.message;
+      const errorMessage = (error.response?.data as { message?: string } | undefined)?.message || error.message;
       throw new Error(`Error retrieving GitHub user data: ${errorMessage}`);
     }
     throw error;
@@ -130,19 +157,18 @@ export const getGithubUserData = async (accessToken) => {
  */
 export class GitHubProvider {
   type = 'GitHub';
-  _options = {};
+  _options: Record<string, unknown> = {};
 
-  constructor(options = {}) {
+  constructor(options: Record<string, unknown> = {}) {
     this._options = { ...this._options, ...options };
   }
 
   /**
    * Verify GitHub account - main method following Gitcoin pattern
-   * @param {Object} payload - Contains proofs.code from OAuth callback
-   * @returns {Promise<{valid: boolean, record?: object, errors?: string[]}>}
+   * @param payload - Contains proofs.code from OAuth callback
    */
-  async verify(payload) {
-    const errors = [];
+  async verify(payload: ProviderPayload): Promise<ProviderVerifyResult> {
+    const errors: string[] = [];
 
     try {
       // Step 1: Exchange code for access token
@@ -162,27 +188,28 @@ export class GitHubProvider {
         return { valid: false, errors };
       }
 
-      // Step 3: Get additional data (public repos count)
+      // Step 3: Get additional data (public repos count, stars of the first 100 repos)
       let publicRepos = userInfo.public_repos || 0;
+      let totalStars = 0;
       
-      // If not included in user info, fetch separately
-      if (publicRepos === 0) {
-        try {
-          const reposResponse = await axios.get(
-            `https://api.github.com/users/${userInfo.login}/repos`,
-            {
-              params: { per_page: 100, type: 'public' },
-              headers: { 
-                Authorization: `Bearer ${accessToken}`,
-                Accept: 'application/vnd.github.v3+json'
-              }
+      try {
+        const reposResponse = await axios.get(
+          `https://api.github.com/users/${userInfo.login}/repos`,
+          {
+            params: { per_page: 100, type: 'public' },
+            headers: { 
+              Authorization: `Bearer ${accessToken}`,
+              Accept: 'application/vnd.github.v3+json'
             }
-          );
-          publicRepos = reposResponse.data.length;
-        } catch (repoError) {
-          // Log but don't fail verification if repos can't be fetched
-          console.warn('Could not fetch repository count:', repoError.message);
-        }
+          }
+        );
+        const repos: { stargazers_count?: number }[] = reposResponse.data;
+        // If not included in user info, count the fetched repos
+        publicRepos = publicRepos || repos.length;
+        totalStars = repos.reduce((sum, repo) => sum + (repo.stargazers_count || 0), 0);
+      } catch (repoError: any) {
+        // Log but don't fail verification if repos can't be fetched
+        console.warn('Could not fetch repositories:', repoError.message);
       }
 
       // Step 4: Validate user (following Gitcoin Passport validation pattern)
@@ -197,10 +224,10 @@ export class GitHubProvider {
       }
 
       // Step 5: Calculate score
-      const scoreResult = calculateGitHubScore(userInfo, publicRepos);
+      const scoreResult = calculateGitHubScore(userInfo, publicRepos, totalStars);
 
       // Step 6: Generate commitment hash
-      const commitment = this.generateCommitment(userInfo.id.toString());
+      const commitment = await this.generateCommitment(userInfo.id.toString());
 
       // Step 7: Return verified result (PRIVACY: no personal data)
       return {
@@ -217,7 +244,7 @@ export class GitHubProvider {
         maxScore: scoreResult.maxScore,
         accessToken: accessToken
       };
-    } catch (error) {
+    } catch (error: any) {
       const errorMessage = error.message || 'Unknown error occurred';
       errors.push(`GitHub verification error: ${errorMessage}`);
       return { valid: false, errors };
@@ -228,8 +255,11 @@ export class GitHubProvider {
    * Validate GitHub user meets requirements
    * Following Gitcoin Passport validation pattern
    */
-  validateUser(userData) {
-    const errors = [];
+  validateUser(userData: { userId: number; accountAge: number; publicRepos: number }): {
+    valid: boolean;
+    errors?: string[];
+  } {
+    const errors: string[] = [];
 
     // Account age requirement (optional - can be customized)
     // GitHub accounts should typically be at least 30 days old
@@ -251,7 +281,7 @@ export class GitHubProvider {
   /**
    * Calculate account age in days
    */
-  calculateAccountAge(createdAt) {
+  calculateAccountAge(createdAt: string): number {
     const createdDate = new Date(createdAt);
     const now = new Date();
     const diffTime = now.getTime() - createdDate.getTime();
@@ -260,15 +290,14 @@ export class GitHubProvider {
 
   /**
    * Generate commitment hash for Aleo blockchain
-   * Format: SHA-256(platform_id:user_id:secret_salt) mod FIELD_MODULUS
+   * Server-held, versioned commitment key (utils/aleoField.ts, utils/commitments.ts)
    * Returns a valid Aleo field element
    */
-  generateCommitment(userId) {
+  async generateCommitment(userId: string): Promise<string> {
     const platformId = 3; // GitHub = 3 (per spec)
-    const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
     
     // Use Aleo field utility for proper field element format
-    return generateAleoCommitment(platformId, userId, secretSalt);
+    return commitSocialAccount(platformId, userId);
   }
 }
 
@@ -279,7 +308,7 @@ export class GitHubProvider {
 /**
  * Generate OAuth authorization URL (legacy function)
  */
-export const githubAuth = async (passportId, sessionId) => {
+export const githubAuth = async (passportId: string, sessionId: string): Promise<string> => {
   const result = await initClientAndGetAuthUrl(sessionId);
   return result.authUrl;
 };
@@ -287,7 +316,7 @@ export const githubAuth = async (passportId, sessionId) => {
 /**
  * Handle OAuth callback (legacy function)
  */
-export const githubCallback = async (query, session) => {
+export const githubCallback = async (query: CallbackQuery, session: ProviderSession): Promise<ProviderCallbackResult> => {
   const { code, state } = query;
   
   if (!code) {
@@ -296,7 +325,7 @@ export const githubCallback = async (query, session) => {
 
   // Use Provider class for verification
   const provider = new GitHubProvider();
-  const payload = {
+  const payload: ProviderPayload = {
     proofs: {
       code: code
     }
@@ -313,16 +342,16 @@ export const githubCallback = async (query, session) => {
     verified: result.valid,
     provider: 'github',
     // PRIVACY: Only return commitment, not userId or username
-    commitment: result.commitment,
-    score: result.score,
-    criteria: result.criteria,
-    maxScore: result.maxScore
+    commitment: result.commitment!,
+    score: result.score ?? 0,
+    criteria: result.criteria ?? [],
+    maxScore: result.maxScore ?? 0
   };
 };
 
 /**
  * Get verification status (legacy function)
  */
-export const githubStatus = async (session) => {
+export const githubStatus = async (session: ProviderSession) => {
   return session.result || null;
 };
@@ -1,7 +1,8 @@
 import axios from 'axios';
 import crypto from 'crypto';
-import { calculateGoogleScore } from '../scoring/google.js';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { calculateGoogleScore, type GoogleUser } from '../scoring/google.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import type { CallbackQuery, ProviderCallbackResult, ProviderSession } from './types.js';
 
 // Read env vars inside functions to ensure dotenv has loaded them
 const getGoogleConfig = () => {
@@ -13,7 +14,7 @@ const getGoogleConfig = () => {
   return { GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, REDIRECT_URI };
 };
 
-export const googleAuth = async (passportId, sessionId) => {
+export const googleAuth = async (passportId: string, sessionId: string): Promise<string> => {
   const { GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, REDIRECT_URI } = getGoogleConfig();
   
   if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
@@ -44,7 +45,7 @@ export const googleAuth = async (passportId, sessionId) => {
   return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
 };
 
-export const googleCallback = async (query, session) => {
+export const googleCallback = async (query: CallbackQuery, session: ProviderSession): Promise<ProviderCallbackResult> => {
   const { code, state } = query;
   
   if (!code) {
@@ -52,7 +53,7 @@ export const googleCallback = async (query, session) => {
   }
 
   const { GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, REDIRECT_URI } = getGoogleConfig();
-  const [sessionId, codeVerifier] = state.split(':');
+  const [sessionId, codeVerifier] = (state || '').split(':');
 
   // Exchange code for access token
   const tokenResponse = await axios.post('https://oauth2.googleapis.com/token', {
@@ -71,15 +72,14 @@ export const googleCallback = async (query, session) => {
     headers: { Authorization: `Bearer ${access_token}` }
   });
 
-  const userInfo = userInfoResponse.data;
+  const userInfo: GoogleUser & { sub: string } = userInfoResponse.data;
 
   // Calculate score
   const scoreResult = calculateGoogleScore(userInfo);
 
   // Generate Aleo-compatible commitment (PRIVACY: hashed with field modulo)
   const platformId = 8; // Google = 8 (per platformMapping.ts)
-  const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-  const commitment = generateAleoCommitment(platformId, userInfo.sub, secretSalt);
+  const commitment = await commitSocialAccount(platformId, userInfo.sub);
 
   return {
     verified: true,
@@ -92,7 +92,7 @@ export const googleCallback = async (query, session) => {
   };
 };
 
-export const googleStatus = async (session) => {
+export const googleStatus = async (session: ProviderSession) => {
   return session.result || null;
 };
 
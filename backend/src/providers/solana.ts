@@ -3,8 +3,24 @@
 
 import axios from 'axios';
 import crypto from 'crypto';
-import { calculateSolanaScore } from '../scoring/solana.js';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { calculateSolanaScore, type SolanaWalletData } from '../scoring/solana.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import type { WalletCallbackRequest } from '@zkpersona/api-contract';
+import type { ProviderCallbackResult, ProviderSession, WalletAuthChallenge } from './types.js';
+
+interface SolanaWalletInfo extends SolanaWalletData {
+  address: string;
+  balance?: number;
+  walletAge?: number;
+  walletAgeYears?: number;
+}
+
+// Solscan field names differ between API versions
+interface SolscanTx {
+  blockTime?: number | string;
+  block_time?: number | string;
+  timestamp?: number | string;
+}
 
 const getSolanaConfig = () => {
   const SOLSCAN_API_KEY = process.env.SOLSCAN_API_KEY || '';
@@ -19,7 +35,7 @@ const getSolanaConfig = () => {
  * Initialize Solana wallet verification
  * For Solana, we use SIWE-like message signing
  */
-export const solanaAuth = async (passportId, sessionId) => {
+export const solanaAuth = async (passportId: string, sessionId: string): Promise<WalletAuthChallenge> => {
   // For Solana, we return session info for frontend to handle wallet connection
   // Frontend will use Solana wallet modal instead of redirecting
   return {
@@ -33,7 +49,10 @@ export const solanaAuth = async (passportId, sessionId) => {
 /**
  * Handle Solana wallet callback
  */
-export const solanaCallback = async (query, session) => {
+export const solanaCallback = async (
+  query: Partial<WalletCallbackRequest>,
+  session?: ProviderSession
+): Promise<ProviderCallbackResult> => {
   try {
     console.log('[Solana Callback] Received query:', {
       queryType: typeof query,
@@ -46,7 +65,7 @@ export const solanaCallback = async (query, session) => {
     
     // query can be req.query (GET) or req.body (POST)
     // Ensure we have a valid object
-    const queryObj = (query && typeof query === 'object' && !Array.isArray(query)) ? query : {};
+    const queryObj: Partial<WalletCallbackRequest> = (query && typeof query === 'object' && !Array.isArray(query)) ? query : {};
     
     const address = queryObj.address || null;
     const signature = queryObj.signature || null;
@@ -76,7 +95,7 @@ export const solanaCallback = async (query, session) => {
   // For now, we'll trust the frontend signature and verify wallet data
   
   // Fetch wallet data from Solscan API (optional, non-blocking)
-  let walletData = {
+  let walletData: SolanaWalletInfo = {
     address,
     balanceSol: 0,
     txCount: 0,
@@ -91,7 +110,7 @@ export const solanaCallback = async (query, session) => {
     } else {
        console.log('[Solana] SOLSCAN_API_KEY not set, using default wallet data (score will be based on connection only)');
     }
-  } catch (fetchError) {
+  } catch (fetchError: any) {
     console.error('[Solana] Error fetching wallet data:', fetchError.message);
     // Continue with default values if fetch fails
   }
@@ -102,8 +121,7 @@ export const solanaCallback = async (query, session) => {
   
   // Generate Aleo-compatible commitment (PRIVACY: hashed with field modulo)
   const platformId = 7; // Solana = 7 (per spec, see platformMapping.ts)
-  const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-  const commitment = generateAleoCommitment(platformId, address, secretSalt);
+  const commitment = await commitSocialAccount(platformId, address);
 
     return {
       verified: true,
@@ -114,7 +132,7 @@ export const solanaCallback = async (query, session) => {
       maxScore: scoreResult.maxScore,
       // DO NOT return: address, walletData (personal data)
     };
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Solana Callback] Error in solanaCallback:', error);
     console.error('[Solana Callback] Error message:', error.message);
     console.error('[Solana Callback] Error stack:', error.stack);
@@ -126,7 +144,7 @@ export const solanaCallback = async (query, session) => {
 /**
  * Get Solana verification status
  */
-export const solanaStatus = async (session) => {
+export const solanaStatus = async (session: ProviderSession) => {
   return session.result || null;
 };
 
@@ -134,7 +152,7 @@ export const solanaStatus = async (session) => {
  * Fetch Solana wallet data via RPC (getBalance + getSignaturesForAddress)
  * Used when Solscan fails or SOLSCAN_API_KEY is not set.
  */
-const fetchSolanaWalletDataViaRPC = async (address) => {
+const fetchSolanaWalletDataViaRPC = async (address: string): Promise<Required<SolanaWalletInfo>> => {
   const { Connection, PublicKey } = await import('@solana/web3.js');
   const connection = new Connection('https://api.mainnet-beta.solana.com', { commitment: 'confirmed' });
   const publicKey = new PublicKey(address);
@@ -151,7 +169,7 @@ const fetchSolanaWalletDataViaRPC = async (address) => {
   try {
     const sigs = await connection.getSignaturesForAddress(publicKey, { limit: 1000 });
     txCount = sigs.length;
-    const blockTimes = sigs.map(s => s.blockTime).filter(t => t != null);
+    const blockTimes = sigs.map(s => s.blockTime).filter((t): t is number => t != null);
     if (blockTimes.length > 0) {
       const oldest = Math.min(...blockTimes);
       const newest = Math.max(...blockTimes);
@@ -159,7 +177,7 @@ const fetchSolanaWalletDataViaRPC = async (address) => {
       walletAgeDays = walletAge / (24 * 60 * 60);
       hasRecentActivity = newest >= thirtyDaysAgo;
     }
-  } catch (e) {
+  } catch (e: any) {
     console.warn('[Solana] getSignaturesForAddress failed:', e.message);
   }
 
@@ -178,7 +196,7 @@ const fetchSolanaWalletDataViaRPC = async (address) => {
 /**
  * Fetch Solana wallet data from Solscan API (or RPC fallback)
  */
-const fetchSolanaWalletData = async (address) => {
+const fetchSolanaWalletData = async (address: string): Promise<SolanaWalletInfo> => {
   const { SOLSCAN_API_KEY } = getSolanaConfig();
   const useSolscan = !!SOLSCAN_API_KEY;
 
@@ -186,7 +204,7 @@ const fetchSolanaWalletData = async (address) => {
     console.log('[Solana] No SOLSCAN_API_KEY; using RPC only. Add key for tx/age data.');
     try {
       return await fetchSolanaWalletDataViaRPC(address);
-    } catch (rpcError) {
+    } catch (rpcError: any) {
       console.warn('[Solana] RPC fetch failed:', rpcError.message);
       return {
         address,
@@ -209,7 +227,7 @@ const fetchSolanaWalletData = async (address) => {
         headers: { 'Accept': 'application/json' },
         timeout: 10000
       });
-    } catch (accountError) {
+    } catch (accountError: any) {
       console.warn('[Solana] Solscan account fetch failed, using RPC:', accountError.message);
       return await fetchSolanaWalletDataViaRPC(address);
     }
@@ -237,7 +255,7 @@ const fetchSolanaWalletData = async (address) => {
         timeout: 10000
       });
       const txRaw = txResponse?.data;
-      const transactions = Array.isArray(txRaw) ? txRaw : (txRaw?.data ?? txRaw ?? []);
+      const transactions: SolscanTx[] = Array.isArray(txRaw) ? txRaw : (txRaw?.data ?? txRaw ?? []);
 
       if (transactions.length > 0) {
         if (txCount === 0) txCount = transactions.length;
@@ -256,7 +274,7 @@ const fetchSolanaWalletData = async (address) => {
         });
         hasRecentActivity = recentTxs.length > 0;
       }
-    } catch (txError) {
+    } catch (txError: any) {
       console.warn('[Solana] Solscan tx list failed, using RPC for tx/age:', txError.message);
       try {
         const rpc = await fetchSolanaWalletDataViaRPC(address);
@@ -285,11 +303,11 @@ const fetchSolanaWalletData = async (address) => {
       walletAgeYears: walletAge > 0 ? walletAge / (1000 * 60 * 60 * 24 * 365) : 0,
       hasRecentActivity
     };
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Solana] Error fetching wallet data:', error.message || error);
     try {
       return await fetchSolanaWalletDataViaRPC(address);
-    } catch (rpcError) {
+    } catch (rpcError: any) {
       return {
         address,
         balance: 0,
@@ -1,7 +1,8 @@
 import axios from 'axios';
 import crypto from 'crypto';
-import { calculateSteamScore } from '../scoring/steam.js';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { calculateSteamScore, type SteamProfile } from '../scoring/steam.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import type { CallbackQuery, ProviderCallbackResult, ProviderSession } from './types.js';
 
 const getSteamConfig = () => {
   const STEAM_API_KEY = process.env.STEAM_API_KEY;
@@ -11,7 +12,7 @@ const getSteamConfig = () => {
   return { STEAM_API_KEY, REDIRECT_URI, BACKEND_URL };
 };
 
-export const steamAuth = async (passportId, sessionId) => {
+export const steamAuth = async (passportId: string, sessionId: string): Promise<string> => {
   const { REDIRECT_URI, BACKEND_URL } = getSteamConfig();
   const returnTo = encodeURIComponent(`${REDIRECT_URI}?session=${sessionId}`);
   const realm = encodeURIComponent(BACKEND_URL);
@@ -28,7 +29,7 @@ export const steamAuth = async (passportId, sessionId) => {
   return `https://steamcommunity.com/openid/login?${params.toString()}`;
 };
 
-export const steamCallback = async (query, session) => {
+export const steamCallback = async (query: CallbackQuery, session: ProviderSession): Promise<ProviderCallbackResult> => {
   const { 'openid.claimed_id': claimedId, 'openid.identity': identity } = query;
   
   if (!claimedId || !identity) {
@@ -46,7 +47,7 @@ export const steamCallback = async (query, session) => {
   // Verify OpenID response (simplified - in production, validate signature)
   // For now, we'll fetch profile data
   const { STEAM_API_KEY } = getSteamConfig();
-  let profileData = null;
+  let profileData: SteamProfile | null = null;
   if (STEAM_API_KEY) {
     try {
       const profileResponse = await axios.get('https://api.steampowered.com/ISteamUser/GetPlayerSummaries/v0002/', {
@@ -59,7 +60,7 @@ export const steamCallback = async (query, session) => {
       if (profileResponse.data.response?.players?.[0]) {
         profileData = profileResponse.data.response.players[0];
       }
-    } catch (error) {
+    } catch (error: any) {
       console.warn('[Steam] Failed to fetch profile:', error.message);
     }
   }
@@ -69,8 +70,7 @@ export const steamCallback = async (query, session) => {
 
   // Generate Aleo-compatible commitment
   const platformId = 9; // Steam = 9 (per platformMapping.ts)
-  const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-  const commitment = generateAleoCommitment(platformId, steamId, secretSalt);
+  const commitment = await commitSocialAccount(platformId, steamId);
 
   return {
     verified: true,
@@ -84,7 +84,7 @@ export const steamCallback = async (query, session) => {
   };
 };
 
-export const steamStatus = async (session) => {
+export const steamStatus = async (session: ProviderSession) => {
   return session.result || null;
 };
 
@@ -3,7 +3,22 @@
 
 import axios from 'axios';
 import crypto from 'crypto';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import type { CallbackQuery, ProviderCallbackResult, ProviderSession, ProviderVerifyResult } from './types.js';
+
+/**
+ * Login Widget data (https://core.telegram.org/widgets/login#receiving-authorization-data)
+ */
+export interface TelegramLoginData {
+  id: number;
+  first_name?: string;
+  last_name?: string;
+  username?: string;
+  photo_url?: string;
+  auth_date: number;
+  hash: string;
+  [key: string]: string | number | undefined;
+}
 
 export const getTelegramConfig = () => {
   const TELEGRAM_BOT_TOKEN = (process.env.TELEGRAM_BOT_TOKEN || '').trim();
@@ -27,7 +42,7 @@ export const getTelegramConfig = () => {
  * Initialize Telegram OAuth and get authorization URL
  * Uses bot deep linking for local development (OAuth requires HTTPS domain)
  */
-export const initClientAndGetAuthUrl = async (sessionId, callbackOverride) => {
+export const initClientAndGetAuthUrl = async (sessionId: string, callbackOverride?: string) => {
   const { TELEGRAM_BOT_TOKEN, REDIRECT_URI } = getTelegramConfig();
   
   if (!TELEGRAM_BOT_TOKEN) {
@@ -51,7 +66,7 @@ export const initClientAndGetAuthUrl = async (sessionId, callbackOverride) => {
  * Verify Telegram user data
  * Telegram sends data via webhook or we verify via Bot API
  */
-export const verifyTelegramUser = async (telegramData) => {
+export const verifyTelegramUser = async (telegramData: TelegramLoginData): Promise<ProviderVerifyResult> => {
   const { TELEGRAM_BOT_TOKEN } = getTelegramConfig();
   
   if (!TELEGRAM_BOT_TOKEN) {
@@ -89,7 +104,7 @@ export const verifyTelegramUser = async (telegramData) => {
 
     // Check auth_date (should be recent, within 86400 seconds = 24 hours)
     const currentTime = Math.floor(Date.now() / 1000);
-    const authDate = parseInt(auth_date);
+    const authDate = Number(auth_date);
     if (currentTime - authDate > 86400) {
       throw new Error('Telegram data expired: auth_date is too old');
     }
@@ -113,8 +128,7 @@ export const verifyTelegramUser = async (telegramData) => {
 
     // Generate Aleo-compatible commitment for privacy
     const platformId = 4; // Telegram = 4
-    const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-    const commitment = generateAleoCommitment(platformId, id.toString(), secretSalt);
+    const commitment = await commitSocialAccount(platformId, id.toString());
     
     return {
       valid: true,
@@ -126,7 +140,7 @@ export const verifyTelegramUser = async (telegramData) => {
       maxScore: scoreResult.maxScore,
       // DO NOT return: userId, username, profile
     };
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Telegram] Verification error:', error);
     return {
       valid: false,
@@ -139,7 +153,7 @@ export const verifyTelegramUser = async (telegramData) => {
  * Handle Telegram OAuth callback
  * Telegram Login Widget sends data in query parameters
  */
-export const telegramCallback = async (query, session) => {
+export const telegramCallback = async (query: CallbackQuery, session: ProviderSession): Promise<ProviderCallbackResult> => {
   console.log('[Telegram] Callback received with query:', Object.keys(query));
   console.log('[Telegram] Session stateData:', session?.stateData);
   
@@ -152,7 +166,7 @@ export const telegramCallback = async (query, session) => {
   if (id && hash && auth_date) {
     console.log('[Telegram] Using OAuth data from Telegram Login Widget');
     
-    const telegramData = {
+    const telegramData: TelegramLoginData = {
       id: parseInt(id),
       first_name,
       last_name,
@@ -175,16 +189,15 @@ export const telegramCallback = async (query, session) => {
 
     // Generate Aleo-compatible commitment for privacy (must match backend aleoField)
     const platformId = 4; // Telegram = 4 (per spec)
-    const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-    const commitment = generateAleoCommitment(platformId, userIdStr, secretSalt);
+    const commitment = await commitSocialAccount(platformId, userIdStr);
 
     return {
-      verified: result.valid && result.score > 0,
+      verified: result.valid && (result.score ?? 0) > 0,
       provider: 'telegram',
       commitment,
-      score: result.score,
-      criteria: result.criteria,
-      maxScore: result.maxScore,
+      score: result.score ?? 0,
+      criteria: result.criteria ?? [],
+      maxScore: result.maxScore ?? 0,
     };
   }
   
@@ -226,8 +239,7 @@ export const telegramCallback = async (query, session) => {
       
       // Generate Aleo-compatible commitment for privacy
       const platformId = 4; // Telegram = 4
-      const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-      const commitment = generateAleoCommitment(platformId, telegramUserId.toString(), secretSalt);
+      const commitment = await commitSocialAccount(platformId, telegramUserId.toString());
       
       return {
         verified: true,
@@ -256,7 +268,7 @@ export const telegramCallback = async (query, session) => {
 /**
  * Generate Telegram auth URL
  */
-export const telegramAuth = async (passportId, sessionId) => {
+export const telegramAuth = async (passportId: string, sessionId: string): Promise<string> => {
   const result = await initClientAndGetAuthUrl(sessionId);
   return result.authUrl;
 };
@@ -264,7 +276,7 @@ export const telegramAuth = async (passportId, sessionId) => {
 /**
  * Get Telegram verification status
  */
-export const telegramStatus = async (session) => {
+export const telegramStatus = async (session: ProviderSession) => {
   return session.result || null;
 };
 
@@ -3,7 +3,15 @@
 
 import axios from 'axios';
 import crypto from 'crypto';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import type { TikTokUserInfo } from '../scoring/tiktok.js';
+import type {
+  CallbackQuery,
+  ProviderCallbackResult,
+  ProviderPayload,
+  ProviderSession,
+  ProviderVerifyResult
+} from './types.js';
 
 const getTikTokConfig = () => {
   const TIKTOK_CLIENT_ID = (process.env.TIKTOK_CLIENT_ID || '').trim();
@@ -31,7 +39,7 @@ const getTikTokConfig = () => {
 /**
  * Initialize TikTok OAuth and get authorization URL
  */
-export const initClientAndGetAuthUrl = async (sessionId, callbackOverride) => {
+export const initClientAndGetAuthUrl = async (sessionId: string, callbackOverride?: string) => {
   const { TIKTOK_CLIENT_ID, REDIRECT_URI } = getTikTokConfig();
   
   if (!TIKTOK_CLIENT_ID) {
@@ -61,7 +69,7 @@ export const initClientAndGetAuthUrl = async (sessionId, callbackOverride) => {
 /**
  * Exchange authorization code for access token
  */
-const requestAccessToken = async (code) => {
+const requestAccessToken = async (code: string): Promise<string> => {
   const { TIKTOK_CLIENT_ID, TIKTOK_CLIENT_SECRET, REDIRECT_URI } = getTikTokConfig();
   
   if (!TIKTOK_CLIENT_ID || !TIKTOK_CLIENT_SECRET) {
@@ -92,7 +100,7 @@ const requestAccessToken = async (code) => {
     }
 
     return response.data.data.access_token;
-  } catch (error) {
+  } catch (error: any) {
     console.error('[TikTok] Token request error:', error.response?.data || error.message);
     throw new Error(`Error requesting TikTok access token: ${error.message}`);
   }
@@ -101,7 +109,7 @@ const requestAccessToken = async (code) => {
 /**
  * Make authenticated request to TikTok API
  */
-const makeTikTokRequest = async (url, accessToken) => {
+const makeTikTokRequest = async <T>(url: string, accessToken: string): Promise<T> => {
   try {
     const response = await axios.get(url, {
       headers: {
@@ -115,7 +123,7 @@ const makeTikTokRequest = async (url, accessToken) => {
     }
 
     return response.data.data || response.data;
-  } catch (error) {
+  } catch (error: any) {
     console.error('[TikTok] API request error:', error.response?.data || error.message);
     throw new Error(`TikTok API request error: ${error.message}`);
   }
@@ -125,8 +133,8 @@ const makeTikTokRequest = async (url, accessToken) => {
  * Verify TikTok user
  */
 export class TikTokProvider {
-  async verify(payload) {
-    const errors = [];
+  async verify(payload: ProviderPayload): Promise<ProviderVerifyResult> {
+    const errors: string[] = [];
     
     try {
       const code = payload.proofs?.code;
@@ -139,7 +147,7 @@ export class TikTokProvider {
       const accessToken = await requestAccessToken(code);
 
       // Step 2: Get user info
-      const userInfo = await makeTikTokRequest(
+      const userInfo = await makeTikTokRequest<TikTokUserInfo>(
         'https://open.tiktokapis.com/v2/user/info/?fields=open_id,union_id,avatar_url,display_name,username',
         accessToken
       );
@@ -159,8 +167,7 @@ export class TikTokProvider {
 
       // Generate Aleo-compatible commitment for privacy
       const platformId = 5; // TikTok = 5 (per spec)
-      const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-      const commitment = generateAleoCommitment(platformId, userId, secretSalt);
+      const commitment = await commitSocialAccount(platformId, userId);
       
       return {
         valid: true,
@@ -173,7 +180,7 @@ export class TikTokProvider {
         accessToken: accessToken,
         // DO NOT return: userId, username, profile
       };
-    } catch (error) {
+    } catch (error: any) {
       const errorMessage = error.message || 'Unknown error occurred';
       errors.push(`TikTok verification error: ${errorMessage}`);
       return { valid: false, errors };
@@ -184,7 +191,7 @@ export class TikTokProvider {
 /**
  * Handle TikTok OAuth callback
  */
-export const tiktokCallback = async (query, session) => {
+export const tiktokCallback = async (query: CallbackQuery, session: ProviderSession): Promise<ProviderCallbackResult> => {
   const { code, state } = query;
   
   if (!code) {
@@ -192,7 +199,7 @@ export const tiktokCallback = async (query, session) => {
   }
 
   const provider = new TikTokProvider();
-  const payload = {
+  const payload: ProviderPayload = {
     proofs: {
       code: code
     }
@@ -205,12 +212,12 @@ export const tiktokCallback = async (query, session) => {
   }
 
   return {
-    verified: result.valid && result.score > 0,
+    verified: result.valid && (result.score ?? 0) > 0,
     provider: 'tiktok',
-    commitment: result.commitment, // PRIVACY: Return commitment, not userId
-    score: result.score,
-    criteria: result.criteria,
-    maxScore: result.maxScore,
+    commitment: result.commitment!, // PRIVACY: Return commitment, not userId
+    score: result.score ?? 0,
+    criteria: result.criteria ?? [],
+    maxScore: result.maxScore ?? 0,
     accessToken: result.accessToken,
     // DO NOT return: userId, username, profile
   };
@@ -219,7 +226,7 @@ export const tiktokCallback = async (query, session) => {
 /**
  * Generate TikTok auth URL
  */
-export const tiktokAuth = async (passportId, sessionId) => {
+export const tiktokAuth = async (passportId: string, sessionId: string): Promise<string> => {
   const result = await initClientAndGetAuthUrl(sessionId);
   return result.authUrl;
 };
@@ -227,7 +234,7 @@ export const tiktokAuth = async (passportId, sessionId) => {
 /**
  * Get TikTok verification status
  */
-export const tiktokStatus = async (session) => {
+export const tiktokStatus = async (session: ProviderSession) => {
   return session.result || null;
 };
 
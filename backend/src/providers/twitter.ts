@@ -1,12 +1,31 @@
 import axios from 'axios';
 import crypto from 'crypto';
-import { calculateTwitterScore } from '../scoring/twitter.js';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { calculateTwitterScore, type TwitterUser } from '../scoring/twitter.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import type {
+  CallbackQuery,
+  ProviderCallbackResult,
+  ProviderPayload,
+  ProviderSession,
+  ProviderVerifyResult
+} from './types.js';
 
 // ============================================
-// Types documentation (following Gitcoin Passport pattern)
-// TwitterTokenResponse: { access_token: string, token_type: string, expires_in?: number }
-// TwitterUserData: { id: string, username: string, name?: string, created_at?: string, public_metrics?: {...}, verified?: boolean }
+// Types (following Gitcoin Passport pattern)
+// ============================================
+
+interface TwitterTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+}
+
+interface TwitterUserData extends TwitterUser {
+  id: string;
+  username: string;
+  name?: string;
+}
+
 // ============================================
 // OAuth Procedures (following Gitcoin pattern)
 // ============================================
@@ -24,7 +43,7 @@ const getTwitterConfig = () => {
  * Initialize Twitter OAuth client and get authorization URL
  * Follows Gitcoin Passport pattern: initClientAndGetAuthUrl
  */
-export const initClientAndGetAuthUrl = async (sessionId, callbackOverride) => {
+export const initClientAndGetAuthUrl = async (sessionId: string, callbackOverride?: string) => {
   const { TWITTER_CLIENT_ID, TWITTER_CLIENT_SECRET, REDIRECT_URI } = getTwitterConfig();
   
   if (!TWITTER_CLIENT_ID || !TWITTER_CLIENT_SECRET) {
@@ -65,12 +84,15 @@ export const initClientAndGetAuthUrl = async (sessionId, callbackOverride) => {
  * Exchange authorization code for access token
  * Follows Gitcoin Passport pattern: requestAccessToken
  */
-export const requestAccessToken = async (code, codeVerifier) => {
+export const requestAccessToken = async (code: string, codeVerifier: string): Promise<string> => {
   const { TWITTER_CLIENT_ID, TWITTER_CLIENT_SECRET, REDIRECT_URI } = getTwitterConfig();
   
   if (!code || !codeVerifier) {
     throw new Error('Authorization code and code verifier are required');
   }
+  if (!TWITTER_CLIENT_ID || !TWITTER_CLIENT_SECRET) {
+    throw new Error('TWITTER_CLIENT_ID or TWITTER_CLIENT_SECRET not configured. Please add these to backend/.env file.');
+  }
 
   try {
     const tokenResponse = await axios.post(
@@ -97,11 +119,11 @@ export const requestAccessToken = async (code, codeVerifier) => {
       throw new Error(`Token exchange returned status ${tokenResponse.status} instead of 200`);
     }
 
-    const tokenData = tokenResponse.data;
+    const tokenData: TwitterTokenResponse = tokenResponse.data;
     return tokenData.access_token;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const errorMessage = error.response?.data?.error_description || error.message;
+      const errorMessage = (error.response?.data as { error_description?: string } | undefined)?.error_description || error.message;
       throw new Error(`Error requesting Twitter access token: ${errorMessage}`);
     }
     throw error;
@@ -112,7 +134,7 @@ export const requestAccessToken = async (code, codeVerifier) => {
  * Get Twitter user data using access token
  * Follows Gitcoin Passport pattern: getTwitterUserData
  */
-export const getTwitterUserData = async (accessToken) => {
+export const getTwitterUserData = async (accessToken: string): Promise<TwitterUserData> => {
   try {
     const userInfoResponse = await axios.get('https://api.twitter.com/2/users/me', {
       params: {
@@ -130,7 +152,7 @@ export const getTwitterUserData = async (accessToken) => {
     return userInfoResponse.data.data;
   } catch (error) {
     if (axios.isAxiosError(error)) {
-      const errorMessage = error.response?.data?.detail || error.message;
+      const errorMessage = (error.response?.data as { detail?: string } | undefined)?.detail || error.message;
       throw new Error(`Error retrieving Twitter user data: ${errorMessage}`);
     }
     throw error;
@@ -147,19 +169,18 @@ export const getTwitterUserData = async (accessToken) => {
  */
 export class TwitterProvider {
   type = 'Twitter';
-  _options = {};
+  _options: Record<string, unknown> = {};
 
-  constructor(options = {}) {
+  constructor(options: Record<string, unknown> = {}) {
     this._options = { ...this._options, ...options };
   }
 
   /**
    * Verify Twitter account - main method following Gitcoin pattern
-   * @param {Object} payload - Contains proofs.code from OAuth callback
-   * @returns {Promise<{valid: boolean, record?: object, errors?: string[]}>}
+   * @param payload - Contains proofs.code from OAuth callback
    */
-  async verify(payload) {
-    const errors = [];
+  async verify(payload: ProviderPayload): Promise<ProviderVerifyResult> {
+    const errors: string[] = [];
 
     try {
       // Extract code from proofs
@@ -199,7 +220,7 @@ export class TwitterProvider {
       const scoreResult = calculateTwitterScore(userInfo);
 
       // Step 5: Generate commitment hash (for Aleo blockchain)
-      const commitment = this.generateCommitment(userInfo.id);
+      const commitment = await this.generateCommitment(userInfo.id);
 
       // Step 6: Return verified result
       return {
@@ -216,7 +237,7 @@ export class TwitterProvider {
         maxScore: scoreResult.maxScore,
         accessToken: accessToken // Will be hashed before storage
       };
-    } catch (error) {
+    } catch (error: any) {
       const errorMessage = error.message || 'Unknown error occurred';
       errors.push(`Twitter verification error: ${errorMessage}`);
       return { valid: false, errors };
@@ -227,8 +248,8 @@ export class TwitterProvider {
    * Validate Twitter user meets requirements
    * Following Gitcoin Passport validation pattern
    */
-  validateUser(userData) {
-    const errors = [];
+  validateUser(userData: TwitterUserData): { valid: boolean; errors?: string[] } {
+    const errors: string[] = [];
 
     // Validate user ID exists
     if (!userData.id) {
@@ -258,7 +279,7 @@ export class TwitterProvider {
   /**
    * Calculate account age in days
    */
-  calculateAccountAge(createdAt) {
+  calculateAccountAge(createdAt: string): number {
     const createdDate = new Date(createdAt);
     const now = new Date();
     const diffTime = now.getTime() - createdDate.getTime();
@@ -267,15 +288,14 @@ export class TwitterProvider {
 
   /**
    * Generate commitment hash for Aleo blockchain
-   * Format: SHA-256(platform_id:user_id:secret_salt) mod FIELD_MODULUS
+   * Server-held, versioned commitment key (utils/aleoField.ts, utils/commitments.ts)
    * Returns a valid Aleo field element
    */
-  generateCommitment(userId) {
+  async generateCommitment(userId: string): Promise<string> {
     const platformId = 2; // Twitter = 2 (per spec)
-    const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
     
     // Use Aleo field utility for proper field element format
-    return generateAleoCommitment(platformId, userId, secretSalt);
+    return commitSocialAccount(platformId, userId);
   }
 }
 
@@ -286,7 +306,7 @@ export class TwitterProvider {
 /**
  * Generate OAuth authorization URL (legacy function)
  */
-export const twitterAuth = async (passportId, sessionId) => {
+export const twitterAuth = async (passportId: string, sessionId: string): Promise<string> => {
   const result = await initClientAndGetAuthUrl(sessionId);
   return result.authUrl;
 };
@@ -294,18 +314,18 @@ export const twitterAuth = async (passportId, sessionId) => {
 /**
  * Handle OAuth callback (legacy function)
  */
-export const twitterCallback = async (query, session) => {
+export const twitterCallback = async (query: CallbackQuery, session: ProviderSession): Promise<ProviderCallbackResult> => {
   const { code, state } = query;
   
   if (!code) {
     throw new Error('Authorization code missing');
   }
 
-  const [sessionId, codeVerifier] = state.split(':');
+  const [sessionId, codeVerifier] = (state || '').split(':');
   
   // Use Provider class for verification
   const provider = new TwitterProvider();
-  const payload = {
+  const payload: ProviderPayload = {
     proofs: {
       code: code,
       state: state
@@ -323,16 +343,16 @@ export const twitterCallback = async (query, session) => {
     verified: result.valid,
     provider: 'twitter',
     // PRIVACY: Only return commitment, not userId or username
-    commitment: result.commitment,
-    score: result.score,
-    criteria: result.criteria,
-    maxScore: result.maxScore
+    commitment: result.commitment!,
+    score: result.score ?? 0,
+    criteria: result.criteria ?? [],
+    maxScore: result.maxScore ?? 0
   };
 };
 
 /**
  * Get verification status (legacy function)
  */
-export const twitterStatus = async (session) => {
+export const twitterStatus = async (session: ProviderSession) => {
   return session.result || null;
 };
@@ -0,0 +1,73 @@
+// Shapes shared by the provider modules and the /auth routes
+
+import type { ScoreCriterion, VerificationSessionResult, WalletCallbackRequest } from '@zkpersona/api-contract';
+import type { SessionStateData } from '../database/index.js';
+
+/**
+ * Query parameters a provider redirects back with (OAuth code/state, OpenID, Telegram login)
+ */
+export type CallbackQuery = Record<string, string | undefined>;
+
+/**
+ * Session handed to <provider>Callback and <provider>Status
+ */
+export interface ProviderSession {
+  id: string;
+  provider: string;
+  walletId: string | null;
+  passportId: string | null;
+  stateData: SessionStateData;
+  result?: VerificationSessionResult;
+}
+
+/**
+ * Result of <provider>Callback; the routes send only the VerificationResult fields to the frontend
+ */
+export interface ProviderCallbackResult extends VerificationSessionResult {
+  metadataHash?: string; // Alias of commitment for older clients
+  accessToken?: string;
+  steamId?: string;
+}
+
+/**
+ * What <provider>Auth returns to GET /auth/:provider/start
+ * OAuth providers return the consent page URL, wallet providers a challenge for the frontend.
+ */
+export interface WalletAuthChallenge {
+  sessionId: string;
+  passportId: string;
+  provider: string;
+  message: string;
+}
+
+export type ProviderAuthResult = string | WalletAuthChallenge;
+
+/**
+ * Body or query of a wallet signature callback
+ */
+export interface WalletCallbackInput {
+  body?: Partial<WalletCallbackRequest>;
+  query?: Partial<WalletCallbackRequest>;
+}
+
+/**
+ * Input and output of the Provider classes' verify() (Gitcoin Passport pattern)
+ */
+export interface ProviderPayload {
+  proofs?: {
+    code?: string;
+    state?: string;
+    codeVerifier?: string;
+  };
+}
+
+export interface ProviderVerifyResult {
+  valid: boolean;
+  errors?: string[];
+  record?: { id: string; [key: string]: string };
+  commitment?: string;
+  score?: number;
+  criteria?: ScoreCriterion[];
+  maxScore?: number;
+  accessToken?: string;
+}
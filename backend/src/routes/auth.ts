@@ -1,5 +1,16 @@
-import express from 'express';
+import express, { type Request, type Response } from 'express';
 import crypto from 'crypto';
+import type {
+  AuthStartQuery,
+  AuthStatusQuery,
+  ErrorResponse,
+  OAuthPopupMessage,
+  VerificationResult,
+  VerificationSession,
+  VerificationSessionResult,
+  WalletAuthStartResponse,
+  WalletCallbackRequest
+} from '@zkpersona/api-contract';
 import { discordAuth, discordCallback, discordStatus } from '../providers/discord.js';
 import { telegramAuth, telegramCallback, telegramStatus } from '../providers/telegram.js';
 import { twitterAuth, twitterCallback, twitterStatus } from '../providers/twitter.js';
@@ -8,12 +19,38 @@ import { evmAuth, evmCallback, evmStatus } from '../providers/evm.js';
 import { solanaAuth, solanaCallback, solanaStatus } from '../providers/solana.js';
 import { getSession, saveSession, updateSession, hashToken } from '../database/index.js';
 import { v4 as uuidv4 } from 'uuid';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import { withAttestation } from '../utils/attestation.js';
+import { validate } from '../middleware/validate.js';
+import {
+  authCallbackQuerySchema,
+  authStartQuerySchema,
+  authStatusQuerySchema,
+  redirectQuerySchema,
+  telegramUpdateSchema,
+  walletCallbackSchema,
+  type TelegramMessage
+} from '../schemas/auth.js';
+import type {
+  CallbackQuery,
+  ProviderAuthResult,
+  ProviderCallbackResult,
+  ProviderSession
+} from '../providers/types.js';
 
 const router = express.Router();
 
+type AuthHandler = (passportId: string, sessionId: string) => Promise<ProviderAuthResult>;
+type CallbackHandler = (query: CallbackQuery, session: ProviderSession) => Promise<ProviderCallbackResult>;
+type StatusHandler = (session: ProviderSession) => Promise<VerificationSessionResult | null>;
+
 // Generic route handler
-const handleAuthStart = async (req, res, provider, authHandler) => {
+const handleAuthStart = async (
+  req: Request<{}, unknown, unknown, AuthStartQuery>,
+  res: Response<WalletAuthStartResponse | ErrorResponse>,
+  provider: string,
+  authHandler: AuthHandler
+) => {
   try {
     const walletId = req.query.walletId || req.query.passportId;
     
@@ -35,20 +72,21 @@ const handleAuthStart = async (req, res, provider, authHandler) => {
 
     const result = await authHandler(walletId, sessionId);
     
-    if (provider === 'evm' || provider === 'solana') {
+    // Wallet providers (evm, solana) answer with a challenge for the frontend
+    if (typeof result === 'object') {
       return res.json({
+        ...result,
         sessionId,
         walletId,
-        provider,
-        ...(typeof result === 'object' ? result : {})
+        provider
       });
     }
     
     // For OAuth providers, redirect to provider
-    const redirectUrl = typeof result === 'string' ? result : result.url || result.authUrl;
-    console.log(`[Auth] 🔗 ${provider} redirecting to provider:`, redirectUrl?.substring(0, 100) + '...');
+    const redirectUrl = result;
+    console.log(`[Auth] 🔗 ${provider} redirecting to provider:`, redirectUrl.substring(0, 100) + '...');
     res.redirect(redirectUrl);
-  } catch (error) {
+  } catch (error: any) {
     console.error(`[Auth] ❌ ${provider} start error:`, error);
     
     // If it's a configuration error, return helpful message
@@ -63,7 +101,12 @@ const handleAuthStart = async (req, res, provider, authHandler) => {
   }
 };
 
-const handleAuthCallback = async (req, res, provider, callbackHandler) => {
+const handleAuthCallback = async (
+  req: Request<{}, unknown, unknown, CallbackQuery>,
+  res: Response,
+  provider: string,
+  callbackHandler: CallbackHandler
+) => {
   try {
     console.log(`[Auth] 📥 ${provider} callback received:`, { 
       queryKeys: Object.keys(req.query),
@@ -133,15 +176,16 @@ const handleAuthCallback = async (req, res, provider, callbackHandler) => {
       `);
     }
     
-    // Prepare result for frontend (no personal data)
-    const frontendResult = {
+    // Prepare result for frontend (no personal data), signed for the session's wallet
+    const frontendResult = await withAttestation<VerificationResult>({
       provider: result.provider || provider,
       score: result.score || 0,
-      commitment: result.commitment || null,
+      commitment: result.commitment,
       criteria: result.criteria || [],
       maxScore: result.maxScore || result.score || 0
       // Do not return: userId, email, username, profile
-    };
+    }, session.userId);
+    const popupMessage: OAuthPopupMessage = { type: 'oauth-complete', provider, result: frontendResult };
     
     // PostMessage target '*' so opener receives regardless of port (5173 vs 5174 etc). Frontend validates structure & provider.
     console.log(`[Auth] ${provider} sending result via postMessage (target *)`);
@@ -166,12 +210,12 @@ const handleAuthCallback = async (req, res, provider, callbackHandler) => {
           <script>
             (function() {
               let messageSent = false;
-              const result = ${JSON.stringify(frontendResult)};
+              const message = ${JSON.stringify(popupMessage)};
               function send() {
                 if (messageSent) return;
                 if (window.opener && !window.opener.closed) {
                   try {
-                    window.opener.postMessage({ type: 'oauth-complete', provider: '${provider}', result: result }, '*');
+                    window.opener.postMessage(message, '*');
                     messageSent = true;
                     setTimeout(function() { if (window.opener && !window.opener.closed) window.close(); }, 1500);
                   } catch (e) { console.error(e); setTimeout(send, 300); }
@@ -187,20 +231,20 @@ const handleAuthCallback = async (req, res, provider, callbackHandler) => {
         </body>
       </html>
     `);
-  } catch (error) {
+  } catch (error: any) {
     console.error(`[Auth] ❌ ${provider} callback error:`, error.message, error.stack);
     res.redirect(`${process.env.FRONTEND_URL || 'http://localhost:5173'}/verify/callback?error=${encodeURIComponent(error.message)}`);
   }
 };
 
-const handleAuthStatus = async (req, res, provider, statusHandler) => {
+const handleAuthStatus = async (
+  req: Request<{}, unknown, unknown, AuthStatusQuery>,
+  res: Response<VerificationSession | ErrorResponse>,
+  provider: string,
+  statusHandler: StatusHandler
+) => {
   try {
     const { session } = req.query;
-    
-    if (!session) {
-      console.warn(`[Auth] ⚠️ ${provider} status: Missing session parameter`);
-      return res.status(400).json({ error: 'session is required' });
-    }
 
     console.log(`[Auth] 🔍 ${provider} status requested for session:`, session);
 
@@ -232,24 +276,29 @@ const handleAuthStatus = async (req, res, provider, statusHandler) => {
       status: sessionData.status,
       result: sessionData.stateData?.result || status
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error(`[Auth] ❌ ${provider} status error:`, error);
     res.status(500).json({ error: error.message });
   }
 };
 
+// Request validation of the generic handlers
+const startQuery = validate({ query: authStartQuerySchema });
+const callbackQuery = validate({ query: authCallbackQuerySchema });
+const statusQuery = validate({ query: authStatusQuerySchema });
+
 // Discord OAuth
-router.get('/discord/start', (req, res) => handleAuthStart(req, res, 'discord', discordAuth));
-router.get('/discord/callback', (req, res) => handleAuthCallback(req, res, 'discord', discordCallback));
-router.get('/discord/status', (req, res) => handleAuthStatus(req, res, 'discord', discordStatus));
+router.get('/discord/start', startQuery, (req, res) => handleAuthStart(req, res, 'discord', discordAuth));
+router.get('/discord/callback', callbackQuery, (req, res) => handleAuthCallback(req, res, 'discord', discordCallback));
+router.get('/discord/status', statusQuery, (req, res) => handleAuthStatus(req, res, 'discord', discordStatus));
 
 // Twitter OAuth (popup flow like Discord)
-router.get('/twitter/start', (req, res) => handleAuthStart(req, res, 'twitter', twitterAuth));
-router.get('/twitter/callback', (req, res) => handleAuthCallback(req, res, 'twitter', twitterCallback));
-router.get('/twitter/status', (req, res) => handleAuthStatus(req, res, 'twitter', twitterStatus));
+router.get('/twitter/start', startQuery, (req, res) => handleAuthStart(req, res, 'twitter', twitterAuth));
+router.get('/twitter/callback', callbackQuery, (req, res) => handleAuthCallback(req, res, 'twitter', twitterCallback));
+router.get('/twitter/status', statusQuery, (req, res) => handleAuthStatus(req, res, 'twitter', twitterStatus));
 
 // Telegram: special flow — don't redirect popup to t.me; show instructions + open bot in new tab, user closes popup
-router.get('/telegram/start', async (req, res) => {
+router.get('/telegram/start', startQuery, async (req: Request<{}, unknown, unknown, AuthStartQuery>, res: Response) => {
   try {
     const walletId = req.query.walletId || req.query.passportId;
     if (!walletId) {
@@ -293,14 +342,17 @@ router.get('/telegram/start', async (req, res) => {
       const checkStatus = async () => {
         try {
           const response = await fetch('/auth/telegram/status?session=' + sessionId);
-          const data = await response.json();
-          if (data && (data.verified || data.status === 'verified')) {
+          const data = await response.json(); // VerificationSession
+          if (data && data.status === 'verified' && data.result) {
             // Success! Send message to opener and close
             if (window.opener && !window.opener.closed) {
               const result = {
-                score: data.score || 0,
-                commitment: data.commitment || '',
-                criteria: data.criteria || []
+                provider: 'telegram',
+                score: data.result.score || 0,
+                maxScore: data.result.maxScore || 0,
+                commitment: data.result.commitment || '',
+                criteria: data.result.criteria || [],
+                attestation: data.result.attestation
               };
               window.opener.postMessage({ type: 'oauth-complete', provider: 'telegram', result: result }, '*');
               window.close();
@@ -320,13 +372,13 @@ router.get('/telegram/start', async (req, res) => {
   </script>
 </body></html>
     `);
-  } catch (err) {
+  } catch (err: any) {
     console.error('[Auth] Telegram start error:', err);
     res.status(500).json({ error: err.message });
   }
 });
-router.get('/telegram/callback', (req, res) => handleAuthCallback(req, res, 'telegram', telegramCallback));
-router.get('/telegram/status', (req, res) => handleAuthStatus(req, res, 'telegram', telegramStatus));
+router.get('/telegram/callback', callbackQuery, (req, res) => handleAuthCallback(req, res, 'telegram', telegramCallback));
+router.get('/telegram/status', statusQuery, (req, res) => handleAuthStatus(req, res, 'telegram', telegramStatus));
 
 // One-time: set Telegram bot webhook so the bot receives /start (must be public HTTPS URL)
 // Call: GET /auth/telegram/set-webhook (e.g. from browser or curl). For local dev use ngrok and set BACKEND_URL to ngrok URL first.
@@ -348,14 +400,17 @@ router.get('/telegram/set-webhook', async (req, res) => {
     const axios = (await import('axios')).default;
     const r = await axios.post(`https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/setWebhook`, { url: webhookUrl });
     res.json({ ok: true, result: r.data, webhookUrl });
-  } catch (err) {
+  } catch (err: any) {
     console.error('[Telegram] setWebhook error:', err.response?.data || err.message);
     res.status(500).json({ error: err.message, details: err.response?.data });
   }
 });
 
 // Telegram Bot Webhook (for handling /start commands)
-router.post('/telegram/webhook', async (req, res) => {
+router.post('/telegram/webhook', validate({ body: telegramUpdateSchema }), async (
+  req: Request<{}, unknown, { message?: TelegramMessage }>,
+  res: Response<{ ok: true }>
+) => {
   try {
     const { message } = req.body;
     
@@ -399,7 +454,7 @@ router.post('/telegram/webhook', async (req, res) => {
     const axios = (await import('axios')).default;
 
     // Fetch user profile photos
-    let photoUrl = null;
+    let photoUrl: string | null = null;
     try {
       const photosResponse = await axios.post(`https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/getUserProfilePhotos`, {
         user_id: message.from.id,
@@ -421,7 +476,7 @@ router.post('/telegram/webhook', async (req, res) => {
           photoUrl = `https://api.telegram.org/file/bot${TELEGRAM_BOT_TOKEN}/${filePath}`;
         }
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('[Telegram Webhook] Failed to fetch profile photos:', error.message);
     }
 
@@ -435,9 +490,15 @@ router.post('/telegram/webhook', async (req, res) => {
       accountAgeDays
     });
 
-    const result = {
+    // GITCOIN PASSPORT MODEL: do not persist verification in DB
+    // Generate Aleo-compatible commitment
+    const platformId = 4; // Telegram = 4
+    const commitment = await commitSocialAccount(platformId, message.from.id.toString());
+
+    const result = await withAttestation<VerificationSessionResult>({
       verified: true,
       provider: 'telegram',
+      commitment,
       userId: message.from.id.toString(),
       username: message.from.username || message.from.first_name,
       score: scoreResult.score,
@@ -451,16 +512,7 @@ router.post('/telegram/webhook', async (req, res) => {
         photoUrl: photoUrl,
         accountAgeDays
       }
-    };
-
-    // GITCOIN PASSPORT MODEL: do not persist verification in DB
-    // Generate Aleo-compatible commitment
-    const platformId = 4; // Telegram = 4
-    const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-    const commitment = generateAleoCommitment(platformId, message.from.id.toString(), secretSalt);
-    
-    // Add commitment to result
-    result.commitment = commitment;
+    }, session.userId);
 
     // Update session with result and status
     await updateSession(sessionId, {
@@ -507,13 +559,10 @@ router.post('/telegram/webhook', async (req, res) => {
 });
 
 // Generic Redirect Route (to help with localhost/Telegram limitations)
-router.get('/redirect', (req, res) => {
+router.get('/redirect', validate({ query: redirectQuerySchema }), (req: Request<{}, unknown, unknown, { url: string }>, res: Response) => {
   const { url } = req.query;
-  if (!url) {
-    return res.status(400).send('Missing url parameter');
-  }
   // Basic validation to prevent open redirect abuse (allow localhost or our own domain)
-  if (!url.startsWith('http://localhost') && !url.startsWith(process.env.FRONTEND_URL)) {
+  if (!url.startsWith('http://localhost') && !url.startsWith(process.env.FRONTEND_URL || 'http://localhost:5173')) {
     console.warn('[Redirect] Blocked potential open redirect:', url);
     // return res.status(403).send('Invalid redirect URL'); 
     // For dev simplicity, we allow it for now or check against allowlist
@@ -524,15 +573,14 @@ router.get('/redirect', (req, res) => {
 // TikTok OAuth - REMOVED (no longer supported)
 
 // Solana Wallet
-router.get('/solana/start', (req, res) => handleAuthStart(req, res, 'solana', solanaAuth));
-router.post('/solana/callback', async (req, res) => {
+router.get('/solana/start', startQuery, (req, res) => handleAuthStart(req, res, 'solana', solanaAuth));
+router.post('/solana/callback', validate({ body: walletCallbackSchema }), async (
+  req: Request<{}, unknown, WalletCallbackRequest>,
+  res: Response
+) => {
   // Handle POST request with body data
   try {
-    const sessionId = req.body.state || req.query.state;
-    
-    if (!sessionId) {
-      return res.status(400).json({ error: 'Missing session ID' });
-    }
+    const sessionId = req.body.state;
 
     const session = await getSession(sessionId);
     if (!session) {
@@ -552,14 +600,15 @@ router.post('/solana/callback', async (req, res) => {
     // Just return result via postMessage (if popup) or JSON (if direct call)
 
     if (result.verified) {
-      // Prepare result for frontend (no personal data)
-      const frontendResult = {
+      // Prepare result for frontend (no personal data), signed for the session's wallet
+      const frontendResult = await withAttestation<VerificationResult>({
         provider: 'solana',
         score: result.score || 0,
-        commitment: result.commitment || null,
+        commitment: result.commitment,
         criteria: result.criteria || [],
         maxScore: result.maxScore || result.score || 0
-      };
+      }, session.userId);
+      const popupMessage: OAuthPopupMessage = { type: 'oauth-complete', provider: 'solana', result: frontendResult };
       
       // If popup (via window.opener), use postMessage
       // Otherwise return JSON (for direct API calls)
@@ -578,11 +627,7 @@ router.post('/solana/callback', async (req, res) => {
           <body>
             <script>
               if (window.opener) {
-                window.opener.postMessage({
-                  type: 'oauth-complete',
-                  provider: 'solana',
-                  result: ${JSON.stringify(frontendResult)}
-                }, '${frontendUrl}');
+                window.opener.postMessage(${JSON.stringify(popupMessage)}, '${frontendUrl}');
                 window.close();
               }
             </script>
@@ -592,50 +637,62 @@ router.post('/solana/callback', async (req, res) => {
     }
     
     res.status(400).json({ error: 'Verification failed' });
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Auth] ❌ solana callback error:', error.message, error.stack);
     res.redirect(`${process.env.FRONTEND_URL || 'http://localhost:5173'}/verify/callback?error=${encodeURIComponent(error.message)}`);
   }
 });
-router.get('/solana/status', (req, res) => handleAuthStatus(req, res, 'solana', solanaStatus));
+router.get('/solana/status', statusQuery, (req, res) => handleAuthStatus(req, res, 'solana', solanaStatus));
 
 // EVM SIWE
-router.get('/evm/start', (req, res) => handleAuthStart(req, res, 'evm', evmAuth));
-router.get('/evm/status', (req, res) => handleAuthStatus(req, res, 'evm', evmStatus));
-router.post('/evm/callback', async (req, res) => {
+router.get('/evm/start', startQuery, (req, res) => handleAuthStart(req, res, 'evm', evmAuth));
+router.get('/evm/status', statusQuery, (req, res) => handleAuthStatus(req, res, 'evm', evmStatus));
+router.post('/evm/callback', validate({ body: walletCallbackSchema }), async (
+  req: Request<{}, unknown, WalletCallbackRequest>,
+  res: Response<VerificationSession | ErrorResponse>
+) => {
   try {
-    const sessionId = req.body.state || req.query.state;
-    
-    if (!sessionId) {
-      return res.status(400).json({ error: 'session is required' });
-    }
+    const sessionId = req.body.state;
 
-    const session = getVerificationSession(sessionId);
+    const session = await getSession(sessionId);
     if (!session) {
       return res.status(404).json({ error: 'Session not found' });
     }
 
     // Handle callback
-    const result = await evmCallback(req, session);
+    const callbackResult = await evmCallback({ body: req.body }, {
+      id: sessionId,
+      provider: session.provider,
+      walletId: session.userId,
+      passportId: session.userId,
+      stateData: session.stateData
+    });
+    const result = callbackResult.verified
+      ? await withAttestation(callbackResult, session.userId)
+      : callbackResult;
     
-    // Update session with result
-    session.status = result.verified ? 'verified' : 'failed';
-    session.result = result;
-    session.completedAt = Date.now();
+    // Store the result on the session (frontend will poll status)
+    const status = result.verified ? 'verified' : 'failed';
+    await updateSession(sessionId, {
+      status,
+      stateData: {
+        ...session.stateData,
+        result,
+        completedAt: new Date()
+      }
+    });
 
-    // Return result (frontend will poll status)
     res.json({
       provider: 'evm',
       session: sessionId,
-      status: session.status,
+      status,
       result
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Auth] evm callback error:', error);
     res.status(500).json({ error: error.message });
   }
 });
-router.get('/evm/status', (req, res) => handleAuthStatus(req, res, 'evm', evmStatus));
 
 export { router as authRoutes };
 
@@ -1,8 +1,10 @@
 // Configuration status endpoint
-// Shows which providers are configured and available
+// Shows which providers are configured and available, and the scoring rules in effect
 
-import express from 'express';
+import express, { type Request, type Response } from 'express';
+import type { ConfigStatusResponse, ErrorResponse, ScoringRulesResponse } from '@zkpersona/api-contract';
 import { getProviderStatus } from '../config/index.js';
+import { getAllScoringRules } from '../scoring/rules.js';
 
 const router = express.Router();
 
@@ -10,7 +12,7 @@ const router = express.Router();
  * GET /config/status
  * Returns configuration status for all providers
  */
-router.get('/status', (req, res) => {
+router.get('/status', (req: Request, res: Response<ConfigStatusResponse | ErrorResponse>) => {
   try {
     const status = getProviderStatus();
     const backendUrl = process.env.BACKEND_URL || 'http://localhost:3001';
@@ -34,13 +36,24 @@ router.get('/status', (req, res) => {
       },
       timestamp: new Date().toISOString()
     });
-  } catch (error) {
+  } catch (error: any) {
     res.status(500).json({
-      status: 'error',
       error: error.message
     });
   }
 });
 
+/**
+ * GET /config/scoring
+ * Returns the scoring rules the backend scores and signs attestations with
+ * (registry defaults with SCORING_RULES); the frontend loads them at startup
+ */
+router.get('/scoring', (req: Request, res: Response<ScoringRulesResponse>) => {
+  res.json({
+    rules: getAllScoringRules(),
+    timestamp: new Date().toISOString()
+  });
+});
+
 export default router;
 
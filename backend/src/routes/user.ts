@@ -0,0 +1,243 @@
+// User score and verification summary endpoints
+
+import express, { type Request, type Response } from 'express';
+import type {
+  DeleteVerificationResponse,
+  ErrorResponse,
+  PutSyncStateRequest,
+  PutSyncStateResponse,
+  SyncConflictResponse,
+  SyncStateResponse,
+  UserParams,
+  UserScoreResponse,
+  UserVerificationParams,
+  UserVerificationsResponse
+} from '@zkpersona/api-contract';
+import {
+  getUserScore,
+  getUserVerifications,
+  deleteVerification,
+  getSyncState,
+  saveSyncState,
+  hashToken,
+  SYNC_PROVIDER
+} from '../database/index.js';
+import { validate } from '../middleware/validate.js';
+import {
+  putSyncStateSchema,
+  syncParamsSchema,
+  userParamsSchema,
+  userVerificationParamsSchema
+} from '../schemas/user.js';
+import { toTimestamp } from '../utils/timestamp.js';
+
+const router = express.Router();
+
+// Encrypted sync state limit (base64 ciphertext of the frontend's verification state)
+const MAX_SYNC_DATA_LENGTH = 512 * 1024;
+
+/**
+ * GET /user/:id/score
+ * Get total score for a user across all providers
+ */
+router.get('/:id/score', validate({ params: userParamsSchema }), async (
+  req: Request<UserParams>,
+  res: Response<UserScoreResponse | ErrorResponse>
+) => {
+  try {
+    const { id } = req.params;
+    
+    const totalScore = await getUserScore(id);
+    const verifications = await getUserVerifications(id);
+    
+    // Calculate breakdown by provider
+    const breakdown: UserScoreResponse['breakdown'] = {};
+    let verifiedCount = 0;
+    
+    verifications.forEach(v => {
+      if (v.status === 'verified' && (!v.expiresAt || new Date(v.expiresAt) > new Date())) {
+        breakdown[v.provider] = {
+          score: v.score,
+          maxScore: v.maxScore,
+          verifiedAt: toTimestamp(v.verifiedAt)
+        };
+        verifiedCount++;
+      }
+    });
+    
+    res.json({
+      userId: id,
+      totalScore,
+      verifiedCount,
+      totalProviders: Object.keys(breakdown).length,
+      breakdown,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    console.error('[User] Get score error:', error);
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * GET /user/:id/verifications
+ * Get all verifications for a user
+ */
+router.get('/:id/verifications', validate({ params: userParamsSchema }), async (
+  req: Request<UserParams>,
+  res: Response<UserVerificationsResponse | ErrorResponse>
+) => {
+  try {
+    const { id } = req.params;
+    
+    const verifications = await getUserVerifications(id);
+    
+    res.json({
+      userId: id,
+      verifications: verifications.map(v => ({
+        provider: v.provider,
+        score: v.score,
+        maxScore: v.maxScore,
+        status: v.status,
+        criteria: v.criteria || [], // Include criteria in API response
+        verifiedAt: toTimestamp(v.verifiedAt),
+        expiresAt: toTimestamp(v.expiresAt)
+      })),
+      count: verifications.length
+    });
+  } catch (error: any) {
+    console.error('[User] Get verifications error:', error);
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * GET /user/:id/verifications/sync
+ * Get the end-to-end encrypted verification state for cross-device sync
+ * :id is a sync ID the wallet derives; the backend cannot decrypt the state.
+ */
+router.get('/:id/verifications/sync', validate({ params: syncParamsSchema }), async (
+  req: Request<UserParams>,
+  res: Response<SyncStateResponse | ErrorResponse>
+) => {
+  try {
+    const { id } = req.params;
+    
+    const state = await getSyncState(id);
+    if (!state) {
+      return res.status(404).json({ error: 'Sync state not found' });
+    }
+    
+    res.json({
+      userId: id,
+      blob: state.blob,
+      updatedAt: state.updatedAt
+    });
+  } catch (error: any) {
+    console.error('[User] Get sync state error:', error);
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
+/**
+ * PUT /user/:id/verifications/sync
+ * Store the encrypted verification state
+ * Body: PutSyncStateRequest { blob: { version, salt, iv, data }, updatedAt, previousUpdatedAt, writeToken }
+ * - writeToken: secret derived from the vault passphrase; the first write sets it, later writes must match
+ * - previousUpdatedAt: updatedAt the client merged with (null if none); 409 if another
+ *   device stored a newer state in between, so the client pulls and merges again
+ * Both are checked in the same atomic write (saveSyncState).
+ */
+router.put('/:id/verifications/sync', validate({ params: syncParamsSchema, body: putSyncStateSchema }), async (
+  req: Request<UserParams, unknown, PutSyncStateRequest>,
+  res: Response<PutSyncStateResponse | SyncConflictResponse | ErrorResponse>
+) => {
+  try {
+    const { id } = req.params;
+    const { blob, updatedAt, previousUpdatedAt, writeToken } = req.body;
+    
+    if (blob.data.length > MAX_SYNC_DATA_LENGTH) {
+      return res.status(413).json({ error: 'Encrypted state too large' });
+    }
+    
+    const result = await saveSyncState(id, {
+      blob: { version: blob.version, salt: blob.salt, iv: blob.iv, data: blob.data },
+      updatedAt,
+      writeTokenHash: hashToken(writeToken)
+    }, previousUpdatedAt);
+    
+    if (result.status === 'forbidden') {
+      return res.status(403).json({ error: 'Write token does not match' });
+    }
+    if (result.status === 'conflict') {
+      return res.status(409).json({
+        error: 'Sync state changed on another device',
+        updatedAt: result.updatedAt
+      });
+    }
+    
+    res.json({
+      userId: id,
+      updatedAt
+    });
+  } catch (error: any) {
+    console.error('[User] Save sync state error:', error);
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
+// PRIVACY: Profile endpoints removed - profile data should only exist in user's wallet as private records
+// Profile data storage violates anonymity principles
+
+/**
+ * DELETE /user/:id/verifications/:provider
+ * Delete a specific verification for a user
+ * The encrypted sync row is not a verification: only its write token holder may change it.
+ */
+router.delete('/:id/verifications/:provider', validate({ params: userVerificationParamsSchema }), async (
+  req: Request<UserVerificationParams>,
+  res: Response<DeleteVerificationResponse | ErrorResponse>
+) => {
+  try {
+    const { id, provider } = req.params;
+    
+    if (provider === SYNC_PROVIDER) {
+      return res.status(400).json({
+        error: 'Sync state cannot be deleted here'
+      });
+    }
+    
+    console.log(`[User] 🗑️ Delete verification requested:`, { userId: id?.substring(0, 20) + '...', provider });
+    
+    const deleted = await deleteVerification(id, provider);
+    
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Verification not found'
+      });
+    }
+    
+    res.json({
+      userId: id,
+      provider,
+      deleted: true,
+      message: 'Verification deleted successfully'
+    });
+  } catch (error: any) {
+    console.error('[User] Delete verification error:', error);
+    res.status(500).json({
+      error: error.message
+    });
+  }
+});
+
+export default router;
+
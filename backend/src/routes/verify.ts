@@ -1,8 +1,20 @@
 // Unified verification endpoint
 // Handles verification initiation and status checking for all providers
 
-import express from 'express';
-import { getVerification, getUserVerifications, getUserScore } from '../database/index.js';
+import express, { type Request, type Response } from 'express';
+import type {
+  ErrorResponse,
+  StartVerificationRequest,
+  StartVerificationResponse,
+  StoredVerificationResponse,
+  VerificationListResponse,
+  VerificationParams,
+  VerificationUserParams,
+  WalletVerificationRequest,
+  WalletVerificationResponse
+} from '@zkpersona/api-contract';
+import { v4 as uuidv4 } from 'uuid';
+import { getVerification, getUserVerifications, getUserScore, saveSession } from '../database/index.js';
 import { getProviderConfig, validateRedirectUri } from '../config/index.js';
 import { googleAuth } from '../providers/google.js';
 import { twitterAuth } from '../providers/twitter.js';
@@ -11,6 +23,16 @@ import { githubAuth } from '../providers/github.js';
 import { steamAuth } from '../providers/steam.js';
 import { evmCallback } from '../providers/evm.js';
 import { solanaCallback } from '../providers/solana.js';
+import type { ProviderCallbackResult, ProviderSession } from '../providers/types.js';
+import { validate } from '../middleware/validate.js';
+import {
+  startVerificationSchema,
+  verificationParamsSchema,
+  verificationUserParamsSchema,
+  walletVerificationSchema
+} from '../schemas/verify.js';
+import { toTimestamp } from '../utils/timestamp.js';
+import { withAttestation } from '../utils/attestation.js';
 import { ethers } from 'ethers';
 
 const router = express.Router();
@@ -18,18 +40,15 @@ const router = express.Router();
 /**
  * POST /verify
  * Unified endpoint to initiate verification for any provider
- * Body: { provider: 'google'|'twitter'|'discord'|'github'|'steam'|'evm', userId: string, ...providerSpecific }
+ * Body: StartVerificationRequest { provider: 'google'|'twitter'|'discord'|'github'|'steam'|'evm', userId: string }
  */
-router.post('/', async (req, res) => {
+router.post('/', validate({ body: startVerificationSchema }), async (
+  req: Request<{}, unknown, StartVerificationRequest>,
+  res: Response<StartVerificationResponse | ErrorResponse>
+) => {
   try {
     const { provider, userId } = req.body;
     
-    if (!provider || !userId) {
-      return res.status(400).json({
-        error: 'provider and userId are required'
-      });
-    }
-    
     // Check if already verified
     const existing = await getVerification(userId, provider);
     if (existing && existing.status === 'verified') {
@@ -38,7 +57,7 @@ router.post('/', async (req, res) => {
         provider,
         score: existing.score,
         maxScore: existing.maxScore,
-        verifiedAt: existing.verifiedAt
+        verifiedAt: toTimestamp(existing.verifiedAt)
       });
     }
     
@@ -52,7 +71,7 @@ router.post('/', async (req, res) => {
         // OAuth providers - return redirect URL
         try {
           const config = getProviderConfig(provider);
-          const authHandlers = {
+          const authHandlers: Record<string, (passportId: string, sessionId: string) => Promise<string>> = {
             google: googleAuth,
             twitter: twitterAuth,
             discord: discordAuth,
@@ -60,14 +79,17 @@ router.post('/', async (req, res) => {
             steam: steamAuth
           };
           
-          const redirectUrl = await authHandlers[provider](userId);
+          // Same session as GET /auth/:provider/start, so the provider callback can find it
+          const sessionId = `${provider}_${uuidv4()}`;
+          await saveSession(sessionId, provider, userId, { walletId: userId, status: 'in_progress' });
+          const redirectUrl = await authHandlers[provider](userId, sessionId);
           
           return res.json({
             status: 'redirect_required',
             provider,
             redirectUrl
           });
-        } catch (error) {
+        } catch (error: any) {
           return res.status(400).json({
             error: error.message,
             hint: `Please configure ${provider.toUpperCase()}_CLIENT_ID and ${provider.toUpperCase()}_CLIENT_SECRET`
@@ -86,7 +108,7 @@ router.post('/', async (req, res) => {
           error: `Unsupported provider: ${provider}`
         });
     }
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Verify] Initiate error:', error);
     res.status(500).json({
       error: error.message
@@ -98,7 +120,10 @@ router.post('/', async (req, res) => {
  * GET /verify/:userId/:provider
  * Get verification status for specific user and provider
  */
-router.get('/:userId/:provider', async (req, res) => {
+router.get('/:userId/:provider', validate({ params: verificationParamsSchema }), async (
+  req: Request<VerificationParams>,
+  res: Response<StoredVerificationResponse | ErrorResponse>
+) => {
   try {
     const { userId, provider } = req.params;
     
@@ -116,15 +141,15 @@ router.get('/:userId/:provider', async (req, res) => {
       score: verification.score,
       maxScore: verification.maxScore,
       status: verification.status,
-      verifiedAt: verification.verifiedAt,
-      expiresAt: verification.expiresAt,
+      verifiedAt: toTimestamp(verification.verifiedAt),
+      expiresAt: toTimestamp(verification.expiresAt),
       // PRIVACY: Don't expose personal data
       metadata: verification.metadata ? {
         // Only include commitment, no personal identifiers
-        commitment: verification.commitment || verification.metadata.commitment
+        commitment: verification.commitment || verification.metadata.commitment || null
       } : null
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Verify] Get status error:', error);
     res.status(500).json({
       error: error.message
@@ -136,7 +161,10 @@ router.get('/:userId/:provider', async (req, res) => {
  * GET /verify/:userId
  * Get all verifications for a user
  */
-router.get('/:userId', async (req, res) => {
+router.get('/:userId', validate({ params: verificationUserParamsSchema }), async (
+  req: Request<VerificationUserParams>,
+  res: Response<VerificationListResponse | ErrorResponse>
+) => {
   try {
     const { userId } = req.params;
     
@@ -151,12 +179,12 @@ router.get('/:userId', async (req, res) => {
         score: v.score,
         maxScore: v.maxScore,
         status: v.status,
-        verifiedAt: v.verifiedAt,
-        expiresAt: v.expiresAt
+        verifiedAt: toTimestamp(v.verifiedAt),
+        expiresAt: toTimestamp(v.expiresAt)
       })),
       count: verifications.length
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Verify] Get user verifications error:', error);
     res.status(500).json({
       error: error.message
@@ -167,9 +195,12 @@ router.get('/:userId', async (req, res) => {
 /**
  * POST /verify/wallet
  * GITCOIN PASSPORT MODEL: Sync wallet verification (no sessions, no database storage)
- * Body: { type: 'evm'|'solana', address: string, signature: string, message: string, walletId: string }
+ * Body: WalletVerificationRequest { type: 'evm'|'solana', address: string, signature: string, message: string, walletId?: string }
  */
-router.post('/wallet', async (req, res) => {
+router.post('/wallet', validate({ body: walletVerificationSchema }), async (
+  req: Request<{}, unknown, WalletVerificationRequest>,
+  res: Response<WalletVerificationResponse | ErrorResponse>
+) => {
   try {
     // DEBUG: Log incoming request
     console.log('[Verify/Wallet] Incoming request:', {
@@ -185,26 +216,7 @@ router.post('/wallet', async (req, res) => {
       }
     });
     
-    // Get data from body or query (fallback)
-    // Ensure we have a valid object
-    const body = (req.body && typeof req.body === 'object') ? req.body : 
-                 (req.query && typeof req.query === 'object') ? req.query : {};
-    
-    console.log('[Verify/Wallet] Parsed body:', body);
-    
-    const { type, address, signature, message, walletId } = body;
-    
-    if (!type || !address || !signature || !message) {
-      return res.status(400).json({
-        error: 'type, address, signature, and message are required',
-        received: {
-          hasBody: !!req.body,
-          hasQuery: !!req.query,
-          bodyKeys: req.body ? Object.keys(req.body) : [],
-          queryKeys: req.query ? Object.keys(req.query) : []
-        }
-      });
-    }
+    const { type, address, signature, message, walletId } = req.body;
     
     // Validate wallet address format
     if (type === 'evm' && !ethers.isAddress(address)) {
@@ -214,14 +226,15 @@ router.post('/wallet', async (req, res) => {
     }
     
     // Verify signature and get result
-    let result;
+    let result: ProviderCallbackResult;
     try {
       if (type === 'evm') {
         // Use evmCallback logic (but without session)
         // evmCallback expects req object with body/query, and session
-        const mockSession = {
+        const mockSession: ProviderSession = {
           id: 'sync_verification',
           provider: 'evm',
+          walletId: walletId || address,
           passportId: walletId || address,
           stateData: {}
         };
@@ -242,9 +255,10 @@ router.post('/wallet', async (req, res) => {
       } else if (type === 'solana') {
         // Use solanaCallback logic (but without session)
         // solanaCallback expects query object (can be req.body or req.query) and session
-        const mockSession = {
+        const mockSession: ProviderSession = {
           id: 'sync_verification',
           provider: 'solana',
+          walletId: walletId || address,
           passportId: walletId || address,
           stateData: {}
         };
@@ -258,7 +272,7 @@ router.post('/wallet', async (req, res) => {
           error: `Unsupported wallet type: ${type}. Supported: evm, solana`
         });
       }
-    } catch (callbackError) {
+    } catch (callbackError: any) {
       console.error('[Verify/Wallet] Callback error:', callbackError);
       console.error('[Verify/Wallet] Error message:', callbackError.message);
       console.error('[Verify/Wallet] Error stack:', callbackError.stack);
@@ -279,8 +293,7 @@ router.post('/wallet', async (req, res) => {
         resultKeys: result ? Object.keys(result) : []
       });
       return res.status(400).json({
-        error: 'Verification failed',
-        result: result
+        error: 'Verification failed'
       });
     }
     
@@ -292,13 +305,16 @@ router.post('/wallet', async (req, res) => {
       score: result.score
     });
     
+    const attested = await withAttestation({ ...result, provider: type }, walletId || address);
+
     res.json({
       score: result.score,
       commitment: result.commitment,
       criteria: result.criteria || [],
-      maxScore: result.maxScore || result.score
+      maxScore: result.maxScore || result.score,
+      attestation: attested.attestation
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Verify/Wallet] Route error:', error);
     console.error('[Verify/Wallet] Route error message:', error.message);
     console.error('[Verify/Wallet] Route error stack:', error.stack);
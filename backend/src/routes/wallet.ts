@@ -1,20 +1,32 @@
 // EVM Wallet verification routes
 // Handles MetaMask, WalletConnect, Phantom, and other EVM-compatible wallets
 
-import express from 'express';
+import express, { type Request, type Response } from 'express';
+import type {
+  ErrorResponse,
+  WalletConnectRequest,
+  WalletConnectResponse,
+  WalletSessionParams,
+  WalletSessionResponse,
+  WalletSignatureRequest,
+  WalletSignatureResponse
+} from '@zkpersona/api-contract';
 import { ethers } from 'ethers';
 import { verifyMessage } from 'ethers';
 import axios from 'axios';
 import crypto from 'crypto';
 import { saveSession, getSession, updateSession, hashToken } from '../database/index.js';
-import { calculateEVMScore } from '../scoring/evm.js';
+import { calculateEVMScore, type EVMWalletData } from '../scoring/evm.js';
 import { v4 as uuidv4 } from 'uuid';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import { withAttestation } from '../utils/attestation.js';
+import { validate } from '../middleware/validate.js';
+import { walletConnectSchema, walletSessionParamsSchema, walletSignatureSchema } from '../schemas/wallet.js';
 
 /**
  * Fetch wallet data from Etherscan API
  */
-const fetchWalletData = async (walletAddress) => {
+const fetchWalletData = async (walletAddress: string): Promise<EVMWalletData & { address: string; walletAgeYears: number }> => {
   const apiKey = process.env.ETHERSCAN_API_KEY || '';
   const walletData = {
     address: walletAddress,
@@ -52,12 +64,12 @@ const fetchWalletData = async (walletAddress) => {
         const balance = await provider.getBalance(walletAddress);
         walletData.balanceEth = Number(balance) / 1e18;
         walletData.txCount = await provider.getTransactionCount(walletAddress);
-      } catch (rpcError) {
+      } catch (rpcError: any) {
         console.warn('[Wallet] RPC fallback failed:', rpcError.message);
         // Continue with default values (0 balance, 0 transactions)
       }
     }
-  } catch (error) {
+  } catch (error: any) {
     console.warn('[Wallet] Error fetching wallet data:', error.message);
     // Continue with default values
   }
@@ -72,23 +84,13 @@ const router = express.Router();
  * Initiates wallet verification flow
  * Returns message to sign and session ID
  */
-router.post('/connect', async (req, res) => {
+router.post('/connect', validate({ body: walletConnectSchema }), async (
+  req: Request<{}, unknown, WalletConnectRequest>,
+  res: Response<WalletConnectResponse | ErrorResponse>
+) => {
   try {
     const { userId, walletAddress } = req.body;
     
-    if (!userId || !walletAddress) {
-      return res.status(400).json({
-        error: 'userId and walletAddress are required'
-      });
-    }
-    
-    // Validate wallet address format
-    if (!ethers.isAddress(walletAddress)) {
-      return res.status(400).json({
-        error: 'Invalid wallet address format'
-      });
-    }
-    
     // Generate session ID
     const sessionId = `wallet_${uuidv4()}`;
     
@@ -111,7 +113,7 @@ router.post('/connect', async (req, res) => {
       nonce,
       walletAddress
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('[Wallet] Connect error:', error);
     res.status(500).json({
       error: error.message
@@ -123,16 +125,13 @@ router.post('/connect', async (req, res) => {
  * POST /wallet/verify
  * Verifies wallet signature and calculates score
  */
-router.post('/verify', async (req, res) => {
+router.post('/verify', validate({ body: walletSignatureSchema }), async (
+  req: Request<{}, unknown, WalletSignatureRequest>,
+  res: Response<WalletSignatureResponse | ErrorResponse>
+) => {
   try {
     const { sessionId, signature } = req.body;
     
-    if (!sessionId || !signature) {
-      return res.status(400).json({
-        error: 'sessionId and signature are required'
-      });
-    }
-    
     // Get session
     const session = await getSession(sessionId);
     if (!session) {
@@ -141,16 +140,16 @@ router.post('/verify', async (req, res) => {
       });
     }
     
-    if (session.provider !== 'evm') {
+    // Sessions of /auth/evm/start are 'evm' too but carry no message to sign
+    const { walletAddress, message } = session.stateData;
+    if (session.provider !== 'evm' || !walletAddress || !message) {
       return res.status(400).json({
         error: 'Invalid session type'
       });
     }
     
-    const { walletAddress, message } = session.stateData;
-    
     // Verify signature
-    let recoveredAddress;
+    let recoveredAddress: string;
     try {
       recoveredAddress = verifyMessage(message, signature);
     } catch (error) {
@@ -172,13 +171,12 @@ router.post('/verify', async (req, res) => {
     
     // Generate Aleo-compatible commitment for privacy
     const platformId = 6; // EVM = 6 (per platformMapping.ts)
-    const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-    const commitment = generateAleoCommitment(platformId, walletAddress.toLowerCase(), secretSalt);
+    const commitment = await commitSocialAccount(platformId, walletAddress.toLowerCase());
     
     // GITCOIN PASSPORT MODEL: do not persist verification in DB
-    // Just return result
+    // Just return result, signed for the session's wallet
     
-    res.json({
+    res.json(await withAttestation<WalletSignatureResponse>({
       success: true,
       provider: 'evm',
       score: scoreData.score,
@@ -186,8 +184,8 @@ router.post('/verify', async (req, res) => {
       maxScore: scoreData.maxScore,
       criteria: scoreData.criteria
       // Do not return: walletAddress (personal data)
-    });
-  } catch (error) {
+    }, session.userId));
+  } catch (error: any) {
     console.error('[Wallet] Verify error:', error);
     res.status(500).json({
       error: error.message
@@ -199,7 +197,10 @@ router.post('/verify', async (req, res) => {
  * GET /wallet/status/:sessionId
  * Get wallet verification status
  */
-router.get('/status/:sessionId', async (req, res) => {
+router.get('/status/:sessionId', validate({ params: walletSessionParamsSchema }), async (
+  req: Request<WalletSessionParams>,
+  res: Response<WalletSessionResponse | ErrorResponse>
+) => {
   try {
     const { sessionId } = req.params;
     const session = await getSession(sessionId);
@@ -216,7 +217,7 @@ router.get('/status/:sessionId', async (req, res) => {
       provider: session.provider,
       data: session.stateData
     });
-  } catch (error) {
+  } catch (error: any) {
     res.status(500).json({
       error: error.message
     });
@@ -0,0 +1,89 @@
+// Schemas of the /auth routes
+
+import type {
+  AuthStartQuery,
+  AuthStatusQuery,
+  VerificationSession,
+  VerificationSessionResult,
+  VerificationSessionStatus,
+  WalletAuthStartResponse,
+  WalletCallbackRequest
+} from '@zkpersona/api-contract';
+import { z } from 'zod';
+import { requiredString, verificationResultSchema, type Schema } from './common.js';
+
+export const authStartQuerySchema = z
+  .object({
+    walletId: z.string().min(1).optional(),
+    passportId: z.string().min(1).optional()
+  })
+  .refine(query => query.walletId || query.passportId, {
+    message: 'walletId is required',
+    path: ['walletId']
+  }) satisfies Schema<AuthStartQuery>;
+
+export const authStatusQuerySchema = z.object({
+  session: requiredString('session')
+}) satisfies Schema<AuthStatusQuery>;
+
+// Provider redirects carry provider-specific parameters (OAuth code/state, OpenID, Telegram login)
+export const authCallbackQuerySchema = z.record(z.string()) satisfies Schema<Record<string, string>>;
+
+export const walletCallbackSchema = z.object({
+  state: requiredString('state'),
+  address: requiredString('address'),
+  signature: requiredString('signature'),
+  message: requiredString('message')
+}) satisfies Schema<WalletCallbackRequest>;
+
+export const redirectQuerySchema = z.object({
+  url: z.string({ required_error: 'Missing url parameter' }).url('Invalid redirect url')
+});
+
+export const telegramWebhookQuerySchema = z.object({
+  url: requiredString('url')
+});
+
+// Only the fields the webhook reads; anything else (channel posts, edits) is ignored
+export const telegramMessageSchema = z.object({
+  text: z.string().optional(),
+  chat: z.object({ id: z.number() }),
+  from: z.object({
+    id: z.number(),
+    username: z.string().optional(),
+    first_name: z.string().optional(),
+    last_name: z.string().optional()
+  })
+});
+
+export const telegramUpdateSchema = z.object({
+  message: telegramMessageSchema.optional().catch(undefined)
+});
+
+export type TelegramMessage = z.infer<typeof telegramMessageSchema>;
+
+// Responses
+
+export const walletAuthStartResponseSchema = z.object({
+  sessionId: z.string(),
+  walletId: z.string(),
+  passportId: z.string(),
+  provider: z.string(),
+  message: z.string()
+}) satisfies Schema<WalletAuthStartResponse>;
+
+export const verificationSessionStatusSchema = z.enum(['pending', 'verified', 'failed']) satisfies Schema<VerificationSessionStatus>;
+
+export const verificationSessionResultSchema = verificationResultSchema.extend({
+  verified: z.boolean(),
+  userId: z.string().optional(),
+  username: z.string().optional(),
+  profile: z.record(z.union([z.string(), z.number()]).nullable().optional()).optional()
+}) satisfies Schema<VerificationSessionResult>;
+
+export const verificationSessionSchema = z.object({
+  provider: z.string(),
+  session: z.string(),
+  status: verificationSessionStatusSchema,
+  result: verificationSessionResultSchema.nullable()
+}) satisfies Schema<VerificationSession>;
@@ -0,0 +1,83 @@
+// Runtime schemas for the API contract (@zkpersona/api-contract)
+// Every schema satisfies its contract type, so renaming or retyping a contract
+// field fails the backend build until the schema follows.
+// Request schemas validate requests (middleware/validate.ts); response schemas
+// only describe responses in the OpenAPI document (src/openapi.ts).
+
+import type {
+  Attestation,
+  ErrorResponse,
+  HealthResponse,
+  ScoreCriterion,
+  ValidationIssue,
+  VerificationResult
+} from '@zkpersona/api-contract';
+import { z } from 'zod';
+
+/**
+ * Schema that parses unknown input into the contract type T
+ */
+export type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Aleo addresses, wallet addresses and the IDs of older clients
+export const userIdSchema = z
+  .string()
+  .min(1, 'User ID is required')
+  .max(255, 'User ID too long')
+  .regex(/^[a-zA-Z0-9._@-]+$/, 'Invalid user ID format');
+
+export const providerSchema = z
+  .string()
+  .min(1, 'Provider is required')
+  .max(50, 'Invalid provider');
+
+export const requiredString = (name: string) =>
+  z.string({ required_error: `${name} is required` }).min(1, `${name} is required`);
+
+// Responses
+
+export const timestampSchema = z.string().datetime();
+
+export const scoreCriterionSchema = z.object({
+  condition: z.string(),
+  points: z.number(),
+  description: z.string().optional(),
+  achieved: z.boolean().optional(),
+  partialPoints: z.number().optional()
+}) satisfies Schema<ScoreCriterion>;
+
+export const attestationSchema = z.object({
+  platformId: z.number().int(),
+  points: z.number().int(),
+  expiresAt: z.number().int(),
+  recipient: z.string(),
+  issuer: z.string(),
+  signature: z.string()
+}) satisfies Schema<Attestation>;
+
+export const verificationResultSchema = z.object({
+  provider: z.string(),
+  score: z.number(),
+  maxScore: z.number(),
+  criteria: z.array(scoreCriterionSchema),
+  commitment: z.string(),
+  attestation: attestationSchema.optional()
+}) satisfies Schema<VerificationResult>;
+
+const validationIssueSchema = z.object({
+  path: z.string(),
+  message: z.string()
+}) satisfies Schema<ValidationIssue>;
+
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  hint: z.string().optional(),
+  errorType: z.string().optional(),
+  details: z.string().optional(),
+  issues: z.array(validationIssueSchema).optional()
+}) satisfies Schema<ErrorResponse>;
+
+export const healthResponseSchema = z.object({
+  status: z.literal('ok'),
+  timestamp: timestampSchema
+}) satisfies Schema<HealthResponse>;
@@ -0,0 +1,47 @@
+// Schemas of the /config routes
+
+import type { ConfigStatusResponse, ScoringRule, ScoringRuleSet, ScoringRulesResponse } from '@zkpersona/api-contract';
+import { z } from 'zod';
+import { timestampSchema, type Schema } from './common.js';
+
+// Responses
+
+export const configStatusResponseSchema = z.object({
+  status: z.literal('ok'),
+  providers: z.record(z.object({
+    configured: z.boolean(),
+    missing: z.array(z.string()),
+    error: z.string().optional()
+  })),
+  summary: z.object({
+    total: z.number(),
+    configured: z.number(),
+    missing: z.number()
+  }),
+  urls: z.object({
+    backend: z.string(),
+    frontend: z.string()
+  }),
+  timestamp: timestampSchema
+}) satisfies Schema<ConfigStatusResponse>;
+
+export const scoringRuleSchema = z.object({
+  id: z.string(),
+  condition: z.string(),
+  description: z.string(),
+  field: z.string(),
+  comparator: z.enum(['exists', 'truthy', 'eq', 'gt', 'gte', 'lt', 'lte']),
+  threshold: z.union([z.number(), z.string(), z.boolean()]).optional(),
+  points: z.number(),
+  tier: z.string().optional()
+}) satisfies Schema<ScoringRule>;
+
+export const scoringRuleSetSchema = z.object({
+  maxScore: z.number(),
+  rules: z.array(scoringRuleSchema)
+}) satisfies Schema<ScoringRuleSet>;
+
+export const scoringRulesResponseSchema = z.object({
+  rules: z.record(scoringRuleSetSchema),
+  timestamp: timestampSchema
+}) satisfies Schema<ScoringRulesResponse>;
@@ -0,0 +1,99 @@
+// Schemas of the /user routes
+
+import type {
+  DeleteVerificationResponse,
+  PutSyncStateRequest,
+  PutSyncStateResponse,
+  SyncConflictResponse,
+  SyncStateResponse,
+  UserParams,
+  UserScoreResponse,
+  UserVerificationParams,
+  UserVerificationsResponse
+} from '@zkpersona/api-contract';
+import { z } from 'zod';
+import {
+  errorResponseSchema,
+  providerSchema,
+  scoreCriterionSchema,
+  timestampSchema,
+  userIdSchema,
+  type Schema
+} from './common.js';
+import { verificationSummarySchema } from './verify.js';
+
+// Sync IDs and write tokens are 32-byte secrets the wallet derives
+const SYNC_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+export const userParamsSchema = z.object({
+  id: userIdSchema
+}) satisfies Schema<UserParams>;
+
+export const userVerificationParamsSchema = z.object({
+  id: userIdSchema,
+  provider: providerSchema
+}) satisfies Schema<UserVerificationParams>;
+
+export const syncParamsSchema = z.object({
+  id: z.string().regex(SYNC_ID_PATTERN, 'Invalid sync ID')
+}) satisfies Schema<UserParams>;
+
+const encryptedSyncBlobSchema = z.object(
+  {
+    version: z.number(),
+    salt: z.string(),
+    iv: z.string(),
+    data: z.string()
+  },
+  { required_error: 'Invalid encrypted state', invalid_type_error: 'Invalid encrypted state' }
+);
+
+export const putSyncStateSchema = z.object({
+  blob: encryptedSyncBlobSchema,
+  updatedAt: z.number({ required_error: 'Invalid updatedAt' }).finite('Invalid updatedAt'),
+  previousUpdatedAt: z.number().nullable().default(null),
+  writeToken: z.string({ required_error: 'Invalid write token' }).regex(SYNC_ID_PATTERN, 'Invalid write token')
+}) satisfies Schema<PutSyncStateRequest>;
+
+// Responses
+
+export const userScoreResponseSchema = z.object({
+  userId: z.string(),
+  totalScore: z.number(),
+  verifiedCount: z.number(),
+  totalProviders: z.number(),
+  breakdown: z.record(z.object({
+    score: z.number(),
+    maxScore: z.number(),
+    verifiedAt: timestampSchema.nullable()
+  })),
+  timestamp: timestampSchema
+}) satisfies Schema<UserScoreResponse>;
+
+export const userVerificationsResponseSchema = z.object({
+  userId: z.string(),
+  verifications: z.array(verificationSummarySchema.extend({ criteria: z.array(scoreCriterionSchema) })),
+  count: z.number()
+}) satisfies Schema<UserVerificationsResponse>;
+
+export const deleteVerificationResponseSchema = z.object({
+  userId: z.string(),
+  provider: z.string(),
+  deleted: z.literal(true),
+  message: z.string()
+}) satisfies Schema<DeleteVerificationResponse>;
+
+export const syncStateResponseSchema = z.object({
+  userId: z.string(),
+  blob: encryptedSyncBlobSchema,
+  updatedAt: z.number()
+}) satisfies Schema<SyncStateResponse>;
+
+export const putSyncStateResponseSchema = z.object({
+  userId: z.string(),
+  updatedAt: z.number()
+}) satisfies Schema<PutSyncStateResponse>;
+
+export const syncConflictResponseSchema = errorResponseSchema.extend({
+  updatedAt: z.number().nullable()
+}) satisfies Schema<SyncConflictResponse>;
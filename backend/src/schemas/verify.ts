@@ -0,0 +1,91 @@
+// Schemas of the /verify routes
+
+import type {
+  StartVerificationRequest,
+  StartVerificationResponse,
+  StoredVerificationResponse,
+  VerificationListResponse,
+  VerificationParams,
+  VerificationSummary,
+  VerificationUserParams,
+  WalletVerificationRequest,
+  WalletVerificationResponse
+} from '@zkpersona/api-contract';
+import { z } from 'zod';
+import {
+  attestationSchema,
+  providerSchema,
+  requiredString,
+  scoreCriterionSchema,
+  timestampSchema,
+  userIdSchema,
+  type Schema
+} from './common.js';
+
+export const startVerificationSchema = z.object({
+  provider: providerSchema,
+  userId: userIdSchema
+}) satisfies Schema<StartVerificationRequest>;
+
+export const verificationParamsSchema = z.object({
+  userId: userIdSchema,
+  provider: providerSchema
+}) satisfies Schema<VerificationParams>;
+
+export const verificationUserParamsSchema = z.object({
+  userId: userIdSchema
+}) satisfies Schema<VerificationUserParams>;
+
+export const walletVerificationSchema = z.object({
+  type: z.enum(['evm', 'solana'], { errorMap: () => ({ message: 'Invalid wallet type' }) }),
+  address: requiredString('address'),
+  signature: requiredString('signature'),
+  message: requiredString('message'),
+  walletId: z.string().optional()
+}) satisfies Schema<WalletVerificationRequest>;
+
+// Responses
+
+export const startVerificationResponseSchema = z.discriminatedUnion('status', [
+  z.object({
+    status: z.literal('already_verified'),
+    provider: z.string(),
+    score: z.number(),
+    maxScore: z.number(),
+    verifiedAt: timestampSchema.nullable()
+  }),
+  z.object({
+    status: z.literal('redirect_required'),
+    provider: z.string(),
+    redirectUrl: z.string()
+  })
+]) satisfies Schema<StartVerificationResponse>;
+
+export const verificationSummarySchema = z.object({
+  provider: z.string(),
+  score: z.number(),
+  maxScore: z.number(),
+  status: z.string(),
+  verifiedAt: timestampSchema.nullable(),
+  expiresAt: timestampSchema.nullable()
+}) satisfies Schema<VerificationSummary>;
+
+export const storedVerificationResponseSchema = verificationSummarySchema.extend({
+  userId: z.string(),
+  metadata: z.object({ commitment: z.string().nullable() }).nullable()
+}) satisfies Schema<StoredVerificationResponse>;
+
+export const verificationListResponseSchema = z.object({
+  userId: z.string(),
+  totalScore: z.number(),
+  verifications: z.array(verificationSummarySchema),
+  count: z.number()
+}) satisfies Schema<VerificationListResponse>;
+
+export const walletVerificationResponseSchema = z.object({
+  score: z.number(),
+  maxScore: z.number(),
+  criteria: z.array(scoreCriterionSchema),
+  commitment: z.string(),
+  attestation: attestationSchema.optional()
+}) satisfies Schema<WalletVerificationResponse>;
@@ -0,0 +1,52 @@
+// Schemas of the /wallet routes
+
+import type {
+  WalletConnectRequest,
+  WalletConnectResponse,
+  WalletSessionParams,
+  WalletSessionResponse,
+  WalletSignatureRequest,
+  WalletSignatureResponse
+} from '@zkpersona/api-contract';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { requiredString, userIdSchema, verificationResultSchema, type Schema } from './common.js';
+import { verificationSessionStatusSchema } from './auth.js';
+
+export const walletConnectSchema = z.object({
+  userId: userIdSchema,
+  walletAddress: requiredString('walletAddress').refine(
+    address => ethers.isAddress(address),
+    'Invalid wallet address format'
+  )
+}) satisfies Schema<WalletConnectRequest>;
+
+export const walletSignatureSchema = z.object({
+  sessionId: requiredString('sessionId'),
+  signature: requiredString('signature')
+}) satisfies Schema<WalletSignatureRequest>;
+
+export const walletSessionParamsSchema = z.object({
+  sessionId: requiredString('sessionId')
+}) satisfies Schema<WalletSessionParams>;
+
+// Responses
+
+export const walletConnectResponseSchema = z.object({
+  sessionId: z.string(),
+  message: z.string(),
+  domain: z.string(),
+  nonce: z.string(),
+  walletAddress: z.string()
+}) satisfies Schema<WalletConnectResponse>;
+
+export const walletSignatureResponseSchema = verificationResultSchema.extend({
+  success: z.literal(true)
+}) satisfies Schema<WalletSignatureResponse>;
+
+export const walletSessionResponseSchema = z.object({
+  sessionId: z.string(),
+  status: verificationSessionStatusSchema,
+  provider: z.string(),
+  data: z.record(z.unknown())
+}) satisfies Schema<WalletSessionResponse>;
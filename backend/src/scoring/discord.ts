@@ -0,0 +1,25 @@
+import { scoreFacts } from './rules.js';
+import type { ScoreResult } from './types.js';
+
+export interface DiscordUser {
+  id?: string;
+  verified?: boolean;
+}
+
+export interface DiscordGuild {
+  id?: string | number;
+  name?: string;
+}
+
+/**
+ * Calculate Discord verification score with the registry rules (scoring/rules.ts)
+ * @param userInfo - Discord user info from API
+ * @param guilds - Array of Discord guilds/servers user is member of
+ * @returns Score, criteria and maximum score
+ */
+export const calculateDiscordScore = (userInfo: DiscordUser, guilds: DiscordGuild[] | null | undefined): ScoreResult =>
+  scoreFacts('discord', {
+    id: userInfo.id,
+    verified: userInfo.verified,
+    guildCount: guilds?.length
+  });
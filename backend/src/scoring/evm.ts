@@ -0,0 +1,23 @@
+import { scoreFacts } from './rules.js';
+import type { ScoreResult } from './types.js';
+
+export interface EVMWalletData {
+  walletAgeDays?: number;
+  balanceEth?: number;
+  txCount?: number;
+  hasRecentActivity?: boolean;
+}
+
+/**
+ * Calculate EVM wallet verification score with the registry rules (scoring/rules.ts)
+ * Called after the SIWE signature was validated, so the signature rule is met.
+ * @param walletData - Wallet data from Etherscan
+ * @returns Score, criteria and maximum score
+ */
+export const calculateEVMScore = (walletData: EVMWalletData): ScoreResult =>
+  scoreFacts('ethereum', {
+    balanceEth: walletData.balanceEth ?? 0,
+    txCount: walletData.txCount ?? 0,
+    walletAgeYears: (walletData.walletAgeDays ?? 0) / 365,
+    signature: true
+  });
@@ -0,0 +1,17 @@
+import { yearsSince } from '@zkpersona/api-contract';
+import { scoreFacts } from './rules.js';
+import type { ScoreResult } from './types.js';
+
+export interface GitHubUser {
+  id?: number;
+  created_at?: string;
+  followers?: number;
+}
+
+export const calculateGitHubScore = (userInfo: GitHubUser, publicRepos: number, totalStars: number = 0): ScoreResult =>
+  scoreFacts('github', {
+    id: userInfo.id,
+    publicRepos,
+    totalStars,
+    accountAgeYears: yearsSince(userInfo.created_at)
+  });
@@ -0,0 +1,14 @@
+import { scoreFacts } from './rules.js';
+import type { ScoreResult } from './types.js';
+
+export interface GoogleUser {
+  sub?: string;
+  email_verified?: boolean;
+}
+
+// Google does not report the account creation date, so the account age rule is not met
+export const calculateGoogleScore = (userInfo: GoogleUser): ScoreResult =>
+  scoreFacts('google', {
+    id: userInfo.sub,
+    emailVerified: userInfo.email_verified
+  });
@@ -0,0 +1,78 @@
+/**
+ * Scoring rules of the shared platform registry (@zkpersona/api-contract)
+ *
+ * The calculate<Provider>Score functions collect facts from the provider data and
+ * evaluate them here, so the backend and the frontend score with the same rules. The
+ * points are the ones signed into attestations (utils/attestation.ts).
+ *
+ * Configuration:
+ * - SCORING_RULES: overrides as JSON keyed by provider and rule id (see ScoringOverrides),
+ *   e.g. {"github":{"maxScore":30,"rules":{"repos_10":{"points":15}}}}. Served to the
+ *   frontend by GET /config/scoring, so retuning needs a restart, not a rebuild.
+ */
+
+import {
+  PLATFORMS,
+  applyScoringOverrides,
+  evaluateRules,
+  findPlatform,
+  parseScoringOverrides,
+  type ScoringOverrides,
+  type ScoringRuleSet
+} from '@zkpersona/api-contract';
+import type { ScoreResult } from './types.js';
+
+let overrides: { json: string | undefined; parsed: ScoringOverrides } | null = null;
+
+/**
+ * Parsed SCORING_RULES (parsed again only when the variable changes)
+ */
+const getScoringOverrides = (): ScoringOverrides => {
+  const json = process.env.SCORING_RULES;
+  if (!overrides || overrides.json !== json) {
+    overrides = { json, parsed: parseScoringOverrides(json, 'SCORING_RULES') };
+  }
+  return overrides.parsed;
+};
+
+/**
+ * Effective rule set of a provider (registry rules + SCORING_RULES), null if unknown
+ */
+export const getScoringRules = (provider: string): ScoringRuleSet | null => {
+  const platform = findPlatform(provider);
+  if (!platform) {
+    return null;
+  }
+  return applyScoringOverrides(platform.scoring, getScoringOverrides()[platform.id]);
+};
+
+/**
+ * Effective rule sets of all registered providers
+ */
+export const getAllScoringRules = (): Record<string, ScoringRuleSet> =>
+  Object.fromEntries(Object.keys(PLATFORMS).map(provider => [provider, getScoringRules(provider)!]));
+
+/**
+ * Score provider facts with the provider's rules
+ * Every rule is listed in criteria, with achieved set if it scored.
+ *
+ * @throws Error if the provider is not in the registry
+ */
+export const scoreFacts = (provider: string, facts: unknown): ScoreResult => {
+  const ruleSet = getScoringRules(provider);
+  if (!ruleSet) {
+    throw new Error(`No scoring rules for provider: ${provider}`);
+  }
+
+  const evaluation = evaluateRules(ruleSet, facts);
+  return {
+    score: evaluation.score,
+    criteria: evaluation.explanations.map(({ condition, description, points, awarded }) => ({
+      condition,
+      description,
+      points,
+      achieved: awarded > 0
+    })),
+    maxScore: ruleSet.maxScore
+  };
+};
@@ -0,0 +1,24 @@
+import { scoreFacts } from './rules.js';
+import type { ScoreResult } from './types.js';
+
+export interface SolanaWalletData {
+  walletAgeDays?: number;
+  balanceSol?: number;
+  txCount?: number;
+  hasRecentActivity?: boolean;
+}
+
+/**
+ * Calculate Solana wallet verification score with the registry rules (scoring/rules.ts)
+ * Called after the wallet signature was verified, so the signature rule is met.
+ * @param walletData - Wallet data from Solscan/RPC
+ * @returns Score, criteria and maximum score
+ */
+export const calculateSolanaScore = (walletData: SolanaWalletData): ScoreResult =>
+  scoreFacts('solana', {
+    verified: true,
+    balanceSol: walletData.balanceSol ?? 0,
+    txCount: walletData.txCount ?? 0,
+    walletAgeDays: walletData.walletAgeDays ?? 0,
+    hasRecentActivity: walletData.hasRecentActivity ?? false
+  });
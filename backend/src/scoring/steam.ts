@@ -0,0 +1,16 @@
+import { yearsSince } from '@zkpersona/api-contract';
+import { scoreFacts } from './rules.js';
+import type { ScoreResult } from './types.js';
+
+export interface SteamProfile {
+  profilestate?: number;
+  communityvisibilitystate?: number;
+  timecreated?: number; // Unix seconds, only on public profiles
+}
+
+export const calculateSteamScore = (steamId: string, profileData: SteamProfile | null): ScoreResult =>
+  scoreFacts('steam', {
+    id: steamId,
+    communityVisibilityState: profileData?.communityvisibilitystate,
+    accountAgeYears: profileData?.timecreated ? yearsSince(profileData.timecreated * 1000) : undefined
+  });
@@ -0,0 +1,22 @@
+import { scoreFacts } from './rules.js';
+import type { ScoreResult } from './types.js';
+
+export interface TelegramUserData {
+  id?: number | string;
+  username?: string;
+  photo_url?: string | null;
+  accountAgeDays?: number;
+}
+
+/**
+ * Calculate Telegram verification score with the registry rules (scoring/rules.ts)
+ * @param telegramData - Telegram user data
+ * @returns Score, criteria and maximum score
+ */
+export const calculateTelegramScore = (telegramData: TelegramUserData): ScoreResult =>
+  scoreFacts('telegram', {
+    id: telegramData.id,
+    username: telegramData.username,
+    hasPhoto: Boolean(telegramData.photo_url),
+    accountAgeYears: (telegramData.accountAgeDays ?? 0) / 365
+  });
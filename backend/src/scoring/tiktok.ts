@@ -1,11 +1,23 @@
+import type { ScoreCriterion } from '@zkpersona/api-contract';
+import type { ScoreResult } from './types.js';
+
+export interface TikTokUserInfo {
+  user?: {
+    open_id?: string;
+    username?: string;
+    avatar_url?: string;
+    display_name?: string;
+  };
+}
+
 /**
  * Calculate TikTok verification score based on criteria
- * @param {Object} userInfo - TikTok user info from API
- * @returns {Object} { score: number, criteria: Array, maxScore: number }
+ * @param userInfo - TikTok user info from API
+ * @returns Score, achieved criteria and maximum score
  */
-export const calculateTikTokScore = (userInfo) => {
+export const calculateTikTokScore = (userInfo: TikTokUserInfo): ScoreResult => {
   let score = 0;
-  const criteria = [];
+  const criteria: ScoreCriterion[] = [];
 
   // Criterion 1: Account exists
   if (userInfo.user && userInfo.user.open_id) {
@@ -0,0 +1,21 @@
+import { yearsSince } from '@zkpersona/api-contract';
+import { scoreFacts } from './rules.js';
+import type { ScoreResult } from './types.js';
+
+export interface TwitterUser {
+  id?: string;
+  created_at?: string;
+  verified?: boolean;
+  public_metrics?: {
+    tweet_count?: number;
+    followers_count?: number;
+  };
+}
+
+export const calculateTwitterScore = (userInfo: TwitterUser): ScoreResult =>
+  scoreFacts('twitter', {
+    id: userInfo.id,
+    accountAgeYears: yearsSince(userInfo.created_at),
+    tweetCount: userInfo.public_metrics?.tweet_count,
+    followersCount: userInfo.public_metrics?.followers_count
+  });
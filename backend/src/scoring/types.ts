@@ -0,0 +1,9 @@
+// Shape returned by every calculate<Provider>Score function
+
+import type { ScoreCriterion } from '@zkpersona/api-contract';
+
+export interface ScoreResult {
+  score: number;
+  criteria: ScoreCriterion[];
+  maxScore: number;
+}
@@ -0,0 +1,13 @@
+// Write the OpenAPI document to api-contract/openapi.json: npm run openapi
+// Run it after changing a route or schema, then regenerate the frontend client.
+
+import { writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { buildOpenApiDocument } from '../openapi.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const target = join(__dirname, '..', '..', '..', 'api-contract', 'openapi.json');
+
+writeFileSync(target, `${JSON.stringify(buildOpenApiDocument(), null, 2)}\n`);
+console.log(`[OpenAPI] ✅ Written to ${target}`);
@@ -1,4 +1,5 @@
-import express from 'express';
+import express, { type NextFunction, type Request, type Response } from 'express';
+import type { ErrorResponse, HealthResponse } from '@zkpersona/api-contract';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
@@ -7,8 +8,10 @@ import { authRoutes } from './routes/auth.js';
 import verifyRoutes from './routes/verify.js';
 import walletRoutes from './routes/wallet.js';
 import configRoutes from './routes/config.js';
+import { buildOpenApiDocument } from './openapi.js';
 import { initDatabase, closeDatabase } from './database/index.js';
 import { initTelegramBot } from './services/telegramBot.js';
+import { getCurrentCommitmentKey } from './utils/aleoField.js';
 
 // Get directory name for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -21,9 +24,11 @@ dotenv.config({ path: join(__dirname, '..', '.env') });
 console.log('[Server] Environment check:');
 console.log('  GOOGLE_CLIENT_ID:', process.env.GOOGLE_CLIENT_ID ? '✅ Set' : '❌ Missing');
 console.log('  BACKEND_URL:', process.env.BACKEND_URL || 'Using default: http://localhost:3001');
+// Fails on an invalid COMMITMENT_KEYS / COMMITMENT_KEY_VERSION before any commitment is issued
+console.log('  Commitment key version:', getCurrentCommitmentKey().version);
 
 const app = express();
-const PORT = process.env.PORT || 3001;
+const PORT = Number(process.env.PORT) || 3001;
 
 // Middleware
 // CORS: Allow frontend origin (production or development)
@@ -33,7 +38,7 @@ const allowedOrigins = [
   'https://zkpersona.vercel.app',
   'http://localhost:5173',
   'https://localhost:5173'
-].filter(Boolean);
+].filter((origin): origin is string => Boolean(origin));
 
 app.use(cors({
   origin: (origin, callback) => {
@@ -72,10 +77,16 @@ app.use((req, res, next) => {
 });
 
 // Health check
-app.get('/health', (req, res) => {
+app.get('/health', (req: Request, res: Response<HealthResponse>) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// API description (OpenAPI 3.1), for the frontend client and partner integrations
+const openApiDocument = buildOpenApiDocument();
+app.get('/openapi.json', (req: Request, res: Response) => {
+  res.json(openApiDocument);
+});
+
 // Initialize database connection
 initDatabase().then(async () => {
   // Initialize Telegram Bot (Polling mode for dev)
@@ -100,7 +111,7 @@ import('./routes/user.js').then(userModule => {
 });
 
 // Error handling
-app.use((err, req, res, next) => {
+app.use((err: Error & { status?: number }, req: Request, res: Response<ErrorResponse>, next: NextFunction) => {
   console.error('[Server Error]', err);
   res.status(err.status || 500).json({
     error: err.message || 'Internal server error'
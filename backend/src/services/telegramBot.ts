@@ -1,11 +1,13 @@
 import TelegramBot from 'node-telegram-bot-api';
 import { getSession, updateSession } from '../database/index.js';
+import type { VerificationSessionResult } from '@zkpersona/api-contract';
 import { calculateTelegramScore } from '../scoring/telegram.js';
-import { generateAleoCommitment } from '../utils/aleoField.js';
+import { commitSocialAccount } from '../utils/commitments.js';
+import { withAttestation } from '../utils/attestation.js';
 
-let bot = null;
+let bot: TelegramBot | null = null;
 
-export const initTelegramBot = async () => {
+export const initTelegramBot = async (): Promise<void> => {
   const token = process.env.TELEGRAM_BOT_TOKEN;
   
   if (!token) {
@@ -17,30 +19,31 @@ export const initTelegramBot = async () => {
     // Initialize bot in polling mode
     console.log('[Telegram Bot] Initializing with token:', token.substring(0, 5) + '...');
     // Fix for potential import issue with CommonJS module in ES environment
-    const BotClass = TelegramBot.default || TelegramBot;
-    bot = new BotClass(token, { polling: true });
+    const BotClass = (TelegramBot as unknown as { default?: typeof TelegramBot }).default || TelegramBot;
+    const telegramBot = new BotClass(token, { polling: true });
+    bot = telegramBot;
     
-    console.log('[Telegram Bot] Bot instance created. Methods available:', Object.getOwnPropertyNames(Object.getPrototypeOf(bot)));
+    console.log('[Telegram Bot] Bot instance created. Methods available:', Object.getOwnPropertyNames(Object.getPrototypeOf(telegramBot)));
 
     // Clear any existing webhook to ensure polling works
     // Use try-catch for deleteWebHook specifically
     try {
-        if (typeof bot.deleteWebHook === 'function') {
-            await bot.deleteWebHook();
-        } else if (typeof bot.deleteWebhook === 'function') {
-             await bot.deleteWebhook();
+        if (typeof telegramBot.deleteWebHook === 'function') {
+            await telegramBot.deleteWebHook();
         } else {
             console.warn('[Telegram Bot] Warning: deleteWebHook is not a function');
         }
-    } catch (e) {
+    } catch (e: any) {
         console.warn('[Telegram Bot] Failed to delete webhook:', e.message);
     }
     console.log('[Telegram Bot] ✅ Bot initialized in polling mode');
 
     // Handle /start <sessionId>
-    bot.onText(/\/start (.+)/, async (msg, match) => {
+    telegramBot.onText(/\/start (.+)/, async (msg, match) => {
       const chatId = msg.chat.id;
-      const sessionId = match[1];
+      const sessionId = match?.[1];
+      if (!sessionId || !msg.from) return;
+      const from = msg.from;
 
       console.log(`[Telegram Bot] Received /start with sessionId: ${sessionId}`);
 
@@ -48,25 +51,25 @@ export const initTelegramBot = async () => {
         const session = await getSession(sessionId);
         
         if (!session) {
-          await bot.sendMessage(chatId, '❌ Session not found or expired. Please start verification from the website again.');
+          await telegramBot.sendMessage(chatId, '❌ Session not found or expired. Please start verification from the website again.');
           return;
         }
 
         if (session.status === 'verified') {
-          await bot.sendMessage(chatId, '✅ You are already verified!');
+          await telegramBot.sendMessage(chatId, '✅ You are already verified!');
           return;
         }
 
         // Get user profile photos
-        let photoUrl = null;
+        let photoUrl: string | null = null;
         try {
-          const photos = await bot.getUserProfilePhotos(msg.from.id, { limit: 1 });
+          const photos = await telegramBot.getUserProfilePhotos(from.id, { limit: 1 });
           if (photos.total_count > 0) {
             const fileId = photos.photos[0][photos.photos[0].length - 1].file_id;
-            const fileLink = await bot.getFileLink(fileId);
+            const fileLink = await telegramBot.getFileLink(fileId);
             photoUrl = fileLink;
           }
-        } catch (err) {
+        } catch (err: any) {
           console.error('[Telegram Bot] Failed to get profile photo:', err.message);
         }
 
@@ -79,35 +82,34 @@ export const initTelegramBot = async () => {
         const accountAgeDays = 365; 
 
         const scoreResult = calculateTelegramScore({
-          id: msg.from.id,
-          username: msg.from.username,
+          id: from.id,
+          username: from.username,
           photo_url: photoUrl,
           accountAgeDays
         });
 
         // Generate commitment
         const platformId = 4; // Telegram
-        const secretSalt = process.env.SECRET_SALT || 'zkpersona-secret-salt';
-        const commitment = generateAleoCommitment(platformId, msg.from.id.toString(), secretSalt);
+        const commitment = await commitSocialAccount(platformId, from.id.toString());
 
-        const result = {
+        const result = await withAttestation<VerificationSessionResult>({
           verified: true,
           provider: 'telegram',
-          userId: msg.from.id.toString(),
-          username: msg.from.username || msg.from.first_name,
+          userId: from.id.toString(),
+          username: from.username || from.first_name,
           score: scoreResult.score,
           criteria: scoreResult.criteria,
           maxScore: scoreResult.maxScore,
           commitment
-        };
+        }, session.userId);
 
         // Update session
         await updateSession(sessionId, {
           status: 'verified',
           stateData: {
             ...session.stateData,
-            telegramUserId: msg.from.id,
-            telegramUsername: msg.from.username,
+            telegramUserId: from.id,
+            telegramUsername: from.username,
             telegramChatId: chatId,
             result,
             completedAt: new Date()
@@ -125,11 +127,11 @@ export const initTelegramBot = async () => {
         if (isLocalhost) {
               // Escape underscores for Markdown to prevent parsing errors
               const safeUrl = callbackUrl.replace(/_/g, '\\_');
-              await bot.sendMessage(chatId, `🔐 *Verification Successful!*\n\nYou can return to the website now.\n\nLink: ${safeUrl}`, {
+              await telegramBot.sendMessage(chatId, `🔐 *Verification Successful!*\n\nYou can return to the website now.\n\nLink: ${safeUrl}`, {
                  parse_mode: 'Markdown'
               });
          } else {
-            await bot.sendMessage(chatId, '🔐 *Verification Successful!*', {
+            await telegramBot.sendMessage(chatId, '🔐 *Verification Successful!*', {
             parse_mode: 'Markdown',
             reply_markup: {
                 inline_keyboard: [[
@@ -139,21 +141,21 @@ export const initTelegramBot = async () => {
             });
         }
 
-        console.log(`[Telegram Bot] Verified session ${sessionId} for user ${msg.from.username || msg.from.id}`);
+        console.log(`[Telegram Bot] Verified session ${sessionId} for user ${from.username || from.id}`);
 
       } catch (error) {
         console.error('[Telegram Bot] Error processing /start:', error);
-        await bot.sendMessage(chatId, '❌ An error occurred during verification. Please try again.');
+        await telegramBot.sendMessage(chatId, '❌ An error occurred during verification. Please try again.');
       }
     });
 
     // Handle /start without arguments
-    bot.onText(/\/start$/, (msg) => {
-      bot.sendMessage(msg.chat.id, '👋 Welcome to ZKPersona!\n\nPlease start verification from the website to get a session ID.');
+    telegramBot.onText(/\/start$/, (msg) => {
+      telegramBot.sendMessage(msg.chat.id, '👋 Welcome to ZKPersona!\n\nPlease start verification from the website to get a session ID.');
     });
 
     // Handle polling errors
-    bot.on('polling_error', (error) => {
+    telegramBot.on('polling_error', (error: Error & { code?: string }) => {
       console.error('[Telegram Bot] Polling error:', error.code, error.message);
     });
 
@@ -0,0 +1,38 @@
+/**
+ * Read access to the Aleo network the program is deployed on
+ *
+ * Configuration:
+ * - ALEO_API_URL: node API (default: Provable explorer API, testnet)
+ * - ALEO_PROGRAM_ID: deployed program (frontend/src/deployed_program.ts)
+ */
+
+import axios from 'axios';
+
+const DEFAULT_ALEO_API_URL = 'https://api.explorer.provable.com/v1/testnet';
+const DEFAULT_PROGRAM_ID = 'zkpersona_passport_v13.aleo';
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const getApiUrl = (): string => (process.env.ALEO_API_URL || DEFAULT_ALEO_API_URL).replace(/\/$/, '');
+
+export const getProgramId = (): string => process.env.ALEO_PROGRAM_ID || DEFAULT_PROGRAM_ID;
+
+/**
+ * Latest block height
+ */
+export const getLatestBlockHeight = async (): Promise<number> => {
+  const response = await axios.get(`${getApiUrl()}/block/height/latest`, { timeout: REQUEST_TIMEOUT_MS });
+  const height = Number(response.data);
+  if (!Number.isSafeInteger(height) || height < 0) {
+    throw new Error(`Invalid block height: ${response.data}`);
+  }
+  return height;
+};
+
+/**
+ * Value of a mapping entry of the program as Aleo plaintext, or null if the key is not set
+ */
+export const getMappingValue = async (mapping: string, key: string): Promise<string | null> => {
+  const url = `${getApiUrl()}/program/${getProgramId()}/mapping/${mapping}/${key}`;
+  const response = await axios.get(url, { timeout: REQUEST_TIMEOUT_MS });
+  return typeof response.data === 'string' ? response.data : null;
+};
@@ -0,0 +1,146 @@
+/**
+ * Utility for generating Aleo-compatible field elements from commitments
+ * 
+ * Aleo field elements are numbers in Fp where p (FIELD_MODULUS) is:
+ * 8444461749428370424248824938781546531375899335154063827935233455917409239041
+ * 
+ * This ensures commitments can be used directly in Aleo smart contracts
+ *
+ * Commitment keys are server-held secrets; the frontend never sees them.
+ * - COMMITMENT_KEYS: "version:secret" pairs, comma-separated (e.g. "1:...,2:..."), versions 1-255
+ * - COMMITMENT_KEY_VERSION: version of new commitments (default: highest in COMMITMENT_KEYS)
+ * - SECRET_SALT: key version 0, the unversioned format used before key rotation
+ */
+
+import crypto from 'crypto';
+
+// Aleo BLS12-377 field modulus
+export const FIELD_MODULUS = BigInt('8444461749428370424248824938781546531375899335154063827935233455917409239041');
+
+export const LEGACY_KEY_VERSION = 0;
+const LEGACY_SALT = 'zkpersona-secret-salt';
+const MAX_KEY_VERSION = 255;
+
+// Versioned commitments: 240 bits of HMAC above an 8-bit key version (always below FIELD_MODULUS)
+const HMAC_BYTES = 30;
+const VERSION_BITS = 8n;
+
+export interface CommitmentKey {
+  version: number;
+  secret: string;
+}
+
+/**
+ * Configured commitment keys, newest version first (version 0 = SECRET_SALT)
+ */
+export function getCommitmentKeys(): CommitmentKey[] {
+  const keys: CommitmentKey[] = [{ version: LEGACY_KEY_VERSION, secret: process.env.SECRET_SALT || LEGACY_SALT }];
+
+  for (const entry of (process.env.COMMITMENT_KEYS || '').split(',')) {
+    if (!entry.trim()) continue;
+    const separator = entry.indexOf(':');
+    const version = Number(entry.slice(0, separator));
+    const secret = entry.slice(separator + 1).trim();
+    if (separator < 0 || !Number.isInteger(version) || version < 1 || version > MAX_KEY_VERSION || !secret) {
+      throw new Error('Invalid COMMITMENT_KEYS entry, expected "version:secret" with version 1-255');
+    }
+    if (keys.some(key => key.version === version)) {
+      throw new Error(`Duplicate commitment key version: ${version}`);
+    }
+    keys.push({ version, secret });
+  }
+
+  return keys.sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Key of new commitments
+ */
+export function getCurrentCommitmentKey(): CommitmentKey {
+  const keys = getCommitmentKeys();
+  if (!process.env.COMMITMENT_KEY_VERSION) {
+    return keys[0];
+  }
+  const version = Number(process.env.COMMITMENT_KEY_VERSION);
+  const key = keys.find(k => k.version === version);
+  if (!key) {
+    throw new Error(`COMMITMENT_KEY_VERSION ${process.env.COMMITMENT_KEY_VERSION} is not in COMMITMENT_KEYS`);
+  }
+  return key;
+}
+
+/**
+ * Generate Aleo-compatible commitment from platform verification data
+ * 
+ * Version 0: SHA-256(platformId:userId:salt) mod p
+ * Version n: HMAC-SHA256(secret, platformId:userId) truncated to 240 bits, shifted left by 8, plus n
+ * 
+ * @param platformId - Platform ID (1=Discord, 2=Twitter, 3=GitHub, 4=Telegram, 6=EVM, 7=Solana, 8=Google, 9=Steam)
+ * @param userId - User ID from platform
+ * @param key - Commitment key (default: current key)
+ * @returns Aleo field element with "field" suffix (e.g., "123456789field")
+ */
+export function generateAleoCommitment(
+  platformId: number,
+  userId: string,
+  key: CommitmentKey = getCurrentCommitmentKey()
+): string {
+  if (key.version === LEGACY_KEY_VERSION) {
+    const hash = crypto
+      .createHash('sha256')
+      .update(`${platformId}:${userId}:${key.secret}`)
+      .digest('hex');
+    return `${(BigInt(`0x${hash}`) % FIELD_MODULUS).toString()}field`;
+  }
+
+  const mac = crypto
+    .createHmac('sha256', key.secret)
+    .update(`${platformId}:${userId}`)
+    .digest()
+    .subarray(0, HMAC_BYTES);
+  const fieldElement = (BigInt(`0x${mac.toString('hex')}`) << VERSION_BITS) | BigInt(key.version);
+  return `${fieldElement.toString()}field`;
+}
+
+/**
+ * Key version embedded in a versioned commitment
+ * Version 0 commitments carry no version; their low byte is arbitrary.
+ */
+export function commitmentKeyVersion(commitment: string): number {
+  return Number(BigInt(commitment.replace('field', '')) & ((1n << VERSION_BITS) - 1n));
+}
+
+/**
+ * Validate if a string is a valid Aleo field element
+ * 
+ * @param commitment - Commitment to validate
+ * @returns True if valid
+ */
+export function validateAleoField(commitment: string | null | undefined): boolean {
+  try {
+    if (!commitment || !commitment.endsWith('field')) {
+      return false;
+    }
+    
+    const value = commitment.replace('field', '');
+    const bigInt = BigInt(value);
+    
+    // Must be positive and less than modulus
+    return bigInt >= 0n && bigInt < FIELD_MODULUS;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert hex hash to Aleo field element
+ * 
+ * @param hexHash - Hex hash (with or without 0x prefix)
+ * @returns Aleo field element
+ */
+export function hexToAleoField(hexHash: string): string {
+  const cleanHex = hexHash.startsWith('0x') ? hexHash.slice(2) : hexHash;
+  const hashBigInt = BigInt(`0x${cleanHex}`);
+  const fieldElement = hashBigInt % FIELD_MODULUS;
+  return `${fieldElement.toString()}field`;
+}
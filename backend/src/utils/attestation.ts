@@ -0,0 +1,106 @@
+/**
+ * Issuer attestations for on-chain claims
+ *
+ * claim_verification and claim_point in src/main.leo only credit points that a
+ * registered issuer (add_issuer) signed for the calling address. The signed value
+ * is the contract's Attestation struct, so member names and order must match main.leo.
+ *
+ * Configuration:
+ * - ISSUER_PRIVATE_KEY: Aleo private key of the issuer (APrivateKey1...); no attestations without it
+ * - ATTESTATION_TTL_BLOCKS: blocks until an attestation expires (default 8640)
+ * - ALEO_API_URL: node API used for the current block height (utils/aleoApi.ts)
+ */
+
+import { PLATFORM_IDS, type Attestation, type VerificationResult } from '@zkpersona/api-contract';
+import { getLatestBlockHeight } from './aleoApi.js';
+
+type AleoSDK = typeof import('@provablehq/sdk');
+
+const DEFAULT_TTL_BLOCKS = 8640;
+
+let sdkPromise: Promise<AleoSDK> | null = null;
+
+/**
+ * Load the Aleo SDK (WASM) once, on the first attestation
+ */
+const loadSdk = (): Promise<AleoSDK> => {
+  if (!sdkPromise) {
+    sdkPromise = import('@provablehq/sdk');
+  }
+  return sdkPromise;
+};
+
+const getTtlBlocks = (): number => {
+  const ttl = Number.parseInt(process.env.ATTESTATION_TTL_BLOCKS || '', 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_BLOCKS;
+};
+
+/**
+ * The Attestation struct of main.leo as Aleo plaintext
+ */
+export const attestationPlaintext = (commitment: string, attestation: Omit<Attestation, 'issuer' | 'signature'>): string =>
+  `{ commitment: ${commitment}, platform_id: ${attestation.platformId}u8, points: ${attestation.points}u64, ` +
+  `expires_at: ${attestation.expiresAt}u32, recipient: ${attestation.recipient} }`;
+
+/**
+ * Sign a claim of `points` for `commitment` that only `recipient` can send
+ * Returns null when no issuer key is configured or the recipient is not an Aleo address.
+ */
+export const signAttestation = async (
+  provider: string,
+  commitment: string,
+  points: number,
+  recipient: string | null | undefined
+): Promise<Attestation | null> => {
+  const issuerKey = (process.env.ISSUER_PRIVATE_KEY || '').trim();
+  if (!issuerKey) {
+    console.warn('[Attestation] ⚠️ ISSUER_PRIVATE_KEY not configured, claims of this result will be rejected on-chain');
+    return null;
+  }
+
+  const platformId = PLATFORM_IDS[provider.toLowerCase()];
+  if (!platformId) {
+    throw new Error(`No platform ID for provider: ${provider}`);
+  }
+
+  const sdk = await loadSdk();
+  if (!recipient || !sdk.Address.isValid(recipient)) {
+    console.warn(`[Attestation] ⚠️ ${provider}: wallet ID is no Aleo address, no attestation issued`);
+    return null;
+  }
+
+  const privateKey = sdk.PrivateKey.from_string(issuerKey);
+  const unsigned = {
+    platformId,
+    points: Math.round(points),
+    expiresAt: (await getLatestBlockHeight()) + getTtlBlocks(),
+    recipient
+  };
+  const signature = privateKey.signValue(attestationPlaintext(commitment, unsigned));
+
+  return {
+    ...unsigned,
+    issuer: privateKey.to_address().to_string(),
+    signature: signature.to_string()
+  };
+};
+
+/**
+ * The result with an attestation for its commitment and score
+ * Signing errors are logged; the result is then returned without attestation.
+ */
+export const withAttestation = async <T extends VerificationResult>(
+  result: T,
+  recipient: string | null | undefined
+): Promise<T> => {
+  if (!result.commitment || result.attestation) {
+    return result;
+  }
+  try {
+    const attestation = await signAttestation(result.provider, result.commitment, result.score, recipient);
+    return attestation ? { ...result, attestation } : result;
+  } catch (error: any) {
+    console.error(`[Attestation] ❌ ${result.provider} signing failed:`, error.message);
+    return result;
+  }
+};
@@ -0,0 +1,52 @@
+/**
+ * Commitments of social accounts across commitment key versions
+ *
+ * Rotating the commitment key (utils/aleoField.ts) changes the commitment of every
+ * account. Accounts that already claimed keep the commitment they claimed with, so
+ * their on-chain social_commitments entry stays valid and the account cannot be
+ * claimed a second time under the new key.
+ */
+
+import { generateAleoCommitment, getCommitmentKeys, getCurrentCommitmentKey } from './aleoField.js';
+import { getMappingValue } from './aleoApi.js';
+
+/**
+ * Whether a commitment is bound on-chain (claim_verification)
+ */
+const isClaimed = async (commitment: string): Promise<boolean> => {
+  const binding = await getMappingValue('social_commitments', commitment);
+  return !!binding && /is_active:\s*true/.test(binding);
+};
+
+/**
+ * Commitment of a platform account
+ * The current key's commitment, unless the account claimed with an older key.
+ *
+ * @param platformId - Platform ID (see generateAleoCommitment)
+ * @param userId - User ID from platform
+ * @throws Error if older keys exist and the chain cannot be read: the current key's
+ *   commitment could be a second claim of the account, so none is attested
+ */
+export const commitSocialAccount = async (platformId: number, userId: string): Promise<string> => {
+  const currentKey = getCurrentCommitmentKey();
+  const commitment = generateAleoCommitment(platformId, userId, currentKey);
+  const otherKeys = getCommitmentKeys().filter(key => key.version !== currentKey.version);
+
+  try {
+    if (otherKeys.length === 0 || await isClaimed(commitment)) {
+      return commitment;
+    }
+    for (const key of otherKeys) {
+      const claimed = generateAleoCommitment(platformId, userId, key);
+      if (await isClaimed(claimed)) {
+        console.log(`[Commitments] 🔁 Platform ${platformId}: keeping commitment of key version ${key.version}`);
+        return claimed;
+      }
+    }
+  } catch (error: any) {
+    console.warn('[Commitments] ⚠️ Claimed commitment lookup failed:', error.message);
+    throw new Error('Cannot check earlier claims of this account on-chain. Try again later.');
+  }
+
+  return commitment;
+};
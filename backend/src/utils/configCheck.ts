@@ -1,7 +1,12 @@
 // Configuration validation utility
 
-export const checkProviderConfig = (provider) => {
-  const configs = {
+interface RequiredEnv {
+  required: string[];
+  optional: string[];
+}
+
+export const checkProviderConfig = (provider: string): boolean => {
+  const configs: Record<string, RequiredEnv> = {
     google: {
       required: ['GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET'],
       optional: []
@@ -47,13 +52,13 @@ export const checkProviderConfig = (provider) => {
 
 export const getProviderStatus = () => {
   const providers = ['google', 'twitter', 'github', 'discord', 'steam', 'evm'];
-  const status = {};
+  const status: Record<string, { configured: boolean; error?: string }> = {};
 
   for (const provider of providers) {
     try {
       checkProviderConfig(provider);
       status[provider] = { configured: true };
-    } catch (error) {
+    } catch (error: any) {
       status[provider] = { 
         configured: false, 
         error: error.message 
@@ -1,11 +1,17 @@
 // In-memory session storage
 // In production, use Redis or database
 
-const sessions = new Map();
+export interface MemorySession {
+  id: string;
+  createdAt: number;
+  [key: string]: unknown;
+}
 
-export const createVerificationSession = (data) => {
+const sessions = new Map<string, MemorySession>();
+
+export const createVerificationSession = (data: Record<string, unknown>): string => {
   const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-  const session = {
+  const session: MemorySession = {
     id: sessionId,
     ...data,
     createdAt: Date.now()
@@ -20,11 +26,11 @@ export const createVerificationSession = (data) => {
   return sessionId;
 };
 
-export const getVerificationSession = (sessionId) => {
+export const getVerificationSession = (sessionId: string): MemorySession | null => {
   return sessions.get(sessionId) || null;
 };
 
-export const updateVerificationSession = (sessionId, updates) => {
+export const updateVerificationSession = (sessionId: string, updates: Record<string, unknown>): MemorySession | null => {
   const session = sessions.get(sessionId);
   if (session) {
     Object.assign(session, updates);
@@ -34,11 +40,11 @@ export const updateVerificationSession = (sessionId, updates) => {
   return null;
 };
 
-export const deleteVerificationSession = (sessionId) => {
+export const deleteVerificationSession = (sessionId: string): void => {
   sessions.delete(sessionId);
 };
 
-export const getAllSessions = () => {
+export const getAllSessions = (): string[] => {
   return Array.from(sessions.keys());
 };
 
@@ -0,0 +1,12 @@
+// Dates in API responses
+
+import type { Timestamp } from '@zkpersona/api-contract';
+
+/**
+ * Stored date as an ISO string (what res.json() makes of a Date)
+ * The in-memory database holds strings after restoring local_db.json, so both are accepted.
+ */
+export const toTimestamp = (value: Date | string | null | undefined): Timestamp | null => {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.toISOString();
+};
@@ -5,5 +5,6 @@ Write-Host "Current directory: $(Get-Location)"
 Write-Host "Node version: $(node --version)"
 Write-Host ""
 
-node src/server.js
+npm run build
+npm start
 
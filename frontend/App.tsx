@@ -20,12 +20,13 @@ import { OAuthCallback } from './src/pages/OAuthCallback';
 import { VerifyCallback } from './src/pages/VerifyCallback';
 import { VerifyEVM } from './src/pages/VerifyEVM';
 import { VerifySolana } from './src/pages/VerifySolana';
+import { ProofRequest } from './src/pages/ProofRequest';
+import { ActivityPanel } from './src/components/ActivityPanel';
+import { PlatformIcon } from './src/components/PlatformIcon';
 import { checkBalance, MIN_BALANCE_REQUIRED } from './src/utils/walletUtils';
 import { 
   ShieldCheck, 
   Bitcoin, 
-  MessageSquare,
-  MessageCircle,
   Video,
   Fingerprint,
   Zap,
@@ -46,6 +47,7 @@ import {
   LayoutDashboard,
   Trophy,
   AppWindow,
+  History,
   Wallet,
   X,
   Loader2,
@@ -59,7 +61,7 @@ const INITIAL_STAMPS: Stamp[] = [
     id: 'discord',
     title: 'Discord',
     description: 'Verify genuine Discord engagement and Sybil resistance. Bonus points for Aleo official server membership.',
-    icon: <MessageSquare size={24} />,
+    icon: <PlatformIcon provider="discord" />,
     scoreWeight: 7.8, // 2.8 base + 5 for Aleo server
     status: StampStatus.LOCKED,
     provider: 'discord'
@@ -68,7 +70,7 @@ const INITIAL_STAMPS: Stamp[] = [
     id: 'telegram',
     title: 'Telegram',
     description: 'Verify your Telegram account: username, profile photo, and account age.',
-    icon: <MessageCircle size={24} />,
+    icon: <PlatformIcon provider="telegram" />,
     scoreWeight: 10,
     status: StampStatus.LOCKED,
     provider: 'telegram'
@@ -77,7 +79,7 @@ const INITIAL_STAMPS: Stamp[] = [
     id: 'solana',
     title: 'Solana Wallet',
     description: 'Verify your Solana wallet with balance and transaction history. Minimum 0.01 SOL balance required.',
-    icon: <Wallet size={24} />,
+    icon: <PlatformIcon provider="solana" />,
     scoreWeight: 25,
     status: StampStatus.LOCKED,
     provider: 'solana'
@@ -86,7 +88,7 @@ const INITIAL_STAMPS: Stamp[] = [
     id: 'eth_wallet',
     title: 'EVM Wallet',
     description: 'Coming soon. EVM wallet verification will be available in the next update.',
-    icon: <Wallet size={24} />,
+    icon: <PlatformIcon provider="ethereum" />,
     scoreWeight: 25,
     status: StampStatus.LOCKED,
     provider: 'ethereum',
@@ -389,7 +391,7 @@ const LandingPage = ({ onEnterApp }: { onEnterApp: () => void }) => (
   </div>
 );
 
-type DashboardTab = 'stamps' | 'leaderboard' | 'ecosystem';
+type DashboardTab = 'stamps' | 'leaderboard' | 'ecosystem' | 'activity';
 
 const Dashboard = ({ user, onVerifyStamp }: { user: UserState; onVerifyStamp: (id: string, success: boolean) => void }) => {
   const { publicKey } = useWallet();
@@ -528,6 +530,14 @@ const Dashboard = ({ user, onVerifyStamp }: { user: UserState; onVerifyStamp: (i
             >
               <AppWindow size={14} className="transition-transform group-hover:rotate-12" /> Integrations
             </button>
+            <button 
+              onClick={() => setActiveTab('activity')}
+              className={`flex items-center gap-2 px-6 py-3 font-mono text-xs uppercase tracking-widest border transition-all duration-300 relative overflow-hidden ${
+                activeTab === 'activity' ? 'bg-white text-black border-white' : 'text-neutral-500 border-neutral-800 hover:border-neutral-700 hover:scale-105 active:scale-95'
+              }`}
+            >
+              <History size={14} className="transition-transform group-hover:rotate-12" /> Activity
+            </button>
           </div>
         </div>
         
@@ -648,6 +658,10 @@ const Dashboard = ({ user, onVerifyStamp }: { user: UserState; onVerifyStamp: (i
         {activeTab === 'ecosystem' && (
           <Ecosystem userScore={user.score} />
         )}
+
+        {activeTab === 'activity' && (
+          <ActivityPanel />
+        )}
       </div>
 
       {/* Footer Info */}
@@ -1038,6 +1052,7 @@ const App = () => {
           <Route path="/verify/callback" element={<VerifyCallback />} />
           <Route path="/verify/evm" element={<VerifyEVM />} />
           <Route path="/verify/solana" element={<VerifySolana />} />
+          <Route path="/proof-request" element={<ProofRequest />} />
           <Route path="*" element={<AppContent />} />
         </Routes>
       </Router>
@@ -1,12 +1,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadScoringRules } from './src/lib/scoring';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Scoring rules in effect (backend SCORING_RULES); the registry defaults apply until loaded
+loadScoringRules();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,146 @@
+// Activity Panel
+// The connected wallet's claims, stamp aggregations and proofs with status, fee and
+// explorer link (hooks/useActivity.ts). Renders from the local cache when offline.
+
+import React, { useEffect, useRef } from 'react';
+import { History, ExternalLink, RefreshCw, Loader2 } from 'lucide-react';
+import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
+import { useActivity } from '../hooks/useActivity';
+import { activityExplorerUrl, type ActivityItem } from '../lib/activity';
+import { getFunctionDisplayName } from '../utils/explorerAPI';
+
+const STATUS_STYLES: Record<string, string> = {
+  accepted: 'text-green-400 border-green-800/50',
+  confirmed: 'text-green-400 border-green-800/50',
+  submitted: 'text-yellow-500 border-yellow-800/50',
+  pending: 'text-yellow-500 border-yellow-800/50',
+};
+
+const formatFee = (fee: number | undefined): string =>
+  fee === undefined ? '—' : `${fee / 1_000_000} credits`;
+
+const ActivityRow: React.FC<{ item: ActivityItem }> = ({ item }) => {
+  const url = activityExplorerUrl(item);
+  const displayName = getFunctionDisplayName(item.functionName);
+
+  return (
+    <div className="grid grid-cols-12 p-4 items-center gap-2 hover:bg-white/5 transition-colors font-mono text-xs">
+      <div className="col-span-4">
+        <p className="text-white">{displayName}</p>
+        {displayName !== item.functionName && <p className="text-neutral-500">{item.functionName}</p>}
+      </div>
+      <div className="col-span-2">
+        <span className={`px-2 py-1 border uppercase ${STATUS_STYLES[item.status] ?? 'text-red-400 border-red-800/50'}`}>
+          {item.status}
+        </span>
+      </div>
+      <div className="col-span-2 text-neutral-400">{formatFee(item.fee)}</div>
+      <div className="col-span-2 text-neutral-400">{new Date(item.timestamp).toLocaleString()}</div>
+      <div className="col-span-2 text-right">
+        {url ? (
+          <a
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-neutral-300 hover:text-white underline"
+          >
+            Explorer <ExternalLink size={12} />
+          </a>
+        ) : (
+          <span className="text-neutral-600">Waiting for wallet</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const ActivityPanel: React.FC = () => {
+  const { publicKey } = useWallet();
+  const { items, total, hasMore, loadMore, functions, functionFilter, setFunctionFilter, loading, fetchedAt, refresh } = useActivity();
+  const sentinel = useRef<HTMLButtonElement>(null);
+
+  // Infinite scroll: reveal the next page when the end of the list comes into view
+  useEffect(() => {
+    if (!hasMore || !sentinel.current || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMore();
+      }
+    });
+    observer.observe(sentinel.current);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, items.length]);
+
+  if (!publicKey) {
+    return (
+      <div className="border border-neutral-800 bg-surface p-12 text-center">
+        <p className="text-neutral-400 font-mono text-sm">Connect your wallet to see your passport activity</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-in fade-in duration-500">
+      <div className="mb-10 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-white mb-2 font-mono flex items-center gap-3">
+            <History size={24} /> ACTIVITY
+          </h2>
+          <p className="text-neutral-500 font-mono text-sm">
+            Your claims, stamp aggregations and proofs.
+            {fetchedAt && ` Updated ${new Date(fetchedAt).toLocaleString()}.`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={functionFilter}
+            onChange={(e) => setFunctionFilter(e.target.value)}
+            className="px-3 py-2 bg-neutral-900 border border-neutral-800 text-white font-mono text-xs"
+          >
+            <option value="all">All functions</option>
+            {functions.map(functionName => (
+              <option key={functionName} value={functionName}>{getFunctionDisplayName(functionName)}</option>
+            ))}
+          </select>
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="flex items-center gap-2 px-3 py-2 border border-neutral-800 text-neutral-300 hover:border-neutral-700 font-mono text-xs uppercase disabled:opacity-50"
+          >
+            {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />} Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="border border-neutral-800 bg-surface divide-y divide-neutral-900">
+        <div className="grid grid-cols-12 p-4 gap-2 text-[10px] uppercase tracking-widest text-neutral-500 font-mono bg-neutral-900/50">
+          <div className="col-span-4">Function</div>
+          <div className="col-span-2">Status</div>
+          <div className="col-span-2">Fee</div>
+          <div className="col-span-2">Date</div>
+          <div className="col-span-2 text-right">Transaction</div>
+        </div>
+
+        {items.map(item => <ActivityRow key={item.txId} item={item} />)}
+
+        {total === 0 && (
+          <div className="p-12 text-center text-neutral-500 font-mono text-sm">
+            {loading ? 'Loading activity...' : 'No passport activity yet.'}
+          </div>
+        )}
+
+        {hasMore && (
+          <button
+            ref={sentinel}
+            onClick={loadMore}
+            className="w-full p-4 text-neutral-400 hover:text-white font-mono text-xs uppercase"
+          >
+            Load more ({items.length} of {total})
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+// Identity Backup Panel
+// Exports the wallet's identity data as an encrypted backup file and restores one
+// (lib/backup.ts), so clearing the browser does not mean redoing every verification
+
+import React, { useRef, useState } from 'react';
+import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
+import { Download, Upload, CheckCircle, AlertCircle } from 'lucide-react';
+import { createIdentityBackup, parseIdentityBackup, restoreIdentityBackup } from '../lib/backup';
+import { useVault } from '../hooks/useVault';
+import { VaultUnlockForm } from './VaultUnlockForm';
+
+const backupFileName = (address: string, createdAt: number): string =>
+  `zkpersona-identity-${address.slice(0, 12)}-${new Date(createdAt).toISOString().slice(0, 10)}.json`;
+
+export const IdentityBackupPanel: React.FC = () => {
+  const { publicKey } = useWallet();
+  const { unlocked } = useVault();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  if (!publicKey) return null;
+
+  const handleExport = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const backup = await createIdentityBackup(publicKey);
+      const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = backupFileName(publicKey, backup.createdAt);
+      link.click();
+      URL.revokeObjectURL(url);
+      setMessage({ type: 'success', text: 'Backup exported. Keep the file somewhere safe.' });
+    } catch (error) {
+      console.error('[Backup] Export failed:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Export failed' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      const backup = parseIdentityBackup(await file.text());
+      const summary = await restoreIdentityBackup(backup, publicKey);
+      setMessage({
+        type: 'success',
+        text: summary.commitments + summary.verifications > 0
+          ? `Restored ${summary.verifications} verification(s) and ${summary.commitments} commitment(s).`
+          : 'Nothing to restore: this browser already has the same or newer data.'
+      });
+    } catch (error) {
+      console.error('[Backup] Import failed:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Import failed' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="border border-neutral-800 rounded-lg p-6 bg-neutral-950 space-y-4">
+      <div>
+        <h3 className="font-mono font-bold text-white text-sm uppercase">Identity Backup</h3>
+        <p className="text-xs text-neutral-500 font-mono mt-1">
+          Encrypted with your vault passphrase. Restores into this wallet's vault on any device.
+        </p>
+      </div>
+
+      {!unlocked ? (
+        <VaultUnlockForm />
+      ) : (
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={handleExport}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 border border-neutral-700 text-white font-mono text-xs uppercase hover:bg-neutral-900 disabled:opacity-50"
+          >
+            <Download size={14} />
+            Export identity
+          </button>
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 border border-neutral-700 text-white font-mono text-xs uppercase hover:bg-neutral-900 disabled:opacity-50"
+          >
+            <Upload size={14} />
+            Import backup
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={`flex items-center gap-2 p-3 rounded font-mono text-xs ${
+            message.type === 'success'
+              ? 'bg-green-950/30 border border-green-800/50 text-green-400'
+              : 'bg-red-950/30 border border-red-800/50 text-red-400'
+          }`}
+        >
+          {message.type === 'success' ? <CheckCircle size={14} /> : <AlertCircle size={14} />}
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+// Identity Sync Panel
+// Opt-in switch for end-to-end encrypted cross-device sync (lib/sync.ts)
+
+import React from 'react';
+import { RefreshCw, AlertCircle } from 'lucide-react';
+import { useIdentitySync } from '../hooks/useIdentitySync';
+import { useVault } from '../hooks/useVault';
+
+export const IdentitySyncPanel: React.FC = () => {
+  const { unlocked } = useVault();
+  const { enabled, setEnabled, syncing, lastSyncedAt, error, syncNow } = useIdentitySync();
+
+  if (!unlocked) return null;
+
+  return (
+    <div className="border border-neutral-800 rounded-lg p-6 bg-neutral-950 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-mono font-bold text-white text-sm uppercase">Sync Across Devices</h3>
+          <p className="text-xs text-neutral-500 font-mono mt-1">
+            Stores your verifications encrypted on our server so your other devices can load them.
+            Unlock your vault with the same passphrase on each device; only it can decrypt them.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-neutral-400 font-mono cursor-pointer">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          {enabled ? 'On' : 'Off'}
+        </label>
+      </div>
+
+      {enabled && (
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-xs text-neutral-500 font-mono">
+            {syncing
+              ? 'Syncing...'
+              : lastSyncedAt
+                ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}`
+                : 'Not synced yet'}
+          </span>
+          <button
+            onClick={syncNow}
+            disabled={syncing}
+            className="flex items-center gap-2 px-3 py-1 border border-neutral-700 text-white font-mono text-xs uppercase hover:bg-neutral-900 disabled:opacity-50"
+          >
+            <RefreshCw size={12} className={syncing ? 'animate-spin' : ''} />
+            Sync now
+          </button>
+        </div>
+      )}
+
+      {enabled && error && (
+        <div className="flex items-center gap-2 p-3 rounded font-mono text-xs bg-red-950/30 border border-red-800/50 text-red-400">
+          <AlertCircle size={14} />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
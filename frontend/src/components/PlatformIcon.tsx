@@ -0,0 +1,41 @@
+import React from 'react';
+import {
+  BrainCircuit,
+  Chrome,
+  Gamepad2,
+  Github,
+  LucideIcon,
+  MessageCircle,
+  MessageSquare,
+  Twitter,
+  Wallet,
+} from 'lucide-react';
+import { PlatformIconName, getPlatform } from '../lib/platforms';
+
+const ICONS: Record<PlatformIconName, LucideIcon> = {
+  BrainCircuit,
+  Chrome,
+  Gamepad2,
+  Github,
+  MessageCircle,
+  MessageSquare,
+  Twitter,
+  Wallet,
+};
+
+interface PlatformIconProps {
+  provider: string;
+  size?: number;
+  className?: string;
+}
+
+/**
+ * Icon of a registered platform (lib/platforms.ts); renders nothing for unknown providers
+ */
+export const PlatformIcon: React.FC<PlatformIconProps> = ({ provider, size = 24, className }) => {
+  const platform = getPlatform(provider);
+  if (!platform) return null;
+
+  const Icon = ICONS[platform.icon];
+  return <Icon size={size} className={className} />;
+};
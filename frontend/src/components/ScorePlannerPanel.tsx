@@ -0,0 +1,161 @@
+// Score Planner Panel
+// Shows which verifications and stamps raise the user's score the most and the
+// fewest stamps needed to reach a target score (e.g. a dApp's minScore)
+
+import React, { useMemo, useState } from 'react';
+import { Target, TrendingUp, CheckCircle, AlertCircle } from 'lucide-react';
+import { getPlatform } from '../lib/platforms';
+import {
+  PlannerVerification,
+  StampWeight,
+  planMinimumPath,
+  rankCriterionGains,
+  rankStampGains,
+} from '../lib/scorePlanner';
+import { PlatformIcon } from './PlatformIcon';
+import type { Stamp } from '../types';
+
+interface ScorePlannerPanelProps {
+  stamps: Stamp[];
+  ownedStampIds: number[];
+  verifications: Record<string, PlannerVerification | undefined>;
+  getWeight?: StampWeight;  // Decay mode: weight of held stamps (lib/scoreDecay.ts)
+  targetScore?: number;
+  limit?: number;
+}
+
+const providerName = (provider: string | null): string =>
+  (provider && getPlatform(provider)?.name) || 'Other';
+
+export const ScorePlannerPanel: React.FC<ScorePlannerPanelProps> = ({
+  stamps,
+  ownedStampIds,
+  verifications,
+  getWeight,
+  targetScore = 50,
+  limit = 5
+}) => {
+  const [target, setTarget] = useState<number>(targetScore);
+
+  const plan = useMemo(
+    () => planMinimumPath(stamps, ownedStampIds, target, getWeight),
+    [stamps, ownedStampIds, target, getWeight]
+  );
+  const stampGains = useMemo(
+    () => rankStampGains(stamps, ownedStampIds, getWeight).slice(0, limit),
+    [stamps, ownedStampIds, getWeight, limit]
+  );
+  const criterionGains = useMemo(
+    () => rankCriterionGains(verifications).slice(0, limit),
+    [verifications, limit]
+  );
+
+  return (
+    <div className="border border-neutral-800 rounded-lg p-6 bg-neutral-950 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-mono font-bold text-white text-sm uppercase flex items-center gap-2">
+            <Target size={16} />
+            Score Planner
+          </h3>
+          <p className="text-xs text-neutral-500 font-mono mt-1">
+            Current humanity score: {plan.currentScore} / 100
+          </p>
+        </div>
+        <label className="text-xs text-neutral-400 font-mono flex items-center gap-2">
+          Target
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={target}
+            onChange={(e) => setTarget(Number(e.target.value) || 0)}
+            className="w-16 px-2 py-1 bg-neutral-900 border border-neutral-800 text-white font-mono text-sm"
+          />
+        </label>
+      </div>
+
+      {/* Minimum path to the target score */}
+      <div>
+        {plan.steps.length === 0 && plan.reachable ? (
+          <div className="flex items-center gap-2 p-3 bg-green-950/30 border border-green-800/50 rounded text-green-400 font-mono text-xs">
+            <CheckCircle size={14} />
+            Your score already meets {plan.targetScore}.
+          </div>
+        ) : (
+          <>
+            <p className="text-xs text-neutral-400 font-mono mb-2">
+              {plan.reachable
+                ? `Fewest stamps to reach ${plan.targetScore}: ${plan.steps.length}`
+                : `${plan.targetScore} is out of reach with the available stamps (best: ${plan.finalScore})`}
+            </p>
+            <ol className="space-y-2">
+              {plan.steps.map((step, index) => (
+                <li
+                  key={step.stamp.stamp_id}
+                  className="flex items-center justify-between gap-3 p-2 rounded border border-neutral-800 bg-neutral-900"
+                >
+                  <span className="flex items-center gap-2 text-white font-mono text-xs">
+                    <span className="text-neutral-500">{index + 1}.</span>
+                    <PlatformIcon provider={step.provider ?? ''} size={14} />
+                    {step.stamp.name}
+                  </span>
+                  <span className="text-neutral-400 font-mono text-xs">
+                    +{step.gain} → {step.score}
+                  </span>
+                </li>
+              ))}
+            </ol>
+            {!plan.reachable && (
+              <div className="flex items-center gap-2 mt-2 text-yellow-500 font-mono text-xs">
+                <AlertCircle size={14} />
+                New stamps may be added later. Check back soon.
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {/* Stamps by humanity score gain */}
+      {stampGains.length > 0 && (
+        <div>
+          <h4 className="text-xs text-neutral-400 font-mono uppercase mb-2 flex items-center gap-2">
+            <TrendingUp size={14} />
+            Best next stamps
+          </h4>
+          <ul className="space-y-1">
+            {stampGains.map((entry) => (
+              <li key={entry.stamp.stamp_id} className="flex justify-between gap-3 font-mono text-xs">
+                <span className="text-white">
+                  {entry.stamp.name}
+                  <span className="text-neutral-500"> · {providerName(entry.provider)}</span>
+                </span>
+                <span className="text-green-400">+{entry.gain}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Verification criteria by verification score gain */}
+      {criterionGains.length > 0 && (
+        <div>
+          <h4 className="text-xs text-neutral-400 font-mono uppercase mb-2 flex items-center gap-2">
+            <TrendingUp size={14} />
+            Best next verifications
+          </h4>
+          <ul className="space-y-1">
+            {criterionGains.map((entry) => (
+              <li key={`${entry.provider}:${entry.ruleId}`} className="flex justify-between gap-3 font-mono text-xs">
+                <span className="text-white">
+                  {providerName(entry.provider)}: {entry.condition}
+                </span>
+                <span className="text-green-400">+{entry.gain} pts</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
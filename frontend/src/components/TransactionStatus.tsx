@@ -3,6 +3,7 @@ import { Loader2, CheckCircle, XCircle, ExternalLink } from 'lucide-react';
 import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
 import { WalletRequiredModal } from './WalletRequiredModal';
 import { fetchTransactionDetailsFromAnyExplorer, getFunctionDisplayName } from '../utils/explorerAPI';
+import type { TrackedTransaction } from '../lib/transactionTracker';
 
 // Add keyframes for animations
 const style = document.createElement('style');
@@ -22,21 +23,39 @@ if (!document.head.querySelector('style[data-transaction-status]')) {
 
 export type TransactionStatusType = 'pending' | 'confirmed' | 'failed' | 'waiting';
 
+/**
+ * Status to show for a tracked transaction (lib/transactionTracker.ts)
+ */
+export const trackedTransactionStatus = (transaction: TrackedTransaction): TransactionStatusType => {
+  switch (transaction.status) {
+    case 'submitted':
+    case 'pending':
+      return 'pending';
+    case 'accepted':
+      return 'confirmed';
+    default:
+      return 'failed';
+  }
+};
+
 interface TransactionStatusProps {
   txId: string | null;
   status: TransactionStatusType;
   onConfirm: () => void;
   onError: () => void;
   functionName?: string; // Optional: function name to display
+  transaction?: TrackedTransaction | null; // Optional: tracked transaction, overrides txId/status/functionName
 }
 
 export const TransactionStatus: React.FC<TransactionStatusProps> = ({
-  txId,
-  status,
-  onConfirm,
-  onError,
-  functionName: propFunctionName
+  transaction,
+  ...props
 }) => {
+  const txId = transaction ? transaction.transactionId ?? null : props.txId;
+  const status = transaction ? trackedTransactionStatus(transaction) : props.status;
+  const { onConfirm, onError } = props;
+  const propFunctionName = transaction?.functionName ?? props.functionName;
+
   const { publicKey } = useWallet();
   const [showWalletModal, setShowWalletModal] = useState(false);
   const [dots, setDots] = useState('');
@@ -94,8 +113,8 @@ export const TransactionStatus: React.FC<TransactionStatusProps> = ({
     : null;
 
   useEffect(() => {
-    // Close immediately after signing (pending status)
-    if (status === 'pending') {
+    // Close immediately after signing (pending status); tracked transactions stay open until settled
+    if (status === 'pending' && !transaction) {
       const timer = setTimeout(() => {
         setIsClosing(true);
         setTimeout(() => {
@@ -122,7 +141,7 @@ export const TransactionStatus: React.FC<TransactionStatusProps> = ({
       }, 3000);
       return () => clearTimeout(timer);
     }
-  }, [status, onConfirm, onError]);
+  }, [status, onConfirm, onError, transaction]);
 
   // Provable testnet (we deploy there) and Aleo testnet3 (Leo Wallet may use either)
   const provableUrl = txId
@@ -207,7 +226,7 @@ export const TransactionStatus: React.FC<TransactionStatusProps> = ({
                 </div>
               )}
               <p className="text-xs text-neutral-500 font-mono mt-4">
-                Closing automatically...
+                {transaction ? 'Waiting for on-chain confirmation...' : 'Closing automatically...'}
               </p>
             </>
           )}
@@ -267,7 +286,7 @@ export const TransactionStatus: React.FC<TransactionStatusProps> = ({
                 Transaction Failed
               </h3>
               <p className="text-neutral-400 text-sm font-mono mb-4">
-                The transaction could not be completed. Please try again.
+                {transaction?.error ?? 'The transaction could not be completed. Please try again.'}
               </p>
               {txId && (
                 <div className="flex flex-col gap-2">
@@ -0,0 +1,75 @@
+// Vault Unlock Form
+// Passphrase prompt for the identity vault (hooks/useVault.ts). On first use the
+// passphrase is chosen and confirmed; the same passphrase opens the vault, backups and
+// synced state on every device.
+
+import React, { useState } from 'react';
+import { Lock, AlertCircle, Loader2 } from 'lucide-react';
+import { useVault } from '../hooks/useVault';
+import { MIN_PASSPHRASE_LENGTH } from '../lib/walletCrypto';
+
+export const VaultUnlockForm: React.FC = () => {
+  const { hasVault, error, unlock } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const mismatch = !hasVault && confirmation !== '' && confirmation !== passphrase;
+  const canSubmit = passphrase.length >= MIN_PASSPHRASE_LENGTH && (hasVault || confirmation === passphrase) && !busy;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+    setBusy(true);
+    try {
+      await unlock(passphrase);
+    } finally {
+      setBusy(false);
+      setPassphrase('');
+      setConfirmation('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <p className="text-xs text-neutral-500 font-mono">
+        {hasVault
+          ? 'Enter your vault passphrase. Your wallet will be asked to sign a message.'
+          : `Choose a vault passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters). Use the same one on your other devices; it cannot be recovered.`}
+      </p>
+      <input
+        type="password"
+        autoComplete={hasVault ? 'current-password' : 'new-password'}
+        placeholder="Passphrase"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        className="w-full px-3 py-2 bg-neutral-900 border border-neutral-800 text-white font-mono text-xs"
+      />
+      {!hasVault && (
+        <input
+          type="password"
+          autoComplete="new-password"
+          placeholder="Confirm passphrase"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          className="w-full px-3 py-2 bg-neutral-900 border border-neutral-800 text-white font-mono text-xs"
+        />
+      )}
+      <button
+        type="submit"
+        disabled={!canSubmit}
+        className="flex items-center gap-2 px-4 py-2 border border-neutral-700 text-white font-mono text-xs uppercase hover:bg-neutral-900 disabled:opacity-50"
+      >
+        {busy ? <Loader2 size={14} className="animate-spin" /> : <Lock size={14} />}
+        {hasVault ? 'Unlock identity vault' : 'Create identity vault'}
+      </button>
+
+      {(mismatch || error) && (
+        <div className="flex items-center gap-2 p-3 rounded font-mono text-xs bg-red-950/30 border border-red-800/50 text-red-400">
+          <AlertCircle size={14} />
+          {mismatch ? 'Passphrases do not match' : error}
+        </div>
+      )}
+    </form>
+  );
+};
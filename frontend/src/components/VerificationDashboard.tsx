@@ -11,14 +11,18 @@ import {
   Video, 
   MessageSquare, 
   AlertCircle,
+  Clock,
+  RefreshCw,
   Globe
 } from 'lucide-react';
 import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
 import { useVerification } from '../hooks/useVerification';
+import { useVault } from '../hooks/useVault';
 import { VERIFICATION_CONFIGS } from '../services/verificationService';
 import { WalletRequiredModal } from './WalletRequiredModal';
+import { VaultUnlockForm } from './VaultUnlockForm';
 
-export type VerificationStatus = 'idle' | 'in_progress' | 'verified' | 'failed';
+export type VerificationStatus = 'idle' | 'in_progress' | 'verified' | 'expiring_soon' | 'expired' | 'failed';
 
 interface ProviderStatus {
   id: string;
@@ -27,6 +31,7 @@ interface ProviderStatus {
   status: VerificationStatus;
   score: number;
   maxScore: number;
+  daysRemaining?: number;
   error?: string;
 }
 
@@ -41,6 +46,7 @@ export const VerificationDashboard: React.FC<VerificationDashboardProps> = ({
 }) => {
   const { publicKey } = useWallet();
   const { verifications, getVerification, verifying } = useVerification(publicKey || undefined);
+  const { unlocked } = useVault();
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [showWalletModal, setShowWalletModal] = useState(false);
 
@@ -90,10 +96,12 @@ export const VerificationDashboard: React.FC<VerificationDashboardProps> = ({
     let status: VerificationStatus = 'idle';
     if (isVerifying) {
       status = 'in_progress';
+    } else if (verification?.status === 'expired') {
+      status = 'expired'; // Needs renewal
+    } else if (verification?.status === 'expiring_soon') {
+      status = 'expiring_soon';
     } else if (verification?.verified) {
       status = 'verified';
-    } else if (verification?.status === 'expired') {
-      status = 'idle'; // Expired = needs re-verification
     }
 
     return {
@@ -103,6 +111,7 @@ export const VerificationDashboard: React.FC<VerificationDashboardProps> = ({
       status,
       score: verification?.score || 0,
       maxScore: config?.maxScore || 0,
+      daysRemaining: verification?.daysRemaining,
       error: verification?.status === 'failed' ? 'Verification failed' : undefined
     };
   };
@@ -114,6 +123,14 @@ export const VerificationDashboard: React.FC<VerificationDashboardProps> = ({
 
   return (
     <div className="space-y-6">
+      {/* Verifications are only kept across reloads once the vault is unlocked */}
+      {!unlocked && (
+        <div className="p-6 border border-neutral-800 bg-surface">
+          <h3 className="font-mono font-bold text-white text-sm uppercase mb-3">Identity vault locked</h3>
+          <VaultUnlockForm />
+        </div>
+      )}
+
       {/* Category Filters */}
       <div className="flex flex-wrap gap-3">
         <button
@@ -194,6 +211,12 @@ export const VerificationDashboard: React.FC<VerificationDashboardProps> = ({
                   {status.status === 'failed' && (
                     <XCircle className="w-5 h-5 text-red-500" />
                   )}
+                  {status.status === 'expiring_soon' && (
+                    <Clock className="w-5 h-5 text-yellow-500" />
+                  )}
+                  {status.status === 'expired' && (
+                    <Clock className="w-5 h-5 text-red-500" />
+                  )}
                   {status.status === 'idle' && (
                     <AlertCircle className="w-5 h-5 text-neutral-500" />
                   )}
@@ -201,7 +224,7 @@ export const VerificationDashboard: React.FC<VerificationDashboardProps> = ({
               </div>
 
               {/* Score Display */}
-              {status.status === 'verified' && (
+              {(status.status === 'verified' || status.status === 'expiring_soon') && (
                 <div className="mb-4 p-3 bg-green-950/30 border border-green-800/50 rounded">
                   <div className="flex items-center justify-between">
                     <span className="text-green-400 font-mono text-xs">Score</span>
@@ -212,6 +235,17 @@ export const VerificationDashboard: React.FC<VerificationDashboardProps> = ({
                 </div>
               )}
 
+              {/* Expiry Display */}
+              {(status.status === 'expiring_soon' || status.status === 'expired') && (
+                <div className="mb-4 p-3 bg-yellow-900/30 border border-yellow-800/50 rounded">
+                  <p className="text-yellow-500 font-mono text-xs">
+                    {status.status === 'expired'
+                      ? 'Verification expired. Renew to keep your score.'
+                      : `Expires in ${status.daysRemaining} day${status.daysRemaining !== 1 ? 's' : ''}. Renew now to keep your claim.`}
+                  </p>
+                </div>
+              )}
+
               {/* Error Display */}
               {status.error && (
                 <div className="mb-4 p-3 bg-red-950/30 border border-red-800/50 rounded">
@@ -241,6 +275,11 @@ export const VerificationDashboard: React.FC<VerificationDashboardProps> = ({
                     <CheckCircle size={14} className="inline mr-2" />
                     Verified ({status.score} pts)
                   </>
+                ) : status.status === 'expiring_soon' || status.status === 'expired' ? (
+                  <>
+                    <RefreshCw size={14} className="inline mr-2" />
+                    Renew Verification
+                  </>
                 ) : (
                   'Start Verification'
                 )}
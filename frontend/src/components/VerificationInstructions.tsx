@@ -13,6 +13,7 @@ import { connectEVMWallet, signMessage } from '../utils/evmWallet';
 import { connectSolanaWallet, signSolanaMessage } from '../utils/solanaWallet';
 import { startVerification, verifyWallet, VerificationResult } from '../utils/backendAPI';
 import { providerToPlatformId } from '../utils/platformMapping';
+import { MISSING_ATTESTATION, attestationMismatch, claimVerificationInputs } from '../lib/attestation';
 import { PROGRAM_ID } from '../deployed_program';
 
 interface VerificationInstructionsProps {
@@ -115,7 +116,9 @@ export const VerificationInstructions: React.FC<VerificationInstructionsProps> =
         saveVerificationResult(stampId, {
           score: result.score,
           criteria: result.criteria || [],
-          metadataHash: result.commitment || ''
+          metadataHash: result.commitment || '',
+          commitment: result.commitment,
+          attestation: result.attestation
         });
         
         console.log(`[Verification] Successfully verified ${stampId}. Score: ${result.score}, Commitment: ${result.commitment}`);
@@ -185,7 +188,8 @@ export const VerificationInstructions: React.FC<VerificationInstructionsProps> =
         result = {
           score: persisted.score,
           commitment: persisted.commitment,
-          criteria: persisted.criteria || []
+          criteria: persisted.criteria || [],
+          attestation: persisted.attestation
         };
       }
     }
@@ -200,10 +204,19 @@ export const VerificationInstructions: React.FC<VerificationInstructionsProps> =
       return;
     }
 
-    let commitment = result.commitment;
-    if (!commitment.endsWith('field')) commitment = commitment + 'field';
-    const points = Math.round(Number(result.score)) || 1;
-    const pointsU64 = `${points}u64`;
+    // Points and expiry come from the issuer attestation the contract checks
+    const attestation = result.attestation;
+    if (!attestation) {
+      alert(MISSING_ATTESTATION);
+      return;
+    }
+    const mismatch = attestationMismatch(attestation, publicKey, platformId);
+    if (mismatch) {
+      alert(mismatch);
+      return;
+    }
+    const inputs = claimVerificationInputs(result.commitment, attestation);
+    const points = attestation.points;
 
     try {
       setClaimingProvider(provider);
@@ -228,7 +241,7 @@ export const VerificationInstructions: React.FC<VerificationInstructionsProps> =
       }
 
       console.log(`[Claim Points] Claiming ${points} pts for ${provider}`);
-      console.log(`[Claim Points] Transaction Inputs: [${platformId}u8, ${commitment}, ${pointsU64}]`);
+      console.log(`[Claim Points] Transaction Inputs: [${inputs.slice(0, 4).join(', ')}, ${attestation.issuer}, <signature>]`);
       console.log(`[Claim Points] Program ID: ${PROGRAM_ID}`);
 
       const transaction = Transaction.createTransaction(
@@ -236,7 +249,7 @@ export const VerificationInstructions: React.FC<VerificationInstructionsProps> =
         WalletAdapterNetwork.TestnetBeta,
         PROGRAM_ID,
         'claim_verification',
-        [`${platformId}u8`, commitment, pointsU64],
+        inputs,
         50_000,
         false
       );
@@ -245,12 +258,12 @@ export const VerificationInstructions: React.FC<VerificationInstructionsProps> =
         timeout: 60_000,
         maxRetries: 3
       });
-      console.log(`[Claim Points] Successfully claimed ${result.score} points for ${provider}. Transaction ID: ${txId}`);
+      console.log(`[Claim Points] Successfully claimed ${points} points for ${provider}. Transaction ID: ${txId}`);
 
       const explorerUrl = `https://testnet.explorer.provable.com/transaction/${txId}`;
       const msg = txId.startsWith("at")
-        ? `Points claimed!\n\nProvider: ${provider}\nPoints: ${result.score}\n\nTransaction: ${txId.slice(0, 12)}...\n\nOpen in explorer: ${explorerUrl}`
-        : `Points claimed!\n\nProvider: ${provider}\nPoints: ${result.score}\n\nIf the transaction doesn't appear in the explorer, open Leo Wallet → Transaction history and open the transaction there to get the real tx id.`;
+        ? `Points claimed!\n\nProvider: ${provider}\nPoints: ${points}\n\nTransaction: ${txId.slice(0, 12)}...\n\nOpen in explorer: ${explorerUrl}`
+        : `Points claimed!\n\nProvider: ${provider}\nPoints: ${points}\n\nIf the transaction doesn't appear in the explorer, open Leo Wallet → Transaction history and open the transaction there to get the real tx id.`;
       alert(msg);
       if (txId.startsWith("at")) {
         window.open(explorerUrl, "_blank");
@@ -263,7 +276,7 @@ export const VerificationInstructions: React.FC<VerificationInstructionsProps> =
       });
       
       // Update persistent storage to mark as claimed (removes commitment)
-      markAsClaimed(provider);
+      markAsClaimed(provider, txId);
       
       setClaimingProvider(null);
     } catch (error: any) {
@@ -722,7 +735,9 @@ export const VerificationInstructions: React.FC<VerificationInstructionsProps> =
             saveVerificationResult('solana', {
               score: result.score,
               criteria: result.criteria || [],
-              metadataHash: result.commitment || ''
+              metadataHash: result.commitment || '',
+              commitment: result.commitment,
+              attestation: result.attestation
             });
             console.log(`[Verification] Successfully verified Solana wallet. Score: ${result.score}, Commitment: ${result.commitment}`);
 
@@ -1,4 +1,4 @@
-// Aleo Program ID (v6). claim_verification(platform_id, commitment, points) — no passport.
-// Deploy TX: at1gmj05aqypxtqntm53cg90mz4agv0j6gywszj0huzgl5tu6gad5gqk3tqlc
-export const PROGRAM_ID = "zkpersona_passport_v6.aleo";
+// Aleo Program ID (v13). Issuer-attested claims and stamps; each stamp_id counts once per passport.
+// v6 (polynomial commitments) deploy TX: at1gmj05aqypxtqntm53cg90mz4agv0j6gywszj0huzgl5tu6gad5gqk3tqlc
+export const PROGRAM_ID = "zkpersona_passport_v13.aleo";
 
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
+import { useAdmin } from '../useAdmin';
+import { stringToField } from '../../utils/aleo';
+import { ChainSimulator } from '../../test/mocks/chainSimulator';
+import { MockWalletAdapter, mockWalletContext } from '../../test/mocks/mockWallet';
+import { newAddress } from '../../test/mocks/accounts';
+
+vi.mock('@demox-labs/aleo-wallet-adapter-react', () => ({
+  useWallet: vi.fn(),
+}));
+
+describe('useAdmin', () => {
+  let adminAddress: string;
+  let userAddress: string;
+  let chain: ChainSimulator;
+
+  beforeAll(async () => {
+    adminAddress = await newAddress();
+    userAddress = await newAddress();
+  });
+
+  beforeEach(async () => {
+    chain = new ChainSimulator();
+    await new MockWalletAdapter(chain, adminAddress).execute('initialize', [adminAddress]);
+    vi.stubGlobal('fetch', chain.fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const renderAdmin = async (address: string) => {
+    vi.mocked(useWallet).mockReturnValue(mockWalletContext(new MockWalletAdapter(chain, address)));
+    const { result } = renderHook(() => useAdmin());
+    await waitFor(() => expect(result.current.checking).toBe(false));
+    return result;
+  };
+
+  it('should create, edit and delete stamps', async () => {
+    const result = await renderAdmin(adminAddress);
+
+    const created = await act(() => result.current.createStamp('Gitcoin', 'Gitcoin donor', 'web3', 50, 5));
+    expect(chain.transaction(created!)?.status).toBe('accepted');
+    expect(chain.getMapping('stamp_count', '0u32')).toBe('10u32');
+    expect(chain.getMapping('stamps', '10u32')).toMatchObject({
+      platform_id: '5u8',
+      points: '50u64',
+      name_hash: stringToField('Gitcoin'),
+      is_active: 'true',
+    });
+
+    await act(() => result.current.editStamp(10, 'Gitcoin', 'Gitcoin donor', 'web3', 60, true));
+    expect(chain.getMapping('stamps', '10u32')).toMatchObject({ points: '60u64', is_active: 'true' });
+
+    await act(() => result.current.deleteStamp(10));
+    expect(chain.getMapping('stamps', '10u32')).toMatchObject({ points: '60u64', is_active: 'false' });
+  });
+
+  it('should have stamp changes of non-admins rejected on-chain', async () => {
+    const result = await renderAdmin(userAddress);
+
+    const created = await act(() => result.current.createStamp('Spam', '', '', 1000));
+    const edited = await act(() => result.current.editStamp(1, 'Discord', '', '', 1000, true));
+
+    expect(chain.transaction(created!)).toMatchObject({ status: 'rejected', error: expect.stringMatching(/permission/) });
+    expect(chain.transaction(edited!)?.status).toBe('rejected');
+    expect(chain.getMapping('stamp_count', '0u32')).toBe('9u32');
+    expect(chain.getMapping('stamps', '1u32')).toMatchObject({ points: '78u64' });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
+import { useClaimPoints } from '../useClaimPoints';
+import { ChainSimulator } from '../../test/mocks/chainSimulator';
+import { MockWalletAdapter, mockWalletContext } from '../../test/mocks/mockWallet';
+import { createTestIssuer, newAddress } from '../../test/mocks/accounts';
+import type { Attestation } from '../../utils/backendAPI';
+
+vi.mock('@demox-labs/aleo-wallet-adapter-react', () => ({
+  useWallet: vi.fn(),
+}));
+
+const COMMITMENT = '123456789field';
+const DISCORD = 1;
+
+describe('useClaimPoints', () => {
+  let adminAddress: string;
+  let userAddress: string;
+  let issuer: Awaited<ReturnType<typeof createTestIssuer>>;
+  let chain: ChainSimulator;
+  let user: MockWalletAdapter;
+
+  beforeAll(async () => {
+    adminAddress = await newAddress();
+    userAddress = await newAddress();
+    issuer = await createTestIssuer();
+  });
+
+  beforeEach(async () => {
+    chain = new ChainSimulator({ blockHeight: 1000 });
+    const admin = new MockWalletAdapter(chain, adminAddress);
+    await admin.execute('initialize', [adminAddress]);
+    await admin.execute('add_issuer', [issuer.address]);
+
+    user = new MockWalletAdapter(chain, userAddress);
+    await user.execute('claim_points', ['42field']);
+
+    vi.stubGlobal('fetch', chain.fetch);
+    vi.mocked(useWallet).mockReturnValue(mockWalletContext(user));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const attest = (overrides: Partial<Omit<Attestation, 'issuer' | 'signature'>> = {}) =>
+    issuer.sign(COMMITMENT, {
+      platformId: DISCORD,
+      points: 78,
+      expiresAt: chain.blockHeight + 100,
+      recipient: userAddress,
+      ...overrides,
+    });
+
+  it('should credit the attested points and bind the commitment', async () => {
+    const { result } = renderHook(() => useClaimPoints());
+
+    const claim = await act(() => result.current.claimPoints('discord', COMMITMENT, attest()));
+
+    expect(claim.success).toBe(true);
+    expect(chain.transaction(claim.txId!)?.status).toBe('accepted');
+    expect(chain.getMapping('user_total_points', userAddress)).toBe('78u64');
+    expect(chain.getMapping('social_commitments', COMMITMENT)).toMatchObject({ is_active: 'true', platform_id: '1u8' });
+    await waitFor(() => expect(result.current.claimTransaction).toMatchObject({ transactionId: claim.txId, status: 'accepted' }));
+  });
+
+  it('should reject a second claim of the same commitment on-chain', async () => {
+    const { result } = renderHook(() => useClaimPoints());
+    await act(() => result.current.claimPoints('discord', COMMITMENT, attest()));
+
+    const again = await act(() => result.current.claimPoints('discord', COMMITMENT, attest()));
+
+    expect(chain.transaction(again.txId!)).toMatchObject({ status: 'rejected', error: expect.stringMatching(/already claimed/) });
+    expect(chain.getMapping('user_total_points', userAddress)).toBe('78u64');
+    await waitFor(() => expect(result.current.claimTransaction).toMatchObject({ requestId: again.txId, status: 'rejected' }));
+  });
+
+  it('should track claims sent through wallets that return request IDs', async () => {
+    const leoStyle = new MockWalletAdapter(chain, userAddress, { requestIds: true });
+    vi.mocked(useWallet).mockReturnValue(mockWalletContext(leoStyle));
+    const { result } = renderHook(() => useClaimPoints());
+
+    const claim = await act(() => result.current.claimPoints('discord', COMMITMENT, attest()));
+
+    expect(claim.txId).not.toMatch(/^at1/);
+    const { transactionId } = await leoStyle.transactionStatus(claim.txId!);
+    await waitFor(() => expect(result.current.claimTransaction).toMatchObject({ transactionId, status: 'accepted' }));
+  });
+
+  it('should reject attestations of unregistered issuers and expired attestations', async () => {
+    const unregistered = await createTestIssuer();
+    const { result } = renderHook(() => useClaimPoints());
+
+    const forged = await act(() => result.current.claimPoints('discord', COMMITMENT, unregistered.sign(COMMITMENT, {
+      platformId: DISCORD, points: 100, expiresAt: chain.blockHeight + 100, recipient: userAddress,
+    })));
+    const expired = await act(() => result.current.claimPoints('discord', COMMITMENT, attest({ expiresAt: chain.blockHeight })));
+
+    expect(chain.transaction(forged.txId!)).toMatchObject({ status: 'rejected', error: expect.stringMatching(/issuer/) });
+    expect(chain.transaction(expired.txId!)).toMatchObject({ status: 'rejected', error: expect.stringMatching(/expired/) });
+    expect(chain.getMapping('user_total_points', userAddress)).toBeNull();
+  });
+
+  it('should not send attestations signed for another wallet', async () => {
+    const { result } = renderHook(() => useClaimPoints());
+    const submit = vi.spyOn(user, 'requestTransaction');
+
+    const claim = await act(() => result.current.claimPoints('discord', COMMITMENT, attest({ recipient: adminAddress })));
+
+    expect(claim).toMatchObject({ success: false, error: expect.stringMatching(/another wallet/) });
+    expect(submit).not.toHaveBeenCalled();
+  });
+
+  it('should find the passport record in the wallet', async () => {
+    const { result } = renderHook(() => useClaimPoints());
+
+    const ciphertext = await act(() => result.current.getPassportRecord());
+
+    expect(ciphertext).toBe(chain.recordsOf(userAddress, 'Passport')[0].ciphertext);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
+import { usePassportProof, type PassportProofRequest } from '../usePassportProof';
+import { PROGRAM_ID } from '../../deployed_program';
+import { deriveAppId } from '../../lib/commitments';
+import { computeNullifier } from '../../lib/passportCommitments';
+import { ChainSimulator } from '../../test/mocks/chainSimulator';
+import { MockWalletAdapter, mockWalletContext } from '../../test/mocks/mockWallet';
+import { createTestIssuer, newAddress } from '../../test/mocks/accounts';
+
+vi.mock('@demox-labs/aleo-wallet-adapter-react', () => ({
+  useWallet: vi.fn(),
+}));
+
+const PASSPORT_NONCE = '42field';
+
+const proofRequest = (request: Partial<PassportProofRequest> = {}): PassportProofRequest => ({
+  program: PROGRAM_ID,
+  function: 'prove_access',
+  appId: 'myapp.xyz/prod',
+  minScore: 5,
+  ...request,
+});
+
+type ProofHook = { current: ReturnType<typeof usePassportProof> };
+
+// generateProof inside act; errors are returned (a rejected act would leave React's act scope open)
+const attemptProof = (hook: ProofHook, request: PassportProofRequest, onChain?: boolean) =>
+  act(() => hook.current.generateProof(request, onChain).catch((error: Error) => error));
+
+describe('usePassportProof', () => {
+  let adminAddress: string;
+  let userAddress: string;
+  let issuer: Awaited<ReturnType<typeof createTestIssuer>>;
+  let chain: ChainSimulator;
+  let user: MockWalletAdapter;
+
+  beforeAll(async () => {
+    adminAddress = await newAddress();
+    userAddress = await newAddress();
+    issuer = await createTestIssuer();
+  });
+
+  // claim_social_stamp of a default stamp (stamp_id = platform_id), attested by the issuer
+  const claimStamp = (commitment: string, platformId: number, points: number) => {
+    const attestation = issuer.sign(commitment, { platformId, points, expiresAt: chain.blockHeight + 100, recipient: userAddress });
+    return user.execute('claim_social_stamp', [
+      `${platformId}u8`, commitment, `${platformId}u32`, `${points}u64`,
+      `${attestation.expiresAt}u32`, issuer.address, attestation.signature,
+    ]);
+  };
+
+  // Passport with one GitHub stamp: humanity score 5
+  beforeEach(async () => {
+    chain = new ChainSimulator();
+    const admin = new MockWalletAdapter(chain, adminAddress);
+    await admin.execute('initialize', [adminAddress]);
+    await admin.execute('add_issuer', [issuer.address]);
+
+    user = new MockWalletAdapter(chain, userAddress);
+    await user.execute('claim_points', [PASSPORT_NONCE]);
+    await claimStamp('777field', 3, 80);
+    await user.execute('add_stamp', ['99field']);
+
+    vi.stubGlobal('fetch', chain.fetch);
+    vi.mocked(useWallet).mockReturnValue(mockWalletContext(user));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should prove access on-chain and record the nullifier', async () => {
+    const { result } = renderHook(() => usePassportProof());
+
+    const proof = await act(() => result.current.generateProof(proofRequest()));
+
+    const nullifier = await computeNullifier(PASSPORT_NONCE, await deriveAppId('myapp.xyz/prod'));
+    expect(proof).toMatchObject({ valid: true, nullifier, appId: 'myapp.xyz/prod', minScore: 5 });
+    expect(chain.transaction(proof!.transactionId!)?.status).toBe('accepted');
+    expect(chain.getMapping('nullifiers', nullifier)).toMatchObject({ nullifier });
+  });
+
+  it('should reject a second on-chain proof for the same app', async () => {
+    const { result } = renderHook(() => usePassportProof());
+    await act(() => result.current.generateProof(proofRequest()));
+
+    expect(await attemptProof(result, proofRequest())).toMatchObject({ message: expect.stringMatching(/rejected/) });
+    expect(await attemptProof(result, proofRequest({ appId: 'other.app' }))).toMatchObject({ valid: true });
+  });
+
+  it('should fail in the wallet when the passport does not meet the request', async () => {
+    const { result } = renderHook(() => usePassportProof());
+    const submit = vi.spyOn(user, 'requestTransaction');
+
+    expect(await attemptProof(result, proofRequest({ minScore: 50 }))).toMatchObject({
+      message: expect.stringMatching(/min_score/),
+    });
+    expect(await attemptProof(result, proofRequest({ predicates: [{ platforms: ['discord'], minStamps: 1 }] }))).toMatchObject({
+      message: expect.stringMatching(/platform predicate/),
+    });
+    expect(await attemptProof(result, proofRequest({ predicates: [{ platforms: ['github'], minStamps: 1 }] }))).toMatchObject({
+      valid: true,
+    });
+
+    expect(submit).toHaveBeenCalledTimes(3);
+    expect(chain.recordsOf(userAddress, 'Passport')).toHaveLength(1);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should only issue stamps that a registered issuer attested', async () => {
+    const forger = await createTestIssuer();
+    const forged = forger.sign('888field', { platformId: 1, points: 78, expiresAt: chain.blockHeight + 100, recipient: userAddress });
+    const inputs = ['1u8', '888field', '1u32', '78u64', `${forged.expiresAt}u32`];
+
+    const txId = await user.execute('claim_social_stamp', [...inputs, forger.address, forged.signature]);
+    expect(chain.transaction(txId)?.status).toBe('rejected');
+    await expect(user.execute('claim_social_stamp', [...inputs, issuer.address, forged.signature])).rejects.toThrow(/signature/);
+
+    expect(chain.recordsOf(userAddress, 'StampRecord')).toHaveLength(0);
+    expect(chain.getMapping('social_commitments', '888field')).toBeNull();
+  });
+
+  it('should count each stamp once per passport', async () => {
+    await claimStamp('778field', 3, 80);
+
+    await expect(user.execute('add_stamp', ['99field'])).rejects.toThrow(/stamp already added/);
+    expect(chain.recordsOf(userAddress, 'Passport')[0].data).toMatchObject({ total_stamps: '1u32', platform_counts: '4096u64' });
+  });
+
+  it('should generate off-chain proofs without recording the nullifier', async () => {
+    const { result } = renderHook(() => usePassportProof());
+
+    const proof = await act(() => result.current.generateProof(proofRequest(), false));
+
+    expect(proof?.transactionId).toBeUndefined();
+    expect(chain.getMapping('nullifiers', proof!.nullifier)).toBeNull();
+  });
+});
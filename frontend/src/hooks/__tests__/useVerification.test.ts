@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useVerification } from '../useVerification';
+
+vi.mock('../useVault', () => ({
+  useVault: () => ({ unlocked: false }),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CRITERIA = [{ condition: 'balance', points: 5, description: 'Holds ETH' }];
+
+type VerificationHook = { current: ReturnType<typeof useVerification> };
+
+const verify = (hook: VerificationHook, commitment?: string) =>
+  act(() => hook.current.saveVerificationResult('ethereum', { score: 5, criteria: CRITERIA, commitment }));
+
+describe('useVerification', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Verified and claimed ethereum stamp, renewed after 10 days
+  const claimedVerification = async (commitment: string) => {
+    const { result } = renderHook(() => useVerification());
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    verify(result, commitment);
+    act(() => result.current.markAsClaimed('ethereum', 'at1claim'));
+    vi.setSystemTime(Date.now() + 10 * DAY_MS);
+    return result;
+  };
+
+  it('should keep the claim when a renewal yields the claimed commitment', async () => {
+    const result = await claimedVerification('111field');
+
+    verify(result, '111');
+
+    expect(result.current.verifications.ethereum).toMatchObject({
+      commitment: undefined,
+      claimedCommitment: '111field',
+      claimTxId: 'at1claim',
+    });
+  });
+
+  it('should replace the claim when a renewal yields another commitment', async () => {
+    const result = await claimedVerification('111field');
+
+    verify(result, '222field');
+
+    expect(result.current.verifications.ethereum).toMatchObject({
+      commitment: '222field',
+      claimedCommitment: undefined,
+      claimTxId: undefined,
+    });
+  });
+
+  it('should keep the claim without a new commitment until the grace period ends', async () => {
+    const result = await claimedVerification('111field');
+
+    verify(result);
+    expect(result.current.verifications.ethereum.claimedCommitment).toBe('111field');
+
+    vi.setSystemTime(Date.now() + 60 * DAY_MS);
+    verify(result);
+    expect(result.current.verifications.ethereum.claimedCommitment).toBeUndefined();
+  });
+});
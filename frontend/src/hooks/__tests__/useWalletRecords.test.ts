@@ -1,94 +1,98 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { renderHook, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
 import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
 import { useWalletRecords } from '../useWalletRecords';
+import { PROGRAM_ID } from '../../deployed_program';
+import { ChainSimulator } from '../../test/mocks/chainSimulator';
+import { MockWalletAdapter, mockWalletContext } from '../../test/mocks/mockWallet';
+import { newAddress } from '../../test/mocks/accounts';
 
-// Mock useWallet
 vi.mock('@demox-labs/aleo-wallet-adapter-react', () => ({
   useWallet: vi.fn(),
 }));
 
 describe('useWalletRecords', () => {
-  const mockRequestRecordPlaintexts = vi.fn();
-  const mockRequestRecords = vi.fn();
-  const mockDecrypt = vi.fn();
-
-  beforeEach(() => {
-    vi.clearAllMocks();
-    
-    (useWallet as any).mockReturnValue({
-      publicKey: 'aleo1test',
-      wallet: {
-        adapter: {
-          requestRecordPlaintexts: mockRequestRecordPlaintexts,
-          requestRecords: mockRequestRecords,
-          decrypt: mockDecrypt,
-        },
-      },
-    });
+  let userAddress: string;
+  let chain: ChainSimulator;
+  let wallet: MockWalletAdapter;
+
+  beforeAll(async () => {
+    userAddress = await newAddress();
   });
 
-  it('should fetch passport records successfully', async () => {
-    const mockRecords = [
-      {
-        plaintext: '{ owner: aleo1test, total_stamps: 5u32, total_points: 100u64, humanity_score: 50u64, created_at: 1234567890u64, updated_at: 1234567890u64 }',
-      },
-    ];
+  // Wallet holding a freshly claimed passport
+  beforeEach(async () => {
+    chain = new ChainSimulator();
+    wallet = new MockWalletAdapter(chain, userAddress);
+    await wallet.execute('claim_points', ['42field']);
 
-    mockRequestRecordPlaintexts.mockResolvedValueOnce(mockRecords);
+    vi.stubGlobal('fetch', chain.fetch);
+    vi.mocked(useWallet).mockReturnValue(mockWalletContext(wallet));
+  });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should fetch passport records successfully', async () => {
     const { result } = renderHook(() => useWalletRecords());
 
-    const records = await result.current.fetchPassportRecords('passport.aleo');
+    const records = await act(() => result.current.fetchPassportRecords(PROGRAM_ID));
 
     expect(records).toHaveLength(1);
-    expect(records[0].owner).toBe('aleo1test');
-    expect(records[0].total_stamps).toBe(5);
+    expect(records[0]).toMatchObject({ owner: userAddress, total_stamps: 0, humanity_score: 0 });
+    expect(result.current.hasPermission).toBe(true);
   });
 
   it('should fallback to requestRecords when requestRecordPlaintexts fails', async () => {
-    const mockEncryptedRecords = ['record1encrypted'];
-    const mockDecrypted = '{ owner: aleo1test, total_stamps: 3u32, total_points: 50u64, humanity_score: 25u64, created_at: 1234567890u64, updated_at: 1234567890u64 }';
-
-    mockRequestRecordPlaintexts.mockRejectedValueOnce(new Error('Permission denied'));
-    mockRequestRecords.mockResolvedValueOnce(mockEncryptedRecords);
-    mockDecrypt.mockResolvedValueOnce(mockDecrypted);
+    vi.spyOn(wallet, 'requestRecordPlaintexts').mockRejectedValueOnce(new Error('Permission denied'));
+    const requestRecords = vi.spyOn(wallet, 'requestRecords');
+    const decrypt = vi.spyOn(wallet, 'decrypt');
 
     const { result } = renderHook(() => useWalletRecords());
 
-    const records = await result.current.fetchPassportRecords('passport.aleo');
+    const records = await act(() => result.current.fetchPassportRecords(PROGRAM_ID));
 
-    expect(mockRequestRecords).toHaveBeenCalled();
-    expect(records.length).toBeGreaterThan(0);
+    expect(requestRecords).toHaveBeenCalledWith(PROGRAM_ID);
+    expect(decrypt).toHaveBeenCalledTimes(1);
+    expect(records).toHaveLength(1);
+    expect(records[0].owner).toBe(userAddress);
   });
 
-  it('should return empty array when no wallet connected', () => {
-    (useWallet as any).mockReturnValue({
-      publicKey: null,
-      wallet: null,
-    });
+  it('should return no records of another program', async () => {
+    const { result } = renderHook(() => useWalletRecords());
+
+    expect(await act(() => result.current.fetchPassportRecords('other_program.aleo'))).toEqual([]);
+  });
+
+  it('should return empty array when no wallet connected', async () => {
+    vi.mocked(useWallet).mockReturnValue({ publicKey: null, wallet: null } as unknown as ReturnType<typeof useWallet>);
 
     const { result } = renderHook(() => useWalletRecords());
 
-    expect(result.current.fetchPassportRecords).toBeDefined();
+    expect(await result.current.fetchPassportRecords(PROGRAM_ID)).toEqual([]);
   });
 
   it('should fetch user stamp records successfully', async () => {
-    const mockRecords = [
-      {
-        plaintext: '{ passport_owner: aleo1test, stamp_id: 1u32, earned_at: 1234567890u64, verification_hash: 123field, is_verified: true }',
-      },
-    ];
-
-    mockRequestRecordPlaintexts.mockResolvedValueOnce(mockRecords);
+    // The program issues StampRecord, not the UserStamp records this parser reads,
+    // so the wallet is handed a UserStamp plaintext directly
+    vi.spyOn(wallet, 'requestRecordPlaintexts').mockResolvedValueOnce([{
+      id: '1',
+      owner: userAddress,
+      program_id: PROGRAM_ID,
+      recordName: 'UserStamp',
+      spent: false,
+      ciphertext: 'record1userstamp',
+      plaintext: `{ passport_owner: ${userAddress}, stamp_id: 1u32, earned_at: 1234567890u64, verification_hash: 123field, is_verified: true }`,
+    }]);
 
     const { result } = renderHook(() => useWalletRecords());
 
-    const stamps = await result.current.fetchUserStampRecords('passport.aleo');
+    const stamps = await act(() => result.current.fetchUserStampRecords(PROGRAM_ID));
 
     expect(stamps).toHaveLength(1);
     expect(stamps[0].stamp_id).toBe(1);
     expect(stamps[0].is_verified).toBe(true);
   });
 });
-
@@ -0,0 +1,88 @@
+/**
+ * Hook for the Activity tab: passport activity of the connected wallet (lib/activity.ts)
+ *
+ * Renders the cached list first, then refreshes it from the explorer. Transactions the
+ * tracker is following appear before the explorer lists them. Items are revealed a page
+ * at a time (loadMore) for infinite scrolling.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
+import {
+  filterActivity,
+  loadActivityCache,
+  mergeActivity,
+  refreshActivity,
+  trackedActivityItem,
+  type ActivityItem,
+} from '../lib/activity';
+import { useTransactionTracker } from './useTransactionTracker';
+
+export const ACTIVITY_PAGE_SIZE = 20;
+
+export const useActivity = (pageSize: number = ACTIVITY_PAGE_SIZE) => {
+  const { publicKey } = useWallet();
+  const { transactions } = useTransactionTracker();
+
+  const [history, setHistory] = useState<ActivityItem[]>([]);
+  const [fetchedAt, setFetchedAt] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [functionFilter, setFunctionFilterState] = useState('all');
+  const [visibleCount, setVisibleCount] = useState(pageSize);
+
+  const refresh = useCallback(async () => {
+    if (!publicKey) {
+      return;
+    }
+    setLoading(true);
+    try {
+      const cache = await refreshActivity(publicKey);
+      setHistory(cache.items);
+      setFetchedAt(cache.fetchedAt);
+    } finally {
+      setLoading(false);
+    }
+  }, [publicKey]);
+
+  useEffect(() => {
+    const cached = publicKey ? loadActivityCache(publicKey) : null;
+    setHistory(cached?.items ?? []);
+    setFetchedAt(cached?.fetchedAt ?? null);
+    setVisibleCount(pageSize);
+    refresh();
+  }, [publicKey, pageSize, refresh]);
+
+  const all = useMemo(() => mergeActivity(
+    history,
+    transactions.map(trackedActivityItem).filter((item): item is ActivityItem => item !== null)
+  ), [history, transactions]);
+
+  const filtered = useMemo(() => filterActivity(all, functionFilter), [all, functionFilter]);
+
+  // Functions present in the activity, for the filter
+  const functions = useMemo(() => [...new Set(all.map(item => item.functionName))], [all]);
+
+  const setFunctionFilter = useCallback((functionName: string) => {
+    setFunctionFilterState(functionName);
+    setVisibleCount(pageSize);
+  }, [pageSize]);
+
+  const loadMore = useCallback(() => {
+    setVisibleCount(count => count + pageSize);
+  }, [pageSize]);
+
+  return {
+    items: filtered.slice(0, visibleCount),
+    total: filtered.length,
+    hasMore: visibleCount < filtered.length,
+    loadMore,
+    functions,
+    functionFilter,
+    setFunctionFilter,
+    loading,
+    fetchedAt,
+    refresh,
+  };
+};
+
+export default useActivity;
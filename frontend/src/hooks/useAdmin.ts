@@ -4,6 +4,7 @@ import { WalletAdapterNetwork, Transaction } from "@demox-labs/aleo-wallet-adapt
 import { PROGRAM_ID } from "../deployed_program";
 import { stringToField, hashString } from "../utils/aleo";
 import { logger } from "../utils/logger";
+import { useTransactionTracker } from "./useTransactionTracker";
 
 type WalletAdapterExtras = {
     requestTransaction?: (tx: Transaction) => Promise<string>;
@@ -13,6 +14,8 @@ export const useAdmin = () => {
     const { publicKey, wallet } = useWallet();
     const adapter = wallet?.adapter as unknown as WalletAdapterExtras | undefined;
     const network = WalletAdapterNetwork.TestnetBeta;
+    // Admin transactions are followed until their finalize result (lib/transactionTracker.ts)
+    const { transactions, track, waitForTransaction } = useTransactionTracker();
     
     const [isAdmin, setIsAdmin] = useState(false);
     const [checking, setChecking] = useState(true);
@@ -54,14 +57,14 @@ export const useAdmin = () => {
     }, [publicKey]);
 
     // Admin operations
-    // NOTE: create_stamp transition only takes points (u64) as parameter
+    // NOTE: create_stamp stores platform_id, points and a hash of the name on-chain
     // Stamp metadata (name, description, category) are NOT stored on-chain
-    // Only points and is_active are stored (public metadata)
     const createStamp = async (
         name: string,
         description: string,
         category: string,
-        points: number
+        points: number,
+        platformId: number = 0
     ): Promise<string | null> => {
         if (!publicKey || !adapter?.requestTransaction) {
             throw new Error("Wallet not connected");
@@ -70,8 +73,8 @@ export const useAdmin = () => {
         try {
             logger.admin.createStamp("pending", name);
 
-            // create_stamp transition signature: create_stamp(public points: u64) -> (u32, Future)
-            // Only points are stored on-chain (public metadata)
+            // create_stamp transition signature: create_stamp(public platform_id: u8, public points: u64, public name_hash: field) -> (u32, Future)
+            // platform_id 0 = stamp without platform
             // Name, description, category are stored off-chain (not part of ZK system)
             const transaction = Transaction.createTransaction(
                 publicKey,
@@ -79,7 +82,9 @@ export const useAdmin = () => {
                 PROGRAM_ID,
                 "create_stamp",
                 [
-                    `${points}u64`,  // Only points stored on-chain
+                    `${platformId}u8`,
+                    `${points}u64`,
+                    stringToField(name),
                 ],
                 50000,
                 false
@@ -88,7 +93,8 @@ export const useAdmin = () => {
             const txId = await adapter.requestTransaction(transaction);
             
             if (txId) {
-                logger.transaction.confirmed(txId);
+                logger.transaction.submitted(txId);
+                track(txId, "create_stamp");
                 // NOTE: Name, description, category should be stored off-chain
                 // They are not part of the ZK system (privacy-first design)
                 return txId;
@@ -136,7 +142,8 @@ export const useAdmin = () => {
             const txId = await adapter.requestTransaction(transaction);
             
             if (txId) {
-                logger.transaction.confirmed(txId);
+                logger.transaction.submitted(txId);
+                track(txId, "edit_stamp");
                 // NOTE: Name, description, category should be stored off-chain
                 return txId;
             }
@@ -169,7 +176,8 @@ export const useAdmin = () => {
             const txId = await adapter.requestTransaction(transaction);
             
             if (txId) {
-                logger.transaction.confirmed(txId);
+                logger.transaction.submitted(txId);
+                track(txId, "delete_stamp");
                 return txId;
             }
             
@@ -211,7 +219,8 @@ export const useAdmin = () => {
             const txId = await adapter.requestTransaction(transaction);
             
             if (txId) {
-                logger.transaction.confirmed(txId);
+                logger.transaction.submitted(txId);
+                track(txId, "create_task");
                 return txId;
             }
             
@@ -257,7 +266,8 @@ export const useAdmin = () => {
             const txId = await adapter.requestTransaction(transaction);
             
             if (txId) {
-                logger.transaction.confirmed(txId);
+                logger.transaction.submitted(txId);
+                track(txId, "edit_task");
                 return txId;
             }
             
@@ -289,7 +299,8 @@ export const useAdmin = () => {
             const txId = await adapter.requestTransaction(transaction);
             
             if (txId) {
-                logger.transaction.confirmed(txId);
+                logger.transaction.submitted(txId);
+                track(txId, "delete_task");
                 return txId;
             }
             
@@ -335,7 +346,8 @@ export const useAdmin = () => {
             const txId = await adapter.requestTransaction(transaction);
             
             if (txId) {
-                logger.transaction.confirmed(txId);
+                logger.transaction.submitted(txId);
+                track(txId, "issue_stamp");
                 // StampRecord is returned as private record to user's wallet
                 // Admin never sees the full record - privacy preserved
                 return txId;
@@ -359,6 +371,8 @@ export const useAdmin = () => {
         editTask,
         deleteTask,
         issueStamp,  // Changed from verifyAndGrantStamp - now issues private records
+        transactions,
+        waitForTransaction,
     };
 };
 
@@ -2,9 +2,9 @@
  * Hook for claiming points on Aleo blockchain after successful verification
  * 
  * After Discord/Telegram/Solana verification is successful:
- * 1. Backend returns commitment (hash of social_id + secret)
- * 2. This hook calls claim_point on Aleo contract
- * 3. Points are added to user's passport (encrypted on-chain)
+ * 1. Backend returns commitment (hash of social_id + secret) and an issuer attestation
+ * 2. This hook calls claim_verification on Aleo contract with the attestation
+ * 3. The contract checks the issuer signature and credits the attested points
  */
 
 import { useState, useCallback } from 'react';
@@ -12,7 +12,10 @@ import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
 import { Transaction, WalletAdapterNetwork } from '@demox-labs/aleo-wallet-adapter-base';
 import { PROGRAM_ID } from '../deployed_program';
 import { providerToPlatformId } from '../utils/platformMapping';
+import { MISSING_ATTESTATION, attestationMismatch, claimVerificationInputs } from '../lib/attestation';
+import type { Attestation } from '../utils/backendAPI';
 import { requestTransactionWithRetry, requestRecordsWithRetry, checkBalance, MIN_BALANCE_REQUIRED } from '../utils/walletUtils';
+import { useTransactionTracker } from './useTransactionTracker';
 
 interface WalletAdapterExtras {
   requestTransaction?: (tx: Transaction) => Promise<string>;
@@ -37,6 +40,7 @@ export const useClaimPoints = () => {
   const [claiming, setClaiming] = useState(false);
   const [lastClaimTxId, setLastClaimTxId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const { track, getTransaction } = useTransactionTracker();
 
   /**
    * Get user's passport record from wallet (using requestRecords, like tipzo)
@@ -139,13 +143,13 @@ export const useClaimPoints = () => {
    * 
    * @param provider - Provider name (discord, telegram, solana, etc.)
    * @param commitment - Commitment hash from backend verification (format: "0x...field")
-   * @param points - Points to claim (from backend verification score)
+   * @param attestation - Issuer signature from backend verification; sets the points to claim
    * @returns ClaimResult with success status and txId
    */
   const claimPoints = useCallback(async (
     provider: string,
     commitment: string,
-    points: number
+    attestation: Attestation | undefined
   ): Promise<ClaimResult> => {
     if (!publicKey || !adapter?.requestTransaction) {
       return {
@@ -164,6 +168,15 @@ export const useClaimPoints = () => {
         throw new Error(`Unsupported provider: ${provider}`);
       }
 
+      // 1.2. The contract only accepts the attestation for this wallet and platform
+      if (!attestation) {
+        throw new Error(MISSING_ATTESTATION);
+      }
+      const mismatch = attestationMismatch(attestation, publicKey, platformId);
+      if (mismatch) {
+        throw new Error(mismatch);
+      }
+
       // 1.5. Check balance
       if (wallet && publicKey) {
         const balance = await checkBalance(wallet, publicKey);
@@ -200,14 +213,15 @@ export const useClaimPoints = () => {
         }
       }
 
-      // 4. Convert points to u64 format (contract expects whole points, e.g. 80u64)
-      const pointsU64 = `${Math.round(points)}u64`;
+      // 4. Inputs signed by the issuer (points are whole points, e.g. 80u64)
+      const inputs = claimVerificationInputs(formattedCommitment, attestation);
 
       console.log('[ClaimPoints] Claiming points:', {
         provider,
         platformId,
         commitment: formattedCommitment.substring(0, 20) + '...',
-        points: pointsU64
+        points: attestation.points,
+        expiresAt: attestation.expiresAt
       });
 
       // 5. Create transaction
@@ -216,7 +230,7 @@ export const useClaimPoints = () => {
         WalletAdapterNetwork.TestnetBeta, // Use TestnetBeta to match wallet network
         PROGRAM_ID,
         'claim_verification',
-        [`${platformId}u8`, commitment, pointsU64],
+        inputs,
         50_000, // fee
         false // private fee
       );
@@ -224,12 +238,14 @@ export const useClaimPoints = () => {
       // 6. Request transaction from wallet (with retry like usePassport / tipzo)
       console.log('[ClaimPoints] Requesting transaction...');
       console.log(`[ClaimPoints] Program: ${PROGRAM_ID}, Function: claim_verification`);
-      console.log(`[ClaimPoints] Inputs: [${platformId}u8, ${commitment}, ${pointsU64}]`);
+      console.log(`[ClaimPoints] Inputs: [${inputs.slice(0, 4).join(', ')}, ${attestation.issuer}, <signature>]`);
       
       const txId = await requestTransactionWithRetry(adapter, transaction, { timeout: 60_000, maxRetries: 3 });
 
       console.log('[ClaimPoints] ✅ Transaction submitted:', txId);
       setLastClaimTxId(txId);
+      // Points are only credited if finalize accepts the attestation; see claimTransaction
+      track(txId, 'claim_verification');
 
       return {
         success: true,
@@ -248,7 +264,7 @@ export const useClaimPoints = () => {
     } finally {
       setClaiming(false);
     }
-  }, [publicKey, adapter, network, getPassportRecord]);
+  }, [publicKey, adapter, network, getPassportRecord, track]);
 
   /**
    * Check if user can claim points (has wallet and passport)
@@ -267,6 +283,7 @@ export const useClaimPoints = () => {
     canClaim,
     claiming,
     lastClaimTxId,
+    claimTransaction: getTransaction(lastClaimTxId),  // Tracked status of the last claim (lib/transactionTracker.ts)
     error,
     getPassportRecord
   };
@@ -0,0 +1,53 @@
+// ============================================================================
+// ZK PASSPORT - Identity Sync Hook
+// ============================================================================
+// Opt-in cross-device sync (lib/sync.ts) of the connected wallet's identity data.
+// ============================================================================
+
+import { useWallet } from "@demox-labs/aleo-wallet-adapter-react";
+import { useState, useEffect, useCallback } from "react";
+import { getSyncStatus, isSyncEnabled, setSyncEnabled, syncIdentity } from "../lib/sync";
+
+/**
+ * Hook to turn sync on or off and follow its status.
+ *
+ * @returns enabled flag, sync status and functions to toggle and sync now
+ */
+export const useIdentitySync = () => {
+    const { publicKey } = useWallet();
+    const [enabled, setEnabledState] = useState(() => !!publicKey && isSyncEnabled(publicKey));
+    const [status, setStatus] = useState(getSyncStatus);
+
+    useEffect(() => {
+        setEnabledState(!!publicKey && isSyncEnabled(publicKey));
+    }, [publicKey]);
+
+    useEffect(() => {
+        const update = () => setStatus(getSyncStatus());
+        window.addEventListener("identity-sync-status", update);
+        return () => window.removeEventListener("identity-sync-status", update);
+    }, []);
+
+    const setEnabled = useCallback(async (value: boolean) => {
+        if (!publicKey) {
+            return;
+        }
+
+        setEnabledState(value);
+        // Failures are reported through the sync status
+        await setSyncEnabled(publicKey, value).catch(() => undefined);
+    }, [publicKey]);
+
+    const syncNow = useCallback(async () => {
+        await syncIdentity().catch(() => undefined);
+    }, []);
+
+    return {
+        enabled,
+        setEnabled,
+        syncing: status.syncing,
+        lastSyncedAt: status.lastSyncedAt,
+        error: status.error,
+        syncNow,
+    };
+};
@@ -19,31 +19,18 @@
 // ============================================================================
 
 import { useWallet } from "@demox-labs/aleo-wallet-adapter-react";
-import { WalletAdapterNetwork, Transaction } from "@demox-labs/aleo-wallet-adapter-base";
+import { WalletAdapterNetwork } from "@demox-labs/aleo-wallet-adapter-base";
 import { useState, useCallback } from "react";
 import { PROGRAM_ID } from "../deployed_program";
-import { extractProofFromTransaction, extractProofFromExecution } from "../utils/proofExtractor";
-import { prepareStampsForProof, canMeetScoreRequirement } from "../utils/stampAggregation";
+import { requestPassportProof, PassportWalletAdapter } from "../sdk/passportClient";
+import { PassportProofRequest, PassportProofResponse } from "../types/proofRequest";
+import { loadIdentityData } from "../lib/commitments";
+import { getVaultAddress, getVaultItem } from "../lib/vault";
+import { transactionTracker } from "../lib/transactionTracker";
+import { SCORE_DECAY_ENABLED, getDecayedProofMinScore, getPlatformTimestamps } from "../lib/scoreDecay";
+import type { Stamp } from "../types";
 
-type WalletAdapterExtras = {
-    requestTransaction?: (tx: Transaction) => Promise<string>;
-    requestExecution?: (tx: Transaction) => Promise<{ proof: string; publicOutputs: any[] }>;
-    requestRecords?: (programId: string) => Promise<any[]>;
-};
-
-/**
- * Proof Request Schema
- * 
- * This is a contract between dApp and wallet, NOT an API call.
- * Wallet uses this to generate proof internally.
- */
-export interface PassportProofRequest {
-    program: "passportapp.aleo";
-    function: "prove_access";
-    appId: string;  // Unique app identifier (prevents cross-app linking)
-    minScore: number;  // Minimum score requirement
-    onChain?: boolean;  // If true, executes on-chain (uses nullifier). If false, generates proof only.
-}
+export type { PassportProofRequest };
 
 /**
  * Proof Response
@@ -52,15 +39,44 @@ export interface PassportProofRequest {
  * - proof: Zero-knowledge proof
  * - nullifier: Public nullifier (prevents replay)
  * - valid: Proof validity
+ * - appId / minScore: Public inputs the proof was generated for
  * - transactionId: If executed on-chain
  * 
  * PRIVACY: Does NOT contain any private data (passport, stamps, score)
  */
-export interface PassportProof {
-    proof: string;  // Zero-knowledge proof
-    nullifier: string;  // Public nullifier (prevents replay)
-    valid: boolean;  // Proof validity
-    transactionId?: string;  // If executed on-chain
+export type PassportProof = PassportProofResponse;
+
+/**
+ * Read a JSON value from localStorage (fallback if missing or invalid)
+ */
+function readStored<T>(key: string, fallback: T): T {
+    try {
+        const saved = localStorage.getItem(key);
+        return saved ? JSON.parse(saved) : fallback;
+    } catch {
+        return fallback;
+    }
+}
+
+/**
+ * min_score to prove in decay mode (lib/scoreDecay.ts)
+ * 
+ * Uses the stamps and verification times this browser knows for the wallet.
+ * The wallet still proves against its private passport record.
+ */
+function getProofMinScore(minScore: number, publicKey: string): number {
+    if (!SCORE_DECAY_ENABLED) {
+        return minScore;
+    }
+
+    const ownedIds = readStored<number[]>(`user_stamps_${publicKey}`, []);
+    const stamps = readStored<Stamp[]>("stamps", []).filter(stamp => ownedIds.includes(stamp.stamp_id));
+    const timestamps = getPlatformTimestamps(
+        loadIdentityData(),
+        getVaultAddress() === publicKey ? getVaultItem("verifications") : {}
+    );
+
+    return getDecayedProofMinScore(minScore, stamps, timestamps);
 }
 
 /**
@@ -72,7 +88,7 @@ export interface PassportProof {
  */
 export const usePassportProof = () => {
     const { publicKey, wallet } = useWallet();
-    const adapter = wallet?.adapter as unknown as WalletAdapterExtras | undefined;
+    const adapter = wallet?.adapter as unknown as PassportWalletAdapter | undefined;
     const network = WalletAdapterNetwork.TestnetBeta;
     
     const [generating, setGenerating] = useState(false);
@@ -82,13 +98,13 @@ export const usePassportProof = () => {
      * Generate a zero-knowledge proof for passport access.
      * 
      * PRIVACY FLOW:
-     * 1. Frontend sends proof request to wallet (appId, minScore)
+     * 1. Frontend sends proof request to wallet (appId, minScore, challenge)
      * 2. Wallet internally reads passport + stamp records (NOT exposed to frontend)
      * 3. Wallet internally executes prove_access with private records
      * 4. Wallet generates zero-knowledge proof
      * 5. Wallet returns ONLY public outputs (proof + nullifier)
      * 
-     * @param request - Proof request with app_id and min_score
+     * @param request - Proof request with app_id, min_score, optional platform predicates and verifier challenge
      * @param onChain - If true, executes on-chain (uses nullifier). If false, generates proof only.
      * @returns Proof with nullifier and validity (NO private data)
      */
@@ -107,100 +123,20 @@ export const usePassportProof = () => {
             // PRIVACY: We do NOT read records here
             // PRIVACY: Wallet will read records internally when executing prove_access
             // PRIVACY: Records never leave wallet - only proofs do
-            
-            // Note: In production, wallet handles stamp selection internally
-            // For now, we can check if user can meet requirement (optional optimization)
-            // This check happens locally - no data exposed
-            
-            // Convert appId to field format (public input)
-            // TODO: Use proper hash function for appId (currently simple encoding)
-            const appIdField = hashStringToField(request.appId);
-            const minScore = `${request.minScore}u64`;
-
-            // Create transaction request for prove_access
-            // PRIVACY: Private inputs (passport, stamps, secret) are provided by wallet
-            // PRIVACY: We only specify public inputs (app_id, min_score)
-            const transaction = Transaction.createTransaction(
-                publicKey,
-                network,
-                PROGRAM_ID,
-                "prove_access",
-                [
-                    // Private inputs are handled by wallet from records internally
-                    // Wallet will:
-                    // 1. Read passport record from wallet
-                    // 2. Read stamp records from wallet
-                    // 3. Generate secret if needed
-                    // 4. Execute prove_access with these private inputs
-                    //
-                    // Public inputs (what we provide):
-                    appIdField,  // app_id
-                    minScore,    // min_score
-                ],
-                50000,  // fee
-                false   // private execution (executes locally in wallet)
+            // Shared with the dApp SDK (sdk/passportClient.ts) so both produce identical proofs
+            return await requestPassportProof(
+                { adapter, publicKey },
+                {
+                    appId: request.appId,
+                    // Decay mode: raised so the proof holds for the decayed score
+                    minScore: getProofMinScore(request.minScore, publicKey),
+                    predicates: request.predicates,
+                    challenge: request.challenge,
+                    onChain,
+                },
+                // Shared tracker: the proof transaction shows up in useTransactionTracker and survives reloads
+                { programId: PROGRAM_ID, network, tracker: transactionTracker }
             );
-
-            if (onChain) {
-                // Execute on-chain - creates nullifier mapping
-                // PRIVACY: Transaction is executed, but private data stays in wallet
-                // PRIVACY: Only public outputs (nullifier, validity) are returned
-                const txId = await adapter.requestTransaction(transaction);
-                
-                if (txId) {
-                    // Extract proof and nullifier from transaction
-                    // Wait for transaction confirmation before extracting
-                    await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2s for confirmation
-                    
-                    const extracted = await extractProofFromTransaction(txId);
-                    
-                    if (extracted) {
-                        return {
-                            proof: extracted.proof,
-                            nullifier: extracted.nullifier,
-                            valid: true,
-                            transactionId: txId,
-                        };
-                    }
-                    
-                    // Fallback: Return transaction ID if extraction fails
-                    // TODO: In production, extraction MUST succeed
-                    console.warn("[PassportProof] Failed to extract proof from transaction, using txId as placeholder");
-                    return {
-                        proof: txId,  // Placeholder
-                        nullifier: "",  // TODO: Extract from transaction
-                        valid: true,
-                        transactionId: txId,
-                    };
-                }
-            } else {
-                // Generate proof only (off-chain)
-                // PRIVACY: Wallet executes prove_access locally
-                // PRIVACY: Generates proof without submitting to chain
-                // PRIVACY: Returns proof for off-chain verification
-                
-                if (adapter.requestExecution) {
-                    // If wallet supports local execution
-                    const result = await adapter.requestExecution(transaction);
-                    
-                    if (result?.proof && result?.publicOutputs) {
-                        const extracted = extractProofFromExecution(result);
-                        
-                        if (extracted) {
-                            return {
-                                proof: extracted.proof,
-                                nullifier: extracted.nullifier,
-                                valid: true,
-                            };
-                        }
-                    }
-                }
-                
-                // Fallback: If wallet doesn't support local execution
-                throw new Error("Off-chain proof generation requires wallet support. Use onChain=true for now.");
-            }
-
-            return null;
         } catch (err) {
             const errorMsg = err instanceof Error ? err.message : String(err);
             setError(errorMsg);
@@ -217,28 +153,3 @@ export const usePassportProof = () => {
         error,
     };
 };
-
-/**
- * Hash string to Aleo field format
- * 
- * SECURITY: Uses SHA-256 hash for appId encoding
- * PRIVACY: appId hash cannot be reversed to original string
- * TODO: In production, use Poseidon hash if available
- */
-function hashStringToField(str: string): string {
-    // For now, use simple encoding (in production, use proper hash)
-    // This is a placeholder - production should use cryptographic hash
-    
-    // Simple approach: Convert string to field via BigInt
-    // In production: Use proper hash function (Poseidon recommended)
-    const encoder = new TextEncoder();
-    const encoded = encoder.encode(str);
-    let val = BigInt(0);
-    for (let i = 0; i < Math.min(encoded.length, 31); i++) {
-        val = (val << BigInt(8)) | BigInt(encoded[i]);
-    }
-    
-    // TODO: In production, hash this value with Poseidon or similar
-    // For now, return as field format
-    return val.toString() + "field";
-}
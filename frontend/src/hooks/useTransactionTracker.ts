@@ -0,0 +1,71 @@
+/**
+ * Hook for following transactions of the connected wallet (lib/transactionTracker.ts)
+ *
+ * Resumes the wallet's unsettled transactions from a previous session and re-renders
+ * on every status change.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
+import { PROGRAM_ID } from '../deployed_program';
+import {
+  transactionTracker,
+  isTransactionSettled,
+  type TrackedTransaction,
+  type TransactionTracker,
+  type TransactionWalletAdapter,
+} from '../lib/transactionTracker';
+
+export const useTransactionTracker = (tracker: TransactionTracker = transactionTracker) => {
+  const { publicKey, wallet } = useWallet();
+  const adapter = wallet?.adapter as unknown as TransactionWalletAdapter | undefined;
+  const address = publicKey ?? undefined;
+
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(() => (address ? tracker.list(address) : []));
+
+  useEffect(() => {
+    if (!address) {
+      setTransactions([]);
+      return;
+    }
+    setTransactions(tracker.list(address));
+    const unsubscribe = tracker.subscribe(() => setTransactions(tracker.list(address)));
+    tracker.resume(adapter, address);
+    return unsubscribe;
+  }, [tracker, adapter, address]);
+
+  /**
+   * Track a transaction the wallet just accepted
+   * @param requestId - Return value of requestTransaction
+   * @param functionName - Transition of PROGRAM_ID
+   * @returns The settled transaction
+   */
+  const track = useCallback((requestId: string, functionName: string): Promise<TrackedTransaction> => {
+    return tracker.track(requestId, { programId: PROGRAM_ID, functionName, address }, adapter);
+  }, [tracker, adapter, address]);
+
+  /**
+   * Wait for a tracked transaction to settle
+   */
+  const waitForTransaction = useCallback((requestId: string): Promise<TrackedTransaction> => {
+    const settled = tracker.wait(requestId, adapter);
+    if (!settled) {
+      return Promise.reject(new Error(`Transaction ${requestId} is not tracked`));
+    }
+    return settled;
+  }, [tracker, adapter]);
+
+  const getTransaction = useCallback((requestId: string | null | undefined): TrackedTransaction | null => {
+    return requestId ? tracker.get(requestId) : null;
+  }, [tracker]);
+
+  return {
+    transactions,
+    pending: transactions.filter(transaction => !isTransactionSettled(transaction)),
+    track,
+    waitForTransaction,
+    getTransaction,
+  };
+};
+
+export default useTransactionTracker;
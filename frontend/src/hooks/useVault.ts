@@ -0,0 +1,61 @@
+// ============================================================================
+// ZK PASSPORT - Identity Vault Hook
+// ============================================================================
+// Unlocks the encrypted local vault (lib/vault.ts) with the wallet's passphrase and
+// signature, and locks it when the wallet disconnects.
+// ============================================================================
+
+import { useWallet } from "@demox-labs/aleo-wallet-adapter-react";
+import { useState, useEffect, useCallback } from "react";
+import { getVaultAddress, hasStoredVault, lockVault, unlockVault } from "../lib/vault";
+import "../lib/sync"; // Cross-device sync runs on vault events for wallets that turned it on
+
+/**
+ * Hook to unlock the identity vault of the connected wallet.
+ *
+ * @returns unlocked state, whether a vault exists (else unlock creates it), last error and unlock
+ */
+export const useVault = () => {
+    const { publicKey, signMessage } = useWallet();
+    const [unlocked, setUnlocked] = useState(() => !!publicKey && getVaultAddress() === publicKey);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const update = () => setUnlocked(!!publicKey && getVaultAddress() === publicKey);
+        update();
+        window.addEventListener("vault-unlocked", update);
+        window.addEventListener("vault-locked", update);
+        return () => {
+            window.removeEventListener("vault-unlocked", update);
+            window.removeEventListener("vault-locked", update);
+        };
+    }, [publicKey]);
+
+    const unlock = useCallback(async (passphrase: string) => {
+        if (!publicKey || !signMessage) {
+            return;
+        }
+
+        try {
+            setError(null);
+            await unlockVault(publicKey, signMessage, passphrase);
+        } catch (err) {
+            const errorMsg = err instanceof Error ? err.message : String(err);
+            setError(errorMsg);
+            console.error("[Vault] Unlock failed:", errorMsg);
+        }
+    }, [publicKey, signMessage]);
+
+    useEffect(() => {
+        if (!publicKey) {
+            lockVault();
+        }
+    }, [publicKey]);
+
+    return {
+        unlocked,
+        hasVault: !!publicKey && hasStoredVault(publicKey),
+        error,
+        unlock,
+    };
+};
@@ -6,14 +6,20 @@ import {
   VERIFICATION_CONFIGS
 } from '../services/verificationService';
 import { 
-  generateCommitment 
+  generateCommitment,
+  commitmentEquals
 } from '../lib/commitments';
 import { 
-  isExpired, 
+  PlatformStatus,
+  canRenewWithoutClaim,
   getPlatformStatus, 
   getDaysRemaining,
   formatExpiryDate 
 } from '../lib/expiration';
+import { getScoreWeight } from '../lib/scoreDecay';
+import { getVaultAddress, getVaultItem, setVaultItem } from '../lib/vault';
+import type { Attestation } from '../utils/backendAPI';
+import { useVault } from './useVault';
 
 export interface VerificationState {
   [providerId: string]: {
@@ -21,18 +27,96 @@ export interface VerificationState {
     score: number;
     criteria: Array<{ condition: string; points: number; description: string; achieved: boolean }>;
     verifiedAt?: number;
-    commitment?: string;
-    status?: 'connected' | 'disconnected' | 'expired';
+    commitment?: string;         // Pending claim (removed once claimed)
+    attestation?: Attestation;   // Issuer signature the contract requires to claim commitment
+    claimedCommitment?: string;  // Commitment claimed on-chain
+    claimedAt?: number;
+    claimTxId?: string;          // claim_verification transaction of claimedCommitment
+    status?: PlatformStatus;
     daysRemaining?: number;
     expiryDate?: string;
   };
 }
 
+type VerificationEntry = VerificationState[string];
+
+/**
+ * Recompute status, days remaining and expiry date from the provider's expiry policy
+ */
+const withExpiry = (providerId: string, entry: VerificationEntry): VerificationEntry => {
+  if (!entry.verifiedAt) return entry;
+  return {
+    ...entry,
+    status: getPlatformStatus(entry.verifiedAt, providerId),
+    daysRemaining: getDaysRemaining(entry.verifiedAt, providerId),
+    expiryDate: formatExpiryDate(entry.verifiedAt, providerId)
+  };
+};
+
+const applyExpiry = (state: VerificationState): VerificationState =>
+  Object.fromEntries(
+    Object.entries(state).map(([providerId, entry]) => [providerId, withExpiry(providerId, entry)])
+  );
+
+/**
+ * Build the stored entry for a new verification or a renewal
+ *
+ * A renewal keeps the on-chain claim (no second claim_social_stamp) when the
+ * provider check yields the claimed commitment again. A different commitment
+ * replaces the claim and has to be claimed; without a new commitment the claim
+ * is kept while the previous verification is within its grace period.
+ */
+const buildVerificationEntry = (
+  providerId: string,
+  previous: VerificationEntry | undefined,
+  result: { verified: boolean; score: number; criteria: Array<{ condition: string; points: number; description: string }>; attestation?: Attestation },
+  commitment: string,
+  timestamp: number
+): VerificationEntry => {
+  const claimed = previous?.claimedCommitment;
+  const keepClaim = !!claimed && (commitment
+    ? commitmentEquals(commitment, claimed)
+    : canRenewWithoutClaim(previous?.verifiedAt, providerId, timestamp));
+
+  return withExpiry(providerId, {
+    verified: result.verified,
+    score: result.score,
+    criteria: (result.criteria || []).map(c => ({
+      ...c,
+      achieved: true // All criteria in result are achieved
+    })),
+    verifiedAt: timestamp,
+    commitment: keepClaim ? undefined : commitment,
+    attestation: keepClaim ? undefined : result.attestation,
+    claimedCommitment: keepClaim ? claimed : undefined,
+    claimedAt: keepClaim ? previous?.claimedAt : undefined,
+    claimTxId: keepClaim ? previous?.claimTxId : undefined
+  });
+};
+
+/**
+ * Stored verifications of a wallet (empty until its vault is unlocked)
+ */
+const loadStoredVerifications = (walletAddress: string): VerificationState => {
+  if (getVaultAddress() !== walletAddress) return {};
+  return applyExpiry(getVaultItem('verifications') ?? {});
+};
+
+/**
+ * Persist verifications to the wallet's vault (lib/vault.ts) so status survives reload
+ */
+const storeVerifications = (walletAddress: string, updated: VerificationState) => {
+  const vaultAddress = getVaultAddress();
+  if (vaultAddress && vaultAddress !== walletAddress) return;
+  setVaultItem('verifications', updated);
+};
+
 export const useVerification = (walletAddress?: string) => {
   const [verifications, setVerifications] = useState<VerificationState>({});
   const [loading, setLoading] = useState(true);
+  const { unlocked } = useVault();
 
-  // Load verifications from localStorage (frontend-only, no persistent backend storage)
+  // Load verifications from the vault (frontend-only, no persistent backend storage)
   useEffect(() => {
     const loadVerifications = async () => {
       if (!walletAddress) {
@@ -44,20 +128,7 @@ export const useVerification = (walletAddress?: string) => {
 
       try {
         setLoading(true);
-
-        const storageKey = `verifications_${walletAddress}`;
-        const saved = localStorage.getItem(storageKey);
-
-        if (saved) {
-          try {
-            const parsed = JSON.parse(saved) as VerificationState;
-            setVerifications(parsed);
-          } catch {
-            setVerifications({});
-          }
-        } else {
-          setVerifications({});
-        }
+        setVerifications(loadStoredVerifications(walletAddress));
       } finally {
         setLoading(false);
       }
@@ -69,7 +140,7 @@ export const useVerification = (walletAddress?: string) => {
     }, 100);
 
     return () => clearTimeout(timeoutId);
-  }, [walletAddress]);
+  }, [walletAddress, unlocked]);
 
   // Function to manually refresh verifications (called after successful verification)
   const refreshVerifications = useCallback(async () => {
@@ -79,20 +150,7 @@ export const useVerification = (walletAddress?: string) => {
 
     try {
       setLoading(true);
-
-      const storageKey = `verifications_${walletAddress}`;
-      const saved = localStorage.getItem(storageKey);
-
-      if (saved) {
-        try {
-          const parsed = JSON.parse(saved) as VerificationState;
-          setVerifications(parsed);
-        } catch {
-          setVerifications({});
-        }
-      } else {
-        setVerifications({});
-      }
+      setVerifications(loadStoredVerifications(walletAddress));
     } finally {
       setLoading(false);
     }
@@ -107,9 +165,11 @@ export const useVerification = (walletAddress?: string) => {
     };
 
     window.addEventListener('verification-updated', handleVerificationUpdate);
+    window.addEventListener('vault-updated', handleVerificationUpdate);
     return () => {
       clearTimeout(t);
       window.removeEventListener('verification-updated', handleVerificationUpdate);
+      window.removeEventListener('vault-updated', handleVerificationUpdate);
     };
   }, [refreshVerifications]);
 
@@ -124,7 +184,7 @@ export const useVerification = (walletAddress?: string) => {
   // When backend returns commitment (Telegram, Solana, Discord callback), use it for claim_social_stamp
   const saveVerificationResult = useCallback((
     providerId: string,
-    result: { score: number; criteria: Array<{ condition: string; points: number; description: string }>; metadataHash?: string; commitment?: string }
+    result: { score: number; criteria: Array<{ condition: string; points: number; description: string }>; metadataHash?: string; commitment?: string; attestation?: Attestation }
   ) => {
     const timestamp = Date.now();
     const userId = result.metadataHash || result.commitment || `${providerId}_${timestamp}`;
@@ -134,38 +194,26 @@ export const useVerification = (walletAddress?: string) => {
 
     const updated = {
       ...verifications,
-      [providerId]: {
-        verified: true,
-        score: result.score,
-        criteria: (result.criteria || []).map(c => ({
-          ...c,
-          achieved: true
-        })),
-        verifiedAt: timestamp,
+      [providerId]: buildVerificationEntry(
+        providerId,
+        verifications[providerId],
+        { verified: true, score: result.score, criteria: result.criteria, attestation: result.attestation },
         commitment,
-        status: 'connected' as const,
-        daysRemaining: 90,
-        expiryDate: formatExpiryDate(timestamp)
-      }
+        timestamp
+      )
     };
 
     saveVerifications(updated);
 
-    // Persist to localStorage (per-wallet key) so status survives reload
     if (walletAddress) {
-      try {
-        const storageKey = `verifications_${walletAddress}`;
-        localStorage.setItem(storageKey, JSON.stringify(updated));
-      } catch {
-        // Ignore storage errors
-      }
+      storeVerifications(walletAddress, updated);
     }
     
     window.dispatchEvent(new Event('verification-updated'));
   }, [verifications, saveVerifications, walletAddress]);
 
   // Mark verification as claimed (remove commitment so claim button disappears)
-  const markAsClaimed = useCallback((providerId: string) => {
+  const markAsClaimed = useCallback((providerId: string, txId?: string) => {
     if (!verifications[providerId]) return;
 
     const updated = {
@@ -173,19 +221,17 @@ export const useVerification = (walletAddress?: string) => {
       [providerId]: {
         ...verifications[providerId],
         commitment: undefined, // Remove commitment to hide claim button
-        status: 'connected' as const
+        attestation: undefined,
+        claimedCommitment: verifications[providerId].commitment || verifications[providerId].claimedCommitment,
+        claimedAt: Date.now(),
+        claimTxId: txId
       }
     };
 
     saveVerifications(updated);
 
     if (walletAddress) {
-      try {
-        const storageKey = `verifications_${walletAddress}`;
-        localStorage.setItem(storageKey, JSON.stringify(updated));
-      } catch {
-        // Ignore storage errors
-      }
+      storeVerifications(walletAddress, updated);
     }
     
     window.dispatchEvent(new Event('verification-updated'));
@@ -232,31 +278,13 @@ export const useVerification = (walletAddress?: string) => {
       // Save verification result with commitment
       const updated = {
         ...verifications,
-        [providerId]: {
-          verified: result.verified,
-          score: result.score,
-          criteria: result.criteria.map(c => ({
-            ...c,
-            achieved: true // All criteria in result are achieved
-          })),
-          verifiedAt: timestamp,
-          commitment,
-          status: 'connected' as const,
-          daysRemaining: 90,
-          expiryDate: formatExpiryDate(timestamp)
-        }
+        [providerId]: buildVerificationEntry(providerId, verifications[providerId], result, commitment, timestamp)
       };
 
       saveVerifications(updated);
       
-      // Persist to localStorage
       if (walletAddress) {
-        try {
-          const storageKey = `verifications_${walletAddress}`;
-          localStorage.setItem(storageKey, JSON.stringify(updated));
-        } catch {
-          // Ignore storage errors
-        }
+        storeVerifications(walletAddress, updated);
       }
 
       return result;
@@ -268,7 +296,12 @@ export const useVerification = (walletAddress?: string) => {
   }, [verifications, saveVerifications]);
 
   const getTotalScore = useCallback(() => {
-    return Object.values(verifications).reduce((sum, v) => sum + (v.verified ? v.score : 0), 0);
+    // Expired verifications count 0; in decay mode older ones count less (lib/scoreDecay.ts)
+    const total = Object.entries(verifications).reduce(
+      (sum, [providerId, v]) => sum + (v.verified ? v.score * getScoreWeight(v.verifiedAt, providerId) : 0),
+      0
+    );
+    return Math.round(total * 100) / 100;
   }, [verifications]);
 
   const getVerification = useCallback((providerId: string) => {
@@ -280,22 +313,11 @@ export const useVerification = (walletAddress?: string) => {
       return;
     }
 
-    // Frontend-only: clear from state and localStorage, no backend DELETE
+    // Frontend-only: clear from state and vault, no backend DELETE
     const updated = { ...verifications };
     delete updated[providerId];
     setVerifications(updated);
-
-    const storageKey = `verifications_${walletAddress}`;
-    const saved = localStorage.getItem(storageKey);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        delete parsed[providerId];
-        localStorage.setItem(storageKey, JSON.stringify(parsed));
-      } catch {
-        // Ignore localStorage errors
-      }
-    }
+    storeVerifications(walletAddress, updated);
   }, [verifications, walletAddress]);
 
   return {
@@ -2,7 +2,7 @@
 import { useState, useCallback } from 'react';
 import { verifyEthereum } from '../services/verificationService';
 import { saveCommitment, generateCommitment, updateWalletAddress } from '../lib/commitments';
-import { getPlatformStatus, getDaysRemaining, formatExpiryDate } from '../lib/expiration';
+import { PlatformStatus, getPlatformStatus, getDaysRemaining, formatExpiryDate } from '../lib/expiration';
 
 export interface WalletAnalysisResult {
   verified: boolean;
@@ -11,7 +11,7 @@ export interface WalletAnalysisResult {
   transactionCount: number;
   walletAgeYears?: number;
   commitment?: string;
-  status: 'connected' | 'disconnected' | 'expired';
+  status: PlatformStatus;
   verifiedAt?: number;
   daysRemaining?: number;
   expiryDate?: string;
@@ -52,7 +52,7 @@ export const useWalletAnalysis = () => {
         }
       });
       
-      const status = getPlatformStatus(timestamp);
+      const status = getPlatformStatus(timestamp, 'ethereum');
       const analysisResult: WalletAnalysisResult = {
         verified: verificationResult.verified,
         score: verificationResult.score,
@@ -62,8 +62,8 @@ export const useWalletAnalysis = () => {
         commitment,
         status,
         verifiedAt: timestamp,
-        daysRemaining: getDaysRemaining(timestamp),
-        expiryDate: formatExpiryDate(timestamp)
+        daysRemaining: getDaysRemaining(timestamp, 'ethereum'),
+        expiryDate: formatExpiryDate(timestamp, 'ethereum')
       };
       
       setResult(analysisResult);
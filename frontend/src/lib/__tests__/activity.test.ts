@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  activityExplorerUrl,
+  filterActivity,
+  loadActivityCache,
+  mergeActivity,
+  refreshActivity,
+  toActivityItem,
+  trackedActivityItem,
+  type ActivityItem,
+} from '../activity';
+import { PROGRAM_ID } from '../../deployed_program';
+import type { TrackedTransaction } from '../transactionTracker';
+
+const ADDRESS = 'aleo1activity';
+const TX_ID = `at1${'q'.repeat(58)}`;
+
+// Explorer /address/{address}/transactions entry
+const explorerTx = (id: string, fn: string, timestamp: number, program: string = PROGRAM_ID) => ({
+  id,
+  timestamp,
+  status: 'accepted',
+  program,
+  function: fn,
+});
+
+const item = (txId: string, functionName: string, timestamp: number, status = 'accepted'): ActivityItem => ({
+  txId,
+  functionName,
+  program: PROGRAM_ID,
+  status,
+  timestamp,
+});
+
+describe('activity', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.stubGlobal('fetch', vi.fn());
+  });
+
+  it('should keep claims, aggregations and proofs of the passport program', () => {
+    const tx = { txId: TX_ID, timestamp: 1_700_000_000, type: 'execute', status: 'accepted', program: 'zkpersona_passport_v10.aleo', functionName: 'prove_access', fee: 51_000 };
+
+    expect(toActivityItem(tx)).toEqual({
+      txId: TX_ID,
+      functionName: 'prove_access',
+      program: 'zkpersona_passport_v10.aleo',
+      status: 'accepted',
+      timestamp: 1_700_000_000_000,
+      fee: 51_000,
+    });
+    expect(toActivityItem({ ...tx, functionName: 'create_stamp' })).toBeNull();
+    expect(toActivityItem({ ...tx, program: 'credits.aleo', functionName: 'transfer_public' })).toBeNull();
+  });
+
+  it('should show tracked transactions under their on-chain ID once known', () => {
+    const tracked: TrackedTransaction = {
+      requestId: 'request-1',
+      programId: PROGRAM_ID,
+      functionName: 'claim_verification',
+      status: 'submitted',
+      submittedAt: 5,
+      updatedAt: 5,
+    };
+
+    expect(trackedActivityItem(tracked)).toMatchObject({ txId: 'request-1', status: 'submitted', timestamp: 5 });
+    expect(trackedActivityItem({ ...tracked, transactionId: TX_ID, status: 'pending' })).toMatchObject({ txId: TX_ID });
+    expect(activityExplorerUrl(trackedActivityItem(tracked)!)).toBeNull();
+    expect(activityExplorerUrl(item(TX_ID, 'add_stamp', 1))).toContain(TX_ID);
+  });
+
+  it('should merge lists newest first, preferring the first source', () => {
+    const merged = mergeActivity(
+      [item('at1b', 'add_stamp', 2), item('at1a', 'claim_points', 1)],
+      [item('at1b', 'add_stamp', 2, 'pending'), item('at1c', 'prove_access', 3, 'pending')]
+    );
+
+    expect(merged.map(entry => [entry.txId, entry.status])).toEqual([
+      ['at1c', 'pending'],
+      ['at1b', 'accepted'],
+      ['at1a', 'accepted'],
+    ]);
+    expect(filterActivity(merged, 'add_stamp')).toHaveLength(1);
+    expect(filterActivity(merged, 'all')).toHaveLength(3);
+  });
+
+  it('should cache activity and keep it when the explorer is unreachable', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({
+      ok: true,
+      json: async () => [
+        explorerTx('at1a', 'claim_points', 1_700_000_000),
+        explorerTx('at1b', 'prove_access', 1_700_000_100),
+        explorerTx('at1c', 'transfer_public', 1_700_000_200, 'credits.aleo'),
+      ],
+    } as Response);
+
+    const online = await refreshActivity(ADDRESS);
+    expect(online.items.map(entry => entry.txId)).toEqual(['at1b', 'at1a']);
+
+    vi.mocked(fetch).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const offline = await refreshActivity(ADDRESS);
+
+    expect(offline).toEqual(online);
+    expect(loadActivityCache(ADDRESS)).toEqual(online);
+    expect(loadActivityCache('aleo1other')).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  attestationMismatch,
+  attestationPlaintext,
+  claimVerificationInputs,
+  verifyAttestation,
+} from '../attestation';
+import type { Attestation } from '../../utils/backendAPI';
+
+const COMMITMENT = '123456789field';
+
+describe('attestation', () => {
+  let attestation: Attestation;
+
+  // Signed like backend/src/utils/attestation.ts
+  beforeAll(async () => {
+    const sdk = await import('@provablehq/sdk');
+    const issuerKey = new sdk.PrivateKey();
+    const recipient = new sdk.PrivateKey().to_address().to_string();
+    const unsigned = {
+      platformId: 1,
+      points: 3,
+      expiresAt: 1_000_000,
+      recipient,
+      issuer: issuerKey.to_address().to_string(),
+      signature: '',
+    };
+    attestation = {
+      ...unsigned,
+      signature: issuerKey.signValue(attestationPlaintext(COMMITMENT, unsigned)).to_string(),
+    };
+  });
+
+  it('should verify the issuer signature over the Attestation struct', async () => {
+    expect(await verifyAttestation(COMMITMENT, attestation)).toBe(true);
+    expect(await verifyAttestation('123456789', attestation)).toBe(true);
+  });
+
+  it('should reject an attestation with changed members', async () => {
+    expect(await verifyAttestation('123456780field', attestation)).toBe(false);
+    expect(await verifyAttestation(COMMITMENT, { ...attestation, points: 80 })).toBe(false);
+    expect(await verifyAttestation(COMMITMENT, { ...attestation, expiresAt: 2_000_000 })).toBe(false);
+    expect(await verifyAttestation(COMMITMENT, { ...attestation, platformId: 2 })).toBe(false);
+    expect(await verifyAttestation(COMMITMENT, { ...attestation, signature: 'sign1invalid' })).toBe(false);
+  });
+
+  it('should build the claim_verification inputs in contract order', () => {
+    expect(claimVerificationInputs('123456789', attestation)).toEqual([
+      '1u8',
+      COMMITMENT,
+      '3u64',
+      '1000000u32',
+      attestation.issuer,
+      attestation.signature,
+    ]);
+  });
+
+  it('should explain attestations the contract would reject', () => {
+    expect(attestationMismatch(attestation, attestation.recipient, 1)).toBeNull();
+    expect(attestationMismatch(attestation, attestation.issuer, 1)).toMatch(/another wallet/);
+    expect(attestationMismatch(attestation, attestation.recipient, 2)).toMatch(/another platform/);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { createTestWallet } from '../../test/mocks/accounts';
+
+type BackupModule = typeof import('../backup');
+type VaultModule = typeof import('../vault');
+
+const PASSPHRASE = 'correct horse battery';
+
+const verification = (verifiedAt: number, claimTxId?: string) => ({
+  verified: true,
+  score: 20,
+  criteria: [],
+  verifiedAt,
+  claimedCommitment: '123field',
+  claimedAt: verifiedAt + 1,
+  claimTxId,
+});
+
+const commitment = (timestamp: number) => ({ commitment: '0xabc', score: 15, timestamp });
+
+describe('backup', () => {
+  let backup: BackupModule;
+  let vault: VaultModule;
+  let wallet: Awaited<ReturnType<typeof createTestWallet>>;
+  let otherWallet: Awaited<ReturnType<typeof createTestWallet>>;
+  let address: string;
+  let otherAddress: string;
+
+  beforeAll(async () => {
+    wallet = await createTestWallet();
+    otherWallet = await createTestWallet();
+    address = wallet.address;
+    otherAddress = otherWallet.address;
+  });
+
+  beforeEach(async () => {
+    localStorage.clear();
+    vi.resetModules();
+    vault = await import('../vault');
+    backup = await import('../backup');
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+  });
+
+  it('should export an encrypted, versioned backup', async () => {
+    vault.setVaultItem('verifications', { github: verification(1000, 'at1claim') });
+    const file = await backup.createIdentityBackup(address, 5000);
+
+    expect(file).toMatchObject({ format: backup.BACKUP_FORMAT, version: backup.BACKUP_VERSION, address: address, createdAt: 5000 });
+    expect(JSON.stringify(file)).not.toContain('at1claim');
+    expect(backup.parseIdentityBackup(JSON.stringify(file))).toEqual(file);
+  });
+
+  it('should restore commitments, scores and claim tx IDs into an empty vault', async () => {
+    vault.setVaultItem('identity', { platforms: { github: commitment(1000) }, walletAddress: address, totalScore: 15, lastUpdated: 1000 });
+    vault.setVaultItem('verifications', { github: verification(1000, 'at1claim') });
+    const file = await backup.createIdentityBackup(address);
+
+    vault.removeVaultItem('identity');
+    vault.removeVaultItem('verifications');
+    const summary = await backup.restoreIdentityBackup(file, address);
+
+    expect(summary).toEqual({ commitments: 1, verifications: 1 });
+    expect(vault.getVaultItem('identity')?.platforms.github?.score).toBe(15);
+    expect(vault.getVaultItem('identity')?.totalScore).toBe(15);
+    expect(vault.getVaultItem('verifications')?.github).toEqual(verification(1000, 'at1claim'));
+  });
+
+  it('should export and restore a backup larger than the argument limit', async () => {
+    // ~500 KB of verifications: more bytes than String.fromCharCode takes as arguments
+    const verifications = Object.fromEntries(
+      Array.from({ length: 2000 }, (_, i) => [`provider${i}`, verification(1000, `at1claim${'0'.repeat(200)}${i}`)])
+    );
+    vault.setVaultItem('verifications', verifications);
+    const file = await backup.createIdentityBackup(address);
+
+    vault.removeVaultItem('verifications');
+    const summary = await backup.restoreIdentityBackup(file, address);
+
+    expect(file.data.length).toBeGreaterThan(500_000);
+    expect(summary.verifications).toBe(2000);
+    expect(vault.getVaultItem('verifications')).toEqual(verifications);
+  });
+
+  it('should keep newer local data when restoring', async () => {
+    vault.setVaultItem('verifications', { github: verification(1000), discord: verification(1000) });
+    const file = await backup.createIdentityBackup(address);
+
+    vault.setVaultItem('verifications', { github: verification(2000) });
+    const summary = await backup.restoreIdentityBackup(file, address);
+
+    expect(summary.verifications).toBe(1);
+    expect(vault.getVaultItem('verifications')?.github?.verifiedAt).toBe(2000);
+    expect(vault.getVaultItem('verifications')?.discord?.verifiedAt).toBe(1000);
+  });
+
+  it('should reject a backup of another wallet', async () => {
+    const file = await backup.createIdentityBackup(address);
+    await vault.unlockVault(otherAddress, otherWallet.signMessage, PASSPHRASE);
+
+    await expect(backup.restoreIdentityBackup(file, otherAddress)).rejects.toThrow('belongs to wallet');
+  });
+
+  it('should reject a backup with an edited header', async () => {
+    const file = await backup.createIdentityBackup(address);
+
+    await expect(
+      backup.restoreIdentityBackup({ ...file, createdAt: file.createdAt + 1 }, address)
+    ).rejects.toThrow('cannot be decrypted');
+  });
+
+  it('should restore in a cleared browser unlocked with the same passphrase', async () => {
+    vault.setVaultItem('verifications', { github: verification(1000, 'at1claim') });
+    const file = await backup.createIdentityBackup(address);
+
+    localStorage.clear();
+    vi.resetModules();
+    vault = await import('../vault');
+    backup = await import('../backup');
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+    const summary = await backup.restoreIdentityBackup(file, address);
+
+    expect(summary.verifications).toBe(1);
+    expect(vault.getVaultItem('verifications')?.github?.claimTxId).toBe('at1claim');
+  });
+
+  it('should reject a backup made with another passphrase', async () => {
+    const file = await backup.createIdentityBackup(address);
+
+    localStorage.clear();
+    vi.resetModules();
+    vault = await import('../vault');
+    backup = await import('../backup');
+    await vault.unlockVault(address, wallet.signMessage, 'another passphrase');
+
+    await expect(backup.restoreIdentityBackup(file, address)).rejects.toThrow('cannot be decrypted');
+  });
+
+  it('should require the unlocked vault of the wallet', async () => {
+    vault.lockVault();
+    await expect(backup.createIdentityBackup(address)).rejects.toThrow('Unlock');
+  });
+
+  describe('parseIdentityBackup', () => {
+    it('should reject files that are not backups', () => {
+      expect(() => backup.parseIdentityBackup('not json')).toThrow('not valid JSON');
+      expect(() => backup.parseIdentityBackup('{"format":"other"}')).toThrow('Not a ZkPersona');
+    });
+
+    it('should reject newer versions and missing fields', () => {
+      const file = { format: backup.BACKUP_FORMAT, version: 1, address: address, createdAt: 1, salt: 's', iv: 'i', data: 'd' };
+      expect(() => backup.parseIdentityBackup(JSON.stringify({ ...file, version: backup.BACKUP_VERSION + 1 }))).toThrow('newer');
+      expect(() => backup.parseIdentityBackup(JSON.stringify({ ...file, iv: undefined }))).toThrow('"iv"');
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { createChallenge, getChallengeExpiry, isChallengeExpired } from '../challenge';
+import { deriveChallengeField } from '../commitments';
+
+describe('challenge', () => {
+  it('should embed expiry in the challenge', () => {
+    const before = Date.now();
+    const challenge = createChallenge(60);
+    const expiry = getChallengeExpiry(challenge)!;
+
+    expect(challenge).toMatch(/^\d+\.[0-9a-f]{32}$/);
+    expect(expiry).toBeGreaterThanOrEqual(Math.floor(before / 1000) * 1000 + 60_000);
+    expect(isChallengeExpired(challenge)).toBe(false);
+    expect(isChallengeExpired(challenge, expiry)).toBe(true);
+  });
+
+  it('should create unique challenges', () => {
+    expect(createChallenge()).not.toBe(createChallenge());
+  });
+
+  it('should not expire challenges without expiry prefix', () => {
+    expect(getChallengeExpiry('session-1')).toBeNull();
+    expect(isChallengeExpired('session-1')).toBe(false);
+  });
+
+  it('should derive 0field when there is no challenge', async () => {
+    expect(await deriveChallengeField()).toBe('0field');
+    expect(await deriveChallengeField('')).toBe('0field');
+  });
+
+  it('should derive distinct fields per challenge', async () => {
+    const a = await deriveChallengeField('session-1');
+    const b = await deriveChallengeField('session-2');
+
+    expect(a).toMatch(/^\d+field$/);
+    expect(a).not.toBe(b);
+    expect(await deriveChallengeField('session-1')).toBe(a);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { deriveAppId, validateCommitment } from '../commitments';
+import { stringToField } from '../../utils/aleo';
+
+const FIELD_MODULUS = BigInt('8444461749428370424248824938781546531375899335154063827935233455917409239041');
+
+// Legacy (key version 0) social commitment of backend/src/utils/aleoField.ts
+async function legacySocialCommitment(platformId: number, userId: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${platformId}:${userId}:${salt}`));
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return `${(BigInt(`0x${hex}`) % FIELD_MODULUS).toString()}field`;
+}
+
+describe('commitments', () => {
+  describe('deriveAppId', () => {
+    it('should return a valid field', async () => {
+      const appId = await deriveAppId('myapp.xyz/prod');
+      expect(appId).toMatch(/^\d+field$/);
+      expect(validateCommitment(appId)).toBe(true);
+    });
+
+    it('should be deterministic', async () => {
+      expect(await deriveAppId('myapp.xyz/prod')).toBe(await deriveAppId('myapp.xyz/prod'));
+    });
+
+    it('should not collide for names sharing a long prefix', async () => {
+      const prefix = 'a'.repeat(31);
+      expect(stringToField(`${prefix}/prod`)).toBe(stringToField(`${prefix}/production`));
+      expect(await deriveAppId(`${prefix}/prod`)).not.toBe(await deriveAppId(`${prefix}/production`));
+      expect(await deriveAppId('myapp.xyz/prod')).not.toBe(await deriveAppId('myapp.xyz/production'));
+    });
+
+    it('should be domain-separated from social commitments', async () => {
+      const appId = await deriveAppId('1:user:salt');
+      expect(appId).not.toBe(await legacySocialCommitment(1, 'user', 'salt'));
+    });
+
+    it('should reject empty app identifier', async () => {
+      await expect(deriveAppId('')).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EXPIRY_POLICY,
+  canRenewWithoutClaim,
+  getDaysRemaining,
+  getDecayFactor,
+  getExpiryPolicy,
+  getPlatformStatus,
+  isExpired,
+} from '../expiration';
+import { PLATFORM_LIST } from '../platforms';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.parse('2026-06-01T00:00:00Z');
+const daysAgo = (days: number) => now - days * DAY;
+
+describe('expiration', () => {
+  it('should use the policy declared in the registry', () => {
+    expect(getExpiryPolicy('ethereum').ttlDays).toBe(30);
+    expect(getExpiryPolicy('evm').ttlDays).toBe(30);
+    expect(getExpiryPolicy('github').ttlDays).toBe(365);
+    expect(getExpiryPolicy('discord')).toBe(DEFAULT_EXPIRY_POLICY);
+    expect(getExpiryPolicy('unknown')).toBe(DEFAULT_EXPIRY_POLICY);
+    expect(getExpiryPolicy()).toBe(DEFAULT_EXPIRY_POLICY);
+  });
+
+  it('should declare consistent policies', () => {
+    for (const platform of PLATFORM_LIST) {
+      const policy = getExpiryPolicy(platform.id);
+      expect(policy.ttlDays).toBeGreaterThan(0);
+      expect(policy.renewalWindowDays).toBeLessThan(policy.ttlDays);
+      expect(policy.gracePeriodDays).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it('should expire per provider', () => {
+    expect(isExpired(daysAgo(45), 'ethereum', now)).toBe(true);
+    expect(isExpired(daysAgo(45), 'github', now)).toBe(false);
+    expect(isExpired(daysAgo(45), undefined, now)).toBe(false);
+    expect(isExpired(0, 'github', now)).toBe(true);
+    expect(getDaysRemaining(daysAgo(20), 'ethereum', now)).toBe(10);
+  });
+
+  it('should report expiring_soon inside the renewal window', () => {
+    expect(getPlatformStatus(undefined, 'ethereum', now)).toBe('disconnected');
+    expect(getPlatformStatus(daysAgo(10), 'ethereum', now)).toBe('connected');
+    expect(getPlatformStatus(daysAgo(25), 'ethereum', now)).toBe('expiring_soon');
+    expect(getPlatformStatus(daysAgo(31), 'ethereum', now)).toBe('expired');
+    expect(getPlatformStatus(daysAgo(80), 'discord', now)).toBe('expiring_soon');
+  });
+
+  it('should keep the claim until the grace period ends', () => {
+    expect(canRenewWithoutClaim(daysAgo(25), 'ethereum', now)).toBe(true);
+    expect(canRenewWithoutClaim(daysAgo(36), 'ethereum', now)).toBe(true);
+    expect(canRenewWithoutClaim(daysAgo(38), 'ethereum', now)).toBe(false);
+    expect(canRenewWithoutClaim(undefined, 'ethereum', now)).toBe(false);
+  });
+
+  it('should apply the decay curve', () => {
+    expect(getDecayFactor(daysAgo(15), 'ethereum', now)).toBeCloseTo(0.5);
+    expect(getDecayFactor(daysAgo(15), 'github', now)).toBeCloseTo(Math.pow(0.5, 15 / 182.5));
+    expect(getDecayFactor(daysAgo(400), 'github', now)).toBe(0);
+  });
+});
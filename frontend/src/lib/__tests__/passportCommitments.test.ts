@@ -0,0 +1,173 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  EMPTY_STAMPS_COMMITMENT,
+  computeNullifier,
+  computeScoreCommitment,
+  computeStampsCommitment,
+  foldStampsCommitment,
+  hashUserPlatform,
+} from '../passportCommitments';
+
+const FIELD = /^\d+field$/;
+const ROOT = path.resolve(__dirname, '../../../..');
+const USER = 'aleo1rhgdu77hgyqd3xjj8ucu3jj9r2krwz6mnzyd80gncr5fxcwlh5rsvzp9px';
+
+// The hash helpers of src/main.leo as `leo build` compiles them: Poseidon2::hash_to_field
+// of a struct becomes `hash.psd2` over the cast struct. Run by snarkVM (Aleo SDK) below.
+const HASH_PROGRAM = `program zkpersona_hashes.aleo;
+
+struct NullifierPreimage:
+    passport_nonce as field;
+    app_id as field;
+
+struct StampsFoldPreimage:
+    commitment as field;
+    stamp_id as u32;
+
+struct ScorePreimage:
+    score as u64;
+    secret as field;
+
+struct UserPlatformPreimage:
+    user as address;
+    platform_id as u8;
+
+function generate_nullifier:
+    input r0 as field.public;
+    input r1 as field.public;
+    cast r0 r1 into r2 as NullifierPreimage;
+    hash.psd2 r2 into r3 as field;
+    output r3 as field.public;
+
+function fold_stamps_commitment:
+    input r0 as field.public;
+    input r1 as u32.public;
+    cast r0 r1 into r2 as StampsFoldPreimage;
+    hash.psd2 r2 into r3 as field;
+    output r3 as field.public;
+
+function compute_score_commitment:
+    input r0 as u64.public;
+    input r1 as field.public;
+    cast r0 r1 into r2 as ScorePreimage;
+    hash.psd2 r2 into r3 as field;
+    output r3 as field.public;
+
+function hash_user_platform:
+    input r0 as address.public;
+    input r1 as u8.public;
+    cast r0 r1 into r2 as UserPlatformPreimage;
+    hash.psd2 r2 into r3 as field;
+    output r3 as field.public;
+`;
+
+// Known answers: [helper in main.leo, inputs, output of HASH_PROGRAM, reference implementation]
+const KNOWN_ANSWERS: [string, string[], string, () => Promise<string>][] = [
+  [
+    'generate_nullifier', ['123field', '1field'],
+    '2417524790013848060726981090528122834795610100410067533450676695224029679731field',
+    () => computeNullifier('123field', '1field'),
+  ],
+  [
+    'fold_stamps_commitment', [EMPTY_STAMPS_COMMITMENT, '1u32'],
+    '1727764114402059183022973940805922265414752624675816531719885188194364405273field',
+    () => foldStampsCommitment(EMPTY_STAMPS_COMMITMENT, 1),
+  ],
+  [
+    'compute_score_commitment', ['50u64', '987654321field'],
+    '7193765885470223513530977911340769289424036167222161153085768370037379573883field',
+    () => computeScoreCommitment(50, '987654321field'),
+  ],
+  [
+    'hash_user_platform', [USER, '3u8'],
+    '4954120501591362791450776333655719193989899260597775923383581232597319766578field',
+    () => hashUserPlatform(USER, 3),
+  ],
+];
+
+/**
+ * Members of each struct, "name: type" in order
+ */
+const leoStructs = (leo: string): Record<string, string[]> => Object.fromEntries(
+  [...leo.matchAll(/\bstruct\s+(\w+)\s*\{([^}]*)\}/g)].map(([, name, members]) => [
+    name,
+    members.split(',').map(member => member.replace(/\s+/g, ' ').trim()).filter(Boolean),
+  ])
+);
+
+const aleoStructs = (aleo: string): Record<string, string[]> => Object.fromEntries(
+  [...aleo.matchAll(/^struct (\w+):\n((?: {4}\w+ as \w+;\n)+)/gm)].map(([, name, members]) => [
+    name,
+    [...members.matchAll(/(\w+) as (\w+);/g)].map(([, member, type]) => `${member}: ${type}`),
+  ])
+);
+
+describe('passportCommitments', () => {
+  it('should derive different nullifiers per app and per passport', async () => {
+    const a = await computeNullifier('123field', '1field');
+    const b = await computeNullifier('123field', '2field');
+    const c = await computeNullifier('124field', '1field');
+
+    expect(a).toMatch(FIELD);
+    expect(new Set([a, b, c]).size).toBe(3);
+    expect(await computeNullifier('123field', '1field')).toBe(a);
+  });
+
+  it('should not be symmetric in its inputs', async () => {
+    expect(await computeNullifier('1field', '2field')).not.toBe(await computeNullifier('2field', '1field'));
+  });
+
+  it('should fold stamps in order', async () => {
+    const folded = await foldStampsCommitment(await foldStampsCommitment(EMPTY_STAMPS_COMMITMENT, 1), 2);
+
+    expect(await computeStampsCommitment([1, 2])).toBe(folded);
+    expect(await computeStampsCommitment([2, 1])).not.toBe(folded);
+    expect(await computeStampsCommitment([])).toBe(EMPTY_STAMPS_COMMITMENT);
+  });
+
+  it('should bind the score commitment to the secret', async () => {
+    const commitment = await computeScoreCommitment(50, '987654321field');
+
+    expect(commitment).toMatch(FIELD);
+    expect(await computeScoreCommitment(51, '987654321field')).not.toBe(commitment);
+    expect(await computeScoreCommitment(50, '987654322field')).not.toBe(commitment);
+  });
+
+  it('should hash user and platform', async () => {
+    expect(await hashUserPlatform(USER, 1)).not.toBe(await hashUserPlatform(USER, 2));
+  });
+
+  describe('known answers', () => {
+    it('should match the pinned outputs', async () => {
+      for (const [, , expected, reference] of KNOWN_ANSWERS) {
+        expect(await reference()).toBe(expected);
+      }
+    });
+
+    it('should hash the preimage structs of src/main.leo', () => {
+      const structs = leoStructs(readFileSync(path.join(ROOT, 'src/main.leo'), 'utf8'));
+      const hashed = aleoStructs(HASH_PROGRAM);
+
+      expect(Object.keys(hashed)).toHaveLength(KNOWN_ANSWERS.length);
+      for (const [name, members] of Object.entries(hashed)) {
+        expect(members, name).toEqual(structs[name]);
+      }
+    });
+
+    it('should match hash.psd2 executed by snarkVM', async () => {
+      // The SDK logs every step of the authorization
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const sdk = await import('@provablehq/sdk');
+      const privateKey = new sdk.PrivateKey();
+
+      for (const [helper, inputs, expected] of KNOWN_ANSWERS) {
+        const authorization = await sdk.ProgramManagerBase.authorize(privateKey, HASH_PROGRAM, helper, inputs);
+        const [output] = authorization.transitions()[0].outputs(true);
+        expect(output.value, helper).toBe(expected);
+      }
+      log.mockRestore();
+    }, 30_000);
+  });
+});
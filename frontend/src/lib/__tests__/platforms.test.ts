@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { PLATFORM_LIST, PLATFORM_REGISTRY, getPlatform, getPlatformById } from '../platforms';
+import { PLATFORMS } from '../commitments';
+import { PLATFORM_IDS, platformIdToProvider, providerToPlatformId } from '../../utils/platformMapping';
+import { VERIFICATION_PROVIDERS } from '../../utils/verificationProviders';
+import { VERIFICATION_CONFIGS } from '../../services/verificationService';
+
+const ROOT = path.resolve(__dirname, '../../../..');
+const onChain = PLATFORM_LIST.filter(platform => platform.platformId > 0);
+
+describe('platform registry', () => {
+  it('should key every entry by its id', () => {
+    for (const [key, platform] of Object.entries(PLATFORM_REGISTRY)) {
+      expect(platform.id).toBe(key);
+    }
+  });
+
+  it('should use unique u8 platform_ids that fit Passport.platform_counts', () => {
+    const ids = onChain.map(platform => platform.platformId);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const id of ids) {
+      expect(Number.isInteger(id)).toBe(true);
+      expect(id).toBeLessThan(16);
+    }
+  });
+
+  it('should not reuse provider names as aliases', () => {
+    const names = PLATFORM_LIST.flatMap(platform => [platform.id, ...(platform.aliases ?? [])]);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('should have well-formed scoring rules', () => {
+    for (const platform of PLATFORM_LIST) {
+      const { maxScore, rules } = platform.scoring;
+
+      expect(maxScore).toBeGreaterThan(0);
+      expect(rules.length).toBeGreaterThan(0);
+      expect(new Set(rules.map(rule => rule.id)).size).toBe(rules.length);
+      for (const rule of rules) {
+        expect(rule.points).toBeGreaterThan(0);
+        expect(rule.points).toBeLessThanOrEqual(maxScore);
+      }
+    }
+  });
+
+  it('should resolve providers and aliases', () => {
+    expect(getPlatform('ETH-Wallet')?.id).toBe('ethereum');
+    expect(providerToPlatformId('eth_wallet')).toBe(6);
+    expect(providerToPlatformId('tiktok')).toBe(0);
+    expect(getPlatformById(0)).toBeNull();
+  });
+
+  it('should derive every lookup table from the registry', () => {
+    for (const platform of PLATFORM_LIST) {
+      expect(VERIFICATION_PROVIDERS[platform.id].type).toBe(platform.authType);
+      expect(VERIFICATION_CONFIGS[platform.id].maxScore).toBe(platform.scoring.maxScore);
+    }
+    for (const platform of onChain) {
+      expect(PLATFORM_IDS[platform.id]).toBe(platform.platformId);
+      expect(platformIdToProvider(platform.platformId)).toBe(platform.id);
+      expect(PLATFORMS[platform.id.toUpperCase()].id).toBe(platform.platformId);
+    }
+    expect(Object.keys(PLATFORMS)).toHaveLength(onChain.length);
+  });
+
+  it('should match the stamps created in the contract', () => {
+    const leo = readFileSync(path.join(ROOT, 'src/main.leo'), 'utf8');
+    const contractIds = new Set([...leo.matchAll(/StampMetadata \{ stamp_id: \d+u32, platform_id: (\d+)u8/g)].map(m => Number(m[1])));
+
+    for (const platform of onChain) {
+      expect(contractIds.has(platform.platformId)).toBe(true);
+    }
+  });
+
+  it('should match the platform_id used by backend commitments', () => {
+    for (const platform of onChain) {
+      for (const name of [platform.id, ...(platform.aliases ?? [])]) {
+        const file = path.join(ROOT, 'backend/src/providers', `${name}.ts`);
+        if (!existsSync(file)) continue;
+
+        const ids = [...readFileSync(file, 'utf8').matchAll(/const platformId = (\d+);/g)].map(m => Number(m[1]));
+        expect(ids.length).toBeGreaterThan(0);
+        expect(new Set(ids)).toEqual(new Set([platform.platformId]));
+      }
+    }
+  });
+});
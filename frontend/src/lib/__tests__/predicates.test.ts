@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { encodePlatformPredicates, platformMask, platformPredicatesEqual } from '../predicates';
+
+describe('predicates', () => {
+  it('should set one bit per platform_id', () => {
+    expect(platformMask(['github'])).toBe(8n);                          // 1 << 3
+    expect(platformMask(['discord', 'telegram', 'solana'])).toBe(146n); // 2 + 16 + 128
+    expect(platformMask(['evm', 'ethereum'])).toBe(64n);                // aliases share platform_id 6
+  });
+
+  it('should throw for unknown platforms', () => {
+    expect(() => platformMask(['myspace'])).toThrow(/Unknown platform/);
+  });
+
+  it('should encode unused slots as always-satisfied inputs', () => {
+    expect(encodePlatformPredicates()).toEqual(['0u64', '0u32', '0u64', '0u32']);
+    expect(encodePlatformPredicates([{ platforms: ['github'], minStamps: 1 }])).toEqual(['8u64', '1u32', '0u64', '0u32']);
+  });
+
+  it('should reject invalid predicates', () => {
+    const predicate = { platforms: ['github'], minStamps: 1 };
+    expect(() => encodePlatformPredicates([predicate, predicate, predicate])).toThrow(/At most 2/);
+    expect(() => encodePlatformPredicates([{ platforms: [], minStamps: 1 }])).toThrow(/at least one platform/);
+    expect(() => encodePlatformPredicates([{ platforms: ['github'], minStamps: 0 }])).toThrow(/positive integer/);
+  });
+
+  it('should compare predicates by encoded inputs', () => {
+    expect(platformPredicatesEqual(
+      [{ platforms: ['discord', 'telegram'], minStamps: 2 }],
+      [{ platforms: ['telegram', 'discord'], minStamps: 2 }]
+    )).toBe(true);
+    expect(platformPredicatesEqual([{ platforms: ['github'], minStamps: 1 }], [])).toBe(false);
+    expect(platformPredicatesEqual(undefined, [])).toBe(true);
+  });
+});
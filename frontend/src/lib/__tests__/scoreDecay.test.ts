@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCommitmentScore,
+  getDecayedHumanityScore,
+  getDecayedProofMinScore,
+  getIdentityScore,
+  getPlatformTimestamps,
+  getScoreWeight,
+  getStampWeight,
+} from '../scoreDecay';
+import { StoredIdentityData } from '../commitments';
+import { canMeetScoreRequirement } from '../../utils/stampAggregation';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.parse('2026-06-01T00:00:00Z');
+const daysAgo = (days: number) => now - days * DAY;
+const on = { decay: true, now };
+const off = { decay: false, now };
+
+const identity: StoredIdentityData = {
+  platforms: {
+    github: { commitment: 'c1', score: 20, timestamp: daysAgo(10) },
+    wallet: { commitment: 'c2', score: 30, timestamp: daysAgo(15) },
+  },
+  walletAddress: 'aleo1owner',
+  totalScore: 50,
+  lastUpdated: now,
+};
+
+// github (platform_id 3) and ethereum (platform_id 6) stamps
+const stamps = [
+  { stamp_id: 1, platform_id: 3, points: 0 },
+  { stamp_id: 2, platform_id: 6, points: 1000 },
+];
+
+describe('scoreDecay', () => {
+  it('should count full score until expiry when decay is off', () => {
+    expect(getScoreWeight(daysAgo(29), 'ethereum', off)).toBe(1);
+    expect(getScoreWeight(daysAgo(31), 'ethereum', off)).toBe(0);
+    expect(getScoreWeight(undefined, 'ethereum', off)).toBe(0);
+    expect(getIdentityScore(identity, off)).toBe(50);
+  });
+
+  it('should shrink contributions with age when decay is on', () => {
+    expect(getScoreWeight(daysAgo(15), 'ethereum', on)).toBeCloseTo(0.5);
+    expect(getCommitmentScore(identity.platforms.wallet!, 'ethereum', on)).toBe(15);
+    expect(getIdentityScore(identity, on)).toBeLessThan(50);
+    expect(getIdentityScore(identity, on)).toBeGreaterThan(15 + 19);
+  });
+
+  it('should weigh stamps by the latest verification of their platform', () => {
+    const timestamps = getPlatformTimestamps(identity, { ethereum: { verifiedAt: daysAgo(3) } });
+
+    expect(timestamps).toEqual({ 3: daysAgo(10), 6: daysAgo(3) });
+    expect(getStampWeight(stamps[1], timestamps, on)).toBeCloseTo(0.9);
+    expect(getStampWeight(stamps[1], timestamps, off)).toBe(1);
+    expect(getStampWeight({ platform_id: 2 }, timestamps, on)).toBe(1);
+  });
+
+  it('should match canMeetScoreRequirement', () => {
+    const timestamps = getPlatformTimestamps(identity);
+    const decayed = getDecayedHumanityScore(stamps, timestamps, on);
+
+    // stored score: 2 stamps * 5 + 1000 / 100 = 20; ethereum stamp counts half
+    expect(getDecayedHumanityScore(stamps, timestamps, off)).toBe(20);
+    expect(decayed).toBe(12);
+    expect(canMeetScoreRequirement(stamps, decayed, stamp => getStampWeight(stamp, timestamps, on))).toBe(true);
+    expect(canMeetScoreRequirement(stamps, decayed + 1, stamp => getStampWeight(stamp, timestamps, on))).toBe(false);
+  });
+
+  it('should raise the proven min_score by the decay loss', () => {
+    const timestamps = getPlatformTimestamps(identity);
+
+    expect(getDecayedProofMinScore(10, stamps, timestamps, off)).toBe(10);
+    // loss 8 rounds up to 10, capped at the stored score
+    expect(getDecayedProofMinScore(5, stamps, timestamps, on)).toBe(15);
+    expect(getDecayedProofMinScore(12, stamps, timestamps, on)).toBe(20);
+    expect(() => getDecayedProofMinScore(13, stamps, timestamps, on)).toThrow(/below 13/);
+  });
+
+  it('should not prove the exact stored score', () => {
+    const timestamps = getPlatformTimestamps(identity);
+    // stored score 2 * 5 + 1300 / 100 = 23: 20 is proven, not 23
+    const unevenStamps = [stamps[0], { ...stamps[1], points: 1300 }];
+
+    expect(getDecayedProofMinScore(5, unevenStamps, timestamps, on)).toBe(15);
+    expect(getDecayedProofMinScore(12, unevenStamps, timestamps, on)).toBe(20);
+    expect(getDecayedProofMinScore(13, unevenStamps, timestamps, on)).toBe(20);
+  });
+});
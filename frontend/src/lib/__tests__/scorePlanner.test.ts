@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { getCurrentHumanityScore, planMinimumPath, rankCriterionGains, rankStampGains } from '../scorePlanner';
+import { MAX_STAMPS_PER_PLATFORM } from '../../utils/stampAggregation';
+import type { Stamp } from '../../types';
+
+const stamp = (stamp_id: number, platform_id: number, points: number, is_active = true): Stamp => ({
+  stamp_id,
+  platform_id,
+  name: `Stamp ${stamp_id}`,
+  description: '',
+  category: 'social',
+  points,
+  is_active,
+});
+
+const stamps = [stamp(1, 3, 100), stamp(2, 1, 500), stamp(3, 2, 0), stamp(4, 6, 300), stamp(5, 7, 900, false)];
+
+describe('scorePlanner', () => {
+  it('should compute the current humanity score from held stamps', () => {
+    expect(getCurrentHumanityScore(stamps, [1, 3])).toBe(11);
+    expect(getCurrentHumanityScore(stamps, [])).toBe(0);
+  });
+
+  it('should rank missing stamps by humanity score gain', () => {
+    const ranked = rankStampGains(stamps, [1]);
+
+    expect(ranked.map(entry => entry.stamp.stamp_id)).toEqual([2, 4, 3]);
+    expect(ranked[0]).toMatchObject({ provider: 'discord', gain: 10, score: 16 });
+  });
+
+  it('should find the fewest stamps to reach a target score', () => {
+    const plan = planMinimumPath(stamps, [], 18);
+
+    expect(plan.reachable).toBe(true);
+    expect(plan.steps.map(step => step.stamp.stamp_id)).toEqual([2, 4]);
+    expect(plan.finalScore).toBe(18);
+  });
+
+  it('should report targets out of reach and met targets', () => {
+    const unreachable = planMinimumPath(stamps, [], 60);
+    expect(unreachable.reachable).toBe(false);
+    expect(unreachable.steps).toHaveLength(4);
+    expect(unreachable.finalScore).toBe(29);
+
+    const met = planMinimumPath(stamps, [2], 10);
+    expect(met.reachable).toBe(true);
+    expect(met.steps).toHaveLength(0);
+  });
+
+  it('should respect the per-platform stamp limit', () => {
+    const many = Array.from({ length: MAX_STAMPS_PER_PLATFORM + 3 }, (_, i) => stamp(i + 1, 1, 0));
+
+    const plan = planMinimumPath(many, [], 100);
+
+    expect(plan.steps).toHaveLength(MAX_STAMPS_PER_PLATFORM);
+    expect(rankStampGains(many, plan.steps.map(step => step.stamp.stamp_id))).toHaveLength(0);
+  });
+
+  it('should rank missing criteria by verification score gain', () => {
+    const gains = rankCriterionGains({
+      github: {
+        verified: true,
+        score: 10,
+        criteria: [{ condition: 'Account exists' }, { condition: '≥ 5 public repositories' }],
+      },
+    });
+    const github = gains.filter(gain => gain.provider === 'github');
+
+    // repos_10 only adds the difference to repos_5 in the same tier
+    expect(github.find(gain => gain.ruleId === 'repos_10')?.gain).toBe(5);
+    expect(github.find(gain => gain.ruleId === 'repos_5')).toBeUndefined();
+    expect(github.find(gain => gain.ruleId === 'account_exists')).toBeUndefined();
+
+    // Unverified providers list every criterion; highest gain first
+    expect(gains[0]).toMatchObject({ provider: 'gemini', gain: 50 });
+    for (let i = 1; i < gains.length; i++) {
+      expect(gains[i - 1].gain).toBeGreaterThanOrEqual(gains[i].gain);
+    }
+  });
+
+  it('should weigh held stamps when given a weight', () => {
+    const halfOnDiscord = (s: Stamp) => (s.platform_id === 1 ? 0.5 : 1);
+
+    expect(getCurrentHumanityScore(stamps, [2], halfOnDiscord)).toBe(4);
+    expect(planMinimumPath(stamps, [2], 10, halfOnDiscord).steps.map(step => step.stamp.stamp_id)).toEqual([4]);
+  });
+});
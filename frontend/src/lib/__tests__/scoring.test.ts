@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  ScoringRuleSet,
+  applyScoringOverrides,
+  calculatePlatformScore,
+  evaluateRules,
+  parseScoringOverrides,
+  yearsSince,
+} from '../scoring';
+
+const ruleSet: ScoringRuleSet = {
+  maxScore: 20,
+  rules: [
+    { id: 'exists', condition: 'Account exists', description: 'Active account', field: 'id', comparator: 'exists', points: 5 },
+    { id: 'age_2y', condition: 'Age ≥ 2 years', description: 'Old account', field: 'age', comparator: 'gte', threshold: 2, points: 10, tier: 'age' },
+    { id: 'age_1y', condition: 'Age ≥ 1 year', description: 'Aged account', field: 'age', comparator: 'gte', threshold: 1, points: 5, tier: 'age' },
+    { id: 'followers', condition: '≥ 10 followers', description: 'Has followers', field: 'metrics.followers', comparator: 'gte', threshold: 10, points: 10 },
+  ],
+};
+
+describe('scoring', () => {
+  it('should count only the best rule of a tier', () => {
+    const result = evaluateRules(ruleSet, { id: 'u1', age: 3 });
+
+    expect(result.score).toBe(15);
+    expect(result.criteria.map(c => c.condition)).toEqual(['Account exists', 'Age ≥ 2 years']);
+
+    const age1y = result.explanations.find(e => e.id === 'age_1y')!;
+    expect(age1y.met).toBe(true);
+    expect(age1y.awarded).toBe(0);
+  });
+
+  it('should explain unmet rules with the actual value', () => {
+    const result = evaluateRules(ruleSet, { id: 'u1', age: 0.5, metrics: { followers: 3 } });
+
+    expect(result.score).toBe(5);
+    expect(result.explanations.find(e => e.id === 'followers')).toMatchObject({ met: false, awarded: 0, actual: 3 });
+  });
+
+  it('should cap the score at maxScore', () => {
+    expect(evaluateRules(ruleSet, { id: 'u1', age: 5, metrics: { followers: 100 } }).score).toBe(20);
+  });
+
+  it('should treat missing numeric facts as unmet', () => {
+    expect(evaluateRules(ruleSet, {}).score).toBe(0);
+  });
+
+  it('should apply overrides by rule id', () => {
+    const overrides = parseScoringOverrides('{"x":{"maxScore":30,"rules":{"followers":{"threshold":5,"points":15},"unknown":{"points":1}}}}');
+    const tuned = applyScoringOverrides(ruleSet, overrides.x);
+
+    expect(tuned.maxScore).toBe(30);
+    expect(evaluateRules(tuned, { id: 'u1', age: 5, metrics: { followers: 6 } }).score).toBe(30);
+    expect(applyScoringOverrides(ruleSet, undefined)).toBe(ruleSet);
+  });
+
+  it('should ignore invalid overrides JSON', () => {
+    expect(parseScoringOverrides('not json')).toEqual({});
+    expect(parseScoringOverrides('[]')).toEqual({});
+  });
+
+  it('should score provider facts with the registry rules', () => {
+    const result = calculatePlatformScore('github', { id: 1, publicRepos: 7, totalStars: 60, accountAgeYears: 3 });
+
+    expect(result.score).toBe(20);
+    expect(() => calculatePlatformScore('myspace', {})).toThrow(/myspace/);
+  });
+
+  describe('rules from the backend', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    // Fresh module instance: the backend client binds fetch when it is created
+    const loadScoring = async (fetchMock: typeof fetch) => {
+      vi.stubGlobal('fetch', fetchMock);
+      vi.resetModules();
+      return import('../scoring');
+    };
+
+    it('should score with the rules the backend serves', async () => {
+      const scoring = await loadScoring(vi.fn(async () => Response.json({
+        rules: { github: { maxScore: 50, rules: [{ ...ruleSet.rules[0], field: 'id', points: 50 }] } },
+        timestamp: '2026-01-01T00:00:00.000Z',
+      })) as typeof fetch);
+
+      expect(await scoring.loadScoringRules()).toBe(true);
+      expect(scoring.calculatePlatformScore('github', { id: 1 }).score).toBe(50);
+      expect(scoring.getPlatformMaxScores().github).toBe(50);
+      // Providers the backend does not list keep the registry rules
+      expect(scoring.getScoringRules('discord')!.maxScore).toBe(2.8);
+    });
+
+    it('should keep the registry rules when the backend is unreachable', async () => {
+      const scoring = await loadScoring(vi.fn(async () => {
+        throw new TypeError('Failed to fetch');
+      }) as typeof fetch);
+
+      expect(await scoring.loadScoringRules()).toBe(false);
+      expect(scoring.calculatePlatformScore('github', { id: 1, publicRepos: 7, totalStars: 60, accountAgeYears: 3 }).score).toBe(20);
+    });
+  });
+
+  it('should compute years since a date', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(yearsSince('2024-01-01T00:00:00Z', now)).toBeCloseTo(2, 1);
+    expect(yearsSince(undefined, now)).toBeUndefined();
+    expect(yearsSince('not a date', now)).toBeUndefined();
+  });
+});
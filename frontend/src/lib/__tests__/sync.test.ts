@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { createTestWallet } from '../../test/mocks/accounts';
+
+type SyncModule = typeof import('../sync');
+type VaultModule = typeof import('../vault');
+
+const PASSPHRASE = 'correct horse battery';
+
+const verification = (verifiedAt: number, score = 20) => ({ verified: true, score, criteria: [], verifiedAt });
+
+/**
+ * In-memory stand-in for PUT/GET /user/:id/verifications/sync
+ */
+const createServer = () => {
+  const states = new Map<string, { blob: unknown; updatedAt: number; writeToken: string }>();
+  const requests: Array<{ method: string; body?: any }> = [];
+  let beforePut: (() => void) | null = null;
+
+  const fetchMock = vi.fn(async (request: Request) => {
+    const syncId = new URL(request.url).pathname.split('/user/')[1].split('/')[0];
+    const method = request.method;
+    const body = method === 'PUT' ? await request.json() : undefined;
+    requests.push({ method, body });
+    const stored = states.get(syncId);
+
+    if (method === 'GET') {
+      return stored
+        ? new Response(JSON.stringify({ userId: syncId, blob: stored.blob, updatedAt: stored.updatedAt }))
+        : new Response(JSON.stringify({ error: 'Sync state not found' }), { status: 404 });
+    }
+
+    beforePut?.();
+    beforePut = null;
+    const current = states.get(syncId);
+    if (current && current.writeToken !== body.writeToken) {
+      return new Response('{}', { status: 403 });
+    }
+    if ((current?.updatedAt ?? null) !== body.previousUpdatedAt) {
+      return new Response('{}', { status: 409 });
+    }
+    states.set(syncId, { blob: body.blob, updatedAt: body.updatedAt, writeToken: body.writeToken });
+    return new Response(JSON.stringify({ userId: syncId, updatedAt: body.updatedAt }));
+  });
+
+  return {
+    states,
+    requests,
+    fetchMock,
+    onNextPut: (fn: () => void) => { beforePut = fn; },
+  };
+};
+
+describe('sync', () => {
+  let server: ReturnType<typeof createServer>;
+  let wallet: Awaited<ReturnType<typeof createTestWallet>>;
+  let address: string;
+
+  beforeAll(async () => {
+    wallet = await createTestWallet();
+    address = wallet.address;
+  });
+
+  // A fresh module instance per device; localStorage is cleared like a new browser
+  const openDevice = async (passphrase: string = PASSPHRASE): Promise<{ sync: SyncModule; vault: VaultModule }> => {
+    localStorage.clear();
+    vi.resetModules();
+    const vault = await import('../vault');
+    const sync = await import('../sync');
+    await vault.unlockVault(address, wallet.signMessage, passphrase);
+    return { sync, vault };
+  };
+
+  beforeEach(() => {
+    server = createServer();
+    vi.stubGlobal('fetch', server.fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should push encrypted state that another device pulls', async () => {
+    const desktop = await openDevice();
+    desktop.vault.setVaultItem('verifications', { github: verification(1000) });
+    await desktop.sync.syncIdentity();
+
+    const [stored] = server.states.values();
+    expect(JSON.stringify(stored.blob)).not.toContain('github');
+    expect(JSON.stringify(server.requests)).not.toContain(address);
+
+    const mobile = await openDevice();
+    expect(mobile.vault.getVaultItem('verifications')).toBeUndefined();
+    await mobile.sync.syncIdentity();
+
+    expect(mobile.vault.getVaultItem('verifications')?.github?.verifiedAt).toBe(1000);
+    expect(mobile.sync.getSyncStatus()).toMatchObject({ syncing: false, error: null });
+  });
+
+  it('should keep the state of another passphrase apart', async () => {
+    const desktop = await openDevice();
+    desktop.vault.setVaultItem('verifications', { github: verification(1000) });
+    await desktop.sync.syncIdentity();
+
+    const stranger = await openDevice('another passphrase');
+    await stranger.sync.syncIdentity();
+
+    expect(stranger.vault.getVaultItem('verifications')).toBeUndefined();
+    expect(server.requests.filter(request => request.method === 'PUT')).toHaveLength(1);
+  });
+
+  it('should resolve conflicts per platform by timestamp', async () => {
+    const desktop = await openDevice();
+    desktop.vault.setVaultItem('verifications', { github: verification(1000, 10), discord: verification(3000) });
+    await desktop.sync.syncIdentity();
+
+    const mobile = await openDevice();
+    mobile.vault.setVaultItem('verifications', { github: verification(2000, 25) });
+    await mobile.sync.syncIdentity();
+
+    const merged = mobile.vault.getVaultItem('verifications');
+    expect(merged?.github).toMatchObject({ verifiedAt: 2000, score: 25 });
+    expect(merged?.discord?.verifiedAt).toBe(3000);
+
+    // The merged state was pushed back for the next device
+    const laptop = await openDevice();
+    await laptop.sync.syncIdentity();
+    expect(laptop.vault.getVaultItem('verifications')?.github?.score).toBe(25);
+  });
+
+  it('should not push when the remote state is up to date', async () => {
+    const desktop = await openDevice();
+    desktop.vault.setVaultItem('verifications', { github: verification(1000) });
+    await desktop.sync.syncIdentity();
+    await desktop.sync.syncIdentity();
+
+    expect(server.requests.filter(request => request.method === 'PUT')).toHaveLength(1);
+  });
+
+  it('should pull and merge again when another device pushed in between', async () => {
+    const desktop = await openDevice();
+    desktop.vault.setVaultItem('verifications', { discord: verification(1000) });
+    await desktop.sync.syncIdentity();
+
+    const mobile = await openDevice();
+    mobile.vault.setVaultItem('verifications', { github: verification(2000) });
+    server.onNextPut(() => {
+      const [syncId, stored] = [...server.states.entries()][0];
+      server.states.set(syncId, { ...stored, updatedAt: stored.updatedAt + 1 });
+    });
+    await mobile.sync.syncIdentity();
+
+    const puts = server.requests.filter(request => request.method === 'PUT');
+    expect(puts).toHaveLength(3);
+    expect(mobile.vault.getVaultItem('verifications')?.discord?.verifiedAt).toBe(1000);
+  });
+
+  it('should report state it cannot decrypt', async () => {
+    const desktop = await openDevice();
+    desktop.vault.setVaultItem('verifications', { github: verification(1000) });
+    await desktop.sync.syncIdentity();
+
+    // Same sync ID, tampered ciphertext
+    const [syncId, stored] = [...server.states.entries()][0];
+    server.states.set(syncId, { ...stored, blob: { ...(stored.blob as object), iv: 'AAAAAAAAAAAAAAAA' } });
+
+    const mobile = await openDevice();
+    await expect(mobile.sync.syncIdentity()).rejects.toThrow('cannot be decrypted');
+    expect(mobile.sync.getSyncStatus().error).toContain('cannot be decrypted');
+  });
+
+  it('should require an unlocked vault', async () => {
+    const { sync, vault } = await openDevice();
+    vault.lockVault();
+    await expect(sync.syncIdentity()).rejects.toThrow('locked');
+  });
+
+  it('should remember the opt-in per wallet', async () => {
+    const { sync } = await openDevice();
+    expect(sync.isSyncEnabled(address)).toBe(false);
+
+    await sync.setSyncEnabled(address, true);
+    expect(sync.isSyncEnabled(address)).toBe(true);
+    expect(server.requests.length).toBeGreaterThan(0);
+
+    await sync.setSyncEnabled(address, false);
+    expect(sync.isSyncEnabled(address)).toBe(false);
+  });
+});
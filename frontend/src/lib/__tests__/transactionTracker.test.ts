@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { TransactionTracker, backoffDelay, type TransactionMetadata } from '../transactionTracker';
+import { PROGRAM_ID } from '../../deployed_program';
+import { ChainSimulator } from '../../test/mocks/chainSimulator';
+import { MockWalletAdapter } from '../../test/mocks/mockWallet';
+import { newAddress } from '../../test/mocks/accounts';
+
+const PROVE_ACCESS_INPUTS = ['0u64', '0field', '0u64', '0u32', '0u64', '0u32'];
+
+describe('transactionTracker', () => {
+  let userAddress: string;
+  let chain: ChainSimulator;
+  let wallet: MockWalletAdapter;
+
+  const metadata = (functionName: string): TransactionMetadata => ({ programId: PROGRAM_ID, functionName, address: userAddress });
+  const newTracker = (storage: Storage | null = null) =>
+    new TransactionTracker({ storage, initialDelayMs: 1, maxDelayMs: 4, maxAttempts: 20 });
+
+  beforeAll(async () => {
+    userAddress = await newAddress();
+  });
+
+  beforeEach(async () => {
+    chain = new ChainSimulator({ autoMine: false });
+    wallet = new MockWalletAdapter(chain, userAddress, { requestIds: true });
+    await wallet.execute('claim_points', ['42field']);
+    await chain.mine();
+    vi.stubGlobal('fetch', chain.fetch);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should back off exponentially up to the cap', () => {
+    expect([0, 1, 2, 3, 4, 5, 6].map(attempt => backoffDelay(attempt, 2000, 30_000)))
+      .toEqual([0, 2000, 4000, 8000, 16_000, 30_000, 30_000]);
+  });
+
+  it('should resolve the wallet request ID and settle once the block is mined', async () => {
+    const tracker = newTracker();
+    const updates: string[] = [];
+    tracker.subscribe(transaction => updates.push(transaction.status));
+
+    const requestId = await wallet.execute('prove_access', ['1field', ...PROVE_ACCESS_INPUTS]);
+    const settled = tracker.track(requestId, metadata('prove_access'), wallet);
+    await vi.waitFor(() => expect(tracker.get(requestId)?.status).toBe('pending'));
+    await chain.mine();
+
+    const transactionId = (await wallet.transactionStatus(requestId)).transactionId;
+    expect(transactionId).toMatch(/^at1/);
+    expect(await settled).toMatchObject({ requestId, transactionId, status: 'accepted' });
+    expect(updates).toEqual(['submitted', 'pending', 'accepted']);
+  });
+
+  it('should tell rejected from aborted transactions', async () => {
+    const tracker = newTracker();
+    await wallet.execute('prove_access', ['1field', ...PROVE_ACCESS_INPUTS]);
+    await chain.mine();
+
+    // Nullifier of app 1 already used: finalize fails
+    const reused = await wallet.execute('prove_access', ['1field', ...PROVE_ACCESS_INPUTS]);
+    await chain.mine();
+    // Both spend the same passport in one block: the second is aborted
+    const first = await wallet.execute('prove_access', ['2field', ...PROVE_ACCESS_INPUTS]);
+    const second = await wallet.execute('prove_access', ['3field', ...PROVE_ACCESS_INPUTS]);
+    await chain.mine();
+
+    expect(await tracker.track(reused, metadata('prove_access'), wallet)).toMatchObject({
+      status: 'rejected',
+      error: expect.stringMatching(/was rejected: prove_access did not finalize/),
+    });
+    expect(await tracker.track(first, metadata('prove_access'), wallet)).toMatchObject({ status: 'accepted' });
+    expect(await tracker.track(second, metadata('prove_access'), wallet)).toMatchObject({ status: 'aborted' });
+  });
+
+  it('should fail requests the wallet reports as failed and expire unconfirmed ones', async () => {
+    const tracker = newTracker();
+    const failing = { transactionStatus: async () => 'Failed' };
+    const unknown = { transactionStatus: async () => 'Pending' };
+
+    expect(await tracker.track('request-1', metadata('claim_verification'), failing)).toMatchObject({
+      status: 'failed',
+      error: expect.stringMatching(/Failed/),
+    });
+    expect(await tracker.track('request-2', metadata('claim_verification'), unknown)).toMatchObject({
+      status: 'expired',
+      transactionId: undefined,
+    });
+
+    const unmined = await wallet.execute('prove_access', ['1field', ...PROVE_ACCESS_INPUTS]);
+    expect(await tracker.track(unmined, metadata('prove_access'), wallet)).toMatchObject({
+      status: 'expired',
+      transactionId: expect.stringMatching(/^at1/),
+    });
+  });
+
+  it('should resume pending transactions after a reload', async () => {
+    const requestId = await wallet.execute('prove_access', ['1field', ...PROVE_ACCESS_INPUTS]);
+    const before = newTracker(localStorage);
+    before.track(requestId, metadata('prove_access'), wallet);
+    await vi.waitFor(() => expect(before.get(requestId)?.status).toBe('pending'));
+
+    const after = newTracker(localStorage);
+    after.resume(wallet, userAddress);
+    expect(after.list(userAddress)).toMatchObject([{ requestId, status: 'pending' }]);
+
+    await chain.mine();
+    expect(await after.wait(requestId)).toMatchObject({ status: 'accepted' });
+    expect(localStorage.getItem('zkpersona_pending_transactions')).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { createTestWallet } from '../../test/mocks/accounts';
+
+type VaultModule = typeof import('../vault');
+type TestWallet = Awaited<ReturnType<typeof createTestWallet>>;
+
+const PASSPHRASE = 'correct horse battery';
+
+describe('vault', () => {
+  let vault: VaultModule;
+  let wallet: TestWallet;
+  let other: TestWallet;
+  let address: string;
+
+  beforeAll(async () => {
+    wallet = await createTestWallet();
+    other = await createTestWallet();
+    address = wallet.address;
+  });
+
+  beforeEach(async () => {
+    localStorage.clear();
+    vi.resetModules();
+    vault = await import('../vault');
+  });
+
+  it('should store data encrypted and read it back after unlock', async () => {
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+    vault.setVaultItem('verifications', { github: { verified: true, score: 20, criteria: [], verifiedAt: 1 } });
+    await vault.flushVault();
+
+    const stored = localStorage.getItem(`zkpersona_vault_${address}`) ?? '';
+    expect(JSON.parse(stored).version).toBe(vault.VAULT_VERSION);
+    expect(stored).not.toContain('github');
+
+    vault.lockVault();
+    expect(vault.isVaultUnlocked()).toBe(false);
+    expect(vault.getVaultItem('verifications')).toBeUndefined();
+
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+    expect(vault.getVaultAddress()).toBe(address);
+    expect(vault.getVaultItem('verifications')?.github?.score).toBe(20);
+  });
+
+  it('should unlock after a reload although the wallet signs differently each time', async () => {
+    const message = new TextEncoder().encode(vault.getVaultMessage(address));
+    expect(await wallet.signMessage(message)).not.toEqual(await wallet.signMessage(message));
+
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+    vault.setVaultItem('authSession', { user: { id: 'user-1' } });
+    await vault.flushVault();
+
+    // New page load: fresh module state, same localStorage
+    vi.resetModules();
+    vault = await import('../vault');
+    expect(vault.hasStoredVault(address)).toBe(true);
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+
+    expect(vault.getVaultItem('authSession')?.user?.id).toBe('user-1');
+  });
+
+  it('should not unlock with another passphrase and keep the stored vault', async () => {
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+    vault.setVaultItem('authSession', { user: { id: 'user-1' } });
+    await vault.flushVault();
+    vault.lockVault();
+    const stored = localStorage.getItem(`zkpersona_vault_${address}`);
+
+    await expect(vault.unlockVault(address, wallet.signMessage, 'another passphrase')).rejects.toThrow('does not unlock');
+    expect(vault.isVaultUnlocked()).toBe(false);
+    expect(localStorage.getItem(`zkpersona_vault_${address}`)).toBe(stored);
+  });
+
+  it('should require a signature of the vault address', async () => {
+    await expect(vault.unlockVault(address, other.signMessage, PASSPHRASE)).rejects.toThrow('does not match this address');
+    expect(vault.isVaultUnlocked()).toBe(false);
+    expect(vault.hasStoredVault(address)).toBe(false);
+  });
+
+  it('should migrate plaintext data and remove the legacy keys', async () => {
+    localStorage.setItem('identity_portal_data', JSON.stringify({ walletAddress: address, platforms: {}, lastUpdated: 1 }));
+    localStorage.setItem(`verifications_${address}`, JSON.stringify({ discord: { verified: true, score: 10 } }));
+    localStorage.setItem('zkpersona-auth', JSON.stringify({ user: { id: 'user-1' } }));
+    localStorage.setItem('oauth_session_abc', JSON.stringify({ initiated: 'true' }));
+    localStorage.setItem('stamps', '[]');
+
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+
+    expect(vault.getVaultItem('identity')?.walletAddress).toBe(address);
+    expect(vault.getVaultItem('verifications')?.discord?.score).toBe(10);
+    expect(vault.getVaultItem('authSession')?.user?.id).toBe('user-1');
+    expect(vault.getVaultItem('oauthSessions')).toEqual({ abc: { initiated: 'true' } });
+
+    expect(localStorage.getItem('identity_portal_data')).toBeNull();
+    expect(localStorage.getItem(`verifications_${address}`)).toBeNull();
+    expect(localStorage.getItem('zkpersona-auth')).toBeNull();
+    expect(localStorage.getItem('oauth_session_abc')).toBeNull();
+    expect(localStorage.getItem('stamps')).toBe('[]');
+  });
+
+  it('should merge writes made while locked into the vault on unlock', async () => {
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+    vault.setVaultItem('authSession', { user: { id: 'user-1' } });
+    vault.setVaultItem('verifications', { github: { verified: true, score: 20, criteria: [] } });
+    await vault.flushVault();
+    vault.lockVault();
+
+    vault.setVaultItem('authSession', { user: { id: 'user-2' } });
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+
+    expect(vault.getVaultItem('authSession')?.user?.id).toBe('user-2');
+    expect(vault.getVaultItem('verifications')?.github?.score).toBe(20);
+  });
+
+  it('should keep vaults of different wallets apart', async () => {
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+    vault.setVaultItem('authSession', { user: { id: 'user-1' } });
+    await vault.flushVault();
+
+    await vault.unlockVault(other.address, other.signMessage, PASSPHRASE);
+    expect(vault.getVaultAddress()).toBe(other.address);
+    expect(vault.getVaultItem('authSession')).toBeUndefined();
+  });
+
+  it('should emit events on unlock, update and lock', async () => {
+    const events: string[] = [];
+    for (const name of ['vault-unlocked', 'vault-updated', 'vault-locked']) {
+      window.addEventListener(name, () => events.push(name));
+    }
+
+    await vault.unlockVault(address, wallet.signMessage, PASSPHRASE);
+    vault.setVaultItem('identity', undefined);
+    vault.lockVault();
+
+    expect(events).toEqual(['vault-unlocked', 'vault-updated', 'vault-locked']);
+  });
+
+  describe('migrateVaultData', () => {
+    it('should leave current data unchanged', () => {
+      const data = { authSession: { user: { id: 'user-1' } } };
+      expect(vault.migrateVaultData(data, vault.VAULT_VERSION, address)).toBe(data);
+    });
+
+    it('should reject vaults from a newer version', () => {
+      expect(() => vault.migrateVaultData({}, vault.VAULT_VERSION + 1, address)).toThrow('newer');
+    });
+  });
+});
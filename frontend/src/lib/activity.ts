@@ -0,0 +1,138 @@
+// Passport activity of a wallet (Activity tab)
+// Claims, stamp aggregations and proofs of the passport program: the explorer's address
+// history plus transactions this browser is still tracking (lib/transactionTracker.ts).
+// The merged list is cached in localStorage per wallet, so the tab renders offline.
+// Transaction IDs, functions and fees are public on-chain, so the cache is not encrypted.
+
+import { PROGRAM_ID } from '../deployed_program';
+import { fetchTransactionHistory, getTransactionUrl, type TransactionData } from '../utils/explorerAPI';
+import { isOnChainTransactionId, type TrackedTransaction } from './transactionTracker';
+
+/**
+ * Transitions shown as activity (claims, aggregation, proofs)
+ */
+export const ACTIVITY_FUNCTIONS = [
+  'claim_points',
+  'claim_verification',
+  'claim_social_stamp',
+  'claim_point',
+  'add_stamp',
+  'prove_access',
+];
+
+export interface ActivityItem {
+  txId: string;          // at1… ID, or the wallet request ID while unconfirmed
+  functionName: string;
+  program: string;
+  status: string;        // explorer status, or tracker status (lib/transactionTracker.ts)
+  timestamp: number;     // milliseconds
+  fee?: number;          // microcredits
+}
+
+export interface ActivityCache {
+  items: ActivityItem[];
+  fetchedAt: number;     // last successful explorer fetch
+}
+
+const STORAGE_PREFIX = 'zkpersona_activity_';
+// Earlier deployments (zkpersona_passport_v10.aleo, ...) are the same passport
+const PROGRAM_PREFIX = PROGRAM_ID.replace(/_v\d+\.aleo$/, '_v');
+
+const isPassportActivity = (program: string | undefined, functionName: string | undefined): boolean =>
+  !!program && program.startsWith(PROGRAM_PREFIX) && !!functionName && ACTIVITY_FUNCTIONS.includes(functionName);
+
+/**
+ * Explorer timestamps may be in seconds
+ */
+const toMilliseconds = (timestamp: number): number => (timestamp < 1e12 ? timestamp * 1000 : timestamp);
+
+export function toActivityItem(tx: TransactionData): ActivityItem | null {
+  const functionName = tx.functionName || tx.function || '';
+  if (!isPassportActivity(tx.program, functionName)) {
+    return null;
+  }
+  return {
+    txId: tx.txId,
+    functionName,
+    program: tx.program!,
+    status: tx.status,
+    timestamp: toMilliseconds(tx.timestamp),
+    fee: tx.fee,
+  };
+}
+
+export function trackedActivityItem(tx: TrackedTransaction): ActivityItem | null {
+  if (!isPassportActivity(tx.programId, tx.functionName)) {
+    return null;
+  }
+  return {
+    txId: tx.transactionId ?? tx.requestId,
+    functionName: tx.functionName,
+    program: tx.programId,
+    status: tx.status,
+    timestamp: tx.submittedAt,
+  };
+}
+
+/**
+ * Merge activity lists, newest first
+ * The first list with a transaction wins (pass the freshest source first).
+ */
+export function mergeActivity(...lists: ActivityItem[][]): ActivityItem[] {
+  const byId = new Map<string, ActivityItem>();
+  for (const item of lists.flat()) {
+    if (!byId.has(item.txId)) {
+      byId.set(item.txId, item);
+    }
+  }
+  return [...byId.values()].sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Items of one function ('all': every item)
+ */
+export function filterActivity(items: ActivityItem[], functionName: string): ActivityItem[] {
+  return functionName === 'all' ? items : items.filter(item => item.functionName === functionName);
+}
+
+/**
+ * Explorer link; null for wallet request IDs
+ */
+export const activityExplorerUrl = (item: ActivityItem): string | null =>
+  isOnChainTransactionId(item.txId) ? getTransactionUrl(item.txId) : null;
+
+export function loadActivityCache(address: string): ActivityCache | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_PREFIX + address);
+    const parsed = saved ? JSON.parse(saved) : null;
+    return parsed && Array.isArray(parsed.items) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveActivityCache(address: string, cache: ActivityCache): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + address, JSON.stringify(cache));
+  } catch (error) {
+    console.warn('[Activity] Failed to cache activity:', error);
+  }
+}
+
+/**
+ * Fetch the wallet's passport activity and merge it into the cache
+ * Explorer errors keep the cached items (fetchTransactionHistory returns [] then).
+ * @returns Updated cache
+ */
+export async function refreshActivity(address: string): Promise<ActivityCache> {
+  const history = await fetchTransactionHistory(address);
+  const fetched = history.map(toActivityItem).filter((item): item is ActivityItem => item !== null);
+  const cached = loadActivityCache(address);
+
+  const cache: ActivityCache = {
+    items: mergeActivity(fetched, cached?.items ?? []),
+    fetchedAt: history.length || !cached ? Date.now() : cached.fetchedAt,
+  };
+  saveActivityCache(address, cache);
+  return cache;
+}
@@ -0,0 +1,79 @@
+// Issuer attestations of claim_verification / claim_point / claim_social_stamp (src/main.leo, v13)
+// The backend signs the contract's Attestation struct for the wallet that verified
+// (backend/src/utils/attestation.ts); the contract checks the signature against
+// the caller and only credits points of registered issuers before expires_at.
+
+import type { Attestation } from '../utils/backendAPI';
+
+type AleoSDK = typeof import('@provablehq/sdk');
+
+let sdkPromise: Promise<AleoSDK> | null = null;
+
+/**
+ * Load the Aleo SDK (WASM) once
+ */
+function loadSdk(): Promise<AleoSDK> {
+  if (!sdkPromise) {
+    sdkPromise = import('@provablehq/sdk');
+  }
+  return sdkPromise;
+}
+
+/**
+ * Commitment as an Aleo field literal ("123field")
+ */
+export function toFieldLiteral(commitment: string): string {
+  return commitment.endsWith('field') ? commitment : `${commitment}field`;
+}
+
+/**
+ * The signed Attestation struct as Aleo plaintext (member order of main.leo)
+ */
+export function attestationPlaintext(commitment: string, attestation: Attestation): string {
+  return `{ commitment: ${toFieldLiteral(commitment)}, platform_id: ${attestation.platformId}u8, ` +
+    `points: ${attestation.points}u64, expires_at: ${attestation.expiresAt}u32, recipient: ${attestation.recipient} }`;
+}
+
+/**
+ * Inputs of claim_verification(platform_id, social_commitment, points, expires_at, issuer, attestation_sig)
+ */
+export function claimVerificationInputs(commitment: string, attestation: Attestation): string[] {
+  return [
+    `${attestation.platformId}u8`,
+    toFieldLiteral(commitment),
+    `${attestation.points}u64`,
+    `${attestation.expiresAt}u32`,
+    attestation.issuer,
+    attestation.signature,
+  ];
+}
+
+// Results of older backends, or of wallets the backend could not sign for
+export const MISSING_ATTESTATION = 'This verification has no issuer attestation. Verify again to claim points.';
+
+/**
+ * Why the contract would reject this attestation for `caller`, or null
+ * Checks what is known off-chain; issuer registration and expiry are checked on-chain.
+ */
+export function attestationMismatch(attestation: Attestation, caller: string, platformId: number): string | null {
+  if (attestation.recipient !== caller) {
+    return 'This verification was signed for another wallet. Verify again with the connected wallet.';
+  }
+  if (attestation.platformId !== platformId) {
+    return 'The attestation is for another platform.';
+  }
+  return null;
+}
+
+/**
+ * signature::verify(sig, issuer, Attestation { ... }) as checked by the contract
+ */
+export async function verifyAttestation(commitment: string, attestation: Attestation): Promise<boolean> {
+  const sdk = await loadSdk();
+  try {
+    const signature = sdk.Signature.from_string(attestation.signature);
+    return signature.verifyValue(sdk.Address.from_string(attestation.issuer), attestationPlaintext(commitment, attestation));
+  } catch {
+    return false;
+  }
+}
@@ -1,7 +1,10 @@
 // Auth client - Propel-like interface for Discord authentication
 // Works with our backend instead of Supabase
+// The session and Discord profile are kept in the wallet's encrypted vault (lib/vault.ts);
+// the backend keeps no profiles.
 
-const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+import { BACKEND_URL } from '../utils/backendClient';
+import { getVaultItem, removeVaultItem, setVaultItem } from './vault';
 
 export interface User {
   id: string;
@@ -25,20 +28,9 @@ type AuthStateChangeCallback = (event: string, session: Session | null) => void;
 
 let currentUser: User | null = null;
 let authStateChangeCallbacks: AuthStateChangeCallback[] = [];
-let storageKey = 'zkpersona-auth';
 
-// Initialize from localStorage
-if (typeof window !== 'undefined') {
-  try {
-    const stored = localStorage.getItem(storageKey);
-    if (stored) {
-      const session = JSON.parse(stored);
-      currentUser = session?.user || null;
-    }
-  } catch (e) {
-    console.error('Failed to load auth from storage:', e);
-  }
-}
+// Initialize from the vault (empty until the wallet unlocks it)
+currentUser = getVaultItem('authSession')?.user || null;
 
 /**
  * Get current user
@@ -50,31 +42,12 @@ export const getUser = async (): Promise<{ data: { user: User | null }, error: a
       return { data: { user: currentUser }, error: null };
     }
 
-    // Try to get user from backend using stored userId
+    // Vault unlocked since this module loaded
     if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem(storageKey);
-      if (stored) {
-        const session = JSON.parse(stored);
-        const userId = session?.user?.id;
-        if (userId) {
-          // Verify session with backend or get profile
-          const profileRes = await fetch(`${BACKEND_URL}/user/${userId}/profile`);
-          if (profileRes.ok) {
-            const { profile } = await profileRes.json();
-            if (profile) {
-              currentUser = {
-                id: profile.userId || userId,
-                user_metadata: {
-                  full_name: profile.discordNickname || profile.discordUsername,
-                  user_name: profile.discordUsername,
-                  avatar_url: profile.discordAvatarUrl,
-                  sub: profile.discordId
-                }
-              };
-              return { data: { user: currentUser }, error: null };
-            }
-          }
-        }
+      const session = getVaultItem('authSession');
+      if (session?.user?.id) {
+        currentUser = session.user;
+        return { data: { user: currentUser }, error: null };
       }
     }
 
@@ -109,7 +82,7 @@ export const signInWithOAuth = async (options: { provider: 'discord', options?:
 export const signOut = async (): Promise<void> => {
   currentUser = null;
   if (typeof window !== 'undefined') {
-    localStorage.removeItem(storageKey);
+    removeVaultItem('authSession');
   }
   
   // Notify all listeners
@@ -140,7 +113,7 @@ export const saveSession = (session: Session): void => {
   currentUser = session.user;
   
   if (typeof window !== 'undefined') {
-    localStorage.setItem(storageKey, JSON.stringify(session));
+    setVaultItem('authSession', session);
     
     // Notify all listeners
     authStateChangeCallbacks.forEach(cb => cb('SIGNED_IN', session));
@@ -148,70 +121,50 @@ export const saveSession = (session: Session): void => {
 };
 
 /**
- * Save profile to backend (Propel-like interface)
- * Called automatically after Discord auth (like in Propel navbar)
+ * Discord profile of the signed-in user (Propel-like interface)
  */
-export const saveProfile = async (profileData: {
-  id: string;
-  user_id: string;
-  discord_nickname?: string;
-  discord_avatar_url?: string;
-}): Promise<void> => {
-  try {
-    const response = await fetch(`${BACKEND_URL}/user/${profileData.user_id}/profile`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        discordNickname: profileData.discord_nickname,
-        discordAvatarUrl: profileData.discord_avatar_url
-      })
-    });
-
-    if (!response.ok) {
-      // Silently fail if profile save fails (Propel pattern)
-      console.warn('Failed to save profile:', response.status);
-    }
-  } catch (error) {
-    // Silently fail (Propel pattern - don't fail auth if profile save fails)
-    console.warn('Error saving profile:', error);
-  }
-};
+export interface Profile {
+  userId: string;
+  discordId?: string;
+  discordUsername?: string;
+  discordNickname?: string;
+  discordAvatarUrl?: string;
+}
 
 /**
- * Get profile from backend (Propel-like interface)
+ * Get the Discord profile of a user from the stored session (null unless signed in as userId)
  */
-export const getProfile = async (userId: string): Promise<any> => {
-  try {
-    const response = await fetch(`${BACKEND_URL}/user/${userId}/profile`);
-    if (!response.ok) {
-      return null;
-    }
-    const { profile } = await response.json();
-    return profile;
-  } catch (error) {
-    console.error('Error fetching profile:', error);
+export const getProfile = async (userId: string): Promise<Profile | null> => {
+  const user = currentUser ?? getVaultItem('authSession')?.user;
+  if (!user || user.id !== userId) {
     return null;
   }
+  return {
+    userId: user.id,
+    discordId: user.user_metadata?.sub,
+    discordUsername: user.user_metadata?.user_name,
+    discordNickname: user.user_metadata?.full_name,
+    discordAvatarUrl: user.user_metadata?.avatar_url
+  };
 };
 
-// Check for auth state changes from callback
+// Check for auth state changes from callback, vault unlock or another tab
 if (typeof window !== 'undefined') {
-  // Listen for verification completion
-  window.addEventListener('storage', () => {
-    const stored = localStorage.getItem(storageKey);
-    if (stored) {
-      try {
-        const session = JSON.parse(stored);
-        if (session?.user && session.user !== currentUser) {
-          currentUser = session.user;
-          authStateChangeCallbacks.forEach(cb => cb('SIGNED_IN', session));
-        }
-      } catch (e) {
-        // Ignore
-      }
+  const syncFromVault = () => {
+    const session = getVaultItem('authSession');
+    if (session?.user && session.user.id !== currentUser?.id) {
+      currentUser = session.user;
+      authStateChangeCallbacks.forEach(cb => cb('SIGNED_IN', session));
+    }
+  };
+  window.addEventListener('vault-unlocked', syncFromVault);
+  window.addEventListener('vault-updated', syncFromVault);
+
+  // Session belongs to the wallet whose vault was locked
+  window.addEventListener('vault-locked', () => {
+    if (currentUser) {
+      currentUser = null;
+      authStateChangeCallbacks.forEach(cb => cb('SIGNED_OUT', null));
     }
   });
 }
-
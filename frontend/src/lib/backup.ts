@@ -0,0 +1,199 @@
+// Identity backup export/import
+// A backup holds the wallet's vault data (commitments, scores, timestamps, claim tx IDs)
+// encrypted with a key derived from the vault's passphrase (lib/walletCrypto.ts), so it
+// restores into the wallet's vault on any device unlocked with the same passphrase. The
+// header (format, version, address) is authenticated: editing it makes decryption fail.
+//
+// Restoring merges the backup into the vault; per platform, the newer verification wins.
+
+import type { StoredIdentityData } from './commitments';
+import type { VerificationState } from '../hooks/useVerification';
+import { deriveVaultKey, getVaultAddress, getVaultItem, setVaultItem } from './vault';
+import { EncryptedPayload, decryptJson, encryptJson, fromBase64, generateSalt } from './walletCrypto';
+
+export const BACKUP_FORMAT = 'zkpersona-identity-backup';
+
+/**
+ * Current backup file version
+ */
+export const BACKUP_VERSION = 1;
+
+const HKDF_INFO = 'zkpersona:backup:v1';
+
+/**
+ * Backup file (JSON)
+ */
+export interface IdentityBackupFile extends EncryptedPayload {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  address: string;     // Wallet that exported the backup
+  createdAt: number;
+}
+
+/**
+ * Decrypted backup contents
+ */
+export interface IdentityBackupPayload {
+  address: string;
+  identity?: StoredIdentityData;
+  verifications?: VerificationState;
+}
+
+/**
+ * What a restore changed
+ */
+export interface RestoreSummary {
+  commitments: number;     // Platform commitments taken from the backup
+  verifications: number;   // Verification entries taken from the backup
+}
+
+const headerOf = (file: Pick<IdentityBackupFile, 'format' | 'version' | 'address' | 'createdAt'>): string =>
+  JSON.stringify([file.format, file.version, file.address, file.createdAt]);
+
+/**
+ * Require the unlocked vault of a wallet
+ */
+function requireVault(address: string): void {
+  if (getVaultAddress() !== address) {
+    throw new Error('Unlock your identity vault with this wallet first');
+  }
+}
+
+/**
+ * Encrypt the wallet's identity data into a backup file
+ *
+ * @throws Error if the wallet's vault is not unlocked
+ */
+export async function createIdentityBackup(address: string, now: number = Date.now()): Promise<IdentityBackupFile> {
+  requireVault(address);
+
+  const payload: IdentityBackupPayload = {
+    address,
+    identity: getVaultItem('identity'),
+    verifications: getVaultItem('verifications'),
+  };
+  const header = { format: BACKUP_FORMAT, version: BACKUP_VERSION, address, createdAt: now } as const;
+  const salt = generateSalt();
+  const key = await deriveVaultKey(salt, HKDF_INFO);
+
+  return { ...header, ...(await encryptJson(key, salt, payload, headerOf(header))) };
+}
+
+/**
+ * Parse and validate a backup file
+ *
+ * @throws Error if the text is not a supported backup file
+ */
+export function parseIdentityBackup(text: string): IdentityBackupFile {
+  let file: Partial<IdentityBackupFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (!file || file.format !== BACKUP_FORMAT) {
+    throw new Error('Not a ZkPersona identity backup');
+  }
+  if (typeof file.version !== 'number' || file.version < 1) {
+    throw new Error('Backup file has no valid version');
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${file.version} is newer than supported version ${BACKUP_VERSION}`);
+  }
+  for (const field of ['address', 'salt', 'iv', 'data'] as const) {
+    if (typeof file[field] !== 'string' || !file[field]) {
+      throw new Error(`Backup file is missing "${field}"`);
+    }
+  }
+  if (typeof file.createdAt !== 'number') {
+    throw new Error('Backup file is missing "createdAt"');
+  }
+  return file as IdentityBackupFile;
+}
+
+/**
+ * Merge platform commitments; per platform the newer commitment wins
+ *
+ * @returns merged data and the number of commitments taken from incoming
+ */
+export function mergeIdentityData(
+  current: StoredIdentityData | undefined,
+  incoming: StoredIdentityData | undefined,
+  walletAddress: string
+): { data: StoredIdentityData | undefined; taken: number } {
+  if (!incoming) return { data: current, taken: 0 };
+
+  const platforms: StoredIdentityData['platforms'] = { ...current?.platforms };
+  let taken = 0;
+  for (const [key, commitment] of Object.entries(incoming.platforms)) {
+    const platform = key as keyof StoredIdentityData['platforms'];
+    if (commitment && commitment.timestamp > (platforms[platform]?.timestamp ?? 0)) {
+      platforms[platform] = commitment;
+      taken++;
+    }
+  }
+
+  return {
+    data: {
+      platforms,
+      walletAddress,
+      totalScore: Object.values(platforms).reduce((sum, p) => sum + (p?.score || 0), 0),
+      lastUpdated: Math.max(current?.lastUpdated ?? 0, incoming.lastUpdated ?? 0),
+    },
+    taken,
+  };
+}
+
+/**
+ * Merge verifications; per provider the newer verification (verifiedAt) wins
+ *
+ * @returns merged state and the number of entries taken from incoming
+ */
+export function mergeVerifications(
+  current: VerificationState | undefined,
+  incoming: VerificationState | undefined
+): { data: VerificationState; taken: number } {
+  const merged: VerificationState = { ...current };
+  let taken = 0;
+  for (const [providerId, entry] of Object.entries(incoming ?? {})) {
+    if (entry && (entry.verifiedAt ?? 0) > (merged[providerId]?.verifiedAt ?? 0)) {
+      merged[providerId] = entry;
+      taken++;
+    }
+  }
+  return { data: merged, taken };
+}
+
+/**
+ * Decrypt a backup and merge it into the wallet's vault
+ *
+ * @throws Error if the backup belongs to another wallet, cannot be decrypted with the
+ *   vault's passphrase, or the wallet's vault is not unlocked
+ */
+export async function restoreIdentityBackup(file: IdentityBackupFile, address: string): Promise<RestoreSummary> {
+  if (file.address !== address) {
+    throw new Error(
+      `This backup belongs to wallet ${file.address.slice(0, 12)}... Connect that wallet to restore it.`
+    );
+  }
+  requireVault(address);
+
+  const key = await deriveVaultKey(fromBase64(file.salt), HKDF_INFO);
+  let payload: IdentityBackupPayload;
+  try {
+    payload = await decryptJson<IdentityBackupPayload>(key, file, headerOf(file));
+  } catch {
+    throw new Error('Backup cannot be decrypted with this vault passphrase (or the file was damaged or edited)');
+  }
+  if (payload.address !== address) {
+    throw new Error('Backup contents do not match the connected wallet');
+  }
+
+  const identity = mergeIdentityData(getVaultItem('identity'), payload.identity, address);
+  const verifications = mergeVerifications(getVaultItem('verifications'), payload.verifications);
+  if (identity.taken > 0) setVaultItem('identity', identity.data);
+  if (verifications.taken > 0) setVaultItem('verifications', verifications.data);
+
+  return { commitments: identity.taken, verifications: verifications.taken };
+}
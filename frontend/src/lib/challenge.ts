@@ -0,0 +1,39 @@
+// Verifier challenges for prove_access
+// A challenge is a public input of prove_access, so a proof only verifies
+// for the challenge it was generated with (prevents replay across sessions).
+// The prove_access input is derived with deriveChallengeField (lib/commitments.ts).
+
+export const DEFAULT_CHALLENGE_TTL_SECONDS = 5 * 60;
+
+/**
+ * Create a fresh challenge
+ * Format: "<expiresAt unix seconds>.<32 random hex chars>"
+ *
+ * The expiry is part of the challenge itself, so verifiers can reject stale
+ * proofs without storing issued challenges.
+ *
+ * @param ttlSeconds - Validity period (default: 5 minutes)
+ */
+export function createChallenge(ttlSeconds: number = DEFAULT_CHALLENGE_TTL_SECONDS): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const random = Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `${expiresAt}.${random}`;
+}
+
+/**
+ * Get challenge expiry in ms, or null if the challenge has no expiry prefix
+ */
+export function getChallengeExpiry(challenge: string): number | null {
+  const match = challenge.match(/^(\d+)\./);
+  return match ? parseInt(match[1], 10) * 1000 : null;
+}
+
+/**
+ * Check if a challenge has expired (challenges without expiry never expire here)
+ */
+export function isChallengeExpired(challenge: string, now: number = Date.now()): boolean {
+  const expiry = getChallengeExpiry(challenge);
+  return expiry !== null && expiry <= now;
+}
@@ -1,12 +1,14 @@
 // Commitment generation and storage for Identity Portal
 // Privacy-first: store only commitments, not raw user data
+// Social commitments are issued by the backend with its server-held key
+// (backend/src/utils/aleoField.ts); the frontend only derives app and challenge fields.
+
+import { PLATFORM_LIST } from './platforms';
+import { getVaultItem, removeVaultItem, setVaultItem } from './vault';
 
 // Aleo field modulus (p = 2^249 * (2^254 - 45560315531419706090280762371685220353) + 1)
 const FIELD_MODULUS = BigInt('8444461749428370424248824938781546531375899335154063827935233455917409239041');
 
-// Secret salt (should match backend or be from env)
-const SECRET_SALT = import.meta.env.VITE_SECRET_SALT || 'zkpersona-secret-salt-change-in-production';
-
 /**
  * Platform configuration
  */
@@ -16,14 +18,12 @@ export interface PlatformConfig {
   prefix: string;
 }
 
-export const PLATFORMS: Record<string, PlatformConfig> = {
-  DISCORD: { id: 1, name: 'Discord', prefix: 'discord' },
-  TWITTER: { id: 2, name: 'Twitter', prefix: 'twitter' },
-  GITHUB: { id: 3, name: 'GitHub', prefix: 'github' },
-  LINKEDIN: { id: 4, name: 'LinkedIn', prefix: 'linkedin' },
-  EMAIL: { id: 5, name: 'Email', prefix: 'email' },
-  PHONE: { id: 6, name: 'Phone', prefix: 'phone' },
-};
+// Platforms with an on-chain platform_id, keyed by upper-case provider name (lib/platforms.ts)
+export const PLATFORMS: Record<string, PlatformConfig> = Object.fromEntries(
+  PLATFORM_LIST
+    .filter(platform => platform.platformId > 0)
+    .map(platform => [platform.id.toUpperCase(), { id: platform.platformId, name: platform.name, prefix: platform.id }])
+);
 
 /**
  * SHA-256 hash using Web Crypto API (browser-compatible)
@@ -37,35 +37,59 @@ async function sha256(message: string): Promise<string> {
 }
 
 /**
- * Generate commitment for social network (per spec)
- * Format: SHA-256(platform_id + user_id + salt) mod FIELD_MODULUS
+ * Domain tag for app_id derivation (prevents collisions with social commitments)
+ */
+const APP_ID_DOMAIN = 'zkpersona:app_id:v1';
+
+/**
+ * Derive app_id field for prove_access from an app identifier
+ * Format: SHA-256(APP_ID_DOMAIN + ":" + appName) mod FIELD_MODULUS
  * 
- * IMPORTANT: This function must be identical on frontend and backend!
+ * IMPORTANT: Wallet (usePassportProof) and verifiers must use this same derivation,
+ * otherwise nullifiers will not match.
  * 
- * @param platformId - Platform ID (1=Discord, 2=Twitter...)
- * @param userId - User ID from platform (string)
- * @param salt - Secret key (optional, uses env)
- * @returns Commitment as Aleo field (string with "field" suffix)
+ * @param appName - App identifier chosen by the dApp (e.g. "myapp.xyz/prod")
+ * @returns app_id as Aleo field (string with "field" suffix)
  */
-export async function generateSocialCommitment(
-  platformId: number,
-  userId: string,
-  salt: string = SECRET_SALT
-): Promise<string> {
-  // 1. Create input string
-  const input = `${platformId}:${userId}:${salt}`;
-  
-  // 2. SHA-256 hash
-  const hash = await sha256(input);
-  
-  // 3. Convert to BigInt
-  const hashBigInt = BigInt(`0x${hash}`);
-  
-  // 4. Modulo for Aleo field
-  const commitment = hashBigInt % FIELD_MODULUS;
-  
-  // 5. Return as string with "field" suffix
-  return `${commitment.toString()}field`;
+export async function deriveAppId(appName: string): Promise<string> {
+  if (!appName) {
+    throw new Error('App identifier is required');
+  }
+
+  const hash = await sha256(`${APP_ID_DOMAIN}:${appName}`);
+  const appId = BigInt(`0x${hash}`) % FIELD_MODULUS;
+
+  return `${appId.toString()}field`;
+}
+
+/**
+ * Domain tag for challenge derivation (prevents collisions with app_id / commitments)
+ */
+const CHALLENGE_DOMAIN = 'zkpersona:challenge:v1';
+
+/**
+ * prove_access challenge input when the verifier did not supply a challenge
+ */
+export const NO_CHALLENGE_FIELD = '0field';
+
+/**
+ * Derive challenge field for prove_access from a verifier challenge (lib/challenge.ts)
+ * Format: SHA-256(CHALLENGE_DOMAIN + ":" + challenge) mod FIELD_MODULUS
+ * 
+ * IMPORTANT: Wallet and verifiers must use this same derivation.
+ * 
+ * @param challenge - Challenge string, or undefined for none
+ * @returns Challenge as Aleo field ("0field" if no challenge)
+ */
+export async function deriveChallengeField(challenge?: string): Promise<string> {
+  if (!challenge) {
+    return NO_CHALLENGE_FIELD;
+  }
+
+  const hash = await sha256(`${CHALLENGE_DOMAIN}:${challenge}`);
+  const field = BigInt(`0x${hash}`) % FIELD_MODULUS;
+
+  return `${field.toString()}field`;
 }
 
 /**
@@ -110,7 +134,7 @@ export function generateCommitment(
 }
 
 /**
- * Platform data stored in localStorage
+ * Platform data stored in the vault
  */
 export interface PlatformCommitment {
   commitment: string;
@@ -139,10 +163,8 @@ export interface StoredIdentityData {
   lastUpdated: number;
 }
 
-const STORAGE_KEY = 'identity_portal_data';
-
 /**
- * Save platform commitment to localStorage
+ * Save platform commitment to the vault (lib/vault.ts)
  */
 export function saveCommitment(
   platform: 'google' | 'twitter' | 'wallet' | 'github' | 'gemini',
@@ -168,20 +190,16 @@ export function saveCommitment(
   stored.lastUpdated = Date.now();
   stored.walletAddress = stored.walletAddress || ''; // Set in main component
   
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  setVaultItem('identity', stored);
 }
 
 /**
- * Load identity data from localStorage
+ * Load identity data from the vault (empty while the vault is locked)
  */
 export function loadIdentityData(): StoredIdentityData {
-  const stored = localStorage.getItem(STORAGE_KEY);
+  const stored = getVaultItem('identity');
   if (stored) {
-    try {
-      return JSON.parse(stored);
-    } catch {
-      // Invalid data, return default
-    }
+    return structuredClone(stored);
   }
   
   return {
@@ -218,14 +236,14 @@ export function removeCommitment(
   );
   stored.lastUpdated = Date.now();
   
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  setVaultItem('identity', stored);
 }
 
 /**
  * Clear all identity data
  */
 export function clearIdentityData(): void {
-  localStorage.removeItem(STORAGE_KEY);
+  removeVaultItem('identity');
 }
 
 /**
@@ -235,6 +253,6 @@ export function updateWalletAddress(walletAddress: string): void {
   const stored = loadIdentityData();
   stored.walletAddress = walletAddress;
   stored.lastUpdated = Date.now();
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  setVaultItem('identity', stored);
 }
 
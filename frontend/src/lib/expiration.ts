@@ -1,36 +1,76 @@
-// 90-day expiration logic for Identity Portal
+// Expiration logic for Identity Portal
+// Each platform declares an expiry policy in its registry entry (lib/platforms.ts):
+// wallet balances go stale much faster than a long-lived GitHub account.
 
-const NINETY_DAYS_MS = 90 * 24 * 60 * 60 * 1000;
+import { getPlatform } from './platforms';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How a verification loses value over its TTL in decay mode (getDecayFactor, lib/scoreDecay.ts)
+ * - none: full value until expiry
+ * - linear: from full value at verification down to 0 at expiry
+ * - exponential: halves every halfLifeDays, 0 after expiry
+ */
+export type ExpiryDecayCurve = 'none' | 'linear' | 'exponential';
+
+/**
+ * Expiry policy of a platform
+ */
+export interface ExpiryPolicy {
+  ttlDays: number;            // Verification is valid for this long
+  renewalWindowDays: number;  // Status is expiring_soon this long before expiry
+  gracePeriodDays: number;    // After expiry, renewal still keeps the on-chain claim
+  decay: ExpiryDecayCurve;
+  halfLifeDays?: number;      // exponential only (default: ttlDays / 2)
+}
+
+/**
+ * Policy of platforms that declare none
+ */
+export const DEFAULT_EXPIRY_POLICY: ExpiryPolicy = {
+  ttlDays: 90,
+  renewalWindowDays: 14,
+  gracePeriodDays: 14,
+  decay: 'exponential'
+};
+
+/**
+ * Expiry policy of a provider (DEFAULT_EXPIRY_POLICY if unknown or not declared)
+ */
+export function getExpiryPolicy(provider?: string): ExpiryPolicy {
+  return (provider && getPlatform(provider)?.expiry) || DEFAULT_EXPIRY_POLICY;
+}
 
 /**
- * Check if platform verification has expired (90 days)
+ * Check if platform verification has expired
  */
-export function isExpired(timestamp: number): boolean {
+export function isExpired(timestamp: number, provider?: string, now: number = Date.now()): boolean {
   if (!timestamp) return true;
-  return Date.now() - timestamp > NINETY_DAYS_MS;
+  return now - timestamp > getExpiryPolicy(provider).ttlDays * DAY_MS;
 }
 
 /**
  * Get expiry date from timestamp
  */
-export function getExpiryDate(timestamp: number): Date {
-  return new Date(timestamp + NINETY_DAYS_MS);
+export function getExpiryDate(timestamp: number, provider?: string): Date {
+  return new Date(timestamp + getExpiryPolicy(provider).ttlDays * DAY_MS);
 }
 
 /**
  * Get days remaining until expiry
  */
-export function getDaysRemaining(timestamp: number): number {
+export function getDaysRemaining(timestamp: number, provider?: string, now: number = Date.now()): number {
   if (!timestamp) return 0;
-  const remaining = NINETY_DAYS_MS - (Date.now() - timestamp);
-  return Math.max(0, Math.ceil(remaining / (24 * 60 * 60 * 1000)));
+  const remaining = getExpiryPolicy(provider).ttlDays * DAY_MS - (now - timestamp);
+  return Math.max(0, Math.ceil(remaining / DAY_MS));
 }
 
 /**
  * Format expiry date as string
  */
-export function formatExpiryDate(timestamp: number): string {
-  const expiryDate = getExpiryDate(timestamp);
+export function formatExpiryDate(timestamp: number, provider?: string): string {
+  const expiryDate = getExpiryDate(timestamp, provider);
   return expiryDate.toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'short',
@@ -41,14 +81,45 @@ export function formatExpiryDate(timestamp: number): string {
 /**
  * Platform status type
  */
-export type PlatformStatus = 'connected' | 'disconnected' | 'expired';
+export type PlatformStatus = 'connected' | 'expiring_soon' | 'disconnected' | 'expired';
 
 /**
  * Get platform status based on timestamp
  */
-export function getPlatformStatus(timestamp?: number): PlatformStatus {
+export function getPlatformStatus(timestamp?: number, provider?: string, now: number = Date.now()): PlatformStatus {
   if (!timestamp) return 'disconnected';
-  if (isExpired(timestamp)) return 'expired';
+  if (isExpired(timestamp, provider, now)) return 'expired';
+  if (getDaysRemaining(timestamp, provider, now) <= getExpiryPolicy(provider).renewalWindowDays) {
+    return 'expiring_soon';
+  }
   return 'connected';
 }
 
+/**
+ * Whether a renewal can keep the existing on-chain claim
+ * True until the grace period after expiry ends; later the user claims again.
+ */
+export function canRenewWithoutClaim(timestamp: number | undefined, provider?: string, now: number = Date.now()): boolean {
+  if (!timestamp) return false;
+  const policy = getExpiryPolicy(provider);
+  return now - timestamp <= (policy.ttlDays + policy.gracePeriodDays) * DAY_MS;
+}
+
+/**
+ * Share of the score a verification is still worth (0-1) under the provider's decay curve
+ */
+export function getDecayFactor(timestamp: number, provider?: string, now: number = Date.now()): number {
+  if (!timestamp || isExpired(timestamp, provider, now)) return 0;
+
+  const policy = getExpiryPolicy(provider);
+  const ageDays = Math.max(0, now - timestamp) / DAY_MS;
+
+  switch (policy.decay) {
+    case 'linear':
+      return Math.max(0, 1 - ageDays / policy.ttlDays);
+    case 'exponential':
+      return Math.pow(0.5, ageDays / (policy.halfLifeDays ?? policy.ttlDays / 2));
+    default:
+      return 1;
+  }
+}
@@ -0,0 +1,93 @@
+// Reference implementation of the hashes in src/main.leo (zkpersona_passport_v13.aleo, unchanged since v10)
+// Each hash is Poseidon2::hash_to_field over a struct preimage, i.e. Poseidon2
+// over the struct's field encoding (Plaintext.toFields in the Aleo SDK).
+// Member names and order must match the structs in main.leo.
+//
+// Used by tests and tools to recompute nullifiers and commitments off-chain.
+
+type AleoSDK = typeof import('@provablehq/sdk');
+
+let sdkPromise: Promise<AleoSDK> | null = null;
+
+/**
+ * Load the Aleo SDK (WASM) once
+ */
+function loadSdk(): Promise<AleoSDK> {
+  if (!sdkPromise) {
+    sdkPromise = import('@provablehq/sdk');
+  }
+  return sdkPromise;
+}
+
+/**
+ * Poseidon2::hash_to_field of a struct given as Aleo plaintext
+ */
+async function poseidon2Struct(members: [string, string][]): Promise<string> {
+  const sdk = await loadSdk();
+  const plaintext = sdk.Plaintext.fromString(
+    `{ ${members.map(([name, value]) => `${name}: ${value}`).join(', ')} }`
+  );
+  return new sdk.Poseidon2().hash(plaintext.toFields()).toString();
+}
+
+/**
+ * Stamps commitment of a passport without stamps
+ */
+export const EMPTY_STAMPS_COMMITMENT = '0field';
+
+/**
+ * generate_nullifier(passport_nonce, app_id)
+ *
+ * @param passportNonce - Passport nonce (e.g. "123field")
+ * @param appId - app_id field (lib/commitments.ts deriveAppId)
+ */
+export function computeNullifier(passportNonce: string, appId: string): Promise<string> {
+  return poseidon2Struct([
+    ['passport_nonce', passportNonce],
+    ['app_id', appId],
+  ]);
+}
+
+/**
+ * fold_stamps_commitment(commitment, stamp_id) - one add_stamp step
+ */
+export function foldStampsCommitment(commitment: string, stampId: number): Promise<string> {
+  return poseidon2Struct([
+    ['commitment', commitment],
+    ['stamp_id', `${stampId}u32`],
+  ]);
+}
+
+/**
+ * Stamps commitment after adding stamps in this order (utils/stampAggregation.ts)
+ */
+export async function computeStampsCommitment(stampIds: number[]): Promise<string> {
+  let commitment = EMPTY_STAMPS_COMMITMENT;
+  for (const stampId of stampIds) {
+    commitment = await foldStampsCommitment(commitment, stampId);
+  }
+  return commitment;
+}
+
+/**
+ * compute_score_commitment(score, secret)
+ *
+ * @param score - Humanity score (0-100)
+ * @param secret - Random field chosen by the wallet; without it the score cannot be recovered
+ */
+export function computeScoreCommitment(score: number, secret: string): Promise<string> {
+  return poseidon2Struct([
+    ['score', `${score}u64`],
+    ['secret', secret],
+  ]);
+}
+
+/**
+ * hash_user_platform(user, platform_id) - key of the user_platform_claims mapping
+ */
+export function hashUserPlatform(user: string, platformId: number): Promise<string> {
+  return poseidon2Struct([
+    ['user', user],
+    ['platform_id', `${platformId}u8`],
+  ]);
+}
@@ -0,0 +1,162 @@
+// Platform registry - single source of platform identity
+// Provider names, contract platform_id (u8) and default scoring rules come from the
+// registry shared with the backend (@zkpersona/api-contract); auth type, expiry policies
+// and icons are added here. PLATFORM_IDS (utils/platformMapping.ts), VERIFICATION_PROVIDERS
+// (utils/verificationProviders.ts), VERIFICATION_CONFIGS (services/verificationService.ts),
+// PLATFORMS (lib/commitments.ts) and Stamp.provider (types.ts) are derived from it.
+//
+// platform_id must match the backend commitments (backend/src/providers/*.js) and stay
+// below 16 (Passport.platform_counts in src/main.leo).
+// No React here (the dApp SDK uses this module): icons are lucide-react names,
+// rendered by components/PlatformIcon.tsx.
+
+import { PLATFORMS, normalizeProvider, type RegisteredPlatform } from '@zkpersona/api-contract';
+import type { ExpiryPolicy } from './expiration';
+
+/**
+ * How a platform is verified
+ */
+export type PlatformAuthType = 'oauth' | 'api' | 'blockchain' | 'ai';
+
+/**
+ * lucide-react icon of a platform (see components/PlatformIcon.tsx)
+ */
+export type PlatformIconName =
+  | 'BrainCircuit'
+  | 'Chrome'
+  | 'Gamepad2'
+  | 'Github'
+  | 'MessageCircle'
+  | 'MessageSquare'
+  | 'Twitter'
+  | 'Wallet';
+
+/**
+ * Registry entry: the shared entry (id, platformId, scoring, aliases) plus frontend fields
+ */
+export interface PlatformDefinition extends RegisteredPlatform {
+  name: string;            // Display name
+  authType: PlatformAuthType;
+  authUrl?: string;
+  scopes?: string[];
+  apiDocs?: string;
+  expiry?: ExpiryPolicy;    // Default: DEFAULT_EXPIRY_POLICY (lib/expiration.ts)
+  icon: PlatformIconName;
+}
+
+export const PLATFORM_REGISTRY = {
+  discord: {
+    ...PLATFORMS.discord,
+    name: 'Discord',
+    authType: 'oauth',
+    authUrl: 'https://discord.com/api/oauth2/authorize',
+    scopes: ['identify', 'email', 'guilds'],
+    apiDocs: 'https://discord.com/developers/docs/topics/oauth2',
+    icon: 'MessageSquare',
+  },
+  twitter: {
+    ...PLATFORMS.twitter,
+    name: 'X (Twitter)',
+    authType: 'oauth',
+    authUrl: 'https://twitter.com/i/oauth2/authorize',
+    scopes: ['tweet.read', 'users.read'],
+    apiDocs: 'https://developer.twitter.com/en/docs/twitter-api',
+    expiry: { ttlDays: 180, renewalWindowDays: 14, gracePeriodDays: 30, decay: 'exponential' },
+    icon: 'Twitter',
+  },
+  github: {
+    ...PLATFORMS.github,
+    name: 'GitHub',
+    authType: 'oauth',
+    authUrl: 'https://github.com/login/oauth/authorize',
+    scopes: ['read:user', 'user:email', 'public_repo'],
+    apiDocs: 'https://docs.github.com/en/rest',
+    expiry: { ttlDays: 365, renewalWindowDays: 30, gracePeriodDays: 30, decay: 'exponential' },
+    icon: 'Github',
+  },
+  telegram: {
+    ...PLATFORMS.telegram,
+    name: 'Telegram',
+    authType: 'oauth',
+    icon: 'MessageCircle',
+  },
+  // platform_id 5 was TikTok (removed)
+  ethereum: {
+    ...PLATFORMS.ethereum,
+    name: 'Ethereum',
+    authType: 'blockchain',
+    apiDocs: 'https://ethereum.org/en/developers/docs/',
+    expiry: { ttlDays: 30, renewalWindowDays: 7, gracePeriodDays: 7, decay: 'linear' },
+    icon: 'Wallet',
+  },
+  solana: {
+    ...PLATFORMS.solana,
+    name: 'Solana',
+    authType: 'blockchain',
+    expiry: { ttlDays: 30, renewalWindowDays: 7, gracePeriodDays: 7, decay: 'linear' },
+    icon: 'Wallet',
+  },
+  google: {
+    ...PLATFORMS.google,
+    name: 'Google',
+    authType: 'oauth',
+    authUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    scopes: ['openid', 'profile', 'email'],
+    apiDocs: 'https://developers.google.com/identity/protocols/oauth2',
+    expiry: { ttlDays: 180, renewalWindowDays: 14, gracePeriodDays: 30, decay: 'exponential' },
+    icon: 'Chrome',
+  },
+  steam: {
+    ...PLATFORMS.steam,
+    name: 'Steam',
+    authType: 'oauth',
+    authUrl: 'https://steamcommunity.com/openid/login',
+    scopes: [],
+    apiDocs: 'https://steamcommunity.com/dev',
+    expiry: { ttlDays: 180, renewalWindowDays: 14, gracePeriodDays: 30, decay: 'exponential' },
+    icon: 'Gamepad2',
+  },
+  gemini: {
+    ...PLATFORMS.gemini,
+    name: 'Gemini AI',
+    authType: 'ai',
+    apiDocs: 'https://ai.google.dev/docs',
+    icon: 'BrainCircuit',
+  },
+} satisfies Record<string, PlatformDefinition>;
+
+/**
+ * Provider name of a registered platform
+ */
+export type PlatformKey = keyof typeof PLATFORM_REGISTRY;
+
+/**
+ * All registered platforms, in registry order
+ */
+export const PLATFORM_LIST: PlatformDefinition[] = Object.values(PLATFORM_REGISTRY);
+
+/**
+ * Normalize a provider name for lookups ("ETH-Wallet" -> "ethwallet")
+ */
+export { normalizeProvider };
+
+/**
+ * Find a platform by provider name or alias
+ */
+export function getPlatform(provider: string): PlatformDefinition | null {
+  const normalized = normalizeProvider(provider);
+  return PLATFORM_LIST.find(platform =>
+    normalizeProvider(platform.id) === normalized ||
+    platform.aliases?.some(alias => normalizeProvider(alias) === normalized)
+  ) ?? null;
+}
+
+/**
+ * Find a platform by contract platform_id
+ */
+export function getPlatformById(platformId: number): PlatformDefinition | null {
+  if (!platformId) {
+    return null;
+  }
+  return PLATFORM_LIST.find(platform => platform.platformId === platformId) ?? null;
+}
@@ -0,0 +1,78 @@
+// Platform predicates for prove_access
+// "has a GitHub stamp" or "at least 2 stamps from {Discord, Telegram, Solana}".
+// Each predicate becomes (platform_mask: u64, min_platform_stamps: u32) public inputs;
+// the contract proves the count without revealing which stamps matched.
+
+import { providerToPlatformId } from '../utils/platformMapping';
+
+/**
+ * Platform predicate of a proof request
+ */
+export interface PlatformPredicate {
+  platforms: string[];   // Provider names (utils/platformMapping.ts), e.g. ["discord", "telegram"]
+  minStamps: number;     // At least this many stamps from these platforms
+}
+
+/**
+ * Predicate slots in prove_access (platform_mask_a/b, min_platform_stamps_a/b)
+ */
+export const MAX_PLATFORM_PREDICATES = 2;
+
+/**
+ * Build the platform mask for a set of providers (bit i = platform_id i)
+ *
+ * @throws Error if a provider is unknown
+ */
+export function platformMask(platforms: string[]): bigint {
+  return platforms.reduce((mask, platform) => {
+    const platformId = providerToPlatformId(platform);
+    if (!platformId) {
+      throw new Error(`Unknown platform in predicate: ${platform}`);
+    }
+    return mask | (1n << BigInt(platformId));
+  }, 0n);
+}
+
+/**
+ * Encode predicates as prove_access inputs
+ * Format: [platform_mask_a, min_platform_stamps_a, platform_mask_b, min_platform_stamps_b]
+ * Unused slots are "0u64", "0u32" (always satisfied).
+ *
+ * @throws Error if there are too many predicates or a predicate is invalid
+ */
+export function encodePlatformPredicates(predicates: PlatformPredicate[] = []): string[] {
+  if (predicates.length > MAX_PLATFORM_PREDICATES) {
+    throw new Error(`At most ${MAX_PLATFORM_PREDICATES} platform predicates are supported`);
+  }
+
+  const inputs: string[] = [];
+  for (let i = 0; i < MAX_PLATFORM_PREDICATES; i++) {
+    const predicate = predicates[i];
+    if (!predicate) {
+      inputs.push('0u64', '0u32');
+      continue;
+    }
+    if (!predicate.platforms?.length) {
+      throw new Error('Platform predicate needs at least one platform');
+    }
+    if (!Number.isInteger(predicate.minStamps) || predicate.minStamps < 1) {
+      throw new Error('Platform predicate minStamps must be a positive integer');
+    }
+    inputs.push(`${platformMask(predicate.platforms)}u64`, `${predicate.minStamps}u32`);
+  }
+  return inputs;
+}
+
+/**
+ * Check that two predicate lists encode to the same prove_access inputs
+ * (platform order inside a predicate does not matter)
+ */
+export function platformPredicatesEqual(a: PlatformPredicate[] = [], b: PlatformPredicate[] = []): boolean {
+  try {
+    const encodedA = encodePlatformPredicates(a);
+    const encodedB = encodePlatformPredicates(b);
+    return encodedA.every((input, i) => input === encodedB[i]);
+  } catch {
+    return false;
+  }
+}
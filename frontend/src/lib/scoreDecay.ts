@@ -0,0 +1,162 @@
+// Time-decaying score model (optional, VITE_SCORE_DECAY=true)
+// Off: a verification is worth its full score until it expires, then 0, and stamps
+// always count fully. On: every verification and stamp counts with the decay factor
+// of its provider (expiry policy in lib/platforms.ts), so recent evidence weighs more.
+// Used by the score display (useVerification), canMeetScoreRequirement callers,
+// the score planner and proof generation (usePassportProof).
+
+import { getDecayFactor, isExpired } from './expiration';
+import { getPlatform, getPlatformById } from './platforms';
+import type { PlatformCommitment, StoredIdentityData } from './commitments';
+import {
+  MAX_HUMANITY_SCORE,
+  calculateHumanityScore,
+  calculateWeightedHumanityScore,
+} from '../utils/stampAggregation';
+
+/**
+ * Decay mode switch (build-time)
+ */
+export const SCORE_DECAY_ENABLED = import.meta.env.VITE_SCORE_DECAY === 'true';
+
+export interface DecayOptions {
+  decay?: boolean;  // Default: SCORE_DECAY_ENABLED
+  now?: number;
+}
+
+/**
+ * StoredIdentityData keys that are not provider names
+ */
+const IDENTITY_KEY_PROVIDERS: Record<string, string> = {
+  wallet: 'ethereum',
+};
+
+/**
+ * Public min_score is raised in steps of this size (see getDecayedProofMinScore)
+ */
+const PROOF_SCORE_STEP = 5;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Share (0-1) of a verification's score that counts now
+ */
+export function getScoreWeight(
+  timestamp: number | undefined,
+  provider: string,
+  { decay = SCORE_DECAY_ENABLED, now = Date.now() }: DecayOptions = {}
+): number {
+  if (!timestamp) return 0;
+  if (decay) return getDecayFactor(timestamp, provider, now);
+  return isExpired(timestamp, provider, now) ? 0 : 1;
+}
+
+/**
+ * Score a platform commitment contributes now
+ */
+export function getCommitmentScore(
+  commitment: PlatformCommitment,
+  provider: string,
+  options?: DecayOptions
+): number {
+  return round(commitment.score * getScoreWeight(commitment.timestamp, provider, options));
+}
+
+/**
+ * Total score of the stored identity data (sum of getCommitmentScore)
+ */
+export function getIdentityScore(data: StoredIdentityData, options?: DecayOptions): number {
+  return round(
+    Object.entries(data.platforms).reduce((sum, [key, commitment]) => {
+      if (!commitment) return sum;
+      return sum + getCommitmentScore(commitment, IDENTITY_KEY_PROVIDERS[key] ?? key, options);
+    }, 0)
+  );
+}
+
+/**
+ * Latest verification time per contract platform_id, from stored commitments and verifications
+ */
+export function getPlatformTimestamps(
+  identity: StoredIdentityData,
+  verifications: Record<string, { verifiedAt?: number } | undefined> = {}
+): Record<number, number> {
+  const timestamps: Record<number, number> = {};
+  const add = (provider: string, timestamp?: number) => {
+    const platformId = getPlatform(provider)?.platformId;
+    if (!platformId || !timestamp) return;
+    timestamps[platformId] = Math.max(timestamps[platformId] ?? 0, timestamp);
+  };
+
+  for (const [key, commitment] of Object.entries(identity.platforms)) {
+    add(IDENTITY_KEY_PROVIDERS[key] ?? key, commitment?.timestamp);
+  }
+  for (const [provider, verification] of Object.entries(verifications)) {
+    add(provider, verification?.verifiedAt);
+  }
+  return timestamps;
+}
+
+/**
+ * Weight of a stamp: decay factor of its platform's latest verification
+ * 1 when decay is off or the verification time is unknown.
+ */
+export function getStampWeight(
+  stamp: { platform_id?: number },
+  timestamps: Record<number, number>,
+  { decay = SCORE_DECAY_ENABLED, now = Date.now() }: DecayOptions = {}
+): number {
+  if (!decay) return 1;
+  const platform = getPlatformById(stamp.platform_id ?? 0);
+  const timestamp = timestamps[stamp.platform_id ?? 0];
+  if (!platform || !timestamp) return 1;
+  return getDecayFactor(timestamp, platform.id, now);
+}
+
+/**
+ * Humanity score of the user's stamps with decay applied
+ */
+export function getDecayedHumanityScore(
+  stamps: Array<{ platform_id?: number; points: number }>,
+  timestamps: Record<number, number>,
+  options?: DecayOptions
+): number {
+  return calculateWeightedHumanityScore(stamps, stamp => getStampWeight(stamp, timestamps, options));
+}
+
+/**
+ * min_score to prove for a requested minScore
+ *
+ * prove_access checks the passport's stored humanity score (transitions have no
+ * clock). Proving stored >= minScore + loss, where loss = stored - decayed score,
+ * is the same as decayed >= minScore. Verifiers accept a min_score above the
+ * requested one. loss is rounded up to PROOF_SCORE_STEP so the public min_score
+ * reveals little about verification ages. When minScore + loss exceeds the stored
+ * score, the stored score rounded down to PROOF_SCORE_STEP is proven instead (never
+ * below minScore), so the public min_score does not reveal the exact stored score.
+ *
+ * Decay is enforced only here, on the client: the contract and verifiers check the
+ * stored score, so a modified client can prove minScore without decay.
+ *
+ * @throws Error if the decayed score is below minScore
+ */
+export function getDecayedProofMinScore(
+  minScore: number,
+  stamps: Array<{ platform_id?: number; points: number }>,
+  timestamps: Record<number, number>,
+  options: DecayOptions = {}
+): number {
+  if (!(options.decay ?? SCORE_DECAY_ENABLED)) {
+    return minScore;
+  }
+
+  const stored = calculateHumanityScore(stamps.length, stamps.reduce((sum, stamp) => sum + (stamp.points || 0), 0));
+  const decayed = getDecayedHumanityScore(stamps, timestamps, options);
+  if (decayed < minScore) {
+    throw new Error(`Humanity score after decay (${decayed}) is below ${minScore}. Renew your verifications.`);
+  }
+
+  const loss = Math.ceil((stored - decayed) / PROOF_SCORE_STEP) * PROOF_SCORE_STEP;
+  const ceiling = Math.floor(Math.min(stored, MAX_HUMANITY_SCORE) / PROOF_SCORE_STEP) * PROOF_SCORE_STEP;
+  return Math.max(minScore, Math.min(minScore + loss, ceiling));
+}
@@ -0,0 +1,230 @@
+// Score planner: which verification or stamp raises the user's score the most
+// Verification criteria are ranked by the rules in lib/scoring.ts, stamps by the
+// humanity score of the contract (calculateHumanityScore in utils/stampAggregation.ts).
+// Everything runs locally on data the user already has; nothing is sent anywhere.
+
+import { PLATFORM_LIST, getPlatformById } from './platforms';
+import { getScoringRules } from './scoring';
+import {
+  MAX_HUMANITY_SCORE,
+  MAX_STAMPS_PER_PLATFORM,
+  calculateHumanityScore,
+  calculateWeightedHumanityScore,
+} from '../utils/stampAggregation';
+import type { Stamp } from '../types';
+
+/**
+ * Stored verification of a provider (useVerification state)
+ */
+export interface PlannerVerification {
+  verified: boolean;
+  score: number;
+  criteria: Array<{ condition: string }>;
+}
+
+/**
+ * Missing criterion of a provider and the verification score it would add
+ */
+export interface CriterionGain {
+  provider: string;
+  ruleId: string;
+  condition: string;
+  description: string;
+  gain: number;
+}
+
+/**
+ * Stamp the user does not hold yet and the humanity score it would add
+ */
+export interface StampGain {
+  stamp: Stamp;
+  provider: string | null;  // Provider to verify for the stamp (null if not a platform stamp)
+  gain: number;
+  score: number;            // Humanity score after adding the stamp
+}
+
+/**
+ * Shortest list of stamps that reaches a target humanity score
+ */
+export interface ScorePlan {
+  currentScore: number;
+  targetScore: number;
+  reachable: boolean;
+  steps: StampGain[];      // In order; score is cumulative
+  finalScore: number;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Rank missing criteria of all providers by verification score gain
+ *
+ * A criterion of a tier only adds the difference to the best criterion already
+ * met in that tier, and no provider goes past its maxScore.
+ */
+export function rankCriterionGains(
+  verifications: Record<string, PlannerVerification | undefined>
+): CriterionGain[] {
+  const gains: CriterionGain[] = [];
+
+  for (const platform of PLATFORM_LIST) {
+    const ruleSet = getScoringRules(platform.id);
+    if (!ruleSet) continue;
+
+    const verification = verifications[platform.id];
+    const verified = verification?.verified ?? false;
+    const currentScore = verified ? verification!.score : 0;
+    const achieved = new Set(verified ? verification!.criteria.map(c => c.condition) : []);
+
+    const tierBest = new Map<string, number>();
+    for (const rule of ruleSet.rules) {
+      if (rule.tier && achieved.has(rule.condition)) {
+        tierBest.set(rule.tier, Math.max(tierBest.get(rule.tier) ?? 0, rule.points));
+      }
+    }
+
+    for (const rule of ruleSet.rules) {
+      if (achieved.has(rule.condition)) continue;
+
+      const base = rule.tier ? tierBest.get(rule.tier) ?? 0 : 0;
+      const gain = round(Math.min(rule.points - base, ruleSet.maxScore - currentScore));
+      if (gain <= 0) continue;
+
+      gains.push({
+        provider: platform.id,
+        ruleId: rule.id,
+        condition: rule.condition,
+        description: rule.description,
+        gain,
+      });
+    }
+  }
+
+  // Stable sort keeps registry order for equal gains
+  return gains.sort((a, b) => b.gain - a.gain);
+}
+
+/**
+ * Weight (0-1) of a held stamp, e.g. its decay factor (lib/scoreDecay.ts getStampWeight)
+ */
+export type StampWeight = (stamp: Stamp) => number;
+
+/**
+ * Stamps the user holds and their count per platform_id
+ */
+function summarizeOwned(stamps: Stamp[], ownedStampIds: number[]) {
+  const owned = new Set(ownedStampIds);
+  const ownedStamps = stamps.filter(stamp => owned.has(stamp.stamp_id));
+  const perPlatform = new Map<number, number>();
+  for (const stamp of ownedStamps) {
+    const platformId = stamp.platform_id ?? 0;
+    perPlatform.set(platformId, (perPlatform.get(platformId) ?? 0) + 1);
+  }
+  return { owned, ownedStamps, perPlatform };
+}
+
+/**
+ * Humanity score of held stamps (weighted) plus newly added stamps (full weight)
+ */
+function humanityScore(ownedStamps: Stamp[], added: Stamp[], getWeight?: StampWeight): number {
+  if (!getWeight) {
+    const all = [...ownedStamps, ...added];
+    return calculateHumanityScore(all.length, all.reduce((sum, stamp) => sum + (stamp.points || 0), 0));
+  }
+  const isAdded = new Set(added);
+  return calculateWeightedHumanityScore(
+    [...ownedStamps, ...added],
+    stamp => (isAdded.has(stamp) ? 1 : getWeight(stamp))
+  );
+}
+
+/**
+ * Stamps the user can still add, i.e. active, not held and below the per-platform limit
+ */
+function getCandidateStamps(stamps: Stamp[], ownedStampIds: number[]): Stamp[] {
+  const { owned, perPlatform } = summarizeOwned(stamps, ownedStampIds);
+  return stamps.filter(stamp =>
+    stamp.is_active &&
+    !owned.has(stamp.stamp_id) &&
+    (perPlatform.get(stamp.platform_id ?? 0) ?? 0) < MAX_STAMPS_PER_PLATFORM
+  );
+}
+
+/**
+ * Current humanity score from the stamps the user holds
+ */
+export function getCurrentHumanityScore(stamps: Stamp[], ownedStampIds: number[], getWeight?: StampWeight): number {
+  return humanityScore(summarizeOwned(stamps, ownedStampIds).ownedStamps, [], getWeight);
+}
+
+/**
+ * Rank stamps the user does not hold by humanity score gain
+ */
+export function rankStampGains(stamps: Stamp[], ownedStampIds: number[], getWeight?: StampWeight): StampGain[] {
+  const { ownedStamps } = summarizeOwned(stamps, ownedStampIds);
+  const currentScore = humanityScore(ownedStamps, [], getWeight);
+
+  return getCandidateStamps(stamps, ownedStampIds)
+    .map(stamp => {
+      const score = humanityScore(ownedStamps, [stamp], getWeight);
+      return {
+        stamp,
+        provider: getPlatformById(stamp.platform_id ?? 0)?.id ?? null,
+        gain: score - currentScore,
+        score,
+      };
+    })
+    .filter(entry => entry.gain > 0)
+    .sort((a, b) => b.gain - a.gain || b.stamp.points - a.stamp.points);
+}
+
+/**
+ * Minimum number of stamps to reach a target humanity score (e.g. a dApp's minScore)
+ *
+ * Every stamp adds 5 plus points/100, so taking stamps by points (highest first)
+ * reaches the target with the fewest stamps.
+ */
+export function planMinimumPath(
+  stamps: Stamp[],
+  ownedStampIds: number[],
+  targetScore: number,
+  getWeight?: StampWeight
+): ScorePlan {
+  const { ownedStamps, perPlatform } = summarizeOwned(stamps, ownedStampIds);
+  const currentScore = humanityScore(ownedStamps, [], getWeight);
+  const target = Math.min(Math.max(targetScore, 0), MAX_HUMANITY_SCORE);
+
+  const candidates = getCandidateStamps(stamps, ownedStampIds)
+    .sort((a, b) => (b.points || 0) - (a.points || 0) || a.stamp_id - b.stamp_id);
+
+  const added: Stamp[] = [];
+  const steps: StampGain[] = [];
+  let score = currentScore;
+  for (const stamp of candidates) {
+    if (score >= target) break;
+
+    // Per-platform limit also applies to stamps added by the plan
+    const platformId = stamp.platform_id ?? 0;
+    const platformCount = perPlatform.get(platformId) ?? 0;
+    if (platformCount >= MAX_STAMPS_PER_PLATFORM) continue;
+    perPlatform.set(platformId, platformCount + 1);
+
+    added.push(stamp);
+    const next = humanityScore(ownedStamps, added, getWeight);
+    steps.push({
+      stamp,
+      provider: getPlatformById(platformId)?.id ?? null,
+      gain: next - score,
+      score: next,
+    });
+    score = next;
+  }
+
+  return {
+    currentScore,
+    targetScore: target,
+    reachable: score >= target,
+    steps,
+    finalScore: score,
+  };
+}
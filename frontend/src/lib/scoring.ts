@@ -1,130 +1,82 @@
 // Scoring calculations for Identity Portal platforms
+// Declarative rule engine: each platform declares its rules once in the platform registry
+// shared with the backend (@zkpersona/api-contract), verifiers collect facts from the
+// provider API and evaluate them here. The rules in effect come from the backend at
+// startup (loadScoringRules, GET /config/scoring), so ops retune weights and thresholds
+// with SCORING_RULES on the backend, which scores and signs attestations with the same
+// rules. Until they are loaded, or without a backend, the registry defaults apply.
+
+import { evaluateRules, type ScoringEvaluation, type ScoringRuleSet } from '@zkpersona/api-contract';
+import { PLATFORM_LIST, getPlatform } from './platforms';
+import { backendClient } from '../utils/backendClient';
+
+export type {
+  CriterionExplanation,
+  ScoringComparator,
+  ScoringEvaluation,
+  ScoringOverrides,
+  ScoringRule,
+  ScoringRuleSet,
+  VerificationCriteria,
+} from '@zkpersona/api-contract';
+export { applyScoringOverrides, evaluateRules, parseScoringOverrides, yearsSince } from '@zkpersona/api-contract';
+
+// Rule sets served by the backend, by provider
+let backendRules: Record<string, ScoringRuleSet> = {};
 
 /**
- * Calculate Google account score
- * Max: 15 points
+ * Load the scoring rules in effect from the backend (GET /config/scoring)
+ *
+ * @returns false if the backend is unreachable (the registry defaults stay in effect)
  */
-export function calculateGoogleScore(userInfo: {
-  id?: string;
-  verified_email?: boolean;
-  created_at?: string;
-}): number {
-  let score = 0;
-
-  // Account exists and is active
-  if (userInfo.id) {
-    score += 5;
-  }
-
-  // Email is verified
-  if (userInfo.verified_email) {
-    score += 5;
-  }
-
-  // Account age ≥ 1 year (if available)
-  if (userInfo.created_at) {
-    const createdDate = new Date(userInfo.created_at);
-    const ageInYears = (Date.now() - createdDate.getTime()) / (1000 * 60 * 60 * 24 * 365);
-    if (ageInYears >= 1) {
-      score += 5;
+export async function loadScoringRules(): Promise<boolean> {
+  try {
+    const { data, response } = await backendClient.GET('/config/scoring');
+    if (!data) {
+      throw new Error(`status ${response.status}`);
     }
+    backendRules = data.rules;
+    return true;
+  } catch (error: any) {
+    console.warn('[Scoring] Using the registry rules, backend rules unavailable:', error.message);
+    return false;
   }
-
-  return Math.min(score, 15); // Max 15 points
 }
 
 /**
- * Calculate Twitter/X account score
- * Max: 30 points
+ * Effective rule set of a platform (backend rules, else the registry defaults)
  */
-export function calculateTwitterScore(userData: {
-  id?: string;
-  created_at?: string;
-  public_metrics?: {
-    tweet_count?: number;
-    followers_count?: number;
-  };
-}): number {
-  let score = 0;
-
-  // Account exists
-  if (userData.id) {
-    score += 5;
+export function getScoringRules(provider: string): ScoringRuleSet | null {
+  const platform = getPlatform(provider);
+  if (!platform) {
+    return null;
   }
-
-  // Account age (2+ years = 10, 1+ years = 5)
-  if (userData.created_at) {
-    const createdDate = new Date(userData.created_at);
-    const ageInYears = (Date.now() - createdDate.getTime()) / (1000 * 60 * 60 * 24 * 365);
-    if (ageInYears >= 2) {
-      score += 10;
-    } else if (ageInYears >= 1) {
-      score += 5;
-    }
-  }
-
-  // Activity metrics
-  if (userData.public_metrics) {
-    // Tweets
-    if (userData.public_metrics.tweet_count && userData.public_metrics.tweet_count >= 100) {
-      score += 5;
-    }
-
-    // Followers
-    if (userData.public_metrics.followers_count && userData.public_metrics.followers_count >= 10) {
-      score += 5;
-    }
-  }
-
-  return Math.min(score, 30); // Max 30 points
+  return backendRules[platform.id] ?? platform.scoring;
 }
 
 /**
- * Calculate EVM wallet score
- * Max: 35 points
+ * Score provider facts with the platform's rules
+ *
+ * @throws Error if the provider is unknown
  */
-export function calculateWalletScore(params: {
-  balanceEth: number;
-  transactionCount: number;
-  walletAgeYears?: number;
-}): number {
-  let score = 0;
-
-  // Balance criteria
-  if (params.balanceEth >= 0.01) {
-    score += 10;
-  } else if (params.balanceEth > 0) {
-    score += 5;
-  }
-
-  // Transaction history
-  if (params.transactionCount >= 10) {
-    score += 10;
-  } else if (params.transactionCount >= 5) {
-    score += 5;
+export function calculatePlatformScore(provider: string, facts: unknown): ScoringEvaluation {
+  const ruleSet = getScoringRules(provider);
+  if (!ruleSet) {
+    throw new Error(`No scoring rules for provider: ${provider}`);
   }
-
-  // Wallet age
-  if (params.walletAgeYears && params.walletAgeYears >= 1) {
-    score += 5;
-  }
-
-  return Math.min(score, 35); // Max 35 points
+  return evaluateRules(ruleSet, facts);
 }
 
 /**
- * Platform max scores
+ * Max score per platform, with the rules in effect
  */
-export const PLATFORM_MAX_SCORES = {
-  google: 15,
-  twitter: 30,
-  wallet: 35,
-  github: 25,
-  gemini: 50
-} as const;
+export function getPlatformMaxScores(): Record<string, number> {
+  return Object.fromEntries(PLATFORM_LIST.map(platform => [platform.id, getScoringRules(platform.id)!.maxScore]));
+}
 
 /**
  * Total max score (all platforms)
  */
-export const TOTAL_MAX_SCORE = Object.values(PLATFORM_MAX_SCORES).reduce((sum, score) => sum + score, 0);
-
+export function getTotalMaxScore(): number {
+  return Object.values(getPlatformMaxScores()).reduce((sum, score) => sum + score, 0);
+}
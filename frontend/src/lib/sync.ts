@@ -0,0 +1,207 @@
+// Cross-device identity sync (opt-in per wallet)
+// Pushes the vault's commitments and verifications, end-to-end encrypted, to the
+// backend's /user/:id/verifications/sync storage and merges other devices' state
+// into the vault. Everything is derived from the vault's passphrase key material, which
+// every device unlocked with the same passphrase re-creates (lib/walletCrypto.ts):
+// - sync ID: storage key on the backend (the wallet address is never sent)
+// - write token: required to overwrite the stored state
+// - AES-GCM key: encrypts the state; the backend cannot read it
+// Conflicts are resolved per platform by timestamp (lib/backup.ts merge functions).
+// A verification removed on one device comes back from the others' state.
+//
+// Runs when a vault unlocks, after vault changes (debounced) and when the tab is shown.
+
+import type { StoredIdentityData } from './commitments';
+import type { VerificationState } from '../hooks/useVerification';
+import { mergeIdentityData, mergeVerifications } from './backup';
+import {
+  deriveVaultKey,
+  deriveVaultSecret,
+  getVaultAddress,
+  getVaultItem,
+  setVaultItem,
+} from './vault';
+import { decryptJson, encryptJson, fromBase64, generateSalt } from './walletCrypto';
+import { EncryptedSyncState, getSyncState, putSyncState } from '../utils/backendAPI';
+
+/**
+ * Current version of the encrypted sync state
+ */
+export const SYNC_VERSION = 1;
+
+const SYNC_ID_INFO = 'zkpersona:sync:id:v1';
+const WRITE_TOKEN_INFO = 'zkpersona:sync:write:v1';
+const KEY_INFO = 'zkpersona:sync:key:v1';
+const PUSH_DEBOUNCE_MS = 2000;
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Decrypted sync state
+ */
+export interface SyncPayload {
+  identity?: StoredIdentityData;
+  verifications?: VerificationState;
+}
+
+type SyncBlob = EncryptedSyncState['blob'];
+
+export interface SyncStatus {
+  syncing: boolean;
+  lastSyncedAt: number | null;
+  error: string | null;
+}
+
+const enabledKey = (address: string): string => `zkpersona_sync_${address}`;
+
+let status: SyncStatus = { syncing: false, lastSyncedAt: null, error: null };
+let running: Promise<void> | null = null;
+let queued: Promise<void> | null = null;
+let applyingRemote = false;
+
+const setStatus = (update: Partial<SyncStatus>) => {
+  status = { ...status, ...update };
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event('identity-sync-status'));
+  }
+};
+
+export function getSyncStatus(): SyncStatus {
+  return status;
+}
+
+export function isSyncEnabled(address: string): boolean {
+  return localStorage.getItem(enabledKey(address)) === 'true';
+}
+
+/**
+ * Turn sync on or off for a wallet (syncs right away when turned on and unlocked)
+ */
+export async function setSyncEnabled(address: string, enabled: boolean): Promise<void> {
+  if (enabled) {
+    localStorage.setItem(enabledKey(address), 'true');
+  } else {
+    localStorage.removeItem(enabledKey(address));
+  }
+  setStatus({ error: null });
+
+  if (enabled && getVaultAddress() === address) {
+    await syncIdentity();
+  }
+}
+
+async function pull(syncId: string): Promise<{ payload: SyncPayload; updatedAt: number } | null> {
+  const remote = await getSyncState(syncId);
+  if (!remote) return null;
+
+  const { blob, updatedAt } = remote;
+  if (blob.version > SYNC_VERSION) {
+    throw new Error(`Synced state version ${blob.version} is newer than supported version ${SYNC_VERSION}`);
+  }
+
+  try {
+    const key = await deriveVaultKey(fromBase64(blob.salt), KEY_INFO);
+    return { payload: await decryptJson<SyncPayload>(key, blob, syncId), updatedAt };
+  } catch {
+    throw new Error('Synced state cannot be decrypted with this wallet');
+  }
+}
+
+/**
+ * One pull-merge-push round; retried when another device pushed in between
+ */
+async function runSync(address: string): Promise<void> {
+  const [syncId, writeToken] = await Promise.all([
+    deriveVaultSecret(SYNC_ID_INFO),
+    deriveVaultSecret(WRITE_TOKEN_INFO),
+  ]);
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const remote = await pull(syncId);
+    if (getVaultAddress() !== address) return; // Locked or switched wallet meanwhile
+
+    // Pull: newer remote entries into the vault
+    const identity = mergeIdentityData(getVaultItem('identity'), remote?.payload.identity, address);
+    const verifications = mergeVerifications(getVaultItem('verifications'), remote?.payload.verifications);
+    applyingRemote = true;
+    try {
+      if (identity.taken > 0) setVaultItem('identity', identity.data);
+      if (verifications.taken > 0) setVaultItem('verifications', verifications.data);
+    } finally {
+      applyingRemote = false;
+    }
+
+    // Push: only if this device has entries the remote state lacks
+    const missingRemotely =
+      mergeIdentityData(remote?.payload.identity, identity.data, address).taken +
+      mergeVerifications(remote?.payload.verifications, verifications.data).taken;
+    if (missingRemotely === 0) return;
+
+    const salt = generateSalt();
+    const key = await deriveVaultKey(salt, KEY_INFO);
+    const payload: SyncPayload = { identity: identity.data, verifications: verifications.data };
+    const blob: SyncBlob = { version: SYNC_VERSION, ...(await encryptJson(key, salt, payload, syncId)) };
+
+    const stored = await putSyncState(syncId, { blob, updatedAt: Date.now() }, remote?.updatedAt ?? null, writeToken);
+    if (stored) return;
+    // Another device pushed in between: pull and merge again
+  }
+
+  throw new Error('Synced state keeps changing on another device. Try again.');
+}
+
+/**
+ * Sync the unlocked vault with the backend (calls made while syncing run once afterwards)
+ *
+ * @throws Error if the vault is locked or the sync fails
+ */
+export function syncIdentity(): Promise<void> {
+  if (queued) return queued;
+  if (running) {
+    queued = running.catch(() => undefined).then(() => {
+      queued = null;
+      return syncIdentity();
+    });
+    return queued;
+  }
+
+  const address = getVaultAddress();
+  if (!address) {
+    return Promise.reject(new Error('Vault is locked'));
+  }
+
+  setStatus({ syncing: true });
+  running = runSync(address)
+    .then(() => setStatus({ syncing: false, lastSyncedAt: Date.now(), error: null }))
+    .catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn('[Sync] Identity sync failed:', message);
+      setStatus({ syncing: false, error: message });
+      throw error;
+    })
+    .finally(() => {
+      running = null;
+    });
+  return running;
+}
+
+// Automatic sync for wallets that turned it on
+if (typeof window !== 'undefined') {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const schedule = (delay: number) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const address = getVaultAddress();
+      if (address && isSyncEnabled(address)) {
+        syncIdentity().catch(() => undefined);
+      }
+    }, delay);
+  };
+
+  window.addEventListener('vault-unlocked', () => schedule(0));
+  window.addEventListener('vault-updated', () => {
+    if (!applyingRemote) schedule(PUSH_DEBOUNCE_MS);
+  });
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') schedule(0);
+  });
+}
@@ -0,0 +1,337 @@
+// Transaction lifecycle tracker
+// Wallets answer requestTransaction with a request ID (Leo Wallet: a UUID); the on-chain
+// at1… ID only exists once the wallet has proven and broadcast the transaction. The tracker
+// asks the wallet for that ID (transactionStatus, then requestTransactionHistory), polls the
+// explorer with exponential backoff and settles on the finalize result:
+//
+//   submitted -> pending -> accepted | rejected | aborted
+//   submitted -> failed     (the wallet reports the request failed; nothing was broadcast)
+//   submitted | pending -> expired   (not confirmed within maxAttempts lookups)
+//
+// "rejected" transactions are on-chain (the fee is paid) but their finalize failed, so
+// mappings are unchanged. Unsettled transactions are kept in localStorage and resumed
+// after a reload (resume()).
+
+import { fetchConfirmedTransaction, type ConfirmedTransaction } from '../utils/explorerAPI';
+import { logger } from '../utils/logger';
+
+export type TrackedTransactionStatus =
+  | 'submitted'   // wallet request ID only
+  | 'pending'     // at1… ID known, not confirmed yet
+  | 'accepted'
+  | 'rejected'
+  | 'aborted'
+  | 'failed'
+  | 'expired';
+
+export interface TrackedTransaction {
+  requestId: string;          // ID returned by requestTransaction
+  transactionId?: string;     // on-chain at1… ID
+  programId: string;
+  functionName: string;
+  address?: string;           // account that sent it
+  status: TrackedTransactionStatus;
+  error?: string;
+  submittedAt: number;
+  updatedAt: number;
+}
+
+export type TransactionMetadata = Pick<TrackedTransaction, 'programId' | 'functionName' | 'address'>;
+
+/**
+ * Wallet adapter methods used to map request IDs to transaction IDs
+ * Leo Wallet returns a status string; other adapters return { status, transactionId }.
+ */
+export interface TransactionWalletAdapter {
+  transactionStatus?: (requestId: string) => Promise<unknown>;
+  requestTransactionHistory?: (programId: string) => Promise<unknown>;
+}
+
+export interface TransactionTrackerOptions {
+  fetchConfirmed?: (transactionId: string) => Promise<ConfirmedTransaction | null>;
+  storage?: Storage | null;   // Default: localStorage (null: keep in memory only)
+  initialDelayMs?: number;    // Delay before the second lookup (default: 2000)
+  maxDelayMs?: number;        // Backoff cap (default: 30000)
+  maxAttempts?: number;       // Lookups before a transaction expires (default: 60, ~25 minutes)
+}
+
+type Listener = (transaction: TrackedTransaction) => void;
+
+const STORAGE_KEY = 'zkpersona_pending_transactions';
+const FINAL_STATUSES: TrackedTransactionStatus[] = ['accepted', 'rejected', 'aborted', 'failed', 'expired'];
+const WALLET_FAILED_STATUS = /fail|reject|error|cancel/i;
+
+export const isTransactionSettled = (transaction: TrackedTransaction): boolean =>
+  FINAL_STATUSES.includes(transaction.status);
+
+/**
+ * On-chain IDs start with at1; anything else is a wallet request ID
+ */
+export const isOnChainTransactionId = (id: string): boolean => id.startsWith('at1');
+
+/**
+ * Delay before lookup `attempt` (0-based): none, then initialDelayMs doubling up to maxDelayMs
+ */
+export function backoffDelay(attempt: number, initialDelayMs: number, maxDelayMs: number): number {
+  return attempt === 0 ? 0 : Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs);
+}
+
+/**
+ * Read status and at1… ID from whatever the wallet returned
+ */
+function parseWalletStatus(value: unknown): { status?: string; transactionId?: string } {
+  if (typeof value === 'string') {
+    return isOnChainTransactionId(value) ? { transactionId: value } : { status: value };
+  }
+  if (typeof value === 'object' && value !== null) {
+    const obj = value as Record<string, unknown>;
+    const transactionId = [obj.transactionId, obj.transaction_id, obj.txId]
+      .find((id): id is string => typeof id === 'string' && isOnChainTransactionId(id));
+    return { status: typeof obj.status === 'string' ? obj.status : undefined, transactionId };
+  }
+  return {};
+}
+
+export class TransactionTracker {
+  private transactions = new Map<string, TrackedTransaction>();
+  private polls = new Map<string, Promise<TrackedTransaction>>();
+  private confirmed = new Map<string, ConfirmedTransaction>();   // in memory only (can be large)
+  private listeners = new Set<Listener>();
+  private fetchConfirmed: (transactionId: string) => Promise<ConfirmedTransaction | null>;
+  private storage: Storage | null;
+  private initialDelayMs: number;
+  private maxDelayMs: number;
+  private maxAttempts: number;
+
+  constructor(options: TransactionTrackerOptions = {}) {
+    this.fetchConfirmed = options.fetchConfirmed ?? (transactionId => fetchConfirmedTransaction(transactionId));
+    this.storage = options.storage !== undefined
+      ? options.storage
+      : typeof localStorage !== 'undefined' ? localStorage : null;
+    this.initialDelayMs = options.initialDelayMs ?? 2000;
+    this.maxDelayMs = options.maxDelayMs ?? 30_000;
+    this.maxAttempts = options.maxAttempts ?? 60;
+  }
+
+  /**
+   * Start tracking a submitted transaction
+   * @returns The settled transaction (never rejects; check status)
+   */
+  track(requestId: string, metadata: TransactionMetadata, wallet?: TransactionWalletAdapter): Promise<TrackedTransaction> {
+    if (!this.transactions.has(requestId)) {
+      const now = Date.now();
+      this.update({
+        ...metadata,
+        requestId,
+        transactionId: isOnChainTransactionId(requestId) ? requestId : undefined,
+        status: isOnChainTransactionId(requestId) ? 'pending' : 'submitted',
+        submittedAt: now,
+        updatedAt: now,
+      });
+    }
+    return this.wait(requestId, wallet)!;
+  }
+
+  /**
+   * Wait for a tracked transaction to settle (null if it is not tracked)
+   */
+  wait(requestId: string, wallet?: TransactionWalletAdapter): Promise<TrackedTransaction> | null {
+    const transaction = this.transactions.get(requestId);
+    if (!transaction) {
+      return null;
+    }
+    if (isTransactionSettled(transaction)) {
+      return Promise.resolve(transaction);
+    }
+
+    let poll = this.polls.get(requestId);
+    if (!poll) {
+      poll = this.poll(requestId, wallet).finally(() => this.polls.delete(requestId));
+      this.polls.set(requestId, poll);
+    }
+    return poll;
+  }
+
+  /**
+   * Load unsettled transactions from storage and poll them again (e.g. after a reload)
+   * @param address - Only resume transactions of this account
+   */
+  resume(wallet?: TransactionWalletAdapter, address?: string): void {
+    for (const stored of this.readStored()) {
+      if (!this.transactions.has(stored.requestId)) {
+        this.transactions.set(stored.requestId, stored);
+      }
+      if (!address || stored.address === address) {
+        this.wait(stored.requestId, wallet);
+      }
+    }
+  }
+
+  get(requestId: string): TrackedTransaction | null {
+    return this.transactions.get(requestId) ?? null;
+  }
+
+  /**
+   * Explorer JSON of a transaction this tracker saw confirmed (e.g. to extract a proof)
+   */
+  getConfirmed(requestId: string): ConfirmedTransaction | null {
+    return this.confirmed.get(requestId) ?? null;
+  }
+
+  /**
+   * Tracked transactions, newest first
+   */
+  list(address?: string): TrackedTransaction[] {
+    return [...this.transactions.values()]
+      .filter(transaction => !address || transaction.address === address)
+      .sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  /**
+   * Listen for status changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async poll(requestId: string, wallet?: TransactionWalletAdapter): Promise<TrackedTransaction> {
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const delay = backoffDelay(attempt, this.initialDelayMs, this.maxDelayMs);
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      const transaction = this.transactions.get(requestId)!;
+      const settled = transaction.transactionId
+        ? await this.checkExplorer(transaction)
+        : await this.checkWallet(transaction, wallet);
+      if (settled && isTransactionSettled(settled)) {
+        return settled;
+      }
+    }
+
+    const transaction = this.transactions.get(requestId)!;
+    console.warn(`[TxTracker] ${transaction.functionName} not confirmed after ${this.maxAttempts} lookups:`, requestId);
+    return this.update({
+      ...transaction,
+      status: 'expired',
+      error: transaction.transactionId
+        ? `Transaction ${transaction.transactionId} was not confirmed yet`
+        : 'The wallet has not broadcast the transaction yet. Check the wallet history.',
+    });
+  }
+
+  /**
+   * Ask the wallet for the at1… ID of a request
+   */
+  private async checkWallet(transaction: TrackedTransaction, wallet?: TransactionWalletAdapter): Promise<TrackedTransaction | null> {
+    let reported: { status?: string; transactionId?: string } = {};
+    try {
+      if (wallet?.transactionStatus) {
+        reported = parseWalletStatus(await wallet.transactionStatus(transaction.requestId));
+      }
+      if (!reported.transactionId && wallet?.requestTransactionHistory) {
+        const history = await wallet.requestTransactionHistory(transaction.programId);
+        const entries = Array.isArray(history)
+          ? history
+          : (history as { transactions?: unknown[] } | null)?.transactions ?? [];
+        const entry = entries.find(item => (item as Record<string, unknown>)?.id === transaction.requestId);
+        reported.transactionId = parseWalletStatus(entry).transactionId;
+      }
+    } catch (error) {
+      console.warn('[TxTracker] Wallet status lookup failed:', error);
+      return null;
+    }
+
+    if (reported.transactionId) {
+      const pending = this.update({ ...transaction, transactionId: reported.transactionId, status: 'pending' });
+      return this.checkExplorer(pending);
+    }
+    if (reported.status && WALLET_FAILED_STATUS.test(reported.status)) {
+      logger.transaction.failed(`${transaction.functionName}: wallet reported ${reported.status}`);
+      return this.update({ ...transaction, status: 'failed', error: `Wallet reported the transaction as ${reported.status}` });
+    }
+    return null;
+  }
+
+  /**
+   * Look the transaction up on the explorer; settles it once confirmed
+   */
+  private async checkExplorer(transaction: TrackedTransaction): Promise<TrackedTransaction | null> {
+    let confirmed: ConfirmedTransaction | null;
+    try {
+      confirmed = await this.fetchConfirmed(transaction.transactionId!);
+    } catch (error) {
+      console.warn('[TxTracker] Explorer lookup failed:', error);
+      return null;
+    }
+    if (!confirmed) {
+      return null;
+    }
+    this.confirmed.set(transaction.requestId, confirmed);
+
+    if (confirmed.status === 'accepted') {
+      logger.transaction.confirmed(transaction.transactionId!);
+      return this.update({ ...transaction, status: 'accepted', error: undefined });
+    }
+    const status = confirmed.status === 'rejected' ? 'rejected' : 'aborted';
+    const error = `Transaction ${transaction.transactionId} was ${status}: ${transaction.functionName} did not finalize`;
+    logger.transaction.failed(error);
+    return this.update({ ...transaction, status, error });
+  }
+
+  private update(transaction: TrackedTransaction): TrackedTransaction {
+    const updated = { ...transaction, updatedAt: Date.now() };
+    this.transactions.set(updated.requestId, updated);
+    this.persist();
+    for (const listener of this.listeners) {
+      listener(updated);
+    }
+    return updated;
+  }
+
+  /**
+   * Store unsettled transactions (settled ones are dropped from storage)
+   */
+  private persist(): void {
+    if (!this.storage) {
+      return;
+    }
+    const unsettled = new Map(this.readStored().map(stored => [stored.requestId, stored]));
+    for (const transaction of this.transactions.values()) {
+      if (isTransactionSettled(transaction)) {
+        unsettled.delete(transaction.requestId);
+      } else {
+        unsettled.set(transaction.requestId, transaction);
+      }
+    }
+    try {
+      if (unsettled.size) {
+        this.storage.setItem(STORAGE_KEY, JSON.stringify([...unsettled.values()]));
+      } else {
+        this.storage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('[TxTracker] Failed to store pending transactions:', error);
+    }
+  }
+
+  private readStored(): TrackedTransaction[] {
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed.filter(item => typeof item?.requestId === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * Tracker shared by the app (hooks/useTransactionTracker.ts)
+ */
+export const transactionTracker = new TransactionTracker();
@@ -0,0 +1,325 @@
+// Encrypted local identity vault
+// One vault per wallet in localStorage, encrypted with AES-GCM. The key is derived
+// (lib/walletCrypto.ts) from the passphrase the user chose for the wallet, so it is the
+// same after a reload and on other devices. Unlocking also asks the wallet to sign
+// getVaultMessage and checks the signature against the address, so the app only opens
+// the vault of the connected wallet. Data is decrypted into memory on unlock; get/set
+// are synchronous and every set re-encrypts the vault in the background.
+//
+// Writes made while the vault is locked stay in memory and are merged into the vault
+// on unlock. Events: "vault-unlocked", "vault-locked", "vault-updated" (also when
+// another tab changed the vault).
+//
+// A wrong passphrase fails to unlock and leaves the stored vault untouched.
+
+import type { StoredIdentityData } from './commitments';
+import type { Session } from './auth';
+import type { VerificationState } from '../hooks/useVerification';
+import {
+  EncryptedPayload,
+  decryptJson,
+  derivePassphraseMaterial,
+  deriveWalletKey,
+  deriveWalletSecret,
+  encryptJson,
+  fromBase64,
+  generateSalt,
+  verifyWalletSignature,
+} from './walletCrypto';
+
+/**
+ * Vault contents (schema version VAULT_VERSION)
+ */
+export interface VaultData {
+  identity?: StoredIdentityData;                            // lib/commitments.ts
+  verifications?: VerificationState;                        // hooks/useVerification.ts
+  authSession?: Session;                                    // lib/auth.ts
+  oauthSessions?: Record<string, Record<string, string>>;   // utils/platformCache.ts, by cache token
+}
+
+export type VaultKey = keyof VaultData;
+
+/**
+ * Encrypted vault as stored in localStorage
+ */
+interface VaultBlob extends EncryptedPayload {
+  version: number;     // data is the ciphertext of JSON VaultData
+}
+
+/**
+ * Current schema version
+ */
+export const VAULT_VERSION = 1;
+
+const STORAGE_PREFIX = 'zkpersona_vault_';
+const HKDF_INFO = 'zkpersona:vault:v1';
+
+/**
+ * Message the wallet signs to prove it owns the vault's address
+ */
+export const getVaultMessage = (address: string): string =>
+  `ZkPersona vault key\nThis signature unlocks your local identity data. It does not authorize any transaction.\n${address}`;
+
+const storageKey = (address: string): string => `${STORAGE_PREFIX}${address}`;
+
+/**
+ * Schema migrations: MIGRATIONS[n] upgrades version n to n + 1
+ * Version 0 is the plaintext localStorage layout before the vault.
+ */
+const MIGRATIONS: Record<number, (data: VaultData, address: string) => VaultData> = {
+  0: (data, address) => {
+    const read = <T>(key: string): T | undefined => {
+      try {
+        const saved = localStorage.getItem(key);
+        return saved ? JSON.parse(saved) : undefined;
+      } catch {
+        return undefined;
+      }
+    };
+
+    const oauthSessions: Record<string, Record<string, string>> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith('oauth_session_')) {
+        const session = read<Record<string, string>>(key);
+        if (session) oauthSessions[key.slice('oauth_session_'.length)] = session;
+      }
+    }
+
+    return {
+      ...data,
+      identity: data.identity ?? read<StoredIdentityData>('identity_portal_data'),
+      verifications: data.verifications ?? read<VerificationState>(`verifications_${address}`),
+      authSession: data.authSession ?? read<Session>('zkpersona-auth'),
+      oauthSessions: { ...oauthSessions, ...data.oauthSessions },
+    };
+  },
+};
+
+/**
+ * Plaintext keys moved into the vault by migration 0 (removed after the first save)
+ */
+const legacyKeys = (address: string): string[] => {
+  const keys = ['identity_portal_data', `verifications_${address}`, 'zkpersona-auth'];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith('oauth_session_')) keys.push(key);
+  }
+  return keys;
+};
+
+/**
+ * Upgrade vault data to VAULT_VERSION
+ */
+export function migrateVaultData(data: VaultData, fromVersion: number, address: string): VaultData {
+  if (fromVersion > VAULT_VERSION) {
+    throw new Error(`Vault version ${fromVersion} is newer than supported version ${VAULT_VERSION}`);
+  }
+
+  let migrated = data;
+  for (let version = fromVersion; version < VAULT_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated, address);
+  }
+  return migrated;
+}
+
+async function encryptData(key: CryptoKey, salt: Uint8Array, data: VaultData): Promise<VaultBlob> {
+  return { version: VAULT_VERSION, ...(await encryptJson(key, salt, data)) };
+}
+
+function readBlob(address: string): VaultBlob | null {
+  const saved = localStorage.getItem(storageKey(address));
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return null;
+  }
+}
+
+// Module state: decrypted data and the key of the unlocked vault
+let data: VaultData = {};
+let writtenWhileLocked = new Set<VaultKey>();
+let session: { address: string; key: CryptoKey; salt: Uint8Array; material: CryptoKey } | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+let unlocking: { address: string; promise: Promise<void> } | null = null;
+
+const emit = (event: string) => {
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(event));
+  }
+};
+
+/**
+ * Encrypt and store the vault (writes are serialized)
+ */
+function persist(): Promise<void> {
+  if (!session) return pendingWrite;
+  const { address, key, salt } = session;
+  const snapshot = data;
+
+  pendingWrite = pendingWrite
+    .then(async () => {
+      const blob = await encryptData(key, salt, snapshot);
+      localStorage.setItem(storageKey(address), JSON.stringify(blob));
+    })
+    .catch(error => {
+      console.error('[Vault] Failed to save vault:', error);
+    });
+  return pendingWrite;
+}
+
+/**
+ * Whether the wallet has a stored vault (unlock then needs its existing passphrase)
+ */
+export function hasStoredVault(address: string): boolean {
+  return localStorage.getItem(storageKey(address)) !== null;
+}
+
+/**
+ * Open the vault of a wallet (creates it, or migrates plaintext data, on first use)
+ *
+ * @param address - Wallet address
+ * @param signMessage - Wallet signMessage (useWallet().signMessage)
+ * @param passphrase - The wallet's vault passphrase (chosen on first use)
+ * @throws Error if the signature is not the address's or the passphrase does not open the stored vault
+ */
+export function unlockVault(
+  address: string,
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>,
+  passphrase: string
+): Promise<void> {
+  if (session?.address === address) return Promise.resolve();
+  if (unlocking?.address === address) return unlocking.promise;
+  if (session) lockVault();
+
+  const promise = (async () => {
+    const message = new TextEncoder().encode(getVaultMessage(address));
+    const signature = await signMessage(message);
+    if (!(await verifyWalletSignature(address, message, signature))) {
+      throw new Error('Wallet signature does not match this address');
+    }
+
+    const blob = readBlob(address);
+    const salt = blob ? fromBase64(blob.salt) : generateSalt();
+    const material = await derivePassphraseMaterial(passphrase, address);
+    const key = await deriveWalletKey(material, salt, HKDF_INFO);
+
+    let stored: VaultData = {};
+    let version = 0;
+    if (blob) {
+      try {
+        stored = await decryptJson<VaultData>(key, blob);
+        version = blob.version;
+      } catch {
+        throw new Error('Passphrase does not unlock this vault');
+      }
+    }
+    stored = migrateVaultData(stored, version, address);
+
+    // Writes made while locked win over stored values
+    const merged: VaultData = { ...stored };
+    for (const item of writtenWhileLocked) {
+      (merged as Record<string, unknown>)[item] = data[item];
+    }
+
+    data = merged;
+    writtenWhileLocked = new Set();
+    session = { address, key, salt, material };
+    await persist();
+
+    if (version === 0) {
+      legacyKeys(address).forEach(item => localStorage.removeItem(item));
+    }
+    emit('vault-unlocked');
+  })();
+
+  unlocking = { address, promise };
+  return promise.finally(() => {
+    if (unlocking?.promise === promise) unlocking = null;
+  });
+}
+
+/**
+ * Forget the key and decrypted data (e.g. on wallet disconnect)
+ */
+export function lockVault(): void {
+  if (!session) return; // Keep writes made while locked until a vault is unlocked
+  session = null;
+  data = {};
+  writtenWhileLocked = new Set();
+  emit('vault-locked');
+}
+
+export function isVaultUnlocked(): boolean {
+  return session !== null;
+}
+
+/**
+ * Address of the unlocked vault (null if locked)
+ */
+export function getVaultAddress(): string | null {
+  return session?.address ?? null;
+}
+
+export function getVaultItem<K extends VaultKey>(key: K): VaultData[K] | undefined {
+  return data[key];
+}
+
+export function setVaultItem<K extends VaultKey>(key: K, value: VaultData[K]): void {
+  data = { ...data, [key]: value };
+  if (!session) {
+    writtenWhileLocked.add(key);
+  }
+  persist();
+  emit('vault-updated');
+}
+
+export function removeVaultItem(key: VaultKey): void {
+  setVaultItem(key, undefined);
+}
+
+/**
+ * Key derived from the unlocked vault's passphrase for another purpose (e.g. sync)
+ * Spares the user a second passphrase prompt; info must differ from the vault's own.
+ *
+ * @throws Error if the vault is locked
+ */
+export function deriveVaultKey(salt: Uint8Array, info: string): Promise<CryptoKey> {
+  if (!session) throw new Error('Vault is locked');
+  return deriveWalletKey(session.material, salt, info);
+}
+
+/**
+ * Hex secret derived from the unlocked vault's passphrase (see deriveVaultKey)
+ *
+ * @throws Error if the vault is locked
+ */
+export function deriveVaultSecret(info: string): Promise<string> {
+  if (!session) throw new Error('Vault is locked');
+  return deriveWalletSecret(session.material, info);
+}
+
+/**
+ * Wait until pending writes are stored
+ */
+export function flushVault(): Promise<void> {
+  return pendingWrite;
+}
+
+// Another tab changed the vault: decrypt it again
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (!session || event.key !== storageKey(session.address)) return;
+    const { key } = session;
+    const blob = readBlob(session.address);
+    if (!blob) return;
+
+    decryptJson<VaultData>(key, blob)
+      .then(updated => {
+        data = updated;
+        emit('vault-updated');
+      })
+      .catch(error => console.error('[Vault] Failed to reload vault:', error));
+  });
+}
@@ -0,0 +1,156 @@
+// Encryption keyed by a wallet passphrase
+// AES-GCM with keys derived (HKDF-SHA-256) from key material the user can re-create on
+// any device: PBKDF2 over the wallet's passphrase, salted with the wallet address. Aleo
+// signatures are randomized, so a wallet signature is only checked for ownership of the
+// address (verifyWalletSignature), never used as key material.
+// Used by the local vault (lib/vault.ts), identity backups (lib/backup.ts) and
+// cross-device sync (lib/sync.ts); each passes its own HKDF info so keys are never shared.
+
+type AleoSDK = typeof import('@provablehq/sdk');
+
+let sdkPromise: Promise<AleoSDK> | null = null;
+
+/**
+ * Load the Aleo SDK (WASM) once
+ */
+function loadSdk(): Promise<AleoSDK> {
+  if (!sdkPromise) {
+    sdkPromise = import('@provablehq/sdk');
+  }
+  return sdkPromise;
+}
+
+/**
+ * AES-GCM ciphertext of a JSON value (all fields base64)
+ */
+export interface EncryptedPayload {
+  salt: string;  // HKDF salt
+  iv: string;    // AES-GCM IV
+  data: string;  // AES-GCM ciphertext
+}
+
+// Bytes per String.fromCharCode call; spreading a whole backup would exceed the argument limit
+const BASE64_CHUNK = 0x8000;
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+};
+export const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+/**
+ * Random HKDF salt
+ */
+export const generateSalt = (): Uint8Array => crypto.getRandomValues(new Uint8Array(16));
+
+/**
+ * PBKDF2-SHA-256 iterations for passphrases
+ */
+export const PASSPHRASE_ITERATIONS = 600_000;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Non-extractable HKDF key material from the wallet's passphrase
+ * Deterministic per passphrase and address, so every device derives the same keys.
+ *
+ * @throws Error if the passphrase is shorter than MIN_PASSPHRASE_LENGTH
+ */
+export async function derivePassphraseMaterial(passphrase: string, address: string): Promise<CryptoKey> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  const encoder = new TextEncoder();
+  const pbkdf2 = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(`zkpersona:passphrase:v1:${address}`), iterations: PASSPHRASE_ITERATIONS },
+    pbkdf2,
+    256
+  );
+  return crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveKey', 'deriveBits']);
+}
+
+/**
+ * Whether a wallet signMessage result is a valid signature of message by address
+ * Wallets return the signature string ("sign1...") as bytes.
+ */
+export async function verifyWalletSignature(address: string, message: Uint8Array, signature: Uint8Array): Promise<boolean> {
+  const sdk = await loadSdk();
+  try {
+    const parsed = sdk.Signature.from_string(new TextDecoder().decode(signature));
+    return sdk.Address.from_string(address).verify(message, parsed);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * AES-GCM key from passphrase key material (derivePassphraseMaterial)
+ */
+export function deriveWalletKey(material: CryptoKey, salt: Uint8Array, info: string): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(info) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * 32-byte hex secret from passphrase key material (e.g. an ID or token to show a server)
+ */
+export async function deriveWalletSecret(material: CryptoKey, info: string): Promise<string> {
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(info) },
+    material,
+    256
+  );
+  return Array.from(new Uint8Array(bits), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Encrypt a JSON value
+ *
+ * @param additionalData - Authenticated but not encrypted (e.g. a file header)
+ */
+export async function encryptJson(
+  key: CryptoKey,
+  salt: Uint8Array,
+  value: unknown,
+  additionalData?: string
+): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, ...(additionalData ? { additionalData: new TextEncoder().encode(additionalData) } : {}) },
+    key,
+    plaintext
+  );
+  return {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt a JSON value
+ *
+ * @throws Error (DOMException) if the key or additionalData does not match
+ */
+export async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload, additionalData?: string): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: fromBase64(payload.iv),
+      ...(additionalData ? { additionalData: new TextEncoder().encode(additionalData) } : {}),
+    },
+    key,
+    fromBase64(payload.data)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
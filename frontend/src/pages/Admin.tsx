@@ -18,7 +18,7 @@ export const Admin = () => {
     const { publicKey, wallet } = useWallet();
     const adapter = wallet?.adapter as unknown as WalletAdapterExtras | undefined;
     const network = WalletAdapterNetwork.TestnetBeta;
-    const { isAdmin, checking, createStamp, editStamp, deleteStamp, createTask, editTask, deleteTask, verifyAndGrantStamp } = useAdmin();
+    const { isAdmin, checking, createStamp, editStamp, deleteStamp, createTask, editTask, deleteTask, verifyAndGrantStamp, waitForTransaction } = useAdmin();
     const [stamps, setStamps] = useState<Stamp[]>([]);
     const [tasks, setTasks] = useState<Task[]>([]);
     const [verificationRequests, setVerificationRequests] = useState<VerificationRequest[]>([]);
@@ -109,6 +109,15 @@ export const Admin = () => {
         return () => window.removeEventListener("verification-request", handleNewRequest);
     }, []);
 
+    // Stamp changes only apply if finalize accepts them (e.g. rejected for non-admins)
+    const waitForConfirmation = async (txId: string) => {
+        setStatus("Waiting for on-chain confirmation...");
+        const settled = await waitForTransaction(txId);
+        if (settled.status !== "accepted") {
+            throw new Error(settled.error ?? `Transaction ${settled.status}`);
+        }
+    };
+
     const handleCreateStamp = async () => {
         setIsProcessing(true);
         setStatus("Creating stamp...");
@@ -122,6 +131,7 @@ export const Admin = () => {
             );
 
             if (txId) {
+                await waitForConfirmation(txId);
                 // Add to local state (in production, would be fetched from blockchain)
                 const newStamp: Stamp = {
                     stamp_id: stamps.length + 1,
@@ -164,6 +174,7 @@ export const Admin = () => {
             );
 
             if (txId) {
+                await waitForConfirmation(txId);
                 // Update local state
                 const updated = stamps.map(s => 
                     s.stamp_id === editingStamp.stamp_id 
@@ -197,6 +208,7 @@ export const Admin = () => {
             const txId = await deleteStamp(stampId);
 
             if (txId) {
+                await waitForConfirmation(txId);
                 // Update local state
                 const updated = stamps.map(s => 
                     s.stamp_id === stampId 
@@ -36,7 +36,7 @@ export const OAuthCallback: React.FC = () => {
       let sessionData = await pollStatus();
 
       // If not ready yet, start polling every 1 second
-      if (!sessionData || sessionData.status === 'in_progress') {
+      if (!sessionData || sessionData.status === 'pending') {
         const interval = setInterval(async () => {
           const data = await pollStatus();
           
@@ -59,7 +59,9 @@ export const OAuthCallback: React.FC = () => {
               saveVerificationResult(data.result.provider, {
                 score: data.result.score || 0,
                 criteria,
-                metadataHash: data.result.metadataHash
+                metadataHash: data.result.commitment,
+                commitment: data.result.commitment,
+                attestation: data.result.attestation
               });
 
               console.log(`[OAuthCallback] Successfully verified ${data.result.provider}. Score: ${data.result.score || 0}`);
@@ -119,7 +121,9 @@ export const OAuthCallback: React.FC = () => {
         saveVerificationResult(sessionData.result.provider, {
           score: sessionData.result.score || 0,
           criteria,
-          metadataHash: sessionData.result.metadataHash
+          metadataHash: sessionData.result.commitment,
+          commitment: sessionData.result.commitment,
+          attestation: sessionData.result.attestation
         });
 
         console.log(`[OAuthCallback] Already verified ${sessionData.result.provider}. Score: ${sessionData.result.score || 0}`);
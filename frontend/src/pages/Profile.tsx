@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useWallet } from "@demox-labs/aleo-wallet-adapter-react";
 import { useVerification } from "../hooks/useVerification";
 import { StampCard } from "../components/StampCard";
@@ -8,6 +8,11 @@ import { initializeSampleData } from "../utils/sampleData";
 import { getUser, onAuthStateChange, signInWithOAuth, getProfile } from "../lib/auth";
 import { MessageCircle } from "lucide-react";
 import { WalletRequiredModal } from "../components/WalletRequiredModal";
+import { ScorePlannerPanel } from "../components/ScorePlannerPanel";
+import { IdentityBackupPanel } from "../components/IdentityBackupPanel";
+import { IdentitySyncPanel } from "../components/IdentitySyncPanel";
+import { loadIdentityData } from "../lib/commitments";
+import { SCORE_DECAY_ENABLED, getPlatformTimestamps, getStampWeight } from "../lib/scoreDecay";
 import "./Profile.css";
 
 interface DiscordProfile {
@@ -117,6 +122,13 @@ export const Profile = () => {
         }
     }, [publicKey]);
 
+    // Decay mode: held stamps count with the decay factor of their platform's verification
+    const stampWeight = useMemo(() => {
+        if (!SCORE_DECAY_ENABLED) return undefined;
+        const timestamps = getPlatformTimestamps(loadIdentityData(), verifications);
+        return (stamp: Stamp) => getStampWeight(stamp, timestamps);
+    }, [verifications]);
+
     const handleConnectWallet = () => {
         setShowWalletModal(true);
     };
@@ -203,6 +215,23 @@ export const Profile = () => {
                     <p style={{ margin: 0, fontSize: '0.9rem', color: '#888' }}>{verifiedCount} provider{verifiedCount !== 1 ? 's' : ''} verified. Claim points on Dashboard.</p>
                 </div>
 
+                <div style={{ marginBottom: '1.5rem' }}>
+                    <ScorePlannerPanel
+                        stamps={stamps}
+                        ownedStampIds={userStamps}
+                        verifications={verifications}
+                        getWeight={stampWeight}
+                    />
+                </div>
+
+                <div style={{ marginBottom: '1.5rem' }}>
+                    <IdentityBackupPanel />
+                </div>
+
+                <div style={{ marginBottom: '1.5rem' }}>
+                    <IdentitySyncPanel />
+                </div>
+
                 {earnedStamps.length > 0 ? (
                     <section className="profile-stamps-section">
                         <h2 className="section-title">My Stamps ({earnedStamps.length})</h2>
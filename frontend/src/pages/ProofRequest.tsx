@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
+import { DecryptPermission, WalletAdapterNetwork, WalletName } from '@demox-labs/aleo-wallet-adapter-base';
+import { Loader2, ShieldCheck, AlertTriangle, CheckCircle, QrCode } from 'lucide-react';
+import { PROGRAM_ID } from '../deployed_program';
+import { usePassportProof } from '../hooks/usePassportProof';
+import {
+  ParsedProofRequest,
+  parseProofRequestLink,
+  postProofToCallback,
+  proofRequestQrCode,
+  verifyProofRequestSigner,
+} from '../sdk/proofRequestLink';
+
+type Status = 'review' | 'generating' | 'sending' | 'done' | 'error';
+type SignerCheck = { verified: boolean; error: string | null };
+
+export const ProofRequest: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { publicKey, wallets, select } = useWallet();
+  const { generateProof } = usePassportProof();
+  const [status, setStatus] = useState<Status>('review');
+  const [error, setError] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [signer, setSigner] = useState<SignerCheck>({ verified: false, error: null });
+
+  const parsed = useMemo((): { request: ParsedProofRequest | null; error: string | null } => {
+    try {
+      return { request: parseProofRequestLink(`?${searchParams.toString()}`), error: null };
+    } catch (err: any) {
+      return { request: null, error: err.message || 'Invalid proof request' };
+    }
+  }, [searchParams]);
+
+  const request = parsed.request;
+
+  // Parsing checks the callback is on the app's domain; the signer must be a key the app published
+  useEffect(() => {
+    if (!request) return;
+    let cancelled = false;
+    setSigner({ verified: false, error: null });
+    verifyProofRequestSigner(request)
+      .then(() => !cancelled && setSigner({ verified: true, error: null }))
+      .catch((err: Error) => !cancelled && setSigner({ verified: false, error: err.message }));
+    return () => {
+      cancelled = true;
+    };
+  }, [request]);
+
+  // QR code of this page so the user can continue on a phone with the wallet app
+  useEffect(() => {
+    if (!request) return;
+    proofRequestQrCode(window.location.href)
+      .then(setQrCode)
+      .catch(() => setQrCode(null));
+  }, [request]);
+
+  const handleConnect = async () => {
+    const adapter = wallets.find(w => w.adapter.name === 'Leo Wallet')?.adapter;
+    if (!adapter) return;
+    try {
+      select('Leo Wallet' as WalletName);
+      await adapter.connect(DecryptPermission.OnChainHistory, WalletAdapterNetwork.TestnetBeta, [PROGRAM_ID]);
+    } catch (err: any) {
+      setError(err.message || 'Wallet connection failed');
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!request || !signer.verified) return;
+    try {
+      setStatus('generating');
+      setError(null);
+      const proof = await generateProof({
+        program: PROGRAM_ID,
+        function: 'prove_access',
+        appId: request.payload.appId,
+        minScore: request.payload.minScore,
+        predicates: request.payload.predicates,
+        challenge: request.payload.nonce,
+      });
+      if (!proof) {
+        throw new Error('Proof generation failed');
+      }
+
+      setStatus('sending');
+      await postProofToCallback(request, proof);
+      setStatus('done');
+    } catch (err: any) {
+      setError(err.message || 'Proof request failed');
+      setStatus('error');
+    }
+  };
+
+  if (!request || signer.error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-black">
+        <div className="text-center max-w-md mx-4">
+          <AlertTriangle size={48} className="text-red-400 mx-auto mb-4" />
+          <p className="text-red-400 font-mono">{parsed.error ?? signer.error}</p>
+          <button
+            onClick={() => navigate('/')}
+            className="mt-4 px-4 py-2 bg-white text-black font-mono uppercase text-sm"
+          >
+            Go Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { payload } = request;
+  const callbackHost = new URL(payload.callback).host;
+  const expiresAt = new Date(payload.expiresAt * 1000);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-black">
+      <div className="max-w-md w-full mx-4 border border-neutral-800 p-8">
+        <ShieldCheck size={48} className="text-white mx-auto mb-4" />
+        <h2 className="text-2xl font-bold font-mono uppercase text-white mb-6 text-center">
+          Proof Request
+        </h2>
+
+        <dl className="font-mono text-sm space-y-3 mb-6">
+          <div className="flex justify-between gap-4">
+            <dt className="text-neutral-500">App</dt>
+            <dd className="text-white break-all text-right">{payload.appId}</dd>
+          </div>
+          <div className="flex justify-between gap-4">
+            <dt className="text-neutral-500">Minimum score</dt>
+            <dd className="text-white">{payload.minScore}</dd>
+          </div>
+          {payload.predicates?.map((predicate, i) => (
+            <div key={i} className="flex justify-between gap-4">
+              <dt className="text-neutral-500">Stamps required</dt>
+              <dd className="text-white text-right">
+                {predicate.minStamps} from {predicate.platforms.join(', ')}
+              </dd>
+            </div>
+          ))}
+          <div className="flex justify-between gap-4">
+            <dt className="text-neutral-500">Sends proof to</dt>
+            <dd className="text-white break-all text-right">{callbackHost}</dd>
+          </div>
+          <div className="flex justify-between gap-4">
+            <dt className="text-neutral-500">Expires</dt>
+            <dd className="text-white">{expiresAt.toLocaleTimeString()}</dd>
+          </div>
+          <div className="flex justify-between gap-4">
+            <dt className="text-neutral-500">Signed by</dt>
+            <dd className="text-neutral-300">{payload.signer.slice(0, 12)}…</dd>
+          </div>
+        </dl>
+
+        <p className="text-neutral-400 font-mono text-xs mb-6">
+          Your wallet proves that your humanity score is at least {payload.minScore}
+          {payload.predicates?.length ? ' and that you hold the required stamps' : ''}. Your address, score and stamps are not shared.
+        </p>
+
+        {status === 'review' && !signer.verified && (
+          <div className="flex items-center justify-center gap-2 text-neutral-400 font-mono text-sm">
+            <Loader2 size={20} className="animate-spin" />
+            Checking the signer with {payload.appId.split('/')[0]}...
+          </div>
+        )}
+        {status === 'review' && signer.verified && (
+          publicKey ? (
+            <button
+              onClick={handleApprove}
+              className="w-full px-4 py-3 bg-white text-black font-mono uppercase text-sm"
+            >
+              Generate Proof
+            </button>
+          ) : (
+            <button
+              onClick={handleConnect}
+              className="w-full px-4 py-3 bg-white text-black font-mono uppercase text-sm"
+            >
+              Connect Wallet
+            </button>
+          )
+        )}
+        {(status === 'generating' || status === 'sending') && (
+          <div className="flex items-center justify-center gap-2 text-white font-mono text-sm">
+            <Loader2 size={20} className="animate-spin" />
+            {status === 'generating' ? 'Generating proof in wallet...' : `Sending proof to ${callbackHost}...`}
+          </div>
+        )}
+        {status === 'done' && (
+          <div className="flex items-center justify-center gap-2 text-green-400 font-mono text-sm">
+            <CheckCircle size={20} />
+            Proof sent. You can close this page.
+          </div>
+        )}
+        {error && (
+          <p className="text-red-400 font-mono text-sm mt-4 text-center">{error}</p>
+        )}
+        {status === 'error' && (
+          <button
+            onClick={() => setStatus('review')}
+            className="w-full mt-4 px-4 py-2 border border-neutral-700 text-white font-mono uppercase text-sm"
+          >
+            Try Again
+          </button>
+        )}
+
+        {qrCode && status === 'review' && (
+          <div className="mt-8 pt-6 border-t border-neutral-800 text-center">
+            <div className="flex items-center justify-center gap-2 text-neutral-500 font-mono text-xs uppercase mb-3">
+              <QrCode size={14} />
+              Continue on mobile
+            </div>
+            <img src={qrCode} alt="Proof request QR code" className="mx-auto w-40 h-40 bg-white p-1" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -84,7 +84,9 @@ export const VerifyCallback: React.FC = () => {
           saveVerificationResult('ethereum', {
             score: session.result.score,
             criteria: session.result.criteria,
-            metadataHash: session.result.metadataHash
+            metadataHash: session.result.commitment,
+            commitment: session.result.commitment,
+            attestation: session.result.attestation
           });
 
           console.log('[VerifyCallback] 💾 EVM verification result saved to local storage');
@@ -162,16 +164,18 @@ export const VerifyCallback: React.FC = () => {
           saveVerificationResult(provider, {
             score: session.result.score,
             criteria: session.result.criteria || [],
-            metadataHash: session.result.commitment || session.result.metadataHash,
-            commitment: session.result.commitment
+            metadataHash: session.result.commitment,
+            commitment: session.result.commitment,
+            attestation: session.result.attestation
           });
 
           // For Discord: Save session and profile (Propel-like behavior)
           if (provider === 'discord' && session.result.userId) {
-            const { saveSession, saveProfile } = await import('../lib/auth');
+            const { saveSession } = await import('../lib/auth');
             const userId = session.result.userId;
             const username = session.result.username || '';
-            const profile = session.result.profile;
+            // Discord profile fields are all strings
+            const profile = session.result.profile as Record<string, string | undefined> | undefined;
 
             // Create user object from Discord data
             const user = {
@@ -188,17 +192,6 @@ export const VerifyCallback: React.FC = () => {
             // Save session (this triggers onAuthStateChange callbacks - Propel pattern)
             saveSession({ user });
             console.log('[VerifyCallback] 💾 Discord session saved, onAuthStateChange callbacks triggered');
-
-            // Save profile to backend (Propel-like: auto-save after auth)
-            if (profile) {
-              await saveProfile({
-                id: userId,
-                user_id: userId,
-                discord_nickname: profile.discordNickname || username,
-                discord_avatar_url: profile.discordAvatarUrl || ''
-              });
-              console.log('[VerifyCallback] 💾 Discord profile saved to backend');
-            }
           }
 
           console.log(`[VerifyCallback] 💾 ${provider} verification result saved`);
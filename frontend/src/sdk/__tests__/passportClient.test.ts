@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PassportClient } from '../passportClient';
+import { deriveAppId, deriveChallengeField } from '../../lib/commitments';
+import { PROGRAM_ID } from '../../deployed_program';
+import { createChallenge } from '../../lib/challenge';
+import { checkNullifier, getNullifierRecord } from '../../utils/aleoAPI';
+import { getAleoSDKVerifier } from '../../utils/aleoSdkVerifier';
+import {
+  NULLIFIER,
+  acceptedProveAccessTx,
+  acceptedProveAccessTxWith,
+} from '../../utils/__tests__/fixtures/proveAccessTransactions';
+
+vi.mock('../../utils/aleoAPI', () => ({
+  checkNullifier: vi.fn(),
+  getNullifierRecord: vi.fn(),
+}));
+
+vi.mock('../../utils/aleoSdkVerifier', () => ({
+  getAleoSDKVerifier: vi.fn(),
+}));
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('PassportClient', () => {
+  const requestTransaction = vi.fn();
+  const requestExecution = vi.fn();
+  const wallet = {
+    adapter: { requestTransaction, requestExecution },
+    publicKey: 'aleo1test',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('requestProof', () => {
+    it('should send prove_access with derived app_id and min_score', async () => {
+      requestTransaction.mockResolvedValueOnce(acceptedProveAccessTx.transaction.id);
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => acceptedProveAccessTx,
+      });
+
+      const client = new PassportClient({ wallet, confirmationIntervalMs: 0 });
+      const response = await client.requestProof({ appId: 'myapp.xyz/prod', minScore: 40 });
+
+      const tx = requestTransaction.mock.calls[0][0];
+      expect(tx.transitions[0].program).toBe(PROGRAM_ID);
+      expect(tx.transitions[0].functionName).toBe('prove_access');
+      expect(tx.transitions[0].inputs).toEqual([
+        await deriveAppId('myapp.xyz/prod'), '40u64', '0field', '0u64', '0u32', '0u64', '0u32',
+      ]);
+
+      expect(response.nullifier).toBe(NULLIFIER);
+      expect(response.appId).toBe('myapp.xyz/prod');
+      expect(response.minScore).toBe(40);
+      expect(response.transactionId).toBe(acceptedProveAccessTx.transaction.id);
+    });
+
+    it('should return off-chain proof from wallet execution', async () => {
+      requestExecution.mockResolvedValueOnce({ proof: 'execution-json', publicOutputs: [NULLIFIER, true] });
+
+      const client = new PassportClient({ wallet });
+      const response = await client.requestProof({ appId: 'myapp.xyz/prod', minScore: 40, onChain: false });
+
+      expect(requestTransaction).not.toHaveBeenCalled();
+      expect(response.proof).toBe('execution-json');
+      expect(response.transactionId).toBeUndefined();
+    });
+
+    it('should bind the proof to the verifier challenge', async () => {
+      requestExecution.mockResolvedValueOnce({ proof: 'execution-json', publicOutputs: [NULLIFIER, true] });
+
+      const client = new PassportClient({ wallet });
+      const response = await client.requestProof({ appId: 'myapp.xyz/prod', minScore: 40, challenge: 'session-1', onChain: false });
+
+      const tx = requestExecution.mock.calls[0][0];
+      expect(tx.transitions[0].inputs[2]).toBe(await deriveChallengeField('session-1'));
+      expect(response.challenge).toBe('session-1');
+    });
+
+    it('should encode platform predicates as prove_access inputs', async () => {
+      requestExecution.mockResolvedValueOnce({ proof: 'execution-json', publicOutputs: [NULLIFIER, true] });
+      const predicates = [
+        { platforms: ['github'], minStamps: 1 },
+        { platforms: ['discord', 'telegram', 'solana'], minStamps: 2 },
+      ];
+
+      const client = new PassportClient({ wallet });
+      const response = await client.requestProof({ appId: 'myapp.xyz/prod', minScore: 40, predicates, onChain: false });
+
+      const tx = requestExecution.mock.calls[0][0];
+      expect(tx.transitions[0].inputs.slice(3)).toEqual(['8u64', '1u32', '146u64', '2u32']);
+      expect(response.predicates).toEqual(predicates);
+    });
+
+    it('should throw without wallet', async () => {
+      const client = new PassportClient();
+      await expect(client.requestProof({ appId: 'myapp.xyz/prod', minScore: 40 })).rejects.toThrow(/without a wallet/);
+    });
+  });
+
+  describe('verify', () => {
+    const response = {
+      proof: 'execution-json',
+      nullifier: NULLIFIER,
+      valid: true,
+      appId: 'myapp.xyz/prod',
+      minScore: 40,
+    };
+
+    it('should reject proof for another app', async () => {
+      const client = new PassportClient();
+      expect(await client.verify(response, { appId: 'other.xyz' })).toBe(false);
+    });
+
+    it('should reject proof below required score', async () => {
+      const client = new PassportClient();
+      expect(await client.verify(response, { minScore: 50 })).toBe(false);
+    });
+
+    it('should reject proof bound to another challenge', async () => {
+      const client = new PassportClient();
+      expect(await client.verify({ ...response, challenge: 'old-session' }, { challenge: 'new-session' })).toBe(false);
+      expect(await client.verify(response, { challenge: 'new-session' })).toBe(false);
+    });
+
+    it('should reject proof for other platform predicates', async () => {
+      const client = new PassportClient();
+      const predicates = [{ platforms: ['github'], minStamps: 1 }];
+      expect(await client.verify(response, { predicates })).toBe(false);
+    });
+
+    it('should reject invalid proof', async () => {
+      const client = new PassportClient();
+      expect(await client.verify({ ...response, valid: false })).toBe(false);
+    });
+
+    it('should verify an on-chain response by its transaction', async () => {
+      const challenge = createChallenge();
+      const appId = await deriveAppId('myapp.xyz/prod');
+      const tx = acceptedProveAccessTxWith('at1clientverify000000000000000000000000000000000000000000qq', {
+        appId,
+        challenge: await deriveChallengeField(challenge),
+      });
+      (global.fetch as any).mockResolvedValueOnce({ ok: true, json: async () => tx });
+      // finalize recorded the nullifier, as for every accepted on-chain proof
+      vi.mocked(checkNullifier).mockResolvedValue(true);
+      vi.mocked(getNullifierRecord).mockResolvedValueOnce({ nullifier: NULLIFIER, app_id: appId, used_at: 1 });
+
+      const onChain = {
+        ...response,
+        proof: 'proof1batchproof',
+        challenge,
+        predicates: [{ platforms: ['github'], minStamps: 1 }],
+        transactionId: tx.transaction.id,
+      };
+      const client = new PassportClient();
+
+      expect(await client.verify(onChain, { appId: 'myapp.xyz/prod', minScore: 40, challenge })).toBe(true);
+      expect(checkNullifier).not.toHaveBeenCalled();
+    });
+
+    it('should verify an off-chain response with the Aleo SDK', async () => {
+      const verifyPassportProof = vi.fn().mockResolvedValue(true);
+      vi.mocked(getAleoSDKVerifier).mockReturnValue({ verifyPassportProof } as any);
+      vi.mocked(checkNullifier).mockResolvedValueOnce(false);
+      const challenge = createChallenge();
+
+      const client = new PassportClient();
+
+      expect(await client.verify({ ...response, challenge }, { appId: 'myapp.xyz/prod', minScore: 40, challenge })).toBe(true);
+      expect(verifyPassportProof).toHaveBeenCalledWith(expect.objectContaining({ nullifier: NULLIFIER, challenge }));
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createProofRequestLink,
+  generateProofRequestKey,
+  parseProofRequestLink,
+  postProofToCallback,
+  proofRequestQrCode,
+  verifyProofRequestCallback,
+  verifyProofRequestSigner,
+  ProofRequestCallbackBody,
+} from '../proofRequestLink';
+import { NULLIFIER } from '../../utils/__tests__/fixtures/proveAccessTransactions';
+
+global.fetch = vi.fn();
+
+describe('proofRequestLink', () => {
+  const key = generateProofRequestKey();
+  const params = {
+    appId: 'myapp.xyz/prod',
+    minScore: 40,
+    callback: 'https://api.myapp.xyz/zkpersona/callback',
+    nonce: 'nonce-123',
+    walletUrl: 'https://zk-persona.vercel.app',
+  };
+  const proof = {
+    proof: 'execution-json',
+    nullifier: NULLIFIER,
+    valid: true,
+    appId: 'myapp.xyz/prod',
+    minScore: 40,
+    challenge: 'nonce-123',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should round-trip a signed request', () => {
+    const link = createProofRequestLink(params, key.secretKey);
+    expect(link.startsWith('https://zk-persona.vercel.app/proof-request?payload=')).toBe(true);
+
+    const { payload } = parseProofRequestLink(link);
+    expect(payload.appId).toBe('myapp.xyz/prod');
+    expect(payload.minScore).toBe(40);
+    expect(payload.callback).toBe(params.callback);
+    expect(payload.nonce).toBe('nonce-123');
+    expect(payload.signer).toBe(key.publicKey);
+  });
+
+  it('should reject a tampered payload', () => {
+    const link = createProofRequestLink(params, key.secretKey);
+    const other = createProofRequestLink({ ...params, minScore: 0 }, generateProofRequestKey().secretKey);
+    const tampered = `${link.split('&sig=')[0]}&sig=${other.split('&sig=')[1]}`;
+
+    expect(() => parseProofRequestLink(tampered)).toThrow(/signature is invalid/);
+  });
+
+  it('should use an expiring challenge as default nonce', () => {
+    const { payload } = parseProofRequestLink(createProofRequestLink({ ...params, nonce: undefined, ttlSeconds: 60 }, key.secretKey));
+    expect(payload.nonce).toMatch(new RegExp(`^${payload.expiresAt}\\.[0-9a-f]{32}$`));
+  });
+
+  it('should reject an expired request', () => {
+    const link = createProofRequestLink({ ...params, ttlSeconds: 60 }, key.secretKey);
+    expect(() => parseProofRequestLink(link, Date.now() + 61_000)).toThrow(/expired/);
+  });
+
+  it('should reject non-HTTPS callbacks and invalid scores', () => {
+    expect(() => createProofRequestLink({ ...params, callback: 'http://myapp.xyz/cb' }, key.secretKey)).toThrow(/HTTPS/);
+    expect(() => createProofRequestLink({ ...params, minScore: 101 }, key.secretKey)).toThrow(/minScore/);
+    expect(() => createProofRequestLink({ ...params, appId: 'localhost:3000/dev', callback: 'http://localhost:3000/cb' }, key.secretKey)).not.toThrow();
+  });
+
+  it('should only accept callbacks on the domain of the appId', () => {
+    expect(() => createProofRequestLink({ ...params, callback: 'https://attacker.xyz/cb' }, key.secretKey)).toThrow(/app's domain \(myapp\.xyz\)/);
+    expect(() => createProofRequestLink({ ...params, callback: 'https://evilmyapp.xyz/cb' }, key.secretKey)).toThrow(/app's domain/);
+    expect(() => createProofRequestLink({ ...params, appId: 'myapp', callback: 'https://attacker.xyz/cb' }, key.secretKey)).toThrow(/appId must start with the app's domain/);
+    expect(() => createProofRequestLink({ ...params, callback: 'https://myapp.xyz/cb' }, key.secretKey)).not.toThrow();
+  });
+
+  it('should only accept signers the app publishes', async () => {
+    const request = parseProofRequestLink(createProofRequestLink(params, key.secretKey));
+    (global.fetch as any).mockResolvedValueOnce({ ok: true, json: async () => ({ keys: [key.publicKey] }) });
+
+    await expect(verifyProofRequestSigner(request)).resolves.toBeUndefined();
+    expect((global.fetch as any).mock.calls[0][0]).toBe('https://myapp.xyz/.well-known/zkpersona-proof-request.json');
+
+    // Signed with the attacker's own key for the victim's appId
+    const forged = parseProofRequestLink(createProofRequestLink(params, generateProofRequestKey().secretKey));
+    (global.fetch as any).mockResolvedValueOnce({ ok: true, json: async () => ({ keys: [key.publicKey] }) });
+    await expect(verifyProofRequestSigner(forged)).rejects.toThrow(/not signed by a key of myapp\.xyz/);
+
+    (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 404 });
+    await expect(verifyProofRequestSigner(request)).rejects.toThrow(/Could not load the proof request keys of myapp\.xyz: HTTP 404/);
+  });
+
+  it('should throw on missing parameters', () => {
+    expect(() => parseProofRequestLink('https://zk-persona.vercel.app/proof-request')).toThrow(/missing/);
+  });
+
+  it('should encode the link as a QR data URL', async () => {
+    const link = createProofRequestLink(params, key.secretKey);
+    const qr = await proofRequestQrCode(link);
+    expect(qr.startsWith('data:image/png;base64,')).toBe(true);
+  });
+
+  it('should post the proof and let the dApp verify the callback body', async () => {
+    (global.fetch as any).mockResolvedValueOnce({ ok: true });
+    const request = parseProofRequestLink(createProofRequestLink(params, key.secretKey));
+
+    await postProofToCallback(request, proof);
+
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe(params.callback);
+    const body: ProofRequestCallbackBody = JSON.parse(init.body);
+    expect(body.nonce).toBe('nonce-123');
+    expect(verifyProofRequestCallback(body, key.publicKey)?.nonce).toBe('nonce-123');
+    expect(verifyProofRequestCallback(body, generateProofRequestKey().publicKey)).toBeNull();
+    expect(verifyProofRequestCallback({ ...body, proof: { ...proof, minScore: 10 } }, key.publicKey)).toBeNull();
+    expect(verifyProofRequestCallback({ ...body, proof: { ...proof, challenge: 'other' } }, key.publicKey)).toBeNull();
+  });
+
+  it('should throw when the callback rejects the proof', async () => {
+    (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 400 });
+    const request = parseProofRequestLink(createProofRequestLink(params, key.secretKey));
+
+    await expect(postProofToCallback(request, proof)).rejects.toThrow(/400/);
+  });
+});
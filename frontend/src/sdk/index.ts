@@ -0,0 +1,56 @@
+// ============================================================================
+// ZK PASSPORT - dApp SDK entry point
+// ============================================================================
+// Public surface for third-party dApps (built with `npm run build:sdk`).
+// No React dependency - works with any wallet adapter exposing requestTransaction.
+// ============================================================================
+
+export {
+    PassportClient,
+    requestPassportProof,
+} from "./passportClient";
+export type {
+    PassportClientOptions,
+    PassportWallet,
+    PassportWalletAdapter,
+    ProofRequestParams,
+} from "./passportClient";
+
+export {
+    createProofRequestLink,
+    generateProofRequestKey,
+    parseProofRequestLink,
+    proofRequestQrCode,
+    verifyProofRequestCallback,
+    verifyProofRequestSigner,
+    PROOF_REQUEST_KEYS_PATH,
+    PROOF_REQUEST_PATH,
+} from "./proofRequestLink";
+export type {
+    CreateProofRequestParams,
+    ParsedProofRequest,
+    ProofRequestCallbackBody,
+    ProofRequestPayload,
+    ProofRequestSigningKey,
+} from "./proofRequestLink";
+
+export type {
+    PlatformPredicate,
+    PassportProofRequest,
+    PassportProofResponse,
+    PassportVerificationInput,
+} from "../types/proofRequest";
+
+export { TransactionTracker } from "../lib/transactionTracker";
+export type {
+    TrackedTransaction,
+    TrackedTransactionStatus,
+    TransactionTrackerOptions,
+    TransactionWalletAdapter,
+} from "../lib/transactionTracker";
+
+export { PassportProofVerifier, verifyPassportProof, verifyNullifierUniqueness } from "../utils/verifier";
+export { deriveAppId, deriveChallengeField } from "../lib/commitments";
+export { createChallenge, isChallengeExpired } from "../lib/challenge";
+export { encodePlatformPredicates, MAX_PLATFORM_PREDICATES } from "../lib/predicates";
+export { PROGRAM_ID } from "../deployed_program";
@@ -0,0 +1,258 @@
+// ============================================================================
+// ZK PASSPORT - dApp Client (framework-agnostic)
+// ============================================================================
+// Lets third-party dApps request and verify passport proofs without React.
+//
+// The same request/response types as the ZkPersona app are used
+// (types/proofRequest.ts), so proofs are interchangeable between them.
+//
+// PRIVACY: The client only builds the public inputs (app_id, min_score).
+// The wallet executes prove_access locally with the private records.
+// ============================================================================
+
+import { WalletAdapterNetwork, Transaction } from "@demox-labs/aleo-wallet-adapter-base";
+import { PROGRAM_ID } from "../deployed_program";
+import { deriveAppId, deriveChallengeField } from "../lib/commitments";
+import { encodePlatformPredicates, platformPredicatesEqual } from "../lib/predicates";
+import { PassportProofRequest, PassportProofResponse } from "../types/proofRequest";
+import { TransactionTracker, TransactionWalletAdapter } from "../lib/transactionTracker";
+import { checkNullifier } from "../utils/aleoAPI";
+import { extractProofFromTransaction, extractProofFromConfirmedTransaction, extractProofFromExecution } from "../utils/proofExtractor";
+import { PassportProofVerifier } from "../utils/verifier";
+
+/**
+ * Wallet adapter methods used for proof generation
+ * (Leo Wallet / Puzzle adapters expose these on wallet.adapter)
+ */
+export type PassportWalletAdapter = TransactionWalletAdapter & {
+    requestTransaction?: (tx: Transaction) => Promise<string>;
+    requestExecution?: (tx: Transaction) => Promise<{ proof: string; publicOutputs: any[] }>;
+    requestRecords?: (programId: string) => Promise<any[]>;
+};
+
+/**
+ * Connected wallet: adapter + account address
+ */
+export interface PassportWallet {
+    adapter: PassportWalletAdapter;
+    publicKey: string;
+}
+
+/**
+ * What a dApp asks for (program/function are filled in by the client)
+ */
+export type ProofRequestParams = Pick<PassportProofRequest, "appId" | "minScore" | "predicates" | "challenge" | "onChain">;
+
+export interface PassportClientOptions {
+    wallet?: PassportWallet;              // Required for requestProof, not for verify
+    programId?: string;                   // Default: deployed PROGRAM_ID
+    network?: WalletAdapterNetwork;       // Default: TestnetBeta
+    fee?: number;                         // prove_access fee in microcredits (default: 50000)
+    confirmationAttempts?: number;        // Explorer lookups for on-chain proofs (default: 20)
+    confirmationIntervalMs?: number;      // Delay between lookups (default: 3000)
+    tracker?: TransactionTracker;         // Follows on-chain proofs instead (e.g. the app's shared tracker with backoff)
+}
+
+const DEFAULT_FEE = 50000;
+const DEFAULT_CONFIRMATION_ATTEMPTS = 20;
+const DEFAULT_CONFIRMATION_INTERVAL_MS = 3000;
+
+/**
+ * Generate a passport proof with the given wallet
+ *
+ * PRIVACY FLOW:
+ * 1. Client sends proof request to wallet (app_id, min_score, challenge, platform predicates)
+ * 2. Wallet internally reads passport + stamp records (NOT exposed to the dApp)
+ * 3. Wallet executes prove_access locally and generates the proof
+ * 4. Only public outputs (proof + nullifier) are returned
+ *
+ * @param wallet - Connected wallet
+ * @param request - App identifier, minimum score, optional predicates and challenge, on-chain flag (default: true)
+ * @param options - Program, network, fee and confirmation polling
+ * @returns Proof response (NO private data)
+ */
+export async function requestPassportProof(
+    wallet: PassportWallet,
+    request: ProofRequestParams,
+    options: Omit<PassportClientOptions, "wallet"> = {}
+): Promise<PassportProofResponse> {
+    const { adapter, publicKey } = wallet;
+    if (!publicKey || !adapter?.requestTransaction) {
+        throw new Error("Wallet not connected");
+    }
+
+    const programId = options.programId ?? PROGRAM_ID;
+    const onChain = request.onChain ?? true;
+
+    // Public inputs only - private input (passport) comes from wallet records
+    const appIdField = await deriveAppId(request.appId);
+    const minScore = `${request.minScore}u64`;
+    const challenge = await deriveChallengeField(request.challenge);
+    const predicates = encodePlatformPredicates(request.predicates);
+
+    const transaction = Transaction.createTransaction(
+        publicKey,
+        options.network ?? WalletAdapterNetwork.TestnetBeta,
+        programId,
+        "prove_access",
+        [appIdField, minScore, challenge, ...predicates],
+        options.fee ?? DEFAULT_FEE,
+        false   // private execution (executes locally in wallet)
+    );
+
+    if (onChain) {
+        // Execute on-chain - records nullifier in finalize
+        const requestId = await adapter.requestTransaction(transaction);
+        if (!requestId) {
+            throw new Error("Wallet did not return a transaction ID");
+        }
+
+        // Wallets may return a request ID; the tracker resolves the at1... ID and waits for finalize
+        const intervalMs = options.confirmationIntervalMs ?? DEFAULT_CONFIRMATION_INTERVAL_MS;
+        const tracker = options.tracker ?? new TransactionTracker({
+            storage: null,
+            initialDelayMs: intervalMs,
+            maxDelayMs: intervalMs,
+            maxAttempts: options.confirmationAttempts ?? DEFAULT_CONFIRMATION_ATTEMPTS,
+        });
+        const settled = await tracker.track(requestId, { programId, functionName: "prove_access", address: publicKey }, adapter);
+        const txId = settled.transactionId ?? requestId;
+        if (settled.status === "expired") {
+            throw new Error(`Transaction ${txId} not confirmed yet. Verify it later with verifyWithTransaction.`);
+        }
+        if (settled.status !== "accepted") {
+            // e.g. rejected because the nullifier was already used
+            throw new Error(settled.error ?? `Transaction ${txId} was ${settled.status}`);
+        }
+
+        const confirmed = tracker.getConfirmed(requestId);
+        const extracted = confirmed
+            ? extractProofFromConfirmedTransaction(confirmed, programId)
+            : await extractProofFromTransaction(txId, { programId });
+        if (!extracted) {
+            throw new Error(`Transaction ${txId} not confirmed yet. Verify it later with verifyWithTransaction.`);
+        }
+
+        return {
+            proof: extracted.proof,
+            nullifier: extracted.nullifier,
+            valid: true,
+            appId: request.appId,
+            minScore: request.minScore,
+            predicates: request.predicates,
+            challenge: request.challenge,
+            transactionId: txId,
+        };
+    }
+
+    // Off-chain: wallet executes prove_access locally without submitting it
+    if (!adapter.requestExecution) {
+        throw new Error("Off-chain proof generation requires wallet support. Use onChain=true for now.");
+    }
+
+    const result = await adapter.requestExecution(transaction);
+    const extracted = extractProofFromExecution(result);
+    if (!extracted) {
+        throw new Error("Wallet returned an invalid prove_access execution");
+    }
+
+    return {
+        proof: extracted.proof,
+        nullifier: extracted.nullifier,
+        valid: true,
+        appId: request.appId,
+        minScore: request.minScore,
+        predicates: request.predicates,
+        challenge: request.challenge,
+    };
+}
+
+/**
+ * Passport client for dApps
+ *
+ * @example
+ * const client = new PassportClient({ wallet: { adapter, publicKey } });
+ * const response = await client.requestProof({ appId: "myapp.xyz/prod", minScore: 40 });
+ * // ...send response to your backend, which runs:
+ * const ok = await new PassportClient().verify(response, { appId: "myapp.xyz/prod", minScore: 40 });
+ */
+export class PassportClient {
+    private options: PassportClientOptions;
+    private verifier: PassportProofVerifier;
+
+    constructor(options: PassportClientOptions = {}) {
+        this.options = options;
+        this.verifier = new PassportProofVerifier(options.programId ?? PROGRAM_ID);
+    }
+
+    /**
+     * Ask the connected wallet for a proof
+     */
+    async requestProof(request: ProofRequestParams): Promise<PassportProofResponse> {
+        const { wallet, ...options } = this.options;
+        if (!wallet) {
+            throw new Error("PassportClient was created without a wallet");
+        }
+        return requestPassportProof(wallet, request, options);
+    }
+
+    /**
+     * Verify a proof response
+     *
+     * Pass `expected` with your own app identifier, score requirement, platform
+     * predicates and the challenge you issued for this session - these values
+     * inside the response come from the user and are not trusted alone.
+     * Responses with a transactionId (on-chain proofs) are checked against that
+     * transaction, whose finalize recorded the nullifier; off-chain proofs with the Aleo SDK.
+     *
+     * @returns true if the proof is valid for the expected app, score, predicates and challenge
+     */
+    async verify(
+        response: PassportProofResponse,
+        expected?: Partial<Pick<ProofRequestParams, "appId" | "minScore" | "predicates" | "challenge">>
+    ): Promise<boolean> {
+        if (!response.valid) {
+            return false;
+        }
+        if (expected?.appId !== undefined && response.appId !== expected.appId) {
+            console.warn("[PassportClient] Proof was requested for another app");
+            return false;
+        }
+        if (expected?.minScore !== undefined && response.minScore < expected.minScore) {
+            console.warn("[PassportClient] Proof min_score is below requirement");
+            return false;
+        }
+        if (expected?.predicates !== undefined && !platformPredicatesEqual(response.predicates, expected.predicates)) {
+            console.warn("[PassportClient] Proof was generated for other platform predicates");
+            return false;
+        }
+        if (expected?.challenge !== undefined && response.challenge !== expected.challenge) {
+            console.warn("[PassportClient] Proof is bound to another challenge");
+            return false;
+        }
+
+        return this.verifier.verify({
+            proof: response.proof,
+            nullifier: response.nullifier,
+            appId: response.appId,
+            minScore: response.minScore,
+            predicates: response.predicates,
+            challenge: response.challenge,
+            transactionId: response.transactionId,
+        });
+    }
+
+    /**
+     * Check if nullifier is already recorded on-chain
+     */
+    async isNullifierUsed(nullifier: string): Promise<boolean> {
+        return checkNullifier(nullifier, this.options.programId ?? PROGRAM_ID);
+    }
+
+    /**
+     * Check that nullifier has not been used yet (safe default: false on errors)
+     */
+    async checkNullifierUniqueness(nullifier: string): Promise<boolean> {
+        return this.verifier.checkNullifierUniqueness(nullifier);
+    }
+}
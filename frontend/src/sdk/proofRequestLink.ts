@@ -0,0 +1,346 @@
+// ============================================================================
+// ZK PASSPORT - Proof Request Links (deep-link + QR protocol)
+// ============================================================================
+// Lets an external site ask a ZkPersona user for a proof.
+//
+// FORMAT:
+//   https://<zkpersona>/proof-request?payload=<base64url(JSON)>&sig=<base64url(ed25519)>
+//
+// The payload carries appId, minScore, optional platform predicates, callback URL,
+// expiry and nonce plus the
+// dApp's Ed25519 public key. The signature covers the exact payload bytes, so
+// the request cannot be altered (e.g. a lower minScore or another callback).
+// The QR code encodes the same URL, so mobile users can scan and respond.
+//
+// A valid signature alone proves nothing (anyone can sign with their own key),
+// so the signer is bound to the app:
+// - appId starts with the app's domain ("myapp.xyz/prod") and the callback must
+//   be on that domain
+// - the signer key must be listed at https://<domain>/.well-known/zkpersona-proof-request.json
+//   ({ "keys": ["<base64url public key>"] }), checked with verifyProofRequestSigner
+//
+// After the user approves, ZkPersona POSTs a ProofRequestCallbackBody to the
+// callback URL. The proof is bound to the nonce (prove_access challenge), so it
+// cannot be replayed for another request. The dApp must still verify the proof
+// (PassportClient.verify with the nonce as expected challenge).
+// ============================================================================
+
+import nacl from "tweetnacl";
+import QRCode from "qrcode";
+import { createChallenge } from "../lib/challenge";
+import { encodePlatformPredicates, platformPredicatesEqual, PlatformPredicate } from "../lib/predicates";
+import { PassportProofResponse } from "../types/proofRequest";
+
+export const PROOF_REQUEST_VERSION = 1;
+export const PROOF_REQUEST_PATH = "/proof-request";
+export const DEFAULT_WALLET_URL = "https://zk-persona.vercel.app";
+export const PROOF_REQUEST_KEYS_PATH = "/.well-known/zkpersona-proof-request.json";
+const DEFAULT_TTL_SECONDS = 10 * 60;
+
+/**
+ * Signed part of a proof request link
+ */
+export interface ProofRequestPayload {
+    v: number;
+    appId: string;       // "<app domain>/<name>" (hashed with deriveAppId by the wallet)
+    minScore: number;    // 0-100
+    predicates?: PlatformPredicate[];  // Optional platform predicates (lib/predicates.ts)
+    callback: string;    // HTTPS URL the proof is POSTed to
+    expiresAt: number;   // Unix timestamp (seconds)
+    nonce: string;       // Challenge the proof is bound to, echoed back in the callback body
+    signer: string;      // dApp Ed25519 public key (base64url)
+}
+
+/**
+ * Parsed and signature-checked proof request
+ */
+export interface ParsedProofRequest {
+    payload: ProofRequestPayload;
+    encodedPayload: string;   // Exactly as signed (echoed back to the dApp)
+    signature: string;
+}
+
+/**
+ * Body POSTed to the callback URL
+ */
+export interface ProofRequestCallbackBody {
+    nonce: string;
+    payload: string;     // Original base64url payload (lets the dApp match its request)
+    signature: string;
+    proof: PassportProofResponse;
+}
+
+export interface ProofRequestSigningKey {
+    publicKey: string;   // base64url
+    secretKey: string;   // base64url - keep on the dApp server
+}
+
+export interface CreateProofRequestParams {
+    appId: string;
+    minScore: number;
+    predicates?: PlatformPredicate[];
+    callback: string;
+    ttlSeconds?: number;   // Default: 10 minutes
+    nonce?: string;        // Default: createChallenge(ttlSeconds)
+    walletUrl?: string;    // Default: DEFAULT_WALLET_URL
+}
+
+/**
+ * Generate an Ed25519 key pair for signing proof requests
+ */
+export function generateProofRequestKey(): ProofRequestSigningKey {
+    const keyPair = nacl.sign.keyPair();
+    return {
+        publicKey: toBase64Url(keyPair.publicKey),
+        secretKey: toBase64Url(keyPair.secretKey),
+    };
+}
+
+/**
+ * Create a signed proof request link
+ *
+ * @param params - What the dApp asks for and where the proof goes
+ * @param secretKey - dApp signing key (base64url, from generateProofRequestKey)
+ * @returns Deep link to the ZkPersona proof request page
+ */
+export function createProofRequestLink(params: CreateProofRequestParams, secretKey: string): string {
+    const keyBytes = fromBase64Url(secretKey);
+    const keyPair = nacl.sign.keyPair.fromSecretKey(keyBytes);
+    const ttlSeconds = params.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+
+    const payload: ProofRequestPayload = {
+        v: PROOF_REQUEST_VERSION,
+        appId: params.appId,
+        minScore: params.minScore,
+        ...(params.predicates?.length ? { predicates: params.predicates } : {}),
+        callback: params.callback,
+        expiresAt: Math.floor(Date.now() / 1000) + ttlSeconds,
+        nonce: params.nonce ?? createChallenge(ttlSeconds),
+        signer: toBase64Url(keyPair.publicKey),
+    };
+
+    const validationError = validatePayload(payload);
+    if (validationError) {
+        throw new Error(validationError);
+    }
+
+    // Copy into a plain Uint8Array: tweetnacl rejects arrays from another realm (e.g. jsdom)
+    const payloadBytes = Uint8Array.from(new TextEncoder().encode(JSON.stringify(payload)));
+    const signature = nacl.sign.detached(payloadBytes, keyPair.secretKey);
+
+    const url = new URL(PROOF_REQUEST_PATH, params.walletUrl ?? DEFAULT_WALLET_URL);
+    url.searchParams.set("payload", toBase64Url(payloadBytes));
+    url.searchParams.set("sig", toBase64Url(signature));
+    return url.toString();
+}
+
+/**
+ * Parse and check a proof request link
+ *
+ * Throws if the link is malformed, the signature is invalid or the request expired.
+ *
+ * @param link - Full URL or its query string
+ * @param now - Current time in ms (for tests)
+ */
+export function parseProofRequestLink(link: string, now: number = Date.now()): ParsedProofRequest {
+    const query = link.includes("?") ? link.slice(link.indexOf("?")) : link;
+    const params = new URLSearchParams(query);
+    const encodedPayload = params.get("payload");
+    const signature = params.get("sig");
+    if (!encodedPayload || !signature) {
+        throw new Error("Proof request is missing payload or signature");
+    }
+
+    let payloadBytes: Uint8Array;
+    let payload: ProofRequestPayload;
+    try {
+        payloadBytes = fromBase64Url(encodedPayload);
+        payload = JSON.parse(new TextDecoder().decode(payloadBytes));
+    } catch {
+        throw new Error("Proof request payload is not valid JSON");
+    }
+
+    if (payload?.v !== PROOF_REQUEST_VERSION) {
+        throw new Error(`Unsupported proof request version: ${payload?.v}`);
+    }
+    const validationError = validatePayload(payload);
+    if (validationError) {
+        throw new Error(validationError);
+    }
+
+    let signatureValid = false;
+    try {
+        signatureValid = nacl.sign.detached.verify(
+            payloadBytes,
+            fromBase64Url(signature),
+            fromBase64Url(payload.signer)
+        );
+    } catch {
+        signatureValid = false;
+    }
+    if (!signatureValid) {
+        throw new Error("Proof request signature is invalid");
+    }
+
+    if (payload.expiresAt * 1000 <= now) {
+        throw new Error("Proof request has expired");
+    }
+
+    return { payload, encodedPayload, signature };
+}
+
+/**
+ * Check that the request's signer is a key the app published
+ *
+ * Fetches the keys listed at PROOF_REQUEST_KEYS_PATH on the appId's domain.
+ * Throws if they cannot be fetched or do not include the signer.
+ */
+export async function verifyProofRequestSigner(request: ParsedProofRequest): Promise<void> {
+    const origin = appOrigin(request.payload.appId);
+    const host = new URL(origin).host;
+    let keys: unknown;
+    try {
+        const response = await fetch(`${origin}${PROOF_REQUEST_KEYS_PATH}`, { headers: { Accept: "application/json" } });
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        keys = (await response.json())?.keys;
+    } catch (error) {
+        throw new Error(`Could not load the proof request keys of ${host}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!Array.isArray(keys) || !keys.includes(request.payload.signer)) {
+        throw new Error(`Proof request is not signed by a key of ${host}`);
+    }
+}
+
+/**
+ * Encode a proof request link as a QR code (PNG data URL)
+ */
+export async function proofRequestQrCode(link: string): Promise<string> {
+    return QRCode.toDataURL(link, { errorCorrectionLevel: "M", margin: 1, width: 320 });
+}
+
+/**
+ * POST a proof to the callback URL of a parsed request
+ */
+export async function postProofToCallback(
+    request: ParsedProofRequest,
+    proof: PassportProofResponse
+): Promise<void> {
+    const body: ProofRequestCallbackBody = {
+        nonce: request.payload.nonce,
+        payload: request.encodedPayload,
+        signature: request.signature,
+        proof,
+    };
+
+    const response = await fetch(request.payload.callback, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+        throw new Error(`Callback responded with ${response.status}`);
+    }
+}
+
+/**
+ * Check that a callback body answers a request this dApp signed
+ *
+ * Verifies the dApp's own signature on the echoed payload and that the proof
+ * was generated for the requested appId/minScore/predicates and bound to the nonce as its
+ * challenge. The proof itself still has to be verified with PassportClient.verify.
+ */
+export function verifyProofRequestCallback(
+    body: ProofRequestCallbackBody,
+    publicKey: string
+): ProofRequestPayload | null {
+    try {
+        const payloadBytes = fromBase64Url(body.payload);
+        const valid = nacl.sign.detached.verify(payloadBytes, fromBase64Url(body.signature), fromBase64Url(publicKey));
+        if (!valid) return null;
+
+        const payload: ProofRequestPayload = JSON.parse(new TextDecoder().decode(payloadBytes));
+        if (payload.signer !== publicKey || payload.nonce !== body.nonce) return null;
+        if (body.proof.appId !== payload.appId || body.proof.minScore < payload.minScore) return null;
+        if (!platformPredicatesEqual(body.proof.predicates, payload.predicates)) return null;
+        if (body.proof.challenge !== payload.nonce) return null;
+        return payload;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Return an error message for an invalid payload, null if it is valid
+ */
+function validatePayload(payload: ProofRequestPayload): string | null {
+    if (typeof payload.appId !== "string" || payload.appId.trim() === "") {
+        return "Proof request appId is required";
+    }
+    if (!Number.isInteger(payload.minScore) || payload.minScore < 0 || payload.minScore > 100) {
+        return "Proof request minScore must be an integer between 0 and 100";
+    }
+    try {
+        encodePlatformPredicates(payload.predicates);
+    } catch (error) {
+        return `Proof request predicates are invalid: ${error instanceof Error ? error.message : error}`;
+    }
+    if (typeof payload.nonce !== "string" || payload.nonce === "") {
+        return "Proof request nonce is required";
+    }
+    if (!Number.isInteger(payload.expiresAt)) {
+        return "Proof request expiry is invalid";
+    }
+
+    let app: URL;
+    try {
+        app = new URL(appOrigin(payload.appId));
+    } catch {
+        app = new URL("https://invalid");
+    }
+    if (!app.hostname.includes(".") && !isLocalhost(app.hostname)) {
+        return "Proof request appId must start with the app's domain (e.g. \"myapp.xyz/prod\")";
+    }
+
+    let callback: URL;
+    try {
+        callback = new URL(payload.callback);
+    } catch {
+        return "Proof request callback is not a valid URL";
+    }
+    if (callback.protocol !== "https:" && !(isLocalhost(callback.hostname) && callback.protocol === "http:")) {
+        return "Proof request callback must use HTTPS";
+    }
+    if (callback.hostname !== app.hostname && !callback.hostname.endsWith(`.${app.hostname}`)) {
+        return `Proof request callback must be on the app's domain (${app.hostname})`;
+    }
+    return null;
+}
+
+function isLocalhost(hostname: string): boolean {
+    return hostname === "localhost" || hostname === "127.0.0.1";
+}
+
+/**
+ * Origin of the app an appId belongs to ("myapp.xyz/prod" -> "https://myapp.xyz")
+ */
+function appOrigin(appId: string): string {
+    const host = appId.split("/")[0].toLowerCase();
+    const protocol = isLocalhost(host.split(":")[0]) ? "http:" : "https:";
+    return new URL(`${protocol}//${host}`).origin;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = "";
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
@@ -1,15 +1,21 @@
 // Verification service for checking social networks and calculating scores
 
-export interface VerificationCriteria {
-  condition: string;
-  points: number;
-  description: string;
-}
+import { PLATFORM_LIST, PlatformKey } from '../lib/platforms';
+import {
+  CriterionExplanation,
+  VerificationCriteria,
+  calculatePlatformScore,
+  getScoringRules,
+  yearsSince
+} from '../lib/scoring';
+
+export type { VerificationCriteria };
 
 export interface VerificationResult {
   verified: boolean;
   score: number;
   criteria: VerificationCriteria[];
+  explanations?: CriterionExplanation[]; // Outcome of every scoring rule (lib/scoring.ts)
   data?: any; // Provider-specific data
 }
 
@@ -41,45 +47,17 @@ export const verifyGoogle = async (accessToken: string): Promise<VerificationRes
     }
 
     const userData = await response.json();
-    const criteria: VerificationCriteria[] = [];
-    let score = 0;
-
-    // Criteria 1: Account exists
-    if (userData.id) {
-      criteria.push({
-        condition: 'Account exists and is active',
-        points: 5,
-        description: 'Verified Google account'
-      });
-      score += 5;
-    }
 
-    // Criteria 2: Email verified
-    if (userData.verified_email) {
-      criteria.push({
-        condition: 'Email is verified',
-        points: 5,
-        description: 'Email address is confirmed'
-      });
-      score += 5;
-    }
+    // Google API doesn't provide the creation date; the age criterion only scores if present
+    const scoring = calculatePlatformScore('google', {
+      id: userData.sub ?? userData.id,
+      emailVerified: userData.email_verified ?? userData.verified_email,
+      accountAgeYears: yearsSince(userData.created_at)
+    });
 
-    // Criteria 3: Account age (proxy: verified email = likely old account)
-    // Google API doesn't provide creation date directly
-    // Using email_verified as proxy: verified accounts are typically older
-    if (userData.email_verified) {
-      criteria.push({
-        condition: 'Account age ≥ 1 year',
-        points: 5,
-        description: 'Long-term account (verified email proxy)'
-      });
-      score += 5;
-    }
-    
     return {
       verified: true,
-      score: Math.min(score, 15), // Max 15 points for Google
-      criteria,
+      ...scoring,
       data: userData
     };
   } catch (error) {
@@ -112,68 +90,16 @@ export const verifyTwitter = async (accessToken: string): Promise<VerificationRe
 
     const data = await response.json();
     const userData = data.data;
-    const criteria: VerificationCriteria[] = [];
-    let score = 0;
-
-    // Criteria 1: Account exists
-    if (userData?.id) {
-      criteria.push({
-        condition: 'Account exists',
-        points: 5,
-        description: 'Active Twitter/X account'
-      });
-      score += 5;
-    }
-
-    // Criteria 2: Account age (2+ years)
-    if (userData?.created_at) {
-      const createdDate = new Date(userData.created_at);
-      const ageInYears = (Date.now() - createdDate.getTime()) / (1000 * 60 * 60 * 24 * 365);
-      
-      if (ageInYears >= 2) {
-        criteria.push({
-          condition: 'Account age ≥ 2 years',
-          points: 10,
-          description: 'Account created more than 2 years ago'
-        });
-        score += 10;
-      } else if (ageInYears >= 1) {
-        criteria.push({
-          condition: 'Account age ≥ 1 year',
-          points: 5,
-          description: 'Account created more than 1 year ago'
-        });
-        score += 5;
-      }
-    }
-
-    // Criteria 3: Activity (tweets, followers)
-    if (userData?.public_metrics) {
-      const metrics = userData.public_metrics;
-      
-      if (metrics.tweet_count >= 100) {
-        criteria.push({
-          condition: '≥ 100 tweets',
-          points: 5,
-          description: 'Active account with 100+ tweets'
-        });
-        score += 5;
-      }
-
-      if (metrics.followers_count >= 10) {
-        criteria.push({
-          condition: '≥ 10 followers',
-          points: 5,
-          description: 'Account has followers'
-        });
-        score += 5;
-      }
-    }
+    const scoring = calculatePlatformScore('twitter', {
+      id: userData?.id,
+      accountAgeYears: yearsSince(userData?.created_at),
+      tweetCount: userData?.public_metrics?.tweet_count,
+      followersCount: userData?.public_metrics?.followers_count
+    });
 
     return {
       verified: true,
-      score: Math.min(score, 30), // Max 30 points for Twitter
-      criteria,
+      ...scoring,
       data: userData
     };
   } catch (error) {
@@ -204,78 +130,25 @@ export const verifyGitHub = async (accessToken: string): Promise<VerificationRes
     }
 
     const userData = await response.json();
-    const criteria: VerificationCriteria[] = [];
-    let score = 0;
-
-    // Criteria 1: Account exists
-    if (userData.id) {
-      criteria.push({
-        condition: 'Account exists',
-        points: 5,
-        description: 'Active GitHub account'
-      });
-      score += 5;
-    }
 
-    // Criteria 2: Public repositories
     const reposResponse = await fetch(`https://api.github.com/user/repos?per_page=100&type=public`, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Accept': 'application/vnd.github.v3+json'
       }
     });
+    const repos: any[] | undefined = reposResponse.ok ? await reposResponse.json() : undefined;
 
-    if (reposResponse.ok) {
-      const repos = await reposResponse.json();
-      const repoCount = repos.length;
-
-      if (repoCount >= 10) {
-        criteria.push({
-          condition: '≥ 10 public repositories',
-          points: 10,
-          description: 'Active open source contributor'
-        });
-        score += 10;
-      } else if (repoCount >= 5) {
-        criteria.push({
-          condition: '≥ 5 public repositories',
-          points: 5,
-          description: 'Has public repositories'
-        });
-        score += 5;
-      }
-
-      // Criteria 3: Contributions (stars, forks)
-      const totalStars = repos.reduce((sum: number, repo: any) => sum + (repo.stargazers_count || 0), 0);
-      if (totalStars >= 50) {
-        criteria.push({
-          condition: '≥ 50 total stars',
-          points: 5,
-          description: 'Repositories have received stars'
-        });
-        score += 5;
-      }
-    }
-
-    // Criteria 4: Account age
-    if (userData.created_at) {
-      const createdDate = new Date(userData.created_at);
-      const ageInYears = (Date.now() - createdDate.getTime()) / (1000 * 60 * 60 * 24 * 365);
-      
-      if (ageInYears >= 2) {
-        criteria.push({
-          condition: 'Account age ≥ 2 years',
-          points: 5,
-          description: 'Long-term GitHub user'
-        });
-        score += 5;
-      }
-    }
+    const scoring = calculatePlatformScore('github', {
+      id: userData.id,
+      publicRepos: repos?.length,
+      totalStars: repos?.reduce((sum: number, repo: any) => sum + (repo.stargazers_count || 0), 0),
+      accountAgeYears: yearsSince(userData.created_at)
+    });
 
     return {
       verified: true,
-      score: Math.min(score, 25), // Max 25 points for GitHub
-      criteria,
+      ...scoring,
       data: userData
     };
   } catch (error) {
@@ -306,53 +179,24 @@ export const verifyDiscord = async (accessToken: string): Promise<VerificationRe
     }
 
     const userData = await response.json();
-    const criteria: VerificationCriteria[] = [];
-    let score = 0;
-
-    // Criteria 1: Account exists
-    if (userData.id) {
-      criteria.push({
-        condition: 'Account exists',
-        points: 1.0,
-        description: 'Active Discord account'
-      });
-      score += 1.0;
-    }
 
-    // Criteria 2: Verified email
-    if (userData.verified) {
-      criteria.push({
-        condition: 'Email verified',
-        points: 0.8,
-        description: 'Email address is confirmed'
-      });
-      score += 0.8;
-    }
-
-    // Criteria 3: Account age (if available via guilds)
     // Discord doesn't provide creation date directly, but we can check guild membership
     const guildsResponse = await fetch('https://discord.com/api/v10/users/@me/guilds', {
       headers: {
         'Authorization': `Bearer ${accessToken}`
       }
     });
+    const guilds: any[] | undefined = guildsResponse.ok ? await guildsResponse.json() : undefined;
 
-    if (guildsResponse.ok) {
-      const guilds = await guildsResponse.json();
-      if (guilds.length >= 5) {
-        criteria.push({
-          condition: '≥ 5 server memberships',
-          points: 1.0,
-          description: 'Active Discord user with multiple server memberships'
-        });
-        score += 1.0;
-      }
-    }
+    const scoring = calculatePlatformScore('discord', {
+      id: userData.id,
+      verified: userData.verified,
+      guildCount: guilds?.length
+    });
 
     return {
       verified: true,
-      score: Math.min(score, 2.8), // Max 2.8 points for Discord
-      criteria,
+      ...scoring,
       data: userData
     };
   } catch (error) {
@@ -373,12 +217,13 @@ export const verifySteam = async (steamId: string): Promise<VerificationResult>
     
     if (!apiKey) {
       // Fallback: Mock verification if API key not configured
+      const maxScore = getScoringRules('steam')!.maxScore;
       return {
         verified: true,
-        score: 2.8,
+        score: maxScore,
         criteria: [{
           condition: 'Steam account verified',
-          points: 2.8,
+          points: maxScore,
           description: 'Steam account connected'
         }],
         data: { steamId }
@@ -408,48 +253,15 @@ export const verifySteam = async (steamId: string): Promise<VerificationResult>
       };
     }
 
-    const criteria: VerificationCriteria[] = [];
-    let score = 0;
-
-    // Criteria 1: Account exists
-    if (player.steamid) {
-      criteria.push({
-        condition: 'Account exists',
-        points: 1.0,
-        description: 'Active Steam account'
-      });
-      score += 1.0;
-    }
-
-    // Criteria 2: Profile visibility (public profile)
-    if (player.communityvisibilitystate === 3) {
-      criteria.push({
-        condition: 'Public profile',
-        points: 0.8,
-        description: 'Profile is publicly visible'
-      });
-      score += 0.8;
-    }
-
-    // Criteria 3: Account age (via profile creation date if available)
-    if (player.timecreated) {
-      const createdDate = new Date(player.timecreated * 1000);
-      const ageInYears = (Date.now() - createdDate.getTime()) / (1000 * 60 * 60 * 24 * 365);
-      
-      if (ageInYears >= 1) {
-        criteria.push({
-          condition: 'Account age ≥ 1 year',
-          points: 1.0,
-          description: 'Long-term Steam user'
-        });
-        score += 1.0;
-      }
-    }
+    const scoring = calculatePlatformScore('steam', {
+      id: player.steamid,
+      communityVisibilityState: player.communityvisibilitystate,
+      accountAgeYears: player.timecreated ? yearsSince(player.timecreated * 1000) : undefined
+    });
 
     return {
       verified: true,
-      score: Math.min(score, 2.8), // Max 2.8 points for Steam
-      criteria,
+      ...scoring,
       data: player
     };
   } catch (error) {
@@ -533,79 +345,27 @@ export const verifyEthereum = async (
       }
     }
 
-    const criteria: VerificationCriteria[] = [];
-    let score = 0;
-
-    // AUTOMATIC Scoring: Balance
+    // AUTOMATIC Scoring: balance, transactions, wallet age and signature (lib/platforms.ts rules)
+    // Note: In production, signature verification should be done on backend
+    // For now, we assume signature is valid if provided
     const balanceEth = Number(balanceWei) / 1e18;
-    if (balanceEth >= 0.01) {
-      criteria.push({
-        condition: 'Balance ≥ 0.01 ETH',
-        points: 10,
-        description: 'Wallet has sufficient balance'
-      });
-      score += 10;
-    } else if (balanceEth > 0) {
-      criteria.push({
-        condition: 'Has ETH balance',
-        points: 5,
-        description: 'Wallet has some balance'
-      });
-      score += 5;
-    }
-
-    // AUTOMATIC Scoring: Transaction count
-    if (txCount >= 10) {
-      criteria.push({
-        condition: '≥ 10 transactions',
-        points: 10,
-        description: 'Active wallet with transaction history'
-      });
-      score += 10;
-    } else if (txCount >= 5) {
-      criteria.push({
-        condition: '≥ 5 transactions',
-        points: 5,
-        description: 'Has transaction history'
-      });
-      score += 5;
-    }
-
-    // AUTOMATIC Scoring: Wallet age
-    if (walletAge > 0) {
-      const ageInYears = walletAge / (1000 * 60 * 60 * 24 * 365);
-      if (ageInYears >= 1) {
-        criteria.push({
-          condition: 'Wallet age ≥ 1 year',
-          points: 5,
-          description: 'Long-term wallet user'
-        });
-        score += 5;
-      }
-    }
-
-    // If signature provided, verify message signature (wallet ownership proof)
-    if (signature) {
-      // Note: In production, signature verification should be done on backend
-      // For now, we assume signature is valid if provided
-      criteria.push({
-        condition: 'Wallet ownership verified',
-        points: 5,
-        description: 'Message signature confirms wallet control'
-      });
-      score += 5;
-    }
+    const walletAgeYears = walletAge > 0 ? walletAge / (1000 * 60 * 60 * 24 * 365) : 0;
+    const scoring = calculatePlatformScore('ethereum', {
+      balanceEth,
+      txCount,
+      walletAgeYears,
+      signature
+    });
 
     return {
-      verified: score > 0,
-      score: Math.min(score, 35), // Max 35 points for Ethereum Wallet
-      criteria,
+      verified: scoring.score > 0,
+      ...scoring,
       data: { 
         address, 
         balance: balanceWei.toString(), 
         balanceEth: balanceEth,
         txCount,
-        walletAgeYears: walletAge > 0 ? walletAge / (1000 * 60 * 60 * 24 * 365) : 0,
+        walletAgeYears,
         signature: signature || undefined
       }
     };
@@ -621,25 +381,12 @@ export const verifyEthereum = async (
 // Gemini AI Turing Test
 export const verifyGemini = async (answers: string[]): Promise<VerificationResult> => {
   try {
-    // TODO: Implement Gemini AI verification
-    // For now, return mock
-    const criteria: VerificationCriteria[] = [];
-    
-    // Basic check - if answers provided
+    // TODO: Implement Gemini AI verification (send answers for analysis)
+    // For now, assume passed if answers exist
     if (answers && answers.length > 0) {
-      criteria.push({
-        condition: 'Answers provided',
-        points: 25,
-        description: 'User answered questions'
-      });
-      
-      // TODO: Send to Gemini AI for analysis
-      // For now, assume passed if answers exist
-      
       return {
         verified: true,
-        score: 50, // Max 50 points for Gemini
-        criteria,
+        ...calculatePlatformScore('gemini', { answerCount: answers.length }),
         data: { answers }
       };
     }
@@ -658,103 +405,28 @@ export const verifyGemini = async (answers: string[]): Promise<VerificationResul
   }
 };
 
-// Verification configurations with scoring criteria
-export const VERIFICATION_CONFIGS: Record<string, VerificationConfig> = {
-  google: {
-    provider: 'Google',
-    maxScore: 15,
-    criteria: [
-      { condition: 'Account exists and is active', points: 5, description: 'Verified Google account' },
-      { condition: 'Email is verified', points: 5, description: 'Email address is confirmed' },
-      { condition: 'Account age ≥ 1 year', points: 5, description: 'Long-term account' }
-    ],
-    checkFunction: verifyGoogle
-  },
-  twitter: {
-    provider: 'X (Twitter)',
-    maxScore: 30,
-    criteria: [
-      { condition: 'Account exists', points: 5, description: 'Active Twitter/X account' },
-      { condition: 'Account age ≥ 2 years', points: 10, description: 'Account created more than 2 years ago' },
-      { condition: 'Account age ≥ 1 year', points: 5, description: 'Account created more than 1 year ago' },
-      { condition: '≥ 100 tweets', points: 5, description: 'Active account with 100+ tweets' },
-      { condition: '≥ 10 followers', points: 5, description: 'Account has followers' }
-    ],
-    checkFunction: verifyTwitter
-  },
-  github: {
-    provider: 'GitHub',
-    maxScore: 25,
-    criteria: [
-      { condition: 'Account exists', points: 5, description: 'Active GitHub account' },
-      { condition: '≥ 10 public repositories', points: 10, description: 'Active open source contributor' },
-      { condition: '≥ 5 public repositories', points: 5, description: 'Has public repositories' },
-      { condition: '≥ 50 total stars', points: 5, description: 'Repositories have received stars' },
-      { condition: 'Account age ≥ 2 years', points: 5, description: 'Long-term GitHub user' }
-    ],
-    checkFunction: verifyGitHub
-  },
-  ethereum: {
-    provider: 'Ethereum',
-    maxScore: 35,
-    criteria: [
-      { condition: 'Balance ≥ 0.01 ETH', points: 10, description: 'Wallet has sufficient balance' },
-      { condition: 'Has ETH balance', points: 5, description: 'Wallet has some balance' },
-      { condition: '≥ 10 transactions', points: 10, description: 'Active wallet with transaction history' },
-      { condition: '≥ 5 transactions', points: 5, description: 'Has transaction history' },
-      { condition: 'Wallet age ≥ 1 year', points: 5, description: 'Long-term wallet user' }
-    ],
-    checkFunction: verifyEthereum
-  },
-  gemini: {
-    provider: 'Gemini AI',
-    maxScore: 50,
-    criteria: [
-      { condition: 'Passed Turing Test', points: 50, description: 'Gemini AI confirmed human responses' }
-    ],
-    checkFunction: verifyGemini
-  },
-  discord: {
-    provider: 'Discord',
-    maxScore: 2.8,
-    criteria: [
-      { condition: 'Account exists', points: 1.0, description: 'Active Discord account' },
-      { condition: 'Email verified', points: 0.8, description: 'Email address is confirmed' },
-      { condition: '≥ 5 server memberships', points: 1.0, description: 'Active Discord user' }
-    ],
-    checkFunction: verifyDiscord
-  },
-  telegram: {
-    provider: 'Telegram',
-    maxScore: 10,
-    criteria: [
-      { condition: 'Account exists', points: 3.0, description: 'Active Telegram account' },
-      { condition: 'Username set', points: 2.0, description: 'Telegram username is configured' },
-      { condition: 'Profile photo', points: 2.0, description: 'Profile photo is set' },
-      { condition: 'Account age ≥ 1 year', points: 3.0, description: 'Long-term Telegram user' }
-    ],
-    checkFunction: async () => {
-      // Telegram verification is handled via backend OAuth
-      throw new Error('Telegram verification must be done through backend OAuth flow');
-    }
-  },
-  // TikTok removed - no longer supported
-  solana: {
-    provider: 'Solana',
-    maxScore: 40,
-    criteria: [
-      { condition: 'Wallet connected & signature verified', points: 5, description: 'Phantom/Solflare ownership verified' },
-      { condition: 'Tier 2: Balance ≥ 1.0 SOL', points: 5, description: 'Wallet has sufficient balance' },
-      { condition: 'Tier 1: Balance ≥ 0.1 SOL', points: 5, description: 'Wallet has minimum balance' },
-      { condition: 'Tier 2: ≥ 100 transactions', points: 5, description: 'Active wallet with transaction history' },
-      { condition: 'Tier 1: ≥ 20 transactions', points: 5, description: 'Has transaction history' },
-      { condition: 'Wallet age ≥ 1 year', points: 10, description: 'Long-term wallet user' },
-      { condition: 'Recent activity (last 30 days)', points: 5, description: 'Wallet has recent transactions' }
-    ],
-    checkFunction: async () => {
-      // Solana verification is handled via backend
-      throw new Error('Solana verification must be done through backend wallet flow');
-    }
-  }
+// Client-side checks; platforms without one are verified by the backend
+const CHECK_FUNCTIONS: Partial<Record<PlatformKey, VerificationConfig['checkFunction']>> = {
+  google: verifyGoogle,
+  twitter: verifyTwitter,
+  github: verifyGitHub,
+  ethereum: verifyEthereum,
+  gemini: verifyGemini,
+  discord: verifyDiscord,
+  steam: verifySteam,
 };
 
+// Verification configurations with scoring criteria (from the platform registry, lib/platforms.ts)
+export const VERIFICATION_CONFIGS: Record<string, VerificationConfig> = Object.fromEntries(
+  PLATFORM_LIST.map(platform => {
+    const scoring = getScoringRules(platform.id)!;
+    return [platform.id, {
+      provider: platform.name,
+      maxScore: scoring.maxScore,
+      criteria: scoring.rules.map(({ condition, points, description }) => ({ condition, points, description })),
+      checkFunction: CHECK_FUNCTIONS[platform.id as PlatformKey] ?? (async () => {
+        throw new Error(`${platform.name} verification must be done through the backend`);
+      })
+    }];
+  })
+);
@@ -0,0 +1,44 @@
+// Aleo accounts and attestation signing for tests with the chain simulator
+
+import { attestationPlaintext } from '../../lib/attestation';
+import type { Attestation } from '../../utils/backendAPI';
+
+/**
+ * New random Aleo address
+ */
+export async function newAddress(): Promise<string> {
+  const sdk = await import('@provablehq/sdk');
+  return new sdk.PrivateKey().to_address().to_string();
+}
+
+/**
+ * Issuer that signs attestations like backend/src/utils/attestation.ts
+ */
+export async function createTestIssuer() {
+  const sdk = await import('@provablehq/sdk');
+  const privateKey = new sdk.PrivateKey();
+  const address = privateKey.to_address().to_string();
+
+  return {
+    address,
+    sign(commitment: string, unsigned: Omit<Attestation, 'issuer' | 'signature'>): Attestation {
+      const attestation = { ...unsigned, issuer: address, signature: '' };
+      return { ...attestation, signature: privateKey.signValue(attestationPlaintext(commitment, attestation)).to_string() };
+    },
+  };
+}
+
+/**
+ * Wallet with signMessage like the adapters': a fresh (randomized) Aleo signature per
+ * call, returned as the bytes of its "sign1..." string
+ */
+export async function createTestWallet() {
+  const sdk = await import('@provablehq/sdk');
+  const privateKey = new sdk.PrivateKey();
+
+  return {
+    address: privateKey.to_address().to_string(),
+    signMessage: async (message: Uint8Array): Promise<Uint8Array> =>
+      new TextEncoder().encode(privateKey.sign(message).to_string()),
+  };
+}
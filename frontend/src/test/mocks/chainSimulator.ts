@@ -0,0 +1,854 @@
+// In-memory simulator of the passport program (src/main.leo, v13) for offline tests
+//
+// Runs the transitions and finalize blocks of the program with the same assertions,
+// mappings and records, so hooks can be tested end to end with the mock wallet
+// adapter (test/mocks/mockWallet.ts). Hashes and attestation signatures use the
+// reference implementations (lib/passportCommitments.ts, lib/attestation.ts);
+// no proofs are generated.
+//
+// Like the network:
+// - a failing transition assertion fails in the wallet, before anything is broadcast
+// - a failing finalize assertion rejects the transaction; mappings and records stay unchanged
+// - each transaction is confirmed in its own block, or with mine() when autoMine is off
+
+import { PROGRAM_ID } from '../../deployed_program';
+import { verifyAttestation } from '../../lib/attestation';
+import {
+  EMPTY_STAMPS_COMMITMENT,
+  computeNullifier,
+  computeScoreCommitment,
+  foldStampsCommitment,
+  hashUserPlatform,
+} from '../../lib/passportCommitments';
+import type { ConfirmedTransaction } from '../../utils/explorerAPI';
+
+export type RecordName = 'Passport' | 'StampRecord';
+export type InputSpec = 'public' | 'private' | RecordName;
+
+// Mapping values as Aleo plaintext: a literal ("5u64") or a struct of literals
+export type MappingValue = string | Record<string, string>;
+
+/**
+ * Record of the program; members other than owner are kept as literals
+ */
+export interface SimulatedRecord {
+  id: number;
+  name: RecordName;
+  owner: string;
+  data: Record<string, string>;
+  ciphertext: string;
+  spent: boolean;
+}
+
+export type TransitionOutput =
+  | { type: 'record'; name: RecordName; owner: string; data: Record<string, string>; ciphertext?: string }
+  | { type: 'private' | 'public'; value: string };
+
+export type SimulatedTransactionStatus = 'pending' | 'accepted' | 'rejected' | 'aborted';
+
+export interface SimulatedTransaction {
+  id: string;
+  caller: string;
+  functionName: string;
+  inputs: string[];
+  outputs: TransitionOutput[];
+  finalizeArgs: string[];
+  status: SimulatedTransactionStatus;
+  blockHeight?: number;
+  error?: string;        // failed finalize assertion of rejected / aborted transactions
+}
+
+/**
+ * Result of running a transition without finalizing it (wallet execution)
+ */
+export interface TransitionExecution {
+  outputs: TransitionOutput[];
+  finalizeArgs: string[];
+}
+
+export interface ChainSimulatorOptions {
+  programId?: string;    // Default: deployed PROGRAM_ID
+  blockHeight?: number;  // Height of the latest block (default: 1)
+  autoMine?: boolean;    // Confirm each transaction when it is submitted (default: true)
+}
+
+interface TransitionResult extends TransitionExecution {
+  finalize: () => Promise<void> | void;
+}
+
+interface TransitionContext {
+  caller: string;
+  records: SimulatedRecord[];  // record inputs, in input order
+}
+
+interface TransitionDefinition {
+  inputs: InputSpec[];
+  run: (ctx: TransitionContext, inputs: string[]) => Promise<TransitionResult>;
+}
+
+interface PendingTransaction {
+  transaction: SimulatedTransaction;
+  records: SimulatedRecord[];
+  finalize: () => Promise<void> | void;
+}
+
+const MAPPINGS = [
+  'admins',
+  'is_admin',
+  'is_initialized',
+  'stamps',
+  'stamp_count',
+  'nullifiers',
+  'social_commitments',
+  'used_commitments',
+  'user_platform_claims',
+  'user_total_points',
+  'issuers',
+] as const;
+
+export type MappingName = typeof MAPPINGS[number];
+
+const INT_BITS = { u8: 8n, u32: 32n, u64: 64n, u128: 128n };
+type IntType = keyof typeof INT_BITS;
+
+// `now` of the program (block timestamps are not available in transitions)
+const NOW = '0u64';
+
+// Transaction IDs are unique across simulators, like on the network (trackers outlive a test's chain)
+let transactionCount = 0;
+
+function assert(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function checked(value: bigint, type: IntType): bigint {
+  if (value < 0n || value >= 1n << INT_BITS[type]) {
+    throw new Error(`${type} overflow: ${value}`);
+  }
+  return value;
+}
+
+/**
+ * Value of an integer literal ("5u64")
+ */
+function int(literal: string, type: IntType): bigint {
+  const match = literal.match(new RegExp(`^(\\d+)${type}$`));
+  if (!match) {
+    throw new Error(`Expected a ${type} literal, got ${literal}`);
+  }
+  return checked(BigInt(match[1]), type);
+}
+
+function intLiteral(value: bigint, type: IntType): string {
+  return `${checked(value, type)}${type}`;
+}
+
+function field(literal: string): string {
+  if (!/^\d+field$/.test(literal)) {
+    throw new Error(`Expected a field literal, got ${literal}`);
+  }
+  return literal;
+}
+
+function address(literal: string): string {
+  if (!/^aleo1[a-z0-9]{58}$/.test(literal)) {
+    throw new Error(`Expected an address, got ${literal}`);
+  }
+  return literal;
+}
+
+function bool(literal: string): boolean {
+  if (literal !== 'true' && literal !== 'false') {
+    throw new Error(`Expected a boolean, got ${literal}`);
+  }
+  return literal === 'true';
+}
+
+/**
+ * Aleo plaintext of a mapping value or record (as returned by the node API)
+ */
+export function formatPlaintext(value: MappingValue): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return `{\n${Object.entries(value).map(([name, member]) => `  ${name}: ${member}`).join(',\n')}\n}`;
+}
+
+// calculate_humanity_score
+function humanityScore(totalStamps: bigint, totalPoints: bigint): bigint {
+  const score = totalStamps * 5n + totalPoints / 100n;
+  return score > 100n ? 100n : score;
+}
+
+// platform_stamp_count
+function platformStampCount(platformCounts: bigint, platformId: bigint): bigint {
+  return (platformCounts >> (platformId * 4n)) & 15n;
+}
+
+// count_platform_stamps
+function countPlatformStamps(platformCounts: bigint, platformMask: bigint): bigint {
+  let total = 0n;
+  for (let i = 0n; i < 16n; i++) {
+    total += ((platformMask >> i) & 1n) * platformStampCount(platformCounts, i);
+  }
+  return total;
+}
+
+export class ChainSimulator {
+  readonly programId: string;
+  private autoMine: boolean;
+  private height: number;
+  private mappings = new Map<MappingName, Map<string, MappingValue>>();
+  private records: SimulatedRecord[] = [];
+  private transactions = new Map<string, SimulatedTransaction>();
+  private pending: PendingTransaction[] = [];
+  private readonly transitions: Record<string, TransitionDefinition>;
+
+  constructor(options: ChainSimulatorOptions = {}) {
+    this.programId = options.programId ?? PROGRAM_ID;
+    this.height = options.blockHeight ?? 1;
+    this.autoMine = options.autoMine ?? true;
+    for (const name of MAPPINGS) {
+      this.mappings.set(name, new Map());
+    }
+    this.transitions = this.defineTransitions();
+  }
+
+  get blockHeight(): number {
+    return this.height;
+  }
+
+  /**
+   * Inputs of a transition as declared in main.leo (records by name)
+   */
+  inputSpec(functionName: string): InputSpec[] {
+    return this.transition(functionName).inputs;
+  }
+
+  /**
+   * Run a transition without broadcasting it (wallet-side execution)
+   * Throws if an assertion of the transition fails.
+   */
+  async execute(caller: string, functionName: string, inputs: string[]): Promise<TransitionExecution> {
+    const { outputs, finalizeArgs } = (await this.runTransition(caller, functionName, inputs)).result;
+    return { outputs, finalizeArgs };
+  }
+
+  /**
+   * Run a transition and broadcast it; returns the transaction ID
+   * Throws if an assertion of the transition fails. Finalize assertions reject the
+   * transaction instead (see transaction()).
+   */
+  async submit(caller: string, functionName: string, inputs: string[]): Promise<string> {
+    const { result, records } = await this.runTransition(caller, functionName, inputs);
+    const transaction: SimulatedTransaction = {
+      id: `at1sim${String(++transactionCount).padStart(52, '0')}`,
+      caller,
+      functionName,
+      inputs,
+      outputs: result.outputs,
+      finalizeArgs: result.finalizeArgs,
+      status: 'pending',
+    };
+    this.transactions.set(transaction.id, transaction);
+    this.pending.push({ transaction, records, finalize: result.finalize });
+
+    if (this.autoMine) {
+      await this.mine();
+    }
+    return transaction.id;
+  }
+
+  /**
+   * Confirm all pending transactions in a new block
+   */
+  async mine(): Promise<void> {
+    this.height += 1;
+    const batch = this.pending;
+    this.pending = [];
+    for (const pending of batch) {
+      await this.finalizeTransaction(pending);
+    }
+  }
+
+  /**
+   * Advance the chain by empty blocks (e.g. past an attestation's expires_at)
+   */
+  advanceBlocks(count: number): void {
+    this.height += count;
+  }
+
+  transaction(txId: string): SimulatedTransaction | null {
+    return this.transactions.get(txId) ?? null;
+  }
+
+  /**
+   * Unspent records of an account
+   */
+  recordsOf(owner: string, name?: RecordName): SimulatedRecord[] {
+    return this.records.filter(record =>
+      record.owner === owner && !record.spent && (!name || record.name === name)
+    );
+  }
+
+  recordByCiphertext(ciphertext: string): SimulatedRecord | null {
+    return this.records.find(record => record.ciphertext === ciphertext) ?? null;
+  }
+
+  /**
+   * Record as Aleo plaintext, as decrypted by the owner's wallet
+   */
+  recordPlaintext(record: SimulatedRecord): string {
+    return formatPlaintext({ owner: record.owner, ...record.data });
+  }
+
+  getMapping(mapping: MappingName, key: string): MappingValue | null {
+    return this.mappingStore(mapping).get(key) ?? null;
+  }
+
+  /**
+   * Node API for the simulated chain, to install as global fetch
+   * Serves confirmed transactions, mapping values (REST and JSON-RPC) and the
+   * latest block height; everything else is a 404.
+   */
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const respond = (status: number, body: unknown) => ({
+      ok: status >= 200 && status < 300,
+      status,
+      json: async () => body,
+    }) as Response;
+
+    if (init?.method === 'POST' && typeof init.body === 'string') {
+      const rpc = JSON.parse(init.body);
+      if (rpc?.method === 'getMappingValue' && rpc.params?.program_id === this.programId) {
+        const value = this.lookupMapping(rpc.params.mapping_name, rpc.params.key);
+        return respond(200, { jsonrpc: '2.0', id: rpc.id, result: value });
+      }
+      return respond(404, null);
+    }
+
+    const confirmed = url.match(/\/transaction\/confirmed\/([^/?]+)$/);
+    if (confirmed) {
+      const transaction = this.transactions.get(confirmed[1]);
+      return transaction && transaction.status !== 'pending'
+        ? respond(200, this.confirmedTransaction(transaction))
+        : respond(404, null);
+    }
+
+    const mapping = url.match(/\/program\/([^/]+)\/mapping\/([^/]+)\/([^/?]+)$/);
+    if (mapping) {
+      return mapping[1] === this.programId
+        ? respond(200, this.lookupMapping(mapping[2], decodeURIComponent(mapping[3])))
+        : respond(404, null);
+    }
+
+    if (/\/block\/height\/latest$/.test(url)) {
+      return respond(200, this.height);
+    }
+
+    return respond(404, null);
+  };
+
+  private transition(functionName: string): TransitionDefinition {
+    const definition = this.transitions[functionName];
+    if (!definition) {
+      throw new Error(`${this.programId} has no transition ${functionName}`);
+    }
+    return definition;
+  }
+
+  private async runTransition(caller: string, functionName: string, inputs: string[]) {
+    const definition = this.transition(functionName);
+    if (inputs.length !== definition.inputs.length) {
+      throw new Error(`${functionName} expects ${definition.inputs.length} inputs, got ${inputs.length}`);
+    }
+
+    const records = definition.inputs.flatMap((spec, i) => {
+      if (spec === 'public' || spec === 'private') {
+        return [];
+      }
+      const record = this.recordByCiphertext(inputs[i]);
+      if (!record || record.name !== spec) {
+        throw new Error(`Input ${i} of ${functionName} is not a ${spec} record`);
+      }
+      if (record.owner !== caller) {
+        throw new Error(`Input ${i} of ${functionName}: record is owned by another account`);
+      }
+      if (record.spent) {
+        throw new Error(`Input ${i} of ${functionName}: record was already spent`);
+      }
+      return [record];
+    });
+
+    const result = await definition.run({ caller: address(caller), records }, inputs);
+    return { result, records };
+  }
+
+  private async finalizeTransaction({ transaction, records, finalize }: PendingTransaction): Promise<void> {
+    transaction.blockHeight = this.height;
+
+    // Another transaction of the same block spent the record
+    if (records.some(record => record.spent)) {
+      transaction.status = 'aborted';
+      transaction.error = 'Input record was already spent';
+      return;
+    }
+
+    const snapshot = new Map([...this.mappings].map(([name, store]) => [name, new Map(store)]));
+    try {
+      await finalize();
+    } catch (error) {
+      this.mappings = snapshot;
+      transaction.status = 'rejected';
+      transaction.error = error instanceof Error ? error.message : String(error);
+      return;
+    }
+
+    for (const record of records) {
+      record.spent = true;
+    }
+    for (const output of transaction.outputs) {
+      if (output.type === 'record') {
+        const id = this.records.length + 1;
+        output.ciphertext = `record1sim${String(id).padStart(40, '0')}`;
+        this.records.push({ id, name: output.name, owner: output.owner, data: output.data, ciphertext: output.ciphertext, spent: false });
+      }
+    }
+    transaction.status = 'accepted';
+  }
+
+  /**
+   * Transaction in the format of /transaction/confirmed/{id} (utils/explorerAPI.ts)
+   */
+  private confirmedTransaction(transaction: SimulatedTransaction): ConfirmedTransaction {
+    const specs = this.inputSpec(transaction.functionName);
+    const inputs = transaction.inputs.map((value, i) => {
+      const id = `${i + 1}field`;
+      if (specs[i] === 'public') return { type: 'public', id, value };
+      if (specs[i] === 'private') return { type: 'private', id, value: `ciphertext1sim${i}` };
+      return { type: 'record', id, tag: `${i + 1}0field` };
+    });
+    const outputs = transaction.outputs.map((output, i) => {
+      const id = `${i + 1}00field`;
+      if (output.type === 'record') return { type: 'record', id, checksum: `${i + 1}01field`, value: output.ciphertext ?? '' };
+      if (output.type === 'private') return { type: 'private', id, value: `ciphertext1simout${i}` };
+      return { type: 'public', id, value: output.value };
+    });
+    const future = {
+      type: 'future',
+      id: '999field',
+      value: `{\n  program_id: ${this.programId},\n  function_name: ${transaction.functionName},\n  arguments: [\n` +
+        transaction.finalizeArgs.map(arg => `    ${arg}`).join(',\n') + '\n  ]\n}',
+    };
+
+    return {
+      status: transaction.status,
+      type: 'execute',
+      index: 0,
+      transaction: {
+        id: transaction.id,
+        type: 'execute',
+        execution: {
+          transitions: [{
+            id: `au1sim${transaction.id.slice(6)}`,
+            program: this.programId,
+            function: transaction.functionName,
+            inputs,
+            outputs: [...outputs, future],
+            tpk: '1group',
+            tcm: '1field',
+            scm: '1field',
+          }],
+          proof: 'proof1sim',
+          global_state_root: 'sr1sim',
+        },
+      },
+      finalize: [],
+    };
+  }
+
+  private mappingStore(mapping: MappingName): Map<string, MappingValue> {
+    const store = this.mappings.get(mapping);
+    if (!store) {
+      throw new Error(`${this.programId} has no mapping ${mapping}`);
+    }
+    return store;
+  }
+
+  /**
+   * Mapping value as served by the node API; keys may be given without integer suffix
+   */
+  private lookupMapping(mapping: string, key: string): string | null {
+    if (!(MAPPINGS as readonly string[]).includes(mapping)) {
+      return null;
+    }
+    const store = this.mappingStore(mapping as MappingName);
+    const value = store.get(key)
+      ?? [...store].find(([stored]) => stored.replace(/u(8|32|64)$/, '') === key)?.[1];
+    return value === undefined ? null : formatPlaintext(value);
+  }
+
+  private getOrUse<T extends MappingValue>(mapping: MappingName, key: string, fallback: T): T {
+    return (this.mappingStore(mapping).get(key) as T | undefined) ?? fallback;
+  }
+
+  // Mapping::get_or_use of a literal value
+  private getLiteral(mapping: MappingName, key: string, fallback: string): string {
+    return this.getOrUse<string>(mapping, key, fallback);
+  }
+
+  private get(mapping: MappingName, key: string): MappingValue {
+    const value = this.mappingStore(mapping).get(key);
+    assert(value !== undefined, `${mapping}[${key}] is not set`);
+    return value;
+  }
+
+  private set(mapping: MappingName, key: string, value: MappingValue): void {
+    this.mappingStore(mapping).set(key, value);
+  }
+
+  private requirePermission(caller: string, permission: bigint): void {
+    const admin = this.getOrUse<Record<string, string>>('admins', caller, { permissions: '0u8' });
+    assert((int(admin.permissions, 'u8') & permission) === permission, `caller lacks admin permission ${permission}`);
+  }
+
+  private stampMetadata(stampId: string): Record<string, string> {
+    return this.getOrUse<Record<string, string>>('stamps', stampId, {
+      stamp_id: stampId,
+      platform_id: '0u8',
+      points: '0u64',
+      name_hash: '0field',
+      is_active: 'false',
+      created_at: '0u64',
+    });
+  }
+
+  private socialBinding(commitment: string): Record<string, string> {
+    return this.getOrUse<Record<string, string>>('social_commitments', commitment, {
+      commitment: '0field',
+      platform_id: '0u8',
+      claimed_at: '0u64',
+      is_active: 'false',
+    });
+  }
+
+  // Attestation checks of claim_verification / claim_point / claim_social_stamp (finalize side)
+  private checkIssuer(issuer: string, expiresAt: string): void {
+    assert(this.getLiteral('issuers', issuer, 'false') === 'true', 'issuer is not registered');
+    assert(BigInt(this.height) <= int(expiresAt, 'u32'), 'attestation expired');
+  }
+
+  private async verifyAttestation(
+    inputs: { commitment: string; platformId: string; points: string; expiresAt: string; issuer: string; signature: string },
+    recipient: string
+  ): Promise<void> {
+    const valid = await verifyAttestation(field(inputs.commitment), {
+      platformId: Number(int(inputs.platformId, 'u8')),
+      points: Number(int(inputs.points, 'u64')),
+      expiresAt: Number(int(inputs.expiresAt, 'u32')),
+      recipient,
+      issuer: address(inputs.issuer),
+      signature: inputs.signature,
+    });
+    assert(valid, 'invalid attestation signature');
+  }
+
+  private passportOutput(owner: string, data: Record<string, string>): TransitionOutput {
+    return { type: 'record', name: 'Passport', owner, data };
+  }
+
+  private defineTransitions(): Record<string, TransitionDefinition> {
+    const adminTransition = (
+      inputs: InputSpec[],
+      finalizeArgs: (caller: string, args: string[]) => string[],
+      finalize: (caller: string, args: string[]) => void,
+      outputs: TransitionOutput[] = []
+    ): TransitionDefinition => ({
+      inputs,
+      run: async ({ caller }, args) => ({
+        outputs,
+        finalizeArgs: finalizeArgs(caller, args),
+        finalize: () => finalize(caller, args),
+      }),
+    });
+
+    return {
+      initialize: adminTransition(['private'], (_, [owner]) => [address(owner)], (_, [owner]) => {
+        assert(this.getLiteral('is_initialized', '0u32', 'false') === 'false', 'already initialized');
+        this.set('admins', owner, { admin_address: owner, permissions: '15u8', added_at: NOW });
+        this.set('is_admin', owner, 'true');
+        this.set('is_initialized', '0u32', 'true');
+        // Default stamps: stamp_id = platform_id, 78 points for Discord, 80 otherwise
+        for (let id = 1; id <= 9; id++) {
+          this.set('stamps', `${id}u32`, {
+            stamp_id: `${id}u32`,
+            platform_id: `${id}u8`,
+            points: id === 1 ? '78u64' : '80u64',
+            name_hash: '0field',
+            is_active: 'true',
+            created_at: NOW,
+          });
+        }
+        this.set('stamp_count', '0u32', '9u32');
+      }),
+
+      add_admin: adminTransition(['public', 'public'], (caller, [newAdmin, permissions]) => [caller, address(newAdmin), intLiteral(int(permissions, 'u8'), 'u8')], (caller, [newAdmin, permissions]) => {
+        this.requirePermission(caller, 1n);
+        this.set('admins', newAdmin, { admin_address: newAdmin, permissions, added_at: NOW });
+        this.set('is_admin', newAdmin, 'true');
+      }),
+
+      remove_admin: adminTransition(['public'], (caller, [admin]) => [caller, address(admin)], (caller, [admin]) => {
+        this.requirePermission(caller, 4n);
+        assert(admin !== caller, 'cannot remove self');
+        this.set('is_admin', admin, 'false');
+      }),
+
+      add_issuer: adminTransition(['public'], (caller, [issuer]) => [caller, address(issuer)], (caller, [issuer]) => {
+        this.requirePermission(caller, 1n);
+        this.set('issuers', issuer, 'true');
+      }),
+
+      remove_issuer: adminTransition(['public'], (caller, [issuer]) => [caller, address(issuer)], (caller, [issuer]) => {
+        this.requirePermission(caller, 4n);
+        this.set('issuers', issuer, 'false');
+      }),
+
+      create_stamp: adminTransition(
+        ['public', 'public', 'public'],
+        (caller, [platformId, points, nameHash]) => [caller, intLiteral(int(platformId, 'u8'), 'u8'), intLiteral(int(points, 'u64'), 'u64'), field(nameHash)],
+        (caller, [platformId, points, nameHash]) => {
+          this.requirePermission(caller, 1n);
+          const stampId = intLiteral(int(this.getLiteral('stamp_count', '0u32', '0u32'), 'u32') + 1n, 'u32');
+          assert(int(stampId, 'u32') < 128n, 'stamp_id does not fit Passport.stamp_ids');
+          this.set('stamps', stampId, {
+            stamp_id: stampId,
+            platform_id: platformId,
+            points,
+            name_hash: nameHash,
+            is_active: 'true',
+            created_at: NOW,
+          });
+          this.set('stamp_count', '0u32', stampId);
+        },
+        [{ type: 'private', value: '0u32' }]
+      ),
+
+      edit_stamp: adminTransition(
+        ['public', 'public', 'public'],
+        (caller, [stampId, points, isActive]) => [caller, intLiteral(int(stampId, 'u32'), 'u32'), intLiteral(int(points, 'u64'), 'u64'), String(bool(isActive))],
+        (caller, [stampId, points, isActive]) => {
+          this.requirePermission(caller, 2n);
+          const stamp = this.stampMetadata(stampId);
+          this.set('stamps', stampId, { ...stamp, stamp_id: stampId, points, is_active: isActive });
+        }
+      ),
+
+      delete_stamp: adminTransition(['public'], (caller, [stampId]) => [caller, intLiteral(int(stampId, 'u32'), 'u32')], (caller, [stampId]) => {
+        this.requirePermission(caller, 4n);
+        const stamp = this.stampMetadata(stampId);
+        this.set('stamps', stampId, { ...stamp, stamp_id: stampId, is_active: 'false' });
+      }),
+
+      issue_stamp: {
+        inputs: ['Passport', 'public', 'public', 'public'],
+        run: async ({ caller, records: [passport] }, [, user, stampId, points]) => {
+          assert(passport.owner === address(user), 'passport is not owned by user');
+          return {
+            outputs: [{
+              type: 'record',
+              name: 'StampRecord',
+              owner: user,
+              data: {
+                stamp_id: intLiteral(int(stampId, 'u32'), 'u32'),
+                platform_id: '0u8',
+                points: intLiteral(int(points, 'u64'), 'u64'),
+                social_commitment: '0field',
+                issued_at: NOW,
+              },
+            }],
+            finalizeArgs: [caller, stampId, points],
+            finalize: () => {
+              this.requirePermission(caller, 8n);
+              const stamp = this.stampMetadata(stampId);
+              assert(stamp.is_active === 'true', 'stamp is not active');
+              assert(stamp.points === points, 'points do not match the stamp');
+            },
+          };
+        },
+      },
+
+      claim_social_stamp: {
+        inputs: ['Passport', 'public', 'private', 'public', 'public', 'public', 'public', 'private'],
+        run: async ({ caller, records: [passport] }, [, platformId, commitment, stampId, points, expiresAt, issuer, signature]) => {
+          assert(passport.owner === caller, 'passport is not owned by caller');
+          int(stampId, 'u32');
+          await this.verifyAttestation({ commitment, platformId, points, expiresAt, issuer, signature }, caller);
+          return {
+            outputs: [
+              this.passportOutput(passport.owner, { ...passport.data, updated_at: NOW }),
+              {
+                type: 'record',
+                name: 'StampRecord',
+                owner: caller,
+                data: {
+                  stamp_id: stampId,
+                  platform_id: platformId,
+                  points,
+                  social_commitment: field(commitment),
+                  issued_at: NOW,
+                },
+              },
+            ],
+            finalizeArgs: [commitment, platformId, stampId, points, issuer, expiresAt],
+            finalize: () => {
+              this.checkIssuer(issuer, expiresAt);
+              assert(this.socialBinding(commitment).is_active === 'false', 'commitment already claimed');
+              const stamp = this.get('stamps', stampId) as Record<string, string>;
+              assert(stamp.is_active === 'true', 'stamp is not active');
+              assert(stamp.platform_id === platformId, 'stamp is for another platform');
+              assert(stamp.points === points, 'points do not match the stamp');
+              this.set('social_commitments', commitment, { commitment, platform_id: platformId, claimed_at: NOW, is_active: 'true' });
+            },
+          };
+        },
+      },
+
+      claim_points: {
+        inputs: ['private'],
+        run: async ({ caller }, [nonce]) => ({
+          outputs: [this.passportOutput(caller, {
+            total_stamps: '0u32',
+            total_points: '0u64',
+            humanity_score: '0u64',
+            stamps_commitment: EMPTY_STAMPS_COMMITMENT,
+            score_commitment: '0field',
+            platform_counts: '0u64',
+            stamp_ids: '0u128',
+            issued_at: NOW,
+            updated_at: NOW,
+            nonce: field(nonce),
+          })],
+          finalizeArgs: [],
+          finalize: () => {},
+        }),
+      },
+
+      add_stamp: {
+        inputs: ['Passport', 'StampRecord', 'private'],
+        run: async ({ records: [passport, stamp] }, [, , secret]) => {
+          const platformId = int(stamp.data.platform_id, 'u8');
+          const platformCounts = int(passport.data.platform_counts, 'u64');
+          assert(stamp.owner === passport.owner, 'stamp is owned by another account');
+          const stampId = int(stamp.data.stamp_id, 'u32');
+          const stampIds = int(passport.data.stamp_ids, 'u128');
+          assert(stampId !== 0n, 'stamp_id is 0');
+          assert(stampId < 128n, 'stamp_id out of range');
+          assert((stampIds & (1n << stampId)) === 0n, 'stamp already added');
+          assert(platformId < 16n, 'platform_id out of range');
+          assert(platformStampCount(platformCounts, platformId) < 15n, 'platform stamp count is full');
+
+          const totalStamps = int(passport.data.total_stamps, 'u32') + 1n;
+          const totalPoints = int(passport.data.total_points, 'u64') + int(stamp.data.points, 'u64');
+          const score = humanityScore(totalStamps, totalPoints);
+
+          return {
+            outputs: [this.passportOutput(passport.owner, {
+              ...passport.data,
+              total_stamps: intLiteral(totalStamps, 'u32'),
+              total_points: intLiteral(totalPoints, 'u64'),
+              humanity_score: intLiteral(score, 'u64'),
+              stamps_commitment: await foldStampsCommitment(passport.data.stamps_commitment, Number(stampId)),
+              score_commitment: await computeScoreCommitment(Number(score), field(secret)),
+              platform_counts: intLiteral(platformCounts + (1n << (platformId * 4n)), 'u64'),
+              stamp_ids: intLiteral(stampIds | (1n << stampId), 'u128'),
+              updated_at: NOW,
+            })],
+            finalizeArgs: [],
+            finalize: () => {},
+          };
+        },
+      },
+
+      prove_access: {
+        inputs: ['Passport', 'public', 'public', 'public', 'public', 'public', 'public', 'public'],
+        run: async ({ records: [passport] }, [, appId, minScore, challenge, maskA, minA, maskB, minB]) => {
+          const platformCounts = int(passport.data.platform_counts, 'u64');
+          field(challenge);
+          assert(int(passport.data.humanity_score, 'u64') >= int(minScore, 'u64'), 'humanity score below min_score');
+          assert(countPlatformStamps(platformCounts, int(maskA, 'u64')) >= int(minA, 'u32'), 'platform predicate a not met');
+          assert(countPlatformStamps(platformCounts, int(maskB, 'u64')) >= int(minB, 'u32'), 'platform predicate b not met');
+
+          const nullifier = await computeNullifier(passport.data.nonce, field(appId));
+          return {
+            outputs: [
+              this.passportOutput(passport.owner, { ...passport.data }),
+              { type: 'private', value: nullifier },
+              { type: 'private', value: 'true' },
+            ],
+            finalizeArgs: [nullifier, appId],
+            finalize: () => {
+              const existing = this.getOrUse<Record<string, string>>('nullifiers', nullifier, { nullifier: '0field' });
+              assert(existing.nullifier === '0field', 'nullifier already used');
+              this.set('nullifiers', nullifier, { nullifier, app_id: appId, used_at: NOW });
+            },
+          };
+        },
+      },
+
+      claim_verification: {
+        inputs: ['public', 'private', 'public', 'public', 'public', 'private'],
+        run: async ({ caller }, [platformId, commitment, points, expiresAt, issuer, signature]) => {
+          await this.verifyAttestation({ commitment, platformId, points, expiresAt, issuer, signature }, caller);
+          return {
+            outputs: [],
+            finalizeArgs: [commitment, platformId, caller, points, issuer, expiresAt],
+            finalize: async () => {
+              this.checkIssuer(issuer, expiresAt);
+              assert(this.socialBinding(commitment).is_active === 'false', 'commitment already claimed');
+              this.set('social_commitments', commitment, { commitment, platform_id: platformId, claimed_at: NOW, is_active: 'true' });
+
+              const userPlatform = await hashUserPlatform(caller, Number(int(platformId, 'u8')));
+              assert(this.getLiteral('user_platform_claims', userPlatform, 'false') === 'false', 'platform already claimed by caller');
+              this.set('user_platform_claims', userPlatform, 'true');
+
+              const current = int(this.getLiteral('user_total_points', caller, '0u64'), 'u64');
+              this.set('user_total_points', caller, intLiteral(current + int(points, 'u64'), 'u64'));
+            },
+          };
+        },
+      },
+
+      claim_point: {
+        inputs: ['Passport', 'private', 'private', 'private', 'private', 'private', 'private'],
+        run: async ({ caller, records: [passport] }, [, platformId, commitment, points, expiresAt, issuer, signature]) => {
+          assert(passport.owner === caller, 'passport is not owned by caller');
+          await this.verifyAttestation({ commitment, platformId, points, expiresAt, issuer, signature }, caller);
+          const userPlatform = await hashUserPlatform(caller, Number(int(platformId, 'u8')));
+          const totalPoints = int(passport.data.total_points, 'u64') + int(points, 'u64');
+
+          return {
+            outputs: [this.passportOutput(passport.owner, {
+              ...passport.data,
+              total_points: intLiteral(totalPoints, 'u64'),
+              humanity_score: intLiteral(humanityScore(int(passport.data.total_stamps, 'u32'), totalPoints), 'u64'),
+              updated_at: NOW,
+            })],
+            finalizeArgs: [commitment, userPlatform, issuer, expiresAt],
+            finalize: () => {
+              this.checkIssuer(issuer, expiresAt);
+              assert(this.socialBinding(commitment).is_active === 'true', 'commitment is not claimed');
+              assert(this.getLiteral('used_commitments', commitment, 'false') === 'false', 'commitment already used');
+              assert(this.getLiteral('user_platform_claims', userPlatform, 'false') === 'false', 'platform already claimed by caller');
+              this.set('used_commitments', commitment, 'true');
+              this.set('user_platform_claims', userPlatform, 'true');
+            },
+          };
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,192 @@
+// Mock Aleo wallet adapter backed by the chain simulator (test/mocks/chainSimulator.ts)
+//
+// Implements the wallet.adapter extras the hooks use (requestTransaction,
+// requestExecution, requestRecords, requestRecordPlaintexts, decrypt,
+// transactionStatus) for one account. Like Leo Wallet, it fills in the account's unspent records for record
+// inputs the dApp leaves out, e.g. the passport of prove_access. With `requestIds`,
+// requestTransaction returns a request ID instead of the transaction ID, which
+// transactionStatus maps to the at1… ID (lib/transactionTracker.ts).
+//
+// @example
+// vi.mock('@demox-labs/aleo-wallet-adapter-react', () => ({ useWallet: vi.fn() }));
+// const chain = new ChainSimulator();
+// const wallet = new MockWalletAdapter(chain, address);
+// vi.mocked(useWallet).mockReturnValue(mockWalletContext(wallet));
+// vi.stubGlobal('fetch', chain.fetch);
+
+import { Transaction, WalletAdapterNetwork } from '@demox-labs/aleo-wallet-adapter-base';
+import type { useWallet } from '@demox-labs/aleo-wallet-adapter-react';
+import type { ChainSimulator, SimulatedRecord, SimulatedTransactionStatus } from './chainSimulator';
+
+type WalletContext = ReturnType<typeof useWallet>;
+
+/**
+ * Record as listed by requestRecords (Leo Wallet format, plus plaintext for requestRecordPlaintexts)
+ */
+export interface MockWalletRecord {
+  id: string;
+  owner: string;
+  program_id: string;
+  recordName: string;
+  spent: boolean;
+  ciphertext: string;
+  plaintext?: string;
+}
+
+export interface MockWalletOptions {
+  requestIds?: boolean;    // Return request IDs like Leo Wallet (default: transaction IDs)
+}
+
+// Wallet status of a request by simulated transaction status
+const WALLET_STATUS: Record<SimulatedTransactionStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Finalized',
+  rejected: 'Rejected',
+  aborted: 'Aborted',
+};
+
+export class MockWalletAdapter {
+  readonly publicKey: string;
+  private chain: ChainSimulator;
+  private requestIds: boolean;
+  private requests = new Map<string, string>();
+
+  constructor(chain: ChainSimulator, publicKey: string, options: MockWalletOptions = {}) {
+    this.chain = chain;
+    this.publicKey = publicKey;
+    this.requestIds = options.requestIds ?? false;
+  }
+
+  /**
+   * Execute the transition and broadcast it; returns the transaction ID (or request ID)
+   */
+  async requestTransaction(transaction: Transaction): Promise<string> {
+    const { functionName, inputs } = this.transition(transaction);
+    const transactionId = await this.chain.submit(this.publicKey, functionName, inputs);
+    if (!this.requestIds) {
+      return transactionId;
+    }
+    const requestId = crypto.randomUUID();
+    this.requests.set(requestId, transactionId);
+    return requestId;
+  }
+
+  /**
+   * Status and at1… ID of a request
+   */
+  async transactionStatus(requestId: string): Promise<{ status: string; transactionId: string }> {
+    const transactionId = this.requests.get(requestId);
+    const transaction = transactionId ? this.chain.transaction(transactionId) : null;
+    if (!transactionId || !transaction) {
+      throw new Error(`Unknown request: ${requestId}`);
+    }
+    return { status: WALLET_STATUS[transaction.status], transactionId };
+  }
+
+  /**
+   * Execute the transition locally without broadcasting it
+   * Public outputs are the transition's non-record outputs (e.g. [nullifier, valid]).
+   */
+  async requestExecution(transaction: Transaction): Promise<{ proof: string; publicOutputs: string[] }> {
+    const { functionName, inputs } = this.transition(transaction);
+    const execution = await this.chain.execute(this.publicKey, functionName, inputs);
+    return {
+      proof: JSON.stringify({ functionName, finalizeArgs: execution.finalizeArgs }),
+      publicOutputs: execution.outputs.flatMap(output => (output.type === 'record' ? [] : [output.value])),
+    };
+  }
+
+  async requestRecords(program: string): Promise<MockWalletRecord[]> {
+    return this.ownRecords(program).map(record => this.walletRecord(record));
+  }
+
+  async requestRecordPlaintexts(program: string): Promise<MockWalletRecord[]> {
+    return this.ownRecords(program).map(record => ({
+      ...this.walletRecord(record),
+      plaintext: this.chain.recordPlaintext(record),
+    }));
+  }
+
+  async decrypt(ciphertext: string): Promise<string> {
+    const record = this.chain.recordByCiphertext(ciphertext);
+    if (!record || record.owner !== this.publicKey) {
+      throw new Error('Record cannot be decrypted with this account');
+    }
+    return this.chain.recordPlaintext(record);
+  }
+
+  /**
+   * Build and send a transaction of the simulated program, e.g. to set up state in tests
+   */
+  async execute(functionName: string, inputs: string[]): Promise<string> {
+    return this.requestTransaction(Transaction.createTransaction(
+      this.publicKey,
+      WalletAdapterNetwork.TestnetBeta,
+      this.chain.programId,
+      functionName,
+      inputs,
+      50_000,
+      false
+    ));
+  }
+
+  private transition(transaction: Transaction): { functionName: string; inputs: string[] } {
+    if (transaction.address !== this.publicKey) {
+      throw new Error('Transaction is for another account');
+    }
+    if (transaction.transitions.length !== 1) {
+      throw new Error('Only single-transition transactions are supported');
+    }
+    const [{ program, functionName, inputs }] = transaction.transitions;
+    if (program !== this.chain.programId) {
+      throw new Error(`Unknown program: ${program}`);
+    }
+    return { functionName, inputs: this.withRecordInputs(functionName, inputs.map(String)) };
+  }
+
+  /**
+   * Leading record inputs the dApp did not pass are taken from the account's unspent records
+   */
+  private withRecordInputs(functionName: string, inputs: string[]): string[] {
+    const spec = this.chain.inputSpec(functionName);
+    const missing = spec.slice(0, spec.length - inputs.length);
+    const chosen: string[] = [];
+    for (const name of missing) {
+      if (name === 'public' || name === 'private') {
+        throw new Error(`${functionName} expects ${spec.length} inputs, got ${inputs.length}`);
+      }
+      const record = this.chain.recordsOf(this.publicKey, name).find(r => !chosen.includes(r.ciphertext));
+      if (!record) {
+        throw new Error(`No ${name} record in wallet`);
+      }
+      chosen.push(record.ciphertext);
+    }
+    return [...chosen, ...inputs];
+  }
+
+  private ownRecords(program: string): SimulatedRecord[] {
+    return program === this.chain.programId ? this.chain.recordsOf(this.publicKey) : [];
+  }
+
+  private walletRecord(record: SimulatedRecord): MockWalletRecord {
+    return {
+      id: String(record.id),
+      owner: record.owner,
+      program_id: this.chain.programId,
+      recordName: record.name,
+      spent: record.spent,
+      ciphertext: record.ciphertext,
+    };
+  }
+}
+
+/**
+ * useWallet() value of a connected mock wallet
+ */
+export function mockWalletContext(adapter: MockWalletAdapter): WalletContext {
+  return {
+    publicKey: adapter.publicKey,
+    connected: true,
+    wallet: { adapter },
+  } as unknown as WalletContext;
+}
@@ -12,23 +12,46 @@
 // ============================================================================
 
 import { describe, it, expect, beforeEach, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useWallet } from "@demox-labs/aleo-wallet-adapter-react";
 import { usePassportProof } from "../hooks/usePassportProof";
+import { PROGRAM_ID } from "../deployed_program";
 import { PassportProofVerifier } from "../utils/verifier";
-import { prepareStampsForProof, canMeetScoreRequirement } from "../utils/stampAggregation";
+import { prepareStampsForAggregation, canMeetScoreRequirement } from "../utils/stampAggregation";
+import { deriveAppId } from "../lib/commitments";
+import { computeNullifier, computeScoreCommitment, computeStampsCommitment } from "../lib/passportCommitments";
+import { ChainSimulator } from "./mocks/chainSimulator";
+import { MockWalletAdapter, mockWalletContext } from "./mocks/mockWallet";
+import { newAddress } from "./mocks/accounts";
+
+vi.mock("@demox-labs/aleo-wallet-adapter-react", () => ({
+    useWallet: vi.fn(),
+}));
 
 describe("Privacy Tests - ZK Passport System", () => {
     describe("Wallet Boundary Tests", () => {
-        it("should NOT read passport records to frontend", () => {
-            // PRIVACY: usePassportProof should NOT call requestPassportRecords
-            // Records should stay in wallet
-            
-            const mockRequestPassportRecords = vi.fn();
-            const mockRequestStampRecords = vi.fn();
-            
-            // Test that hooks don't expose records
-            // In actual implementation, wallet handles records internally
-            expect(mockRequestPassportRecords).not.toHaveBeenCalled();
-            expect(mockRequestStampRecords).not.toHaveBeenCalled();
+        it("should NOT read passport records to frontend", async () => {
+            // PRIVACY: usePassportProof leaves the passport record to the wallet
+            // The wallet selects the record for prove_access itself
+            const chain = new ChainSimulator();
+            const wallet = new MockWalletAdapter(chain, await newAddress());
+            await wallet.execute("claim_points", ["42field"]);
+            vi.mocked(useWallet).mockReturnValue(mockWalletContext(wallet));
+            
+            const requestRecords = vi.spyOn(wallet, "requestRecords");
+            const requestRecordPlaintexts = vi.spyOn(wallet, "requestRecordPlaintexts");
+            const decrypt = vi.spyOn(wallet, "decrypt");
+            
+            const { result } = renderHook(() => usePassportProof());
+            const proof = await act(() => result.current.generateProof(
+                { program: PROGRAM_ID, function: "prove_access", appId: "test-app", minScore: 0 },
+                false
+            ));
+            
+            expect(proof?.valid).toBe(true);
+            expect(requestRecords).not.toHaveBeenCalled();
+            expect(requestRecordPlaintexts).not.toHaveBeenCalled();
+            expect(decrypt).not.toHaveBeenCalled();
         });
 
         it("should NOT parse Leo records in frontend", () => {
@@ -166,27 +189,17 @@ describe("Privacy Tests - ZK Passport System", () => {
     });
 
     describe("Nullifier Privacy Tests", () => {
-        it("should generate unique nullifier per (passport, app)", () => {
+        it("should generate unique nullifier per (passport, app)", async () => {
             // PRIVACY: Nullifier should be unique per (passport, app) pair
             // Different apps → different nullifiers
             
             const nonce = "123field";
-            const appId1 = "app1";
-            const appId2 = "app2";
-            
-            // Mock nullifier generation (same as in contract)
-            const generateNullifier = (nonce: string, appId: string): string => {
-                // Simplified version of contract's generate_nullifier
-                const p1 = BigInt(7919);
-                const p2 = BigInt(7907);
-                const n = BigInt(nonce.replace("field", ""));
-                const a = BigInt(appId);
-                const hash = (n * p1 + a * p2) * (n + a) + n * a;
-                return hash.toString() + "field";
-            };
+            const appId1 = await deriveAppId("app1");
+            const appId2 = await deriveAppId("app2");
             
-            const nullifier1 = generateNullifier(nonce, appId1);
-            const nullifier2 = generateNullifier(nonce, appId2);
+            // Same as generate_nullifier in the contract
+            const nullifier1 = await computeNullifier(nonce, appId1);
+            const nullifier2 = await computeNullifier(nonce, appId2);
             
             // Should be different nullifiers for different apps
             expect(nullifier1).not.toBe(nullifier2);
@@ -206,40 +219,35 @@ describe("Privacy Tests - ZK Passport System", () => {
             // (In production, use proper hash - cannot reverse)
         });
 
-        it("should prevent replay attacks", () => {
-            // PRIVACY: Nullifier should be unique - cannot reuse
+        it("should prevent replay attacks", async () => {
+            // PRIVACY: finalize_prove_access records each nullifier once
+            // A second proof of the same passport for the same app is rejected on-chain
             
-            const nullifier = "123456789field";
-            const usedNullifiers = new Set<string>();
+            const chain = new ChainSimulator();
+            const wallet = new MockWalletAdapter(chain, await newAddress());
+            await wallet.execute("claim_points", ["42field"]);
+            const inputs = [await deriveAppId("app1"), "0u64", "0field", "0u64", "0u32", "0u64", "0u32"];
             
             // First use: should succeed
-            expect(usedNullifiers.has(nullifier)).toBe(false);
-            usedNullifiers.add(nullifier);
+            const first = await wallet.execute("prove_access", inputs);
+            expect(chain.transaction(first)?.status).toBe("accepted");
             
             // Second use: should fail (replay)
-            expect(usedNullifiers.has(nullifier)).toBe(true);
+            const replay = await wallet.execute("prove_access", inputs);
+            expect(chain.transaction(replay)?.status).toBe("rejected");
         });
 
-        it("should prevent cross-app linking", () => {
+        it("should prevent cross-app linking", async () => {
             // PRIVACY: Different apps should have different nullifiers
             // Cannot link user between apps
             
             const nonce = "123field";
-            const appId1 = "app1";
-            const appId2 = "app2";
-            
-            // Mock nullifier generation
-            const generateNullifier = (nonce: string, appId: string): string => {
-                const p1 = BigInt(7919);
-                const p2 = BigInt(7907);
-                const n = BigInt(nonce.replace("field", ""));
-                const a = BigInt(appId);
-                const hash = (n * p1 + a * p2) * (n + a) + n * a;
-                return hash.toString() + "field";
-            };
+            const appId1 = await deriveAppId("app1");
+            const appId2 = await deriveAppId("app2");
             
-            const nullifier1 = generateNullifier(nonce, appId1);
-            const nullifier2 = generateNullifier(nonce, appId2);
+            // Same as generate_nullifier in the contract
+            const nullifier1 = await computeNullifier(nonce, appId1);
+            const nullifier2 = await computeNullifier(nonce, appId2);
             
             // Nullifiers should be different
             expect(nullifier1).not.toBe(nullifier2);
@@ -327,10 +335,10 @@ describe("Privacy Tests - ZK Passport System", () => {
                 { owner: "aleo1...", stamp_id: 2, points: 20 },
             ];
             
-            const prepared = prepareStampsForProof(stamps, 5);
+            const prepared = prepareStampsForAggregation(stamps);
             
-            // Should prepare fixed-size array
-            expect(prepared.length).toBe(5);
+            // Should prepare one add_stamp call per stamp
+            expect(prepared.length).toBe(2);
             
             // Should NOT expose data to external services
             // Aggregation happens locally
@@ -356,23 +364,15 @@ describe("Privacy Tests - ZK Passport System", () => {
     });
 
     describe("Cross-App Unlinkability Tests", () => {
-        it("should generate different nullifiers for different apps", () => {
+        it("should generate different nullifiers for different apps", async () => {
             // PRIVACY: Same passport, different apps → different nullifiers
             // Cannot link between apps
             
             const nonce = "123field";
-            const apps = ["app1", "app2", "app3"];
-            
-            const generateNullifier = (nonce: string, appId: string): string => {
-                const p1 = BigInt(7919);
-                const p2 = BigInt(7907);
-                const n = BigInt(nonce.replace("field", ""));
-                const a = BigInt(appId);
-                const hash = (n * p1 + a * p2) * (n + a) + n * a;
-                return hash.toString() + "field";
-            };
+            const apps = await Promise.all(["app1", "app2", "app3"].map(deriveAppId));
             
-            const nullifiers = apps.map(app => generateNullifier(nonce, app));
+            // Same as generate_nullifier in the contract
+            const nullifiers = await Promise.all(apps.map(app => computeNullifier(nonce, app)));
             
             // All nullifiers should be different
             const unique = new Set(nullifiers);
@@ -408,22 +408,16 @@ describe("Privacy Tests - ZK Passport System", () => {
     });
 
     describe("Commitment Privacy Tests", () => {
-        it("should hide actual score in commitment", () => {
+        it("should hide actual score in commitment", async () => {
             // PRIVACY: Score commitment should hide actual score
             
             const score1 = 50;
             const score2 = 100;
-            const secret = "secret123field";
+            const secret = "123456789field";
             
-            // Mock commitment (simplified version)
-            const computeCommitment = (score: number, secret: string): string => {
-                const s = BigInt(score);
-                const sec = BigInt(secret.replace("field", ""));
-                return (s * sec + s * s).toString() + "field";
-            };
-            
-            const commitment1 = computeCommitment(score1, secret);
-            const commitment2 = computeCommitment(score2, secret);
+            // Same as compute_score_commitment in the contract
+            const commitment1 = await computeScoreCommitment(score1, secret);
+            const commitment2 = await computeScoreCommitment(score2, secret);
             
             // Commitments should be different
             expect(commitment1).not.toBe(commitment2);
@@ -431,27 +425,15 @@ describe("Privacy Tests - ZK Passport System", () => {
             // Cannot extract actual score from commitment without secret
         });
 
-        it("should hide stamps composition in commitment", () => {
+        it("should hide stamps composition in commitment", async () => {
             // PRIVACY: Stamps commitment should hide which stamps user has
             
-            const stamps1 = [1, 2, 3, 0, 0];
-            const stamps2 = [1, 2, 4, 0, 0];
-            
-            // Mock commitment (simplified version)
-            const computeCommitment = (stampIds: number[]): string => {
-                let commitment = BigInt(0);
-                const mixer = BigInt(17);
-                for (let i = 0; i < stampIds.length; i++) {
-                    const id = BigInt(stampIds[i]);
-                    const square = id * id;
-                    const coef = BigInt(i + 1);
-                    commitment = commitment + square * coef * mixer;
-                }
-                return commitment.toString() + "field";
-            };
+            const stamps1 = [1, 2, 3];
+            const stamps2 = [1, 2, 4];
             
-            const commitment1 = computeCommitment(stamps1);
-            const commitment2 = computeCommitment(stamps2);
+            // Same as folding stamps with add_stamp in the contract
+            const commitment1 = await computeStampsCommitment(stamps1);
+            const commitment2 = await computeStampsCommitment(stamps2);
             
             // Commitments should be different
             expect(commitment1).not.toBe(commitment2);
@@ -0,0 +1,99 @@
+// The passport program is @noupgrade: a deployed ID can never get a new interface.
+// Every interface change must come with a new program ID in the same change. This
+// test pins the interface of each program ID (records, structs, mappings and
+// transitions), so changing any of them in src/main.leo without bumping the ID fails
+// here, and so does a client that sends prove_access other inputs than the program
+// declares.
+
+import { describe, it, expect, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { PROGRAM_ID } from '../deployed_program';
+import { requestPassportProof } from '../sdk/passportClient';
+
+const ROOT = path.resolve(__dirname, '../../..');
+
+/**
+ * SHA-256 of programInterface() per program ID (add a new ID, never edit an entry)
+ * v6 is the deployed baseline.
+ */
+const PROGRAM_INTERFACES: Record<string, string> = {
+  'zkpersona_passport_v6.aleo': 'da5df3bd82adbe3244fe296c6e938d1a57b1c161a834bd9d31a982a8a7286919',
+  'zkpersona_passport_v7.aleo': '443914ff66c1c2bf26b7a72d786f65f881de86d7537a4fd1a2145d6c33019d79',
+  'zkpersona_passport_v8.aleo': '08032db73f032335bb717fd3635bb20c14d1d8c9a9d4f95ddbd1db61ffee7292',
+  'zkpersona_passport_v9.aleo': '47339d8aba4002e939dce7c799686e72d6a537fad86f2eb485e47560060984b8',
+  'zkpersona_passport_v10.aleo': '16de657acb12dfc0d8c68917e17ea1f859f3de4a860ac2a5b2834e2d8908013d',
+  'zkpersona_passport_v11.aleo': '4ce71a03c8e25b9d1fb06b7e6b79395bed01fee701a77b3f6d26004b17212f60',
+  'zkpersona_passport_v12.aleo': '7cf07260712e85f9a0073e2564d055caab77b8b0efed5df88f47a57960c1aca8',
+  'zkpersona_passport_v13.aleo': 'b552d1b2e2d6e5428f3d9ac497867aff53ff18a7a3269e363056a06a1e8ae3a7',
+};
+
+const compact = (text: string): string => text.replace(/\s+/g, ' ').trim();
+const list = (text: string): string => text.split(',').map(compact).filter(Boolean).join(', ');
+
+/**
+ * Record and struct layouts, mappings and transition signatures, one per line
+ */
+const programInterface = (leo: string): string[] => {
+  const source = leo.replace(/\/\/.*$/gm, '');
+  const types = [...source.matchAll(/\b(record|struct)\s+(\w+)\s*\{([^}]*)\}/g)]
+    .map(([, kind, name, members]) => `${kind} ${name} { ${list(members)} }`);
+  const mappings = [...source.matchAll(/\bmapping\s+(\w+)\s*:\s*([^;]*);/g)]
+    .map(([, name, keyValue]) => `mapping ${name}: ${compact(keyValue)}`);
+  const transitions = [...source.matchAll(/\b(?:async\s+)?transition\s+(\w+)\s*\(([^)]*)\)\s*(?:->\s*([^{]*))?\{/g)]
+    .map(([, name, params, output = '']) => `transition ${name}(${list(params)}) -> ${compact(output)}`);
+  return [...types, ...mappings, ...transitions];
+};
+
+/**
+ * Types of the public inputs of a transition, in order
+ */
+const publicInputTypes = (leo: string, transition: string): string[] => {
+  const params = leo.match(new RegExp(`\\btransition\\s+${transition}\\s*\\(([^)]*)\\)`))?.[1] ?? '';
+  return params.split(',').map(compact)
+    .filter(param => param.startsWith('public '))
+    .map(param => param.split(':')[1].trim());
+};
+
+const read = (file: string): string => readFileSync(path.join(ROOT, file), 'utf8');
+
+describe('program interface', () => {
+  const leo = read('src/src/main.leo');
+  const programId = leo.match(/\bprogram\s+(\S+)\s*\{/)?.[1];
+
+  it('should build the deployed program ID everywhere', () => {
+    expect(read('src/main.leo')).toBe(leo);
+    expect(JSON.parse(read('src/program.json')).program).toBe(programId);
+    expect(PROGRAM_ID).toBe(programId);
+  });
+
+  it('should bump the program ID with every interface change', () => {
+    const hash = createHash('sha256').update(programInterface(leo).join('\n')).digest('hex');
+
+    expect(PROGRAM_INTERFACES[programId!], `${programId} has no pinned interface`).toBeDefined();
+    expect(hash, `Interface of ${programId} changed: bump the program ID and pin the new interface`)
+      .toBe(PROGRAM_INTERFACES[programId!]);
+  });
+
+  it('should send prove_access the public inputs the program declares', async () => {
+    const requestExecution = vi.fn().mockResolvedValue({ proof: 'execution-json', publicOutputs: ['1field', true] });
+    await requestPassportProof(
+      { adapter: { requestTransaction: vi.fn(), requestExecution }, publicKey: 'aleo1test' },
+      {
+        appId: 'myapp.xyz/prod',
+        minScore: 40,
+        challenge: 'session-1',
+        predicates: [{ platforms: ['github'], minStamps: 1 }, { platforms: ['discord', 'telegram'], minStamps: 2 }],
+        onChain: false,
+      }
+    );
+
+    const inputs: string[] = requestExecution.mock.calls[0][0].transitions[0].inputs;
+    const types = publicInputTypes(leo, 'prove_access');
+
+    expect(types).toEqual(['field', 'u64', 'field', 'u64', 'u32', 'u64', 'u32']);
+    expect(inputs).toHaveLength(types.length);
+    inputs.forEach((input, i) => expect(input).toMatch(new RegExp(`^\\d+${types[i]}$`)));
+  });
+});
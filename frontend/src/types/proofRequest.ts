@@ -9,6 +9,10 @@
 // Privacy: dApps specify requirements, wallets generate proofs locally.
 // ============================================================================
 
+import type { PlatformPredicate } from "../lib/predicates";
+
+export type { PlatformPredicate };
+
 /**
  * Proof Request Schema
  * 
@@ -17,9 +21,9 @@
  */
 export interface PassportProofRequest {
     /**
-     * Program ID (always "passportapp.aleo" for this system)
+     * Program ID (deployed PROGRAM_ID, e.g. "zkpersona_passport_v13.aleo")
      */
-    program: "passportapp.aleo";
+    program: string;
     
     /**
      * Function to call (always "prove_access" for passport verification)
@@ -33,7 +37,8 @@ export interface PassportProofRequest {
      * - Cross-app linking (same nullifier per app)
      * - Replay attacks (nullifier is per app_id)
      * 
-     * Format: Should be a field value (can be derived from app domain/name)
+     * Format: App identifier string (e.g. "myapp.xyz/prod"). The wallet and
+     * verifiers hash it into the app_id field with deriveAppId (lib/commitments.ts).
      */
     appId: string;
     
@@ -47,6 +52,27 @@ export interface PassportProofRequest {
      */
     minScore: number;
     
+    /**
+     * Optional: Platform predicates (AND-ed with minScore)
+     * 
+     * e.g. [{ platforms: ["github"], minStamps: 1 }] = "has a GitHub stamp"
+     * e.g. [{ platforms: ["discord", "telegram", "solana"], minStamps: 2 }]
+     * 
+     * At most 2 predicates (lib/predicates.ts). Only the predicate is public -
+     * which stamps satisfied it is NOT revealed.
+     */
+    predicates?: PlatformPredicate[];
+    
+    /**
+     * Optional: Verifier-supplied challenge (lib/challenge.ts createChallenge)
+     * 
+     * Passed to prove_access as a public input, so the proof only verifies
+     * for this challenge. Prevents replay of off-chain proofs across sessions.
+     * 
+     * Default: none (0field)
+     */
+    challenge?: string;
+    
     /**
      * Optional: Whether to execute on-chain
      * 
@@ -67,6 +93,9 @@ export interface PassportProofResponse {
     /**
      * Zero-knowledge proof
      * 
+     * Serialized prove_access execution (transitions + batch proof),
+     * verifiable locally against the program's verifying key.
+     * 
      * This proves:
      * - User has valid passport
      * - Score meets requirement
@@ -97,6 +126,19 @@ export interface PassportProofResponse {
      */
     valid: boolean;
     
+    /**
+     * App identifier and minimum score the proof was generated for
+     * (public inputs of prove_access - verifiers compare them to their own)
+     */
+    appId: string;
+    minScore: number;
+    
+    /**
+     * Platform predicates and challenge the proof is bound to (if the request had them)
+     */
+    predicates?: PlatformPredicate[];
+    challenge?: string;
+    
     /**
      * Transaction ID (if executed on-chain)
      */
@@ -111,7 +153,10 @@ export interface PassportProofResponse {
 export interface PassportVerificationInput {
     proof: string;
     nullifier: string;
-    appId: string;
+    appId: string;  // Same app identifier as in PassportProofRequest (not the derived field)
     minScore: number;
+    predicates?: PlatformPredicate[];  // Platform predicates the dApp requires
+    challenge?: string;      // Challenge the verifier issued for this session (not the one from the response)
+    transactionId?: string;  // On-chain proof: verified against this prove_access transaction
 }
 
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { verifyFunctionExecution } from '@provablehq/sdk';
+import { AleoSDKVerifier } from '../aleoSdkVerifier';
+import { PROGRAM_ID } from '../../deployed_program';
+import { deriveAppId, deriveChallengeField } from '../../lib/commitments';
+import { NULLIFIER, acceptedProveAccessTxWith } from './fixtures/proveAccessTransactions';
+
+vi.mock('@provablehq/sdk', () => ({
+  initializeWasm: vi.fn(),
+  AleoNetworkClient: class {
+    getProgramObject = vi.fn(async () => 'program');
+    getDeploymentTransactionForProgram = vi.fn(async () => ({
+      deployment: { verifying_keys: [['prove_access', ['verifier1key', 'certificate1']]] },
+    }));
+    getLatestHeight = vi.fn(async () => 1);
+  },
+  VerifyingKey: { fromString: vi.fn(() => 'verifying-key') },
+  // The wallet's execution JSON is the proof
+  FunctionExecution: { fromString: (proof: string) => ({ toString: () => proof }) },
+  verifyFunctionExecution: vi.fn(() => true),
+}));
+
+const APP = 'myapp.xyz/prod';
+const PREDICATES = [{ platforms: ['github'], minStamps: 1 }];
+
+describe('AleoSDKVerifier', () => {
+  const verifier = new AleoSDKVerifier(PROGRAM_ID);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // Off-chain prove_access execution for the given min_score
+  const execution = async (minScore: number, challenge: string) => {
+    const tx = acceptedProveAccessTxWith('at1offchain', {
+      appId: await deriveAppId(APP),
+      minScore,
+      challenge: await deriveChallengeField(challenge),
+    });
+    return JSON.stringify(tx.transaction.execution);
+  };
+
+  it('should accept a proof for a higher min_score than required', async () => {
+    const proof = await execution(50, 'session-1');
+
+    expect(await verifier.verifyPassportProof({ proof, nullifier: NULLIFIER, appId: APP, minScore: 40, predicates: PREDICATES, challenge: 'session-1' })).toBe(true);
+    expect(await verifier.verifyPassportProof({ proof, nullifier: NULLIFIER, appId: APP, minScore: 50, predicates: PREDICATES, challenge: 'session-1' })).toBe(true);
+    expect(verifyFunctionExecution).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject a proof for a lower min_score than required', async () => {
+    const proof = await execution(30, 'session-1');
+
+    expect(await verifier.verifyPassportProof({ proof, nullifier: NULLIFIER, appId: APP, minScore: 40, predicates: PREDICATES, challenge: 'session-1' })).toBe(false);
+    expect(verifyFunctionExecution).not.toHaveBeenCalled();
+  });
+});
@@ -3,7 +3,8 @@ import {
   fetchTransactionHistory,
   fetchTransactionDetails,
   getTransactionUrl,
-  fetchProgramExecutions 
+  fetchProgramExecutions,
+  extractFee
 } from '../explorerAPI';
 
 // Mock fetch globally
@@ -148,5 +149,33 @@ describe('explorerAPI', () => {
       expect(result).toEqual([]);
     });
   });
+
+  describe('extractFee', () => {
+    it('should add base and priority fee of a public fee transition', () => {
+      const tx = {
+        id: 'tx1',
+        fee: {
+          transition: {
+            program: 'credits.aleo',
+            function: 'fee_public',
+            inputs: [
+              { type: 'public', value: '51000u64' },
+              { type: 'public', value: '1000u64' },
+              { type: 'public', value: '123field' },
+            ],
+          },
+        },
+      };
+
+      expect(extractFee(tx)).toBe(52000);
+      expect(extractFee({ transaction: tx })).toBe(52000);
+    });
+
+    it('should return numeric fees as is and nothing for private fees', () => {
+      expect(extractFee({ fee: 50000 })).toBe(50000);
+      expect(extractFee({ fee: { transition: { inputs: [{ type: 'record', value: 'record1...' }] } } })).toBeUndefined();
+      expect(extractFee({ id: 'tx1' })).toBeUndefined();
+    });
+  });
 });
 
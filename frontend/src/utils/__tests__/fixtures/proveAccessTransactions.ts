@@ -0,0 +1,142 @@
+// Confirmed transaction fixtures (/transaction/confirmed/{id}) for prove_access
+
+import { PROGRAM_ID } from '../../../deployed_program';
+
+export const APP_ID = '1234567890field';
+export const MIN_SCORE = 40;
+export const NULLIFIER = '987654321987654321field';
+export const CHALLENGE = '555000111field';
+// "has a GitHub stamp" (platform_id 3 -> mask 8), second slot unused
+export const PLATFORM_PREDICATES = ['8u64', '1u32', '0u64', '0u32'];
+
+const proveAccessTransition = {
+  id: 'au1proveaccess0000000000000000000000000000000000000000000000qq',
+  program: PROGRAM_ID,
+  function: 'prove_access',
+  inputs: [
+    { type: 'record', id: '1111field', tag: '2222field' },
+    { type: 'public', id: '6666field', value: APP_ID },
+    { type: 'public', id: '7777field', value: `${MIN_SCORE}u64` },
+    { type: 'public', id: '7778field', value: CHALLENGE },
+    ...PLATFORM_PREDICATES.map((value, i) => ({ type: 'public', id: `778${i}field`, value })),
+  ],
+  outputs: [
+    { type: 'record', id: '3333field', checksum: '4444field', value: 'record1qgqpassport' },
+    { type: 'private', id: '8888field', value: 'ciphertext1qgqnullifier' },
+    { type: 'private', id: '9999field', value: 'ciphertext1qgqvalid' },
+    {
+      type: 'future',
+      id: '1010field',
+      value: `{\n  program_id: ${PROGRAM_ID},\n  function_name: prove_access,\n  arguments: [\n    ${NULLIFIER},\n    ${APP_ID}\n  ]\n}`,
+    },
+  ],
+  tpk: '1212group',
+  tcm: '1313field',
+  scm: '1414field',
+};
+
+const feeTransition = {
+  id: 'au1fee00000000000000000000000000000000000000000000000000000000qq',
+  program: 'credits.aleo',
+  function: 'fee_public',
+  inputs: [{ type: 'public', id: '1515field', value: '50000u64' }],
+  outputs: [],
+  tpk: '1616group',
+  tcm: '1717field',
+  scm: '1818field',
+};
+
+export const acceptedProveAccessTx = {
+  status: 'accepted',
+  type: 'execute',
+  index: 0,
+  transaction: {
+    type: 'execute',
+    id: 'at1accepted000000000000000000000000000000000000000000000000qq',
+    execution: {
+      transitions: [proveAccessTransition],
+      global_state_root: 'sr1globalstateroot',
+      proof: 'proof1batchproof',
+    },
+    fee: { transition: feeTransition, global_state_root: 'sr1globalstateroot', proof: 'proof1feeproof' },
+  },
+  finalize: [
+    { type: 'update_key_value', mapping_id: '1919field', key_id: '2020field', value_id: '2121field' },
+  ],
+};
+
+// Rejected executions only keep the fee transaction; the execution moves to "rejected"
+export const rejectedProveAccessTx = {
+  status: 'rejected',
+  type: 'execute',
+  index: 1,
+  transaction: {
+    type: 'fee',
+    id: 'at1rejected000000000000000000000000000000000000000000000000qq',
+    fee: { transition: feeTransition, global_state_root: 'sr1globalstateroot', proof: 'proof1feeproof' },
+  },
+  rejected: {
+    type: 'execution',
+    execution: {
+      transitions: [proveAccessTransition],
+      global_state_root: 'sr1globalstateroot',
+      proof: 'proof1batchproof',
+    },
+  },
+  finalize: [],
+};
+
+export const abortedProveAccessTx = {
+  status: 'aborted',
+  type: 'execute',
+  transaction: {
+    type: 'execute',
+    id: 'at1aborted0000000000000000000000000000000000000000000000000qq',
+  },
+};
+
+// prove_access of a program deployed before challenges (app_id, min_score only)
+export const legacyProveAccessTransition = {
+  ...proveAccessTransition,
+  inputs: proveAccessTransition.inputs.slice(0, 3),
+};
+
+// Accepted transaction of another function (no prove_access transition)
+export const acceptedClaimTx = {
+  ...acceptedProveAccessTx,
+  transaction: {
+    ...acceptedProveAccessTx.transaction,
+    id: 'at1claim000000000000000000000000000000000000000000000000000qq',
+    execution: {
+      ...acceptedProveAccessTx.transaction.execution,
+      transitions: [{ ...proveAccessTransition, function: 'claim_verification' }],
+    },
+  },
+};
+
+/**
+ * Accepted prove_access transaction with other public inputs (e.g. a real derived app_id)
+ */
+export const acceptedProveAccessTxWith = (
+  id: string,
+  { appId = APP_ID, minScore = MIN_SCORE, challenge = CHALLENGE }: { appId?: string; minScore?: number; challenge?: string }
+) => {
+  const values: Record<string, string> = { '6666field': appId, '7777field': `${minScore}u64`, '7778field': challenge };
+  return {
+    ...acceptedProveAccessTx,
+    transaction: {
+      ...acceptedProveAccessTx.transaction,
+      id,
+      execution: {
+        ...acceptedProveAccessTx.transaction.execution,
+        transitions: [{
+          ...proveAccessTransition,
+          inputs: proveAccessTransition.inputs.map(input => (input.id in values ? { ...input, value: values[input.id] } : input)),
+          outputs: proveAccessTransition.outputs.map(output =>
+            output.type === 'future' ? { ...output, value: output.value.replace(APP_ID, appId) } : output
+          ),
+        }],
+      },
+    },
+  };
+};
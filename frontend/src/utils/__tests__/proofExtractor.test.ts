@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  extractProofFromTransaction,
+  extractProofFromConfirmedTransaction,
+  parseFutureArguments,
+  parseProveAccessTransition,
+} from '../proofExtractor';
+import {
+  APP_ID,
+  MIN_SCORE,
+  NULLIFIER,
+  CHALLENGE,
+  PLATFORM_PREDICATES,
+  legacyProveAccessTransition,
+  acceptedProveAccessTx,
+  rejectedProveAccessTx,
+  abortedProveAccessTx,
+  acceptedClaimTx,
+} from './fixtures/proveAccessTransactions';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+const mockConfirmedResponse = (body: unknown) => {
+  (global.fetch as any).mockResolvedValueOnce({
+    ok: true,
+    json: async () => body,
+  });
+};
+
+describe('proofExtractor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('parseFutureArguments', () => {
+    it('should parse multiline future arguments', () => {
+      const value = acceptedProveAccessTx.transaction.execution.transitions[0].outputs[3].value;
+      expect(parseFutureArguments(value)).toEqual([NULLIFIER, APP_ID]);
+    });
+
+    it('should return empty array when there are no arguments', () => {
+      expect(parseFutureArguments('{ program_id: x.aleo }')).toEqual([]);
+    });
+  });
+
+  describe('parseProveAccessTransition', () => {
+    it('should default challenge to 0field for transitions without challenge input', () => {
+      const parsed = parseProveAccessTransition(legacyProveAccessTransition);
+      expect(parsed?.challenge).toBe('0field');
+      expect(parsed?.platformPredicates).toEqual(['0u64', '0u32', '0u64', '0u32']);
+      expect(parsed?.appId).toBe(APP_ID);
+    });
+
+    it('should parse challenge and platform predicate inputs', () => {
+      const parsed = parseProveAccessTransition(acceptedProveAccessTx.transaction.execution.transitions[0]);
+      expect(parsed?.challenge).toBe(CHALLENGE);
+      expect(parsed?.platformPredicates).toEqual(PLATFORM_PREDICATES);
+    });
+  });
+
+  describe('extractProofFromConfirmedTransaction', () => {
+    it('should extract proof, nullifier and public values from accepted transaction', () => {
+      const result = extractProofFromConfirmedTransaction(acceptedProveAccessTx);
+
+      expect(result.transactionId).toBe(acceptedProveAccessTx.transaction.id);
+      expect(result.nullifier).toBe(NULLIFIER);
+      expect(result.appId).toBe(APP_ID);
+      expect(result.minScore).toBe(MIN_SCORE);
+      expect(result.challenge).toBe(CHALLENGE);
+      expect(result.publicOutputs).toEqual([NULLIFIER, 'true']);
+      expect(JSON.parse(result.proof)).toEqual(acceptedProveAccessTx.transaction.execution);
+    });
+
+    it('should throw for rejected transaction', () => {
+      expect(() => extractProofFromConfirmedTransaction(rejectedProveAccessTx)).toThrow(/rejected/);
+    });
+
+    it('should throw for aborted transaction', () => {
+      expect(() => extractProofFromConfirmedTransaction(abortedProveAccessTx)).toThrow(/aborted/);
+    });
+
+    it('should throw when prove_access transition is missing', () => {
+      expect(() => extractProofFromConfirmedTransaction(acceptedClaimTx)).toThrow(/prove_access transition/);
+    });
+
+    it('should throw when transition belongs to another program', () => {
+      expect(() => extractProofFromConfirmedTransaction(acceptedProveAccessTx, 'other_program.aleo'))
+        .toThrow(/other_program\.aleo\/prove_access/);
+    });
+  });
+
+  describe('extractProofFromTransaction', () => {
+    it('should fetch confirmed transaction and extract proof', async () => {
+      mockConfirmedResponse(acceptedProveAccessTx);
+
+      const result = await extractProofFromTransaction(acceptedProveAccessTx.transaction.id);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining(`/transaction/confirmed/${acceptedProveAccessTx.transaction.id}`),
+        expect.anything()
+      );
+      expect(result?.nullifier).toBe(NULLIFIER);
+    });
+
+    it('should return null when transaction is not confirmed yet', async () => {
+      (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 404 });
+
+      const result = await extractProofFromTransaction('at1pending');
+
+      expect(result).toBeNull();
+    });
+
+    it('should retry until transaction is confirmed', async () => {
+      (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 404 });
+      mockConfirmedResponse(acceptedProveAccessTx);
+
+      const result = await extractProofFromTransaction(acceptedProveAccessTx.transaction.id, {
+        attempts: 2,
+        intervalMs: 0,
+      });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(result?.nullifier).toBe(NULLIFIER);
+    });
+
+    it('should reject for rejected transaction', async () => {
+      mockConfirmedResponse(rejectedProveAccessTx);
+
+      await expect(extractProofFromTransaction('at1rejected')).rejects.toThrow(/rejected/);
+    });
+
+    it('should reject for aborted transaction', async () => {
+      mockConfirmedResponse(abortedProveAccessTx);
+
+      await expect(extractProofFromTransaction('at1aborted')).rejects.toThrow(/aborted/);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_STAMPS_PER_PLATFORM,
+  MAX_STAMP_ID,
+  calculateHumanityScore,
+  calculateWeightedHumanityScore,
+  canMeetScoreRequirement,
+  prepareStampsForAggregation,
+} from '../stampAggregation';
+
+const stamp = (stamp_id: number, platform_id: number, points = 0) => ({
+  owner: 'aleo1owner',
+  stamp_id,
+  platform_id,
+  points,
+});
+
+describe('stampAggregation', () => {
+  it('should keep every valid stamp in stamp_id order', () => {
+    const stamps = [stamp(7, 1), stamp(3, 2), stamp(0, 1), stamp(5, 3), stamp(1, 4), stamp(9, 5), stamp(2, 6)];
+
+    const prepared = prepareStampsForAggregation(stamps);
+
+    expect(prepared.map(s => s.stamp_id)).toEqual([1, 2, 3, 5, 7, 9]);
+  });
+
+  it('should leave out stamps past the per-platform limit', () => {
+    const stamps = Array.from({ length: MAX_STAMPS_PER_PLATFORM + 2 }, (_, i) => stamp(i + 1, 1));
+
+    const prepared = prepareStampsForAggregation([...stamps, stamp(100, 2)]);
+
+    expect(prepared).toHaveLength(MAX_STAMPS_PER_PLATFORM + 1);
+    expect(prepared[prepared.length - 1].stamp_id).toBe(100);
+  });
+
+  it('should add each stamp_id once and leave out stamp_ids past MAX_STAMP_ID', () => {
+    const stamps = [stamp(3, 3, 80), stamp(3, 3, 80), stamp(MAX_STAMP_ID + 1, 2), stamp(MAX_STAMP_ID, 2)];
+
+    const prepared = prepareStampsForAggregation(stamps);
+
+    expect(prepared.map(s => s.stamp_id)).toEqual([3, MAX_STAMP_ID]);
+  });
+
+  it('should count stamps past five towards the score', () => {
+    const stamps = Array.from({ length: 8 }, (_, i) => stamp(i + 1, i + 1));
+
+    expect(canMeetScoreRequirement(stamps, 40)).toBe(true);
+    expect(canMeetScoreRequirement(stamps, 41)).toBe(false);
+  });
+
+  it('should mirror calculate_humanity_score', () => {
+    expect(calculateHumanityScore(0, 0)).toBe(0);
+    expect(calculateHumanityScore(3, 250)).toBe(17);
+    expect(calculateHumanityScore(19, 600)).toBe(100);
+  });
+
+  it('should equal the unweighted score with weight 1', () => {
+    const stamps = [stamp(1, 1, 130), stamp(2, 2, 70), stamp(3, 3, 333)];
+
+    expect(calculateWeightedHumanityScore(stamps, () => 1)).toBe(calculateHumanityScore(3, 533));
+    expect(calculateWeightedHumanityScore(stamps, () => 0)).toBe(0);
+  });
+});
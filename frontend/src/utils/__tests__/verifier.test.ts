@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PassportProofVerifier } from '../verifier';
+import { checkNullifier, getNullifierRecord } from '../aleoAPI';
+import { getAleoSDKVerifier } from '../aleoSdkVerifier';
+import { createChallenge } from '../../lib/challenge';
+import { deriveAppId, deriveChallengeField } from '../../lib/commitments';
+import { NULLIFIER, acceptedProveAccessTxWith } from './fixtures/proveAccessTransactions';
+import { PROGRAM_ID } from '../../deployed_program';
+
+vi.mock('../aleoAPI', () => ({
+  checkNullifier: vi.fn(),
+  getNullifierRecord: vi.fn(),
+}));
+
+vi.mock('../aleoSdkVerifier', () => ({
+  getAleoSDKVerifier: vi.fn(),
+}));
+
+const APP = 'myapp.xyz/prod';
+// "has a GitHub stamp", as in the fixture's platform predicates
+const PREDICATES = [{ platforms: ['github'], minStamps: 1 }];
+
+let transactionCount = 0;
+const nextTransactionId = () => `at1verifier${String(++transactionCount).padStart(50, '0')}`;
+
+describe('PassportProofVerifier', () => {
+  let appId: string;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', vi.fn());
+    appId = await deriveAppId(APP);
+  });
+
+  // On-chain proof whose finalize recorded the nullifier for the app
+  const onChainProof = async (challenge?: string) => {
+    const transactionId = nextTransactionId();
+    const tx = acceptedProveAccessTxWith(transactionId, { appId, challenge: await deriveChallengeField(challenge) });
+    vi.mocked(fetch).mockResolvedValue({ ok: true, json: async () => tx } as Response);
+    vi.mocked(getNullifierRecord).mockResolvedValue({ nullifier: NULLIFIER, app_id: appId, used_at: 1 });
+    vi.mocked(checkNullifier).mockResolvedValue(true);
+
+    return { proof: 'proof1batchproof', nullifier: NULLIFIER, appId: APP, minScore: 40, predicates: PREDICATES, challenge, transactionId };
+  };
+
+  it('should verify an on-chain proof although its nullifier is recorded', async () => {
+    const input = await onChainProof(createChallenge());
+
+    expect(await new PassportProofVerifier().verify(input)).toBe(true);
+    expect(checkNullifier).not.toHaveBeenCalled();
+    expect(getNullifierRecord).toHaveBeenCalledWith(NULLIFIER, PROGRAM_ID);
+  });
+
+  it('should accept a transaction and a challenge only once', async () => {
+    const input = await onChainProof(createChallenge());
+    const verifier = new PassportProofVerifier();
+
+    expect(await verifier.verify(input)).toBe(true);
+    expect(await verifier.verify(input)).toBe(false);
+    expect(await verifier.verify({ ...input, challenge: undefined })).toBe(false);
+  });
+
+  it('should reject an on-chain proof with another nullifier or a lower score', async () => {
+    const input = await onChainProof();
+    const verifier = new PassportProofVerifier();
+
+    expect(await verifier.verify({ ...input, nullifier: '1field' })).toBe(false);
+    expect(await verifier.verify({ ...input, minScore: 50 })).toBe(false);
+    expect(await verifier.verify(input)).toBe(true);
+  });
+
+  it('should verify an off-chain proof with an unused nullifier', async () => {
+    const verifyPassportProof = vi.fn().mockResolvedValue(true);
+    vi.mocked(getAleoSDKVerifier).mockReturnValue({ verifyPassportProof } as any);
+    const input = { proof: 'execution-json', nullifier: NULLIFIER, appId: APP, minScore: 40 };
+    const verifier = new PassportProofVerifier();
+
+    vi.mocked(checkNullifier).mockResolvedValueOnce(false);
+    expect(await verifier.verify(input)).toBe(true);
+
+    vi.mocked(checkNullifier).mockResolvedValueOnce(true);
+    expect(await verifier.verify(input)).toBe(false);
+    expect(verifyPassportProof).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check nullifiers of the program it verifies', async () => {
+    const verifyPassportProof = vi.fn().mockResolvedValue(true);
+    vi.mocked(getAleoSDKVerifier).mockReturnValue({ verifyPassportProof } as any);
+    vi.mocked(checkNullifier).mockResolvedValue(false);
+    const verifier = new PassportProofVerifier('other_passport.aleo');
+
+    expect(await verifier.verify({ proof: 'execution-json', nullifier: NULLIFIER, appId: APP, minScore: 40 })).toBe(true);
+    expect(await verifier.checkNullifierUniqueness(NULLIFIER)).toBe(true);
+    expect(vi.mocked(checkNullifier).mock.calls).toEqual([
+      [NULLIFIER, 'other_passport.aleo'],
+      [NULLIFIER, 'other_passport.aleo'],
+    ]);
+  });
+});
@@ -96,7 +96,7 @@ export const generateRandomNonce = (): string => {
         val = (val << BigInt(8)) | BigInt(randomBytes[i]);
     }
     
-    // Return as u128 format (or field if needed, but u128 is safer for nonces)
-    return val.toString() + "u128";
+    // Field literal: claim_points(private nonce: field)
+    return val.toString() + "field";
 };
 
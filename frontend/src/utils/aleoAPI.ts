@@ -79,10 +79,11 @@ function parseStructResponse(response: string): Record<string, any> {
 // NOTE: get_stamp_metadata / get_stamp do not exist in our program; use getMappingValue instead.
 async function callViewFunction(
     functionName: string,
-    inputs: any[]
+    inputs: any[],
+    programId: string = PROGRAM_ID
 ): Promise<any> {
     try {
-        const rpcUrl = `${PROVABLE_TESTNET_RPC}/program/${PROGRAM_ID}/execute/${functionName}`;
+        const rpcUrl = `${PROVABLE_TESTNET_RPC}/program/${programId}/execute/${functionName}`;
         
         const formattedInputs = inputs.map(input => {
             if (typeof input === 'string' && input.startsWith('aleo1')) {
@@ -175,6 +176,7 @@ export const getStampPublic = async (stampId: number): Promise<PublicStamp | nul
         // For now, return basic info
         return {
             stamp_id: parsed.stamp_id || stampId,
+            platform_id: parsed.platform_id || 0,
             name: fieldToString(parsed.name || "0field"), // Decrypt in future
             description: fieldToString(parsed.description || "0field"),
             category: fieldToString(parsed.category || "0field"),
@@ -275,9 +277,9 @@ export const getAllStamps = async (): Promise<PublicStamp[]> => {
 // Public queries of user stamps would violate privacy model.
 
 // Check nullifier - PUBLIC function to prevent replay attacks
-export const checkNullifier = async (nullifier: string): Promise<boolean> => {
+export const checkNullifier = async (nullifier: string, programId: string = PROGRAM_ID): Promise<boolean> => {
             try {
-        const result = await callViewFunction("check_nullifier", [nullifier]);
+        const result = await callViewFunction("check_nullifier", [nullifier], programId);
         
         if (!result || result.output === undefined) {
             return false;
@@ -290,6 +292,32 @@ export const checkNullifier = async (nullifier: string): Promise<boolean> => {
         }
 };
 
+export interface NullifierRecord {
+    nullifier: string;
+    app_id: string;
+    used_at: number;
+}
+
+// Read nullifier entry recorded by finalize_prove_access (public mapping "nullifiers")
+export const getNullifierRecord = async (nullifier: string, programId: string = PROGRAM_ID): Promise<NullifierRecord | null> => {
+    try {
+        const key = nullifier.endsWith('field') ? nullifier : `${nullifier}field`;
+        const raw = await getMappingValue(programId, "nullifiers", key);
+        if (!raw || typeof raw !== 'string') return null;
+
+        const parsed = parseStructResponse(raw);
+        if (!parsed.nullifier || parsed.nullifier === '0') return null;
+
+        return {
+            nullifier: `${parsed.nullifier}field`,
+            app_id: `${parsed.app_id}field`,
+            used_at: typeof parsed.used_at === 'number' ? parsed.used_at : 0,
+        };
+    } catch {
+        return null;
+    }
+};
+
 // NOTE: Tasks removed from ZK system
 // Task verification happens off-chain before stamp issuance.
 // Only stamp issuance is on-chain (as private records).
@@ -303,6 +331,7 @@ export const checkNullifier = async (nullifier: string): Promise<boolean> => {
 // - getAllStamps() - All stamp metadata
 // - checkAdminStatus() - Admin permissions (authorization is public)
 // - checkNullifier() - Replay attack prevention
+// - getNullifierRecord() - Recorded nullifier (app_id) for tx-based verification
 //
 // REMOVED (Privacy Violations):
 // - getPassportPublic() - Passports are private records
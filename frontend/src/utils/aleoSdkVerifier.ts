@@ -1,78 +1,168 @@
 // Aleo SDK verifier for mathematical proof verification
 
+import type { FunctionExecution, Program, VerifyingKey } from "@provablehq/sdk";
+import { deriveAppId, deriveChallengeField } from "../lib/commitments";
+import { encodePlatformPredicates } from "../lib/predicates";
 import { PassportVerificationInput } from "../types/proofRequest";
+import { parseProveAccessTransition } from "./proofExtractor";
+
+// Provable API host (the SDK appends the network, e.g. /testnet)
+const PROVABLE_API_HOST = "https://api.explorer.provable.com/v1";
+const PROVE_ACCESS_FUNCTION = "prove_access";
+
+type AleoSDK = typeof import("@provablehq/sdk");
 
 /**
- * Aleo SDK verifier interface
+ * Verifying material for prove_access, loaded once per program
  */
-interface AleoVerifier {
-    verifyProof(params: {
-        programId: string;
-        function: string;
-        proof: string;
-        publicInputs: string[];
-    }): Promise<boolean>;
+interface ProveAccessVerifyingContext {
+    program: Program;
+    verifyingKey: VerifyingKey;
 }
 
 /**
  * Proof verifier using Aleo SDK
+ *
+ * The proof is the serialized execution returned by the wallet (transitions + batch proof).
+ * Verification runs locally in WASM against the verifying key published in the
+ * program's deployment transaction - no transaction is submitted.
  */
 export class AleoSDKVerifier {
-    private verifier: AleoVerifier | null = null;
+    private sdk: AleoSDK | null = null;
     private programId: string;
+    private ready: Promise<void>;
+    private verifyingContext: Promise<ProveAccessVerifyingContext> | null = null;
 
     constructor(programId: string) {
         this.programId = programId;
-        this.initializeVerifier();
+        this.ready = this.initializeVerifier();
     }
 
     /**
      * Initialize Aleo SDK verifier
+     *
+     * The SDK is imported lazily so the WASM bundle is only loaded by verifiers.
      */
     private async initializeVerifier(): Promise<void> {
         try {
-            // TODO: Initialize Aleo SDK when available
-            /*
-            import { Aleo } from "@aleo/sdk";
-            const aleo = new Aleo({
-                network: "testnetbeta",
-            });
-            this.verifier = aleo.verifier();
-            */
-            
-            console.warn("[AleoSDKVerifier] TODO: Initialize with actual Aleo SDK");
-            this.verifier = null;
+            const sdk = await import("@provablehq/sdk");
+            await sdk.initializeWasm();
+            this.sdk = sdk;
         } catch (error) {
             console.error("[AleoSDKVerifier] Failed to initialize:", error);
-            this.verifier = null;
+            this.sdk = null;
+        }
+    }
+
+    /**
+     * Load program and prove_access verifying key from the deployment transaction
+     */
+    private loadVerifyingContext(sdk: AleoSDK): Promise<ProveAccessVerifyingContext> {
+        if (!this.verifyingContext) {
+            this.verifyingContext = (async () => {
+                const networkClient = new sdk.AleoNetworkClient(PROVABLE_API_HOST);
+                const [program, deploymentTx] = await Promise.all([
+                    networkClient.getProgramObject(this.programId),
+                    networkClient.getDeploymentTransactionForProgram(this.programId),
+                ]);
+
+                // verifying_keys: [[function_name, [verifying_key, certificate]], ...]
+                const verifyingKeys = (deploymentTx.deployment?.verifying_keys ?? []) as unknown as [string, [string, string]][];
+                const entry = verifyingKeys.find(([functionName]) => functionName === PROVE_ACCESS_FUNCTION);
+                if (!entry) {
+                    throw new Error(`Verifying key for ${PROVE_ACCESS_FUNCTION} not found in ${this.programId} deployment`);
+                }
+
+                return {
+                    program,
+                    verifyingKey: sdk.VerifyingKey.fromString(entry[1][0]),
+                };
+            })();
+
+            // Allow a retry on the next call if the network request failed
+            this.verifyingContext.catch(() => {
+                this.verifyingContext = null;
+            });
         }
+        return this.verifyingContext;
     }
 
     /**
      * Verify zero-knowledge proof mathematically
-     * 
-     * @param proof - Zero-knowledge proof string
-     * @param publicInputs - Public inputs from prove_access
+     *
+     * Throws if the SDK or verifying key cannot be loaded (caller decides on fallback).
+     *
+     * @param proof - Serialized prove_access execution
+     * @param publicInputs - Public values of prove_access:
+     *   [nullifier, valid, app_id, min_score, challenge, platform_mask_a, min_platform_stamps_a, platform_mask_b, min_platform_stamps_b]
+     *   min_score is the required minimum; the proof may be for a higher one
      * @returns true if proof is valid, false otherwise
      */
     async verifyProof(
         proof: string,
         publicInputs: string[]
     ): Promise<boolean> {
-        if (!this.verifier) {
-            console.error("[AleoSDKVerifier] Verifier not initialized");
-            return false;
+        await this.ready;
+        const sdk = this.sdk;
+        if (!sdk) {
+            throw new Error("Aleo SDK verifier not initialized");
         }
 
+        const { program, verifyingKey } = await this.loadVerifyingContext(sdk);
+
+        let execution: FunctionExecution;
         try {
-            console.warn("[AleoSDKVerifier] TODO: Use actual Aleo SDK for verification");
+            execution = sdk.FunctionExecution.fromString(proof);
+        } catch (error) {
+            console.error("[AleoSDKVerifier] Proof is not a valid execution:", error);
             return false;
+        }
+
+        try {
+            if (!this.matchesPublicInputs(execution, publicInputs)) {
+                console.warn("[AleoSDKVerifier] Public inputs do not match proof");
+                return false;
+            }
+
+            const networkClient = new sdk.AleoNetworkClient(PROVABLE_API_HOST);
+            const blockHeight = await networkClient.getLatestHeight();
+
+            return sdk.verifyFunctionExecution(
+                execution,
+                verifyingKey,
+                program,
+                PROVE_ACCESS_FUNCTION,
+                null,
+                null,
+                blockHeight
+            );
         } catch (error) {
             console.error("[AleoSDKVerifier] Proof verification failed:", error);
             return false;
         }
     }
 
+    /**
+     * Check that the prove_access transition in the execution carries the expected public values
+     */
+    private matchesPublicInputs(execution: FunctionExecution, publicInputs: string[]): boolean {
+        const [nullifier, valid, appId, minScore, challenge, ...predicates] = publicInputs;
+        const transitions: unknown[] = JSON.parse(execution.toString()).transitions ?? [];
+        const decoded = transitions
+            .map(transition => parseProveAccessTransition(transition, this.programId))
+            .find(Boolean);
+        if (!decoded) return false;
+
+        // The validity output is only visible if declared public; the transition asserts it either way
+        return decoded.appId === withSuffix(appId, "field")
+            // A proof for a higher min_score also satisfies a lower requirement (as in verifyWithTransaction)
+            && decoded.minScore >= parseInt(minScore, 10)
+            && decoded.challenge === withSuffix(challenge, "field")
+            && decoded.platformPredicates.every((input, i) => input === predicates[i])
+            && decoded.nullifier === withSuffix(nullifier, "field")
+            && (decoded.valid === undefined || String(decoded.valid) === valid);
+    }
+
     /**
      * Verify passport proof with full context
      */
@@ -83,12 +173,16 @@ export class AleoSDKVerifier {
         // 2. valid (output - true)
         // 3. app_id (input)
         // 4. min_score (input)
-        
+        // 5. challenge (input, 0field if none)
+        // 6-9. platform predicates (inputs, 0u64/0u32 if none)
+
         const publicInputs = [
-            input.nullifier,           // Public output from prove_access
-            "true",                    // Valid boolean (always true if proof succeeds)
-            input.appId,               // Public input (app_id)
-            input.minScore.toString(), // Public input (min_score)
+            input.nullifier,                                // Public output from prove_access
+            "true",                                         // Valid boolean (always true if proof succeeds)
+            await deriveAppId(input.appId),                 // Public input (app_id)
+            input.minScore.toString(),                      // Public input (min_score)
+            await deriveChallengeField(input.challenge),    // Public input (challenge)
+            ...encodePlatformPredicates(input.predicates),  // Public inputs (platform predicates)
         ];
 
         return this.verifyProof(input.proof, publicInputs);
@@ -96,18 +190,25 @@ export class AleoSDKVerifier {
 }
 
 /**
- * Initialize Aleo SDK verifier (singleton)
+ * Append Aleo type suffix if missing (e.g. "50" -> "50u64")
+ */
+function withSuffix(value: string, suffix: string): string {
+    return value.endsWith(suffix) ? value : `${value}${suffix}`;
+}
+
+/**
+ * Aleo SDK verifier instances (one per program, verifying keys are cached per instance)
  */
-let aleoSdkVerifierInstance: AleoSDKVerifier | null = null;
+const aleoSdkVerifierInstances = new Map<string, AleoSDKVerifier>();
 
 /**
  * Get Aleo SDK verifier instance
  */
 export function getAleoSDKVerifier(programId: string): AleoSDKVerifier {
-    if (!aleoSdkVerifierInstance) {
-        aleoSdkVerifierInstance = new AleoSDKVerifier(programId);
+    let instance = aleoSdkVerifierInstances.get(programId);
+    if (!instance) {
+        instance = new AleoSDKVerifier(programId);
+        aleoSdkVerifierInstances.set(programId, instance);
     }
-    return aleoSdkVerifierInstance;
+    return instance;
 }
-
-
@@ -1,25 +1,16 @@
 // Backend API client for verification system
-// Backend URL: uses production URL from .env or fallback to localhost
-// For production: set VITE_BACKEND_URL in .env.production or .env
-const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+// Requests go through the typed client generated from the backend's OpenAPI document (backendClient.ts)
 
-export interface VerificationSession {
-  provider: string;
-  status: 'in_progress' | 'verified' | 'failed';
-  result?: VerificationResult;
-}
+import type {
+  EncryptedSyncState,
+  UserVerificationsResponse,
+  VerificationResult,
+  VerificationSession
+} from '@zkpersona/api-contract';
+import { BACKEND_URL, backendClient, type AuthProvider } from './backendClient';
 
-export interface VerificationResult {
-  verified: boolean;
-  provider: string;
-  userId?: string;
-  username?: string;
-  score: number;
-  criteria: Array<{ condition?: string; points: number; description?: string }>;
-  metadataHash?: string;
-  maxScore: number;
-  commitment?: string;
-}
+// Request and response types are shared with the backend (api-contract/)
+export type { Attestation, EncryptedSyncState, VerificationResult, VerificationSession } from '@zkpersona/api-contract';
 
 /**
  * Check if backend server is accessible
@@ -29,8 +20,7 @@ const checkBackendAvailability = async (): Promise<boolean> => {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
     
-    const response = await fetch(`${BACKEND_URL}/health`, {
-      method: 'GET',
+    const { response } = await backendClient.GET('/health', {
       signal: controller.signal,
       cache: 'no-cache'
     });
@@ -237,45 +227,39 @@ export const verifyWallet = async (
   console.log(`[API] Verifying ${type} wallet: ${address}`);
   
   try {
-    const response = await fetch(`${BACKEND_URL}/verify/wallet`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
+    const { data: result, error, response } = await backendClient.POST('/verify/wallet', {
+      body: {
         type,
         address,
         signature,
         message,
         walletId
-      })
+      }
     });
 
-    if (!response.ok) {
-      const error = await response.json();
+    if (!result) {
       const errorDetails = {
         walletType: type,
         walletAddress: address,
         walletId,
         httpStatus: response.status,
         httpStatusText: response.statusText,
-        reason: error.error || 'Failed to verify wallet',
+        reason: error?.error || 'Failed to verify wallet',
         errorResponse: error,
         backendUrl: BACKEND_URL
       };
-      console.error(`[API] Wallet verification failed for ${type}. Reason: ${error.error || 'Failed to verify wallet'}`, errorDetails);
-      throw new Error(error.error || 'Failed to verify wallet');
+      console.error(`[API] Wallet verification failed for ${type}. Reason: ${error?.error || 'Failed to verify wallet'}`, errorDetails);
+      throw new Error(error?.error || 'Failed to verify wallet');
     }
 
-    const result = await response.json();
-    console.log(`[API] Successfully verified ${type} wallet. Score: ${result.score}, Commitment: ${result.commitment || 'N/A'}`);
+    console.log(`[API] Successfully verified ${type} wallet. Score: ${result.score}, Commitment: ${result.commitment}`);
     return {
-      verified: true,
       provider: type === 'evm' ? 'ethereum' : 'solana',
       score: result.score,
-      criteria: result.criteria || [],
-      maxScore: result.maxScore || result.score,
-      commitment: result.commitment || ''
+      criteria: result.criteria,
+      maxScore: result.maxScore,
+      commitment: result.commitment,
+      attestation: result.attestation
     };
   } catch (error: any) {
     // Handle network errors (ERR_CONNECTION_REFUSED, etc.)
@@ -318,20 +302,17 @@ export const verifyWallet = async (
 };
 
 /**
- * Get verification status from backend
+ * Get verification status of a popup session from backend (null if unknown or unreachable)
  */
-export const getVerificationStatus = async (sessionId: string, provider?: string): Promise<VerificationSession | null> => {
+export const getVerificationStatus = async (sessionId: string, provider: string): Promise<VerificationSession | null> => {
   try {
-    // Use provider-specific endpoint if provider is known
-    const endpoint = provider 
-      ? `${BACKEND_URL}/auth/${provider}/status?session=${encodeURIComponent(sessionId)}`
-      : `${BACKEND_URL}/verify/status?session=${encodeURIComponent(sessionId)}`;
-    
-    const response = await fetch(endpoint);
-    if (!response.ok) {
-      return null;
-    }
-    return await response.json();
+    const { data } = await backendClient.GET('/auth/{provider}/status', {
+      params: {
+        path: { provider: provider as AuthProvider },
+        query: { session: sessionId }
+      }
+    });
+    return data ?? null;
   } catch (error) {
     return null;
   }
@@ -339,47 +320,28 @@ export const getVerificationStatus = async (sessionId: string, provider?: string
 
 // Legacy functions removed - use verifyWallet instead
 
-/**
- * Get user profile (Discord, etc.)
- */
-export const getUserProfile = async (userId: string): Promise<any | null> => {
-  try {
-    const response = await fetch(`${BACKEND_URL}/user/${encodeURIComponent(userId)}/profile`);
-    if (!response.ok) {
-      if (response.status === 404) {
-        return null;
-      }
-      throw new Error(`Failed to fetch profile: ${response.status}`);
-    }
-    const data = await response.json();
-    return data.profile;
-  } catch (error) {
-    return null;
-  }
-};
-
 /**
  * Get all verifications for a user from backend
  */
-export const getUserVerifications = async (userId: string): Promise<any[]> => {
+export const getUserVerifications = async (userId: string): Promise<UserVerificationsResponse['verifications']> => {
   try {
     // Create AbortController for timeout (more compatible than AbortSignal.timeout)
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 5000);
     
-    const response = await fetch(`${BACKEND_URL}/user/${encodeURIComponent(userId)}/verifications`, {
+    const { data, response } = await backendClient.GET('/user/{id}/verifications', {
+      params: { path: { id: userId } },
       signal: controller.signal
     });
     
     clearTimeout(timeoutId);
-    if (!response.ok) {
+    if (!data) {
       if (response.status === 404) {
         return [];
       }
       throw new Error(`Failed to fetch verifications: ${response.status}`);
     }
-    const data = await response.json();
-    return data.verifications || [];
+    return data.verifications;
   } catch (error: any) {
     // Silently handle all errors (backend might not be running, timeout, etc.)
     if (error.name === 'AbortError') {
@@ -395,21 +357,62 @@ export const getUserVerifications = async (userId: string): Promise<any[]> => {
  */
 export const deleteUserVerification = async (userId: string, provider: string): Promise<boolean> => {
   try {
-    const response = await fetch(`${BACKEND_URL}/user/${encodeURIComponent(userId)}/verifications/${encodeURIComponent(provider)}`, {
-      method: 'DELETE'
+    const { data, response } = await backendClient.DELETE('/user/{id}/verifications/{provider}', {
+      params: { path: { id: userId, provider } }
     });
     
-    if (!response.ok) {
+    if (!data) {
       if (response.status === 404) {
         return false;
       }
       throw new Error(`Failed to delete verification: ${response.status}`);
     }
     
-    const data = await response.json();
     return data.deleted === true;
   } catch (error) {
     throw error;
   }
 };
 
+
+/**
+ * Get the encrypted sync state of a sync ID (null if none stored yet)
+ */
+export const getSyncState = async (syncId: string): Promise<EncryptedSyncState | null> => {
+  const { data, response } = await backendClient.GET('/user/{id}/verifications/sync', {
+    params: { path: { id: syncId } }
+  });
+  if (!data) {
+    if (response.status === 404) {
+      return null;
+    }
+    throw new Error(`Failed to fetch sync state: ${response.status}`);
+  }
+  return { blob: data.blob, updatedAt: data.updatedAt };
+};
+
+/**
+ * Store the encrypted sync state of a sync ID
+ *
+ * @param previousUpdatedAt - updatedAt of the state the client merged with (null if none)
+ * @returns false if another device stored a newer state in between (pull and merge again)
+ */
+export const putSyncState = async (
+  syncId: string,
+  state: EncryptedSyncState,
+  previousUpdatedAt: number | null,
+  writeToken: string
+): Promise<boolean> => {
+  const { response } = await backendClient.PUT('/user/{id}/verifications/sync', {
+    params: { path: { id: syncId } },
+    body: { ...state, previousUpdatedAt, writeToken }
+  });
+
+  if (response.status === 409) {
+    return false;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to store sync state: ${response.status}`);
+  }
+  return true;
+};
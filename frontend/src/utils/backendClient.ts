@@ -0,0 +1,16 @@
+// Typed backend client, generated from the backend's OpenAPI document (GET /openapi.json)
+// Paths, parameters, bodies and responses come from backendSchema.ts; regenerate it with
+// `npm run generate:api` after `npm run openapi` in backend/.
+
+import createClient from 'openapi-fetch';
+import type { paths } from './backendSchema';
+
+// For production: set VITE_BACKEND_URL in .env.production or .env
+export const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+export const backendClient = createClient<paths>({ baseUrl: BACKEND_URL });
+
+/**
+ * Providers with a popup verification flow under /auth
+ */
+export type AuthProvider = paths['/auth/{provider}/status']['get']['parameters']['path']['provider'];
@@ -14,6 +14,7 @@ export interface TransactionData {
     program?: string;
     function?: string;
     functionName?: string; // Original function name from contract (e.g., "claim_social_stamp", "claim_point")
+    fee?: number;          // Fee in microcredits (if the explorer returns it)
 }
 
 /**
@@ -27,7 +28,7 @@ export interface TransactionData {
 const FUNCTION_NAME_MAP: Record<string, string> = {
     // User functions
     'claim_points': 'Claim points',
-    'aggregate_stamps': 'Aggregate Stamps',
+    'add_stamp': 'Add Stamp',
     'prove_access': 'Prove Access',
     'claim_verification': 'Claim Points',
     'claim_social_stamp': 'Connect Social Network',
@@ -147,6 +148,30 @@ function extractFunctionName(tx: any): string {
     return '';
 }
 
+/**
+ * Extract the fee (microcredits) of a transaction
+ * 
+ * Uses a numeric fee field if the explorer has one, otherwise the public inputs of the
+ * fee transition (credits.aleo/fee_public: base fee, priority fee). Private fees are
+ * encrypted and return undefined.
+ */
+export function extractFee(tx: any): number | undefined {
+    const data = tx?.transaction ?? tx;
+    if (typeof data?.fee === 'number') {
+        return data.fee;
+    }
+
+    const inputs = data?.fee?.transition?.inputs;
+    if (!Array.isArray(inputs)) {
+        return undefined;
+    }
+    const amounts = inputs
+        .filter((input: any) => input?.type === 'public' && /^\d+u64$/.test(String(input.value)))
+        .slice(0, 2)
+        .map((input: any) => parseInt(String(input.value), 10));
+    return amounts.length ? amounts.reduce((sum: number, amount: number) => sum + amount, 0) : undefined;
+}
+
 /**
  * Format function name for display (snake_case to Title Case)
  */
@@ -231,6 +256,7 @@ export const fetchTransactionHistory = async (
                 program: programId,
                 function: functionName, // Original function name from contract (e.g., "claim_social_stamp", "claim_point", "claim_points")
                 functionName: functionName, // Alias for consistency - always contains original snake_case name
+                fee: extractFee(tx),
             };
         }).filter((tx: TransactionData) => tx.txId);
         
@@ -287,6 +313,63 @@ export const fetchTransactionDetails = async (
     }
 };
 
+/**
+ * Confirmed transaction as returned by /transaction/confirmed/{id}
+ * (only the fields we read; transitions are kept raw for proofExtractor)
+ */
+export interface ConfirmedTransaction {
+    status: string;  // "accepted" | "rejected" | "aborted"
+    type: string;
+    index?: number;
+    transaction?: {
+        id: string;
+        type: string;
+        execution?: {
+            transitions: any[];
+            proof: string;
+            global_state_root: string;
+        };
+    };
+    finalize?: any[];
+}
+
+// Fetch confirmed transaction (status + full execution) by ID
+export const fetchConfirmedTransaction = async (
+    txId: string,
+    network: string = "testnet"
+): Promise<ConfirmedTransaction | null> => {
+    try {
+        const explorerUrl = network === "testnet"
+            ? PROVABLE_TESTNET_API
+            : network === "testnet3"
+            ? EXPLORER_TESTNET3_URL
+            : `${EXPLORER_API_BASE}/${network}`;
+
+        const response = await fetch(
+            `${explorerUrl}/transaction/confirmed/${txId}`,
+            {
+                method: 'GET',
+                headers: {
+                    'Accept': 'application/json',
+                },
+            }
+        );
+
+        if (!response.ok) {
+            return null;
+        }
+
+        const data = await response.json();
+        if (!data || typeof data.status !== 'string') {
+            return null;
+        }
+        return data as ConfirmedTransaction;
+    } catch (error) {
+        console.error("[ExplorerAPI] Failed to fetch confirmed transaction:", error);
+        return null;
+    }
+};
+
 /** Try Provable testnet first, then Aleo testnet3. Use when tx network is uncertain. */
 export const fetchTransactionDetailsFromAnyExplorer = async (txId: string): Promise<TransactionData | null> => {
     const fromProvable = await fetchTransactionDetails(txId, "testnet");
@@ -351,6 +434,7 @@ export const fetchProgramExecutions = async (
                 program: programId,
                 function: extractedFunctionName, // Original function name from contract
                 functionName: extractedFunctionName, // Alias for consistency
+                fee: extractFee(exec),
             };
         }).filter((tx: TransactionData) => tx.txId);
         
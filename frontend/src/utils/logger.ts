@@ -38,6 +38,8 @@ const log = {
     transaction: {
         signing: () => 
             console.log(`[TX] ✍️  Signing transaction...`),
+        submitted: (requestId: string) =>
+            console.log(`[TX] 📤 Submitted: ${requestId} (waiting for confirmation)`),
         confirmed: (txId: string) => {
             console.log(`[TX] ✅ Confirmed: ${txId}`);
             if (!txId.startsWith("at")) {
@@ -1,10 +1,26 @@
 // Platform Cache for OAuth sessions
 // Following Gitcoin Passport pattern: platform-cache
+// Sessions are kept in the wallet's encrypted vault (lib/vault.ts)
+
+import { getVaultItem, setVaultItem } from '../lib/vault';
 
 export type CacheToken = string;
 
 export type CacheSession<T extends Record<string, string> = Record<string, string>> = T;
 
+/**
+ * Store (or remove, with null) a session in the vault
+ */
+const writeSession = (token: CacheToken, data: Record<string, string> | null): void => {
+  const sessions = { ...getVaultItem('oauthSessions') };
+  if (data) {
+    sessions[token] = data;
+  } else {
+    delete sessions[token];
+  }
+  setVaultItem('oauthSessions', sessions);
+};
+
 /**
  * Platform Session wrapper
  * Following Gitcoin Passport PlatformSession pattern
@@ -24,9 +40,7 @@ export class PlatformSession<T extends Record<string, string>> {
 
   async set(key: keyof T, value: T[keyof T]): Promise<void> {
     this.data[key] = value;
-    // Save to localStorage
-    const cacheKey = `oauth_session_${this.token}`;
-    localStorage.setItem(cacheKey, JSON.stringify(this.data));
+    writeSession(this.token, { ...this.data });
   }
 
   getData(): T {
@@ -51,9 +65,7 @@ class PlatformsDataCache {
     const cacheToken = token || this.generateToken();
     const sessionData: Record<string, string> = { initiated: 'true' };
     
-    // Save to localStorage
-    const cacheKey = `oauth_session_${cacheToken}`;
-    localStorage.setItem(cacheKey, JSON.stringify(sessionData));
+    writeSession(cacheToken, sessionData);
     
     // Set timeout (will be cleared/refreshed on access)
     this.setTimeOut(cacheToken, this.initialTimeout);
@@ -66,14 +78,13 @@ class PlatformsDataCache {
    * Following Gitcoin Passport loadCacheSession pattern
    */
   async loadSession<T extends Record<string, string>>(token: CacheToken): Promise<PlatformSession<T>> {
-    const cacheKey = `oauth_session_${token}`;
-    const cachedData = localStorage.getItem(cacheKey);
+    const cachedData = getVaultItem('oauthSessions')?.[token];
     
     if (!cachedData) {
       throw new Error('Cache session not found');
     }
 
-    const data = JSON.parse(cachedData) as T;
+    const data = { ...cachedData } as T;
     const session = new PlatformSession<T>(token, data);
 
     // Refresh timeout on access
@@ -87,8 +98,7 @@ class PlatformsDataCache {
    * Following Gitcoin Passport clearCacheSession pattern
    */
   async clearSession(token: CacheToken): Promise<void> {
-    const cacheKey = `oauth_session_${token}`;
-    localStorage.removeItem(cacheKey);
+    writeSession(token, null);
     
     // Clear timeout if exists
     const timeoutId = this.timeoutMap.get(token);
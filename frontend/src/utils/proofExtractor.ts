@@ -1,6 +1,9 @@
 // Proof extractor from transactions
 
-import { fetchTransactionDetailsFromAnyExplorer } from "./explorerAPI";
+import { PROGRAM_ID } from "../deployed_program";
+import { NO_CHALLENGE_FIELD } from "../lib/commitments";
+import { encodePlatformPredicates } from "../lib/predicates";
+import { ConfirmedTransaction, fetchConfirmedTransaction } from "./explorerAPI";
 
 /**
  * Transaction execution result from Aleo
@@ -11,34 +14,180 @@ export interface TransactionExecutionResult {
     transactionId: string;
 }
 
+/**
+ * Public values of a prove_access transition
+ */
+export interface ProveAccessTransition {
+    transitionId: string;
+    appId: string;       // public input app_id (field)
+    minScore: number;    // public input min_score (u64)
+    challenge: string;   // public input challenge (field, "0field" if none)
+    platformPredicates: string[];  // public inputs [platform_mask_a, min_platform_stamps_a, platform_mask_b, min_platform_stamps_b]
+    nullifier: string;   // first finalize argument (field)
+    valid?: boolean;     // only present if the output is public
+}
+
+/**
+ * Parse arguments of a future output value
+ *
+ * Format: "{ program_id: x.aleo, function_name: f, arguments: [ 1field, 2field ] }"
+ */
+export function parseFutureArguments(value: string): string[] {
+    const match = value.match(/arguments:\s*\[([\s\S]*?)\]/);
+    if (!match) return [];
+    return match[1]
+        .split(",")
+        .map(arg => arg.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Decode public inputs and outputs of a prove_access transition
+ *
+ * The private passport input is a ciphertext and is ignored.
+ * The nullifier output is private, but it is also passed to finalize, so it is
+ * read from the public future arguments.
+ *
+ * @param transition - Transition JSON from an execution
+ * @param programId - Expected program (default: deployed PROGRAM_ID)
+ * @returns Decoded values, or null if this is not a prove_access transition
+ */
+export function parseProveAccessTransition(
+    transition: any,
+    programId: string = PROGRAM_ID
+): ProveAccessTransition | null {
+    if (transition?.program !== programId || transition?.function !== "prove_access") {
+        return null;
+    }
+
+    const publicInputs: string[] = (transition.inputs ?? [])
+        .filter((input: any) => input?.type === "public")
+        .map((input: any) => String(input.value ?? ""));
+    const outputs: any[] = transition.outputs ?? [];
+    const future = outputs.find(output => output?.type === "future");
+    const futureArgs = future?.value ? parseFutureArguments(String(future.value)) : [];
+
+    // Programs deployed before challenges/predicates have fewer public inputs
+    const [appId, minScore, challenge = NO_CHALLENGE_FIELD, ...predicateInputs] = publicInputs;
+    const platformPredicates = predicateInputs.length ? predicateInputs : encodePlatformPredicates([]);
+    const nullifier = futureArgs[0];
+    if (!appId || !minScore || !nullifier) {
+        return null;
+    }
+
+    const validOutput = outputs.find(output =>
+        output?.type === "public" && (output.value === "true" || output.value === "false")
+    );
+
+    return {
+        transitionId: transition.id ?? "",
+        appId,
+        minScore: parseInt(minScore.replace("u64", ""), 10),
+        challenge,
+        platformPredicates,
+        nullifier,
+        valid: validOutput ? validOutput.value === "true" : undefined,
+    };
+}
+
+/**
+ * Proof extracted from a confirmed prove_access transaction
+ */
+export interface ExtractedTransactionProof extends TransactionExecutionResult {
+    nullifier: string;
+    appId: string;
+    minScore: number;
+    challenge: string;
+}
+
+/**
+ * Final status of a transaction that will never yield a proof
+ */
+export type FailedTransactionStatus = "rejected" | "aborted";
+
+/**
+ * Options for waiting on transaction confirmation
+ */
+export interface ExtractProofOptions {
+    programId?: string;
+    attempts?: number;     // Explorer lookups before giving up (default: 1)
+    intervalMs?: number;   // Delay between lookups (default: 3000)
+}
+
 /**
  * Extract proof and nullifier from transaction
  * 
+ * Parses execution -> transitions -> prove_access inputs/outputs of a confirmed transaction.
+ * The proof is the serialized execution (transitions + batch proof), which
+ * AleoSDKVerifier can verify without the chain.
+ * 
  * @param transactionId - Transaction ID from prove_access execution
- * @returns Proof and nullifier extracted from transaction
+ * @param options - Program ID and polling options
+ * @returns Extracted proof, or null if the transaction is not confirmed yet
+ * @throws Error if the transaction was rejected/aborted or has no prove_access transition
  */
 export async function extractProofFromTransaction(
-    transactionId: string
-): Promise<{ proof: string; nullifier: string } | null> {
-    try {
-        // Fetch transaction details from explorer
-        const txDetails = await fetchTransactionDetailsFromAnyExplorer(transactionId);
-        
-        if (!txDetails) {
-            console.error("[ProofExtractor] Transaction not found:", transactionId);
-            return null;
+    transactionId: string,
+    options: ExtractProofOptions = {}
+): Promise<ExtractedTransactionProof | null> {
+    const { programId = PROGRAM_ID, attempts = 1, intervalMs = 3000 } = options;
+
+    let confirmed: ConfirmedTransaction | null = null;
+    for (let attempt = 0; attempt < attempts && !confirmed; attempt++) {
+        if (attempt > 0) {
+            await new Promise(resolve => setTimeout(resolve, intervalMs));
         }
+        confirmed = await fetchConfirmedTransaction(transactionId);
+    }
 
-        console.warn("[ProofExtractor] TODO: Parse actual transaction structure");
-        
-        return {
-            proof: txDetails.txId || "",
-            nullifier: "",
-        };
-    } catch (error) {
-        console.error("[ProofExtractor] Error extracting proof:", error);
+    if (!confirmed) {
+        console.warn("[ProofExtractor] Transaction not confirmed yet:", transactionId);
         return null;
     }
+
+    return extractProofFromConfirmedTransaction(confirmed, programId);
+}
+
+/**
+ * Extract proof from an already fetched confirmed transaction
+ * 
+ * @param confirmed - Confirmed transaction JSON (/transaction/confirmed/{id})
+ * @param programId - Expected program (default: deployed PROGRAM_ID)
+ * @returns Extracted proof
+ * @throws Error if the transaction was rejected/aborted or has no prove_access transition
+ */
+export function extractProofFromConfirmedTransaction(
+    confirmed: ConfirmedTransaction,
+    programId: string = PROGRAM_ID
+): ExtractedTransactionProof {
+    const transactionId = confirmed.transaction?.id ?? "";
+
+    if (confirmed.status !== "accepted") {
+        const status: FailedTransactionStatus = confirmed.status === "rejected" ? "rejected" : "aborted";
+        throw new Error(`Transaction ${transactionId} was ${status}: prove_access did not finalize, no proof available`);
+    }
+
+    const execution = confirmed.transaction?.execution;
+    if (!execution?.transitions?.length) {
+        throw new Error(`Transaction ${transactionId} has no execution transitions`);
+    }
+
+    const proveAccess = execution.transitions
+        .map(transition => parseProveAccessTransition(transition, programId))
+        .find(Boolean);
+    if (!proveAccess) {
+        throw new Error(`Transaction ${transactionId} has no ${programId}/prove_access transition`);
+    }
+
+    return {
+        proof: JSON.stringify(execution),
+        publicOutputs: [proveAccess.nullifier, "true"],  // Same shape as wallet execution: [nullifier, valid]
+        transactionId,
+        nullifier: proveAccess.nullifier,
+        appId: proveAccess.appId,
+        minScore: proveAccess.minScore,
+        challenge: proveAccess.challenge,
+    };
 }
 
 /**
@@ -1,84 +1,101 @@
+/**
+ * Max stamps per platform in a passport (4-bit counters in Passport.platform_counts)
+ */
+export const MAX_STAMPS_PER_PLATFORM = 15;
+
+/**
+ * Highest stamp_id a passport can hold (1 bit per stamp_id in Passport.stamp_ids)
+ */
+export const MAX_STAMP_ID = 127;
+
 /**
  * Prepare stamps for aggregation
  * 
- * Since Leo doesn't support variable-size arrays in transitions,
- * aggregation is performed client-side before calling aggregate_stamps.
+ * Stamps are folded into the passport one at a time: each add_stamp call
+ * consumes one StampRecord and returns the updated passport, so any number
+ * of stamps counts towards the humanity score.
+ * 
+ * add_stamp counts each stamp_id once per passport, so further stamps with
+ * the same stamp_id are left out, as are stamp_ids past MAX_STAMP_ID and
+ * stamps beyond MAX_STAMPS_PER_PLATFORM for one platform.
  * 
  * @param stamps - Array of stamp records (variable size)
- * @param maxStamps - Maximum stamps to aggregate (default: 5)
- * @returns Array of exactly maxStamps stamps (padded with zeros if needed)
+ * @returns Valid stamps in add_stamp order (sorted by stamp_id)
  */
 export function prepareStampsForAggregation(
-    stamps: any[],  // StampRecord[] from wallet
-    maxStamps: number = 5
+    stamps: any[]  // StampRecord[] from wallet
 ): any[] {
     // Filter out zero/invalid stamps
     const validStamps = stamps.filter(stamp => 
         stamp && 
         stamp.stamp_id !== undefined && 
         stamp.stamp_id !== 0 &&
+        stamp.stamp_id <= MAX_STAMP_ID &&
         stamp.owner !== undefined
     );
 
     // Sort by stamp_id for deterministic ordering
     validStamps.sort((a, b) => a.stamp_id - b.stamp_id);
 
-    // Take first maxStamps stamps
-    const selectedStamps = validStamps.slice(0, maxStamps);
+    const added = new Set<number>();
+    const perPlatform = new Map<number, number>();
+    return validStamps.filter(stamp => {
+        if (added.has(stamp.stamp_id)) {
+            return false;
+        }
+        const platformId = Number(stamp.platform_id ?? 0);
+        const count = perPlatform.get(platformId) ?? 0;
+        if (count >= MAX_STAMPS_PER_PLATFORM) {
+            return false;
+        }
+        perPlatform.set(platformId, count + 1);
+        added.add(stamp.stamp_id);
+        return true;
+    });
+}
 
-    // Pad with zero stamps if needed
-    while (selectedStamps.length < maxStamps) {
-        selectedStamps.push({
-            owner: selectedStamps[0]?.owner || "",
-            stamp_id: 0,
-            points: 0,
-            issuer: "",
-            issued_at: 0,
-        });
-    }
+/**
+ * Max humanity score
+ */
+export const MAX_HUMANITY_SCORE = 100;
 
-    return selectedStamps;
+/**
+ * Humanity score of a passport (calculate_humanity_score in main.leo)
+ * 
+ * score = min(100, stamps*5 + points/100)
+ * 
+ * @param stampsCount - Stamps added to the passport
+ * @param totalPoints - Sum of their points
+ */
+export function calculateHumanityScore(stampsCount: number, totalPoints: number): number {
+    const stampScore = stampsCount * 5;
+    const pointsScore = Math.floor(totalPoints / 100);
+    return Math.min(MAX_HUMANITY_SCORE, stampScore + pointsScore);
 }
 
 /**
- * Prepare stamps for prove_access transition
+ * Humanity score with a weight (0-1) per stamp, e.g. its decay factor (lib/scoreDecay.ts)
  * 
- * Selects stamps that maximize score and pads with zeros if needed.
+ * score = min(100, floor(sum(w*5)) + floor(sum(w*points)/100))
+ * With every weight 1 this is calculateHumanityScore.
  * 
- * @param stamps - Array of stamp records
- * @param maxStamps - Maximum stamps (default: 5)
- * @returns Array of exactly maxStamps stamps (optimized for score)
+ * @param stamps - Stamps with points
+ * @param getWeight - Weight of a stamp
  */
-export function prepareStampsForProof(
+export function calculateWeightedHumanityScore(
     stamps: any[],
-    maxStamps: number = 5
-): any[] {
-    // Filter valid stamps
-    const validStamps = stamps.filter(stamp => 
-        stamp && 
-        stamp.stamp_id !== undefined && 
-        stamp.stamp_id !== 0 &&
-        stamp.owner !== undefined
-    );
-
-    // Sort by points (descending) to maximize score
-    validStamps.sort((a, b) => b.points - a.points);
-
-    // Take top maxStamps stamps
-    const selectedStamps = validStamps.slice(0, maxStamps);
-
-    // Pad with zero stamps if needed
-    while (selectedStamps.length < maxStamps) {
-        selectedStamps.push({
-            owner: selectedStamps[0]?.owner || "",
-            stamp_id: 0,
-            points: 0,
-            issuer: "",
-            issued_at: 0,
-        });
+    getWeight: (stamp: any) => number
+): number {
+    let stampScore = 0;
+    let totalPoints = 0;
+    for (const stamp of stamps) {
+        const weight = Math.min(1, Math.max(0, getWeight(stamp)));
+        stampScore += weight * 5;
+        totalPoints += weight * (stamp.points || 0);
     }
-
-    return selectedStamps;
+    // Round away float noise so weight 1 gives exactly calculateHumanityScore
+    const floor = (value: number) => Math.floor(Math.round(value * 1e6) / 1e6);
+    return Math.min(MAX_HUMANITY_SCORE, floor(stampScore) + floor(totalPoints / 100));
 }
 
 /**
@@ -86,11 +103,13 @@ export function prepareStampsForProof(
  * 
  * @param stamps - Array of stamp records
  * @param minScore - Minimum required score
+ * @param getWeight - Optional weight per stamp (decay mode, see lib/scoreDecay.ts)
  * @returns true if user can meet requirement
  */
 export function canMeetScoreRequirement(
     stamps: any[],
-    minScore: number
+    minScore: number,
+    getWeight?: (stamp: any) => number
 ): boolean {
     const validStamps = stamps.filter(stamp => 
         stamp && 
@@ -98,15 +117,14 @@ export function canMeetScoreRequirement(
         stamp.stamp_id !== 0
     );
 
+    if (getWeight) {
+        return calculateWeightedHumanityScore(validStamps, getWeight) >= minScore;
+    }
+
     const stampsCount = validStamps.length;
     const totalPoints = validStamps.reduce((sum, stamp) => sum + (stamp.points || 0), 0);
 
-    // Calculate score: min(100, stamps*5 + points/100)
-    const stampScore = stampsCount * 5;
-    const pointsScore = Math.floor(totalPoints / 100);
-    const score = Math.min(100, stampScore + pointsScore);
-
-    return score >= minScore;
+    return calculateHumanityScore(stampsCount, totalPoints) >= minScore;
 }
 
 
@@ -1,68 +1,27 @@
 // Verification providers configuration and API integration
 
+import { PLATFORM_LIST, PlatformAuthType } from '../lib/platforms';
+
 export interface VerificationProvider {
   id: string;
   name: string;
-  type: 'oauth' | 'api' | 'blockchain' | 'ai';
+  type: PlatformAuthType;
   authUrl?: string;
   scopes?: string[];
   apiDocs?: string;
 }
 
-export const VERIFICATION_PROVIDERS: Record<string, VerificationProvider> = {
-  google: {
-    id: 'google',
-    name: 'Google',
-    type: 'oauth',
-    authUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
-    scopes: ['openid', 'profile', 'email'],
-    apiDocs: 'https://developers.google.com/identity/protocols/oauth2'
-  },
-  twitter: {
-    id: 'twitter',
-    name: 'X (Twitter)',
-    type: 'oauth',
-    authUrl: 'https://twitter.com/i/oauth2/authorize',
-    scopes: ['tweet.read', 'users.read'],
-    apiDocs: 'https://developer.twitter.com/en/docs/twitter-api'
-  },
-  github: {
-    id: 'github',
-    name: 'GitHub',
-    type: 'oauth',
-    authUrl: 'https://github.com/login/oauth/authorize',
-    scopes: ['read:user', 'user:email', 'public_repo'],
-    apiDocs: 'https://docs.github.com/en/rest'
-  },
-  ethereum: {
-    id: 'ethereum',
-    name: 'Ethereum',
-    type: 'blockchain',
-    apiDocs: 'https://ethereum.org/en/developers/docs/'
-  },
-  gemini: {
-    id: 'gemini',
-    name: 'Gemini AI',
-    type: 'ai',
-    apiDocs: 'https://ai.google.dev/docs'
-  },
-  discord: {
-    id: 'discord',
-    name: 'Discord',
-    type: 'oauth',
-    authUrl: 'https://discord.com/api/oauth2/authorize',
-    scopes: ['identify', 'email', 'guilds'],
-    apiDocs: 'https://discord.com/developers/docs/topics/oauth2'
-  },
-  steam: {
-    id: 'steam',
-    name: 'Steam',
-    type: 'oauth',
-    authUrl: 'https://steamcommunity.com/openid/login',
-    scopes: [],
-    apiDocs: 'https://steamcommunity.com/dev'
-  }
-};
+// Derived from the platform registry (lib/platforms.ts)
+export const VERIFICATION_PROVIDERS: Record<string, VerificationProvider> = Object.fromEntries(
+  PLATFORM_LIST.map(platform => [platform.id, {
+    id: platform.id,
+    name: platform.name,
+    type: platform.authType,
+    authUrl: platform.authUrl,
+    scopes: platform.scopes,
+    apiDocs: platform.apiDocs
+  }])
+);
 
 export interface VerificationInstructions {
   provider: string;
@@ -1,9 +1,31 @@
 // ZK proof verifier for passports
 
 import { PROGRAM_ID } from "../deployed_program";
+import { isChallengeExpired, getChallengeExpiry } from "../lib/challenge";
+import { deriveAppId, deriveChallengeField } from "../lib/commitments";
+import { encodePlatformPredicates, PlatformPredicate } from "../lib/predicates";
 import { PassportVerificationInput } from "../types/proofRequest";
-import { checkNullifier } from "./aleoAPI";
+import { checkNullifier, getNullifierRecord } from "./aleoAPI";
 import { getAleoSDKVerifier } from "./aleoSdkVerifier";
+import { fetchConfirmedTransaction } from "./explorerAPI";
+import { parseProveAccessTransition } from "./proofExtractor";
+
+/**
+ * Challenges and transactions of successfully verified proofs (-> expiry in ms)
+ * 
+ * Shared by all verifier instances in this process. Backends running several
+ * processes must also store used challenges and transaction IDs in their session store.
+ */
+const usedChallenges = new Map<string, number>();
+const usedTransactions = new Set<string>();
+
+function markChallengeUsed(challenge: string): void {
+    const now = Date.now();
+    for (const [used, expiry] of usedChallenges) {
+        if (expiry <= now) usedChallenges.delete(used);
+    }
+    usedChallenges.set(challenge, getChallengeExpiry(challenge) ?? Number.POSITIVE_INFINITY);
+}
 
 /**
  * Passport proof verifier
@@ -22,15 +44,25 @@ export class PassportProofVerifier {
     /**
      * Verify passport proof
      * 
+     * Responses with a transactionId are verified against their on-chain prove_access
+     * transaction, whose finalize recorded the nullifier; replays are stopped by the
+     * challenge and by accepting each transaction once. Off-chain proofs are verified with
+     * the Aleo SDK and must carry a nullifier that is not recorded on-chain yet.
+     * 
      * @param input - Proof verification input
      * @returns true if proof is valid, false otherwise
      */
     async verify(input: PassportVerificationInput): Promise<boolean> {
         try {
-            const nullifierUsed = await checkNullifier(input.nullifier);
-            if (nullifierUsed) {
-                console.warn("[Verifier] Nullifier already used - possible replay attack");
-                return false;
+            if (input.challenge) {
+                if (isChallengeExpired(input.challenge)) {
+                    console.warn("[Verifier] Challenge expired");
+                    return false;
+                }
+                if (usedChallenges.has(input.challenge)) {
+                    console.warn("[Verifier] Challenge already used - possible replay attack");
+                    return false;
+                }
             }
 
             if (!input.proof || !input.nullifier) {
@@ -38,22 +70,42 @@ export class PassportProofVerifier {
                 return false;
             }
 
-            try {
-                const aleoVerifier = getAleoSDKVerifier(this.programId);
-                const proofValid = await aleoVerifier.verifyPassportProof(input);
-                
-                if (!proofValid) {
-                    console.warn("[Verifier] Proof verification failed");
+            if (input.transactionId) {
+                if (usedTransactions.has(input.transactionId)) {
+                    console.warn("[Verifier] Transaction already used - possible replay attack");
                     return false;
                 }
-            } catch (error) {
-                console.warn("[Verifier] Aleo SDK not available, using nullifier check only:", error);
-                
-                if (!input.transactionId) {
-                    console.error("[Verifier] No transactionId and Aleo SDK unavailable - cannot verify");
+                const txValid = await this.verifyWithTransaction(
+                    input.transactionId, input.appId, input.minScore, input.challenge, input.predicates, input.nullifier
+                );
+                if (!txValid) {
+                    return false;
+                }
+                usedTransactions.add(input.transactionId);
+            } else {
+                const nullifierUsed = await checkNullifier(input.nullifier, this.programId);
+                if (nullifierUsed) {
+                    console.warn("[Verifier] Nullifier already used - possible replay attack");
+                    return false;
+                }
+
+                try {
+                    const aleoVerifier = getAleoSDKVerifier(this.programId);
+                    const proofValid = await aleoVerifier.verifyPassportProof(input);
+
+                    if (!proofValid) {
+                        console.warn("[Verifier] Proof verification failed");
+                        return false;
+                    }
+                } catch (error) {
+                    console.error("[Verifier] Aleo SDK not available and no transactionId - cannot verify:", error);
                     return false;
                 }
             }
+
+            if (input.challenge) {
+                markChallengeUsed(input.challenge);
+            }
             return true;
 
         } catch (error) {
@@ -70,7 +122,7 @@ export class PassportProofVerifier {
      */
     async checkNullifierUniqueness(nullifier: string): Promise<boolean> {
         try {
-            const used = await checkNullifier(nullifier);
+            const used = await checkNullifier(nullifier, this.programId);
             return !used;  // Return true if NOT used (unique)
         } catch (error) {
             console.error("[Verifier] Error checking nullifier:", error);
@@ -79,12 +131,87 @@ export class PassportProofVerifier {
     }
 
     /**
-     * Verify proof and extract nullifier (if transaction-based)
+     * Verify proof from an on-chain prove_access transaction
+     * 
+     * The network already verified the execution proof when it accepted the transaction,
+     * so we check that it is the right transition with the right public inputs:
+     * 1. Transaction is confirmed and accepted (finalize ran)
+     * 2. It executed prove_access on this program
+     * 3. app_id, challenge and platform predicates match, min_score is at least the required score
+     * 4. Nullifier is recorded in the nullifiers mapping for this app_id (and is the one the user sent)
+     * 
+     * @param transactionId - On-chain transaction ID (at1...)
+     * @param appId - App identifier the dApp requested the proof for
+     * @param minScore - Minimum score the dApp requires
+     * @param challenge - Challenge the dApp issued (optional)
+     * @param predicates - Platform predicates the dApp requires (optional)
+     * @param nullifier - Nullifier the user sent with the proof (optional)
+     * @returns true if transaction proves access, false otherwise
      */
-    async verifyWithTransaction(transactionId: string, appId: string, minScore: number): Promise<boolean> {
+    async verifyWithTransaction(
+        transactionId: string,
+        appId: string,
+        minScore: number,
+        challenge?: string,
+        predicates?: PlatformPredicate[],
+        nullifier?: string
+    ): Promise<boolean> {
         try {
-            console.warn("[Verifier] TODO: Implement transaction-based verification");
-            return false;
+            const confirmed = await fetchConfirmedTransaction(transactionId);
+            if (!confirmed) {
+                console.warn("[Verifier] Transaction not found or not confirmed:", transactionId);
+                return false;
+            }
+
+            if (confirmed.status !== "accepted") {
+                console.warn(`[Verifier] Transaction ${confirmed.status}, finalize did not run`);
+                return false;
+            }
+
+            const transitions = confirmed.transaction?.execution?.transitions ?? [];
+            const proveAccess = transitions
+                .map(transition => parseProveAccessTransition(transition, this.programId))
+                .find(Boolean);
+            if (!proveAccess) {
+                console.warn(`[Verifier] Transaction did not execute ${this.programId}/prove_access`);
+                return false;
+            }
+
+            const expectedAppId = await deriveAppId(appId);
+            if (proveAccess.appId !== expectedAppId) {
+                console.warn("[Verifier] app_id mismatch - proof was generated for another app");
+                return false;
+            }
+
+            // A proof for a higher min_score also satisfies a lower requirement
+            if (proveAccess.minScore < minScore) {
+                console.warn("[Verifier] min_score in proof is below requirement");
+                return false;
+            }
+
+            if (proveAccess.challenge !== await deriveChallengeField(challenge)) {
+                console.warn("[Verifier] challenge mismatch - proof was generated for another session");
+                return false;
+            }
+
+            const expectedPredicates = encodePlatformPredicates(predicates);
+            if (!proveAccess.platformPredicates.every((input, i) => input === expectedPredicates[i])) {
+                console.warn("[Verifier] platform predicates mismatch");
+                return false;
+            }
+
+            if (nullifier !== undefined && nullifier !== proveAccess.nullifier) {
+                console.warn("[Verifier] Nullifier does not match the transaction");
+                return false;
+            }
+
+            const nullifierRecord = await getNullifierRecord(proveAccess.nullifier, this.programId);
+            if (!nullifierRecord || nullifierRecord.app_id !== expectedAppId) {
+                console.warn("[Verifier] Nullifier not recorded for this app");
+                return false;
+            }
+
+            return true;
         } catch (error) {
             console.error("[Verifier] Error verifying transaction:", error);
             return false;
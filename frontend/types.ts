@@ -1,4 +1,5 @@
 import React from 'react';
+import { PlatformKey } from './src/lib/platforms';
 
 export enum StampStatus {
   LOCKED = 'LOCKED',
@@ -15,7 +16,7 @@ export interface Stamp {
   icon: React.ReactNode;
   scoreWeight: number;
   status: StampStatus;
-  provider: 'google' | 'twitter' | 'ethereum' | 'gemini' | 'github' | 'discord' | 'telegram' | 'solana';
+  provider: PlatformKey;  // lib/platforms.ts
   // Aleo fields (optional, for mapping)
   stamp_id?: number;
   platform_id?: number; // u8 in contract; used for claim_social_stamp
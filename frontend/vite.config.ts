@@ -20,10 +20,12 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
           'src': path.resolve(__dirname, 'src'),
+          // Shared platform registry and scoring engine (runtime part of the API contract)
+          '@zkpersona/api-contract': path.resolve(__dirname, '../api-contract/src/index.js'),
         }
       },
       optimizeDeps: {
-        exclude: ['@demox-labs/aleo-wallet-adapter-leo'],
+        exclude: ['@demox-labs/aleo-wallet-adapter-leo', '@provablehq/sdk'],
       }
     };
 });
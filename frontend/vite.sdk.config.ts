@@ -0,0 +1,24 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Library build of the dApp SDK (src/sdk) for third-party dApps.
+// No React: the wallet adapter base, the Aleo SDK, tweetnacl and qrcode are peer dependencies.
+export default defineConfig({
+  resolve: {
+    // Bundled: the API contract package is not published
+    alias: {
+      '@zkpersona/api-contract': path.resolve(__dirname, '../api-contract/src/index.js'),
+    },
+  },
+  build: {
+    outDir: 'dist/sdk',
+    lib: {
+      entry: path.resolve(__dirname, 'src/sdk/index.ts'),
+      formats: ['es'],
+      fileName: 'index',
+    },
+    rollupOptions: {
+      external: ['@demox-labs/aleo-wallet-adapter-base', '@provablehq/sdk', 'tweetnacl', 'qrcode'],
+    },
+  },
+});
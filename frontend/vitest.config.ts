@@ -23,6 +23,7 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      '@zkpersona/api-contract': path.resolve(__dirname, '../api-contract/src/index.js'),
     },
   },
 });